@@ -0,0 +1,338 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Settings2 } from "lucide-react";
+import { STANDARD_PROFILES, getStandardProfile } from "@/utils/standards";
+import { AnalysisSettings, HPI_METHODS, HpiMethod, getHpiMethod } from "@/utils/analysisSettings";
+import { COHORTS, Cohort, ExposureParameters } from "@/utils/healthRisk";
+import { getAllSchemes, getClassificationScheme } from "@/utils/classification";
+import { SUBSTITUTION_POLICIES, SUMMARY_METHODS, SubstitutionPolicy, SummaryMethod, getSummaryMethod } from "@/utils/censoring";
+import { CONFIDENCE_LEVELS, UncertaintySettings } from "@/utils/uncertainty";
+import type { UncertaintyProgress } from "@/hooks/use-uncertainty";
+import { SchemeEditorDialog } from "./SchemeEditorDialog";
+
+const EXPOSURE_FIELDS: { key: keyof ExposureParameters; label: string; unit: string }[] = [
+  { key: 'bodyWeight', label: 'Body weight', unit: 'kg' },
+  { key: 'ingestionRate', label: 'Ingestion rate', unit: 'L/day' },
+  { key: 'exposureFrequency', label: 'Exposure frequency', unit: 'days/yr' },
+  { key: 'exposureDuration', label: 'Exposure duration', unit: 'yr' },
+  { key: 'skinSurfaceArea', label: 'Skin surface area', unit: 'cm²' },
+  { key: 'exposureTime', label: 'Exposure time', unit: 'h/day' },
+];
+
+interface NumberSettingProps {
+  id: string;
+  value: number;
+  min: number;
+  max?: number;
+  step: string;
+  integer?: boolean;
+  positive?: boolean;  // The minimum itself is not allowed
+  onCommit: (value: number) => void;
+}
+
+const formatSetting = (value: number) => String(Number(value.toPrecision(12)));
+
+const validateSetting = (text: string, { min, max, integer, positive }: Omit<NumberSettingProps, 'id' | 'value' | 'step' | 'onCommit'>) => {
+  const parsed = Number(text);
+  if (text.trim() === '' || !Number.isFinite(parsed)) return 'Enter a number';
+  if (integer && !Number.isInteger(parsed)) return 'Enter a whole number';
+  if (positive && parsed <= min) return `Must be greater than ${min}`;
+  if (parsed < min || (max !== undefined && parsed > max)) {
+    return max !== undefined ? `Must be between ${min} and ${max}` : `Must be at least ${min}`;
+  }
+  return undefined;
+};
+
+/**
+ * Numeric setting committed on blur. An invalid entry is flagged while typing and reverted to the value in use on blur,
+ * so the field never shows a number the analysis is not using.
+ */
+const NumberSetting = ({ id, value, step, onCommit, ...limits }: NumberSettingProps) => {
+  const [text, setText] = useState(formatSetting(value));
+  useEffect(() => setText(formatSetting(value)), [value]);
+  const error = validateSetting(text, limits);
+
+  return (
+    <>
+      <Input
+        id={id}
+        type="number"
+        min={limits.min}
+        max={limits.max}
+        step={step}
+        value={text}
+        aria-invalid={Boolean(error)}
+        className={error ? 'border-danger' : ''}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => {
+          if (error) setText(formatSetting(value));
+          else if (Number(text) !== Number(formatSetting(value))) onCommit(Number(text));
+        }}
+      />
+      {error && <p className="text-xs text-danger">{error}; {formatSetting(value)} is kept</p>}
+    </>
+  );
+};
+
+interface AnalysisSettingsPanelProps {
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+  simulationProgress?: UncertaintyProgress;  // Monte Carlo simulation still running
+}
+
+export const AnalysisSettingsPanel = ({ settings, onChange, simulationProgress }: AnalysisSettingsPanelProps) => {
+  const profile = getStandardProfile(settings.standardProfileId);
+  const hpiMethod = getHpiMethod(settings.hpiMethod);
+  const scheme = getClassificationScheme(settings.classificationSchemeId);
+  const summaryMethod = getSummaryMethod(settings.censoring.summaryMethod);
+
+  const updateExposure = (cohort: Cohort, key: keyof ExposureParameters, value: number) =>
+    onChange({
+      ...settings,
+      exposure: { ...settings.exposure, [cohort]: { ...settings.exposure[cohort], [key]: value } },
+    });
+
+  const updateUncertainty = (changes: Partial<UncertaintySettings>) =>
+    onChange({ ...settings, uncertainty: { ...settings.uncertainty, ...changes } });
+
+  // Percent inputs are stored as fractions
+  const updateUncertaintyPercent = (key: 'defaultRelativeUncertainty' | 'borderlineThreshold', value: number) =>
+    updateUncertainty({ [key]: value / 100 });
+
+  return (
+    <section id="analysis-settings" className="py-8 bg-background">
+      <div className="container mx-auto px-4">
+        <Card className="max-w-4xl mx-auto shadow-soft">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Settings2 className="h-5 w-5" />
+              Analysis Settings
+            </CardTitle>
+            <CardDescription>
+              Changing a setting recalculates all results for the uploaded data
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid md:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="standard-profile">Regulatory standard</Label>
+                <Select
+                  value={profile.id}
+                  onValueChange={(standardProfileId) => onChange({ ...settings, standardProfileId })}
+                >
+                  <SelectTrigger id="standard-profile">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STANDARD_PROFILES.map(p => (
+                      <SelectItem key={p.id} value={p.id}>{p.shortName} — {p.version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{profile.name} ({profile.authority})</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="hpi-method">HPI formulation</Label>
+                <Select
+                  value={hpiMethod.id}
+                  onValueChange={(value) => onChange({ ...settings, hpiMethod: value as HpiMethod })}
+                >
+                  <SelectTrigger id="hpi-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HPI_METHODS.map(m => (
+                      <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{hpiMethod.description}</p>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="classification-scheme">Classification scheme</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={scheme.id}
+                    onValueChange={(classificationSchemeId) => onChange({ ...settings, classificationSchemeId })}
+                  >
+                    <SelectTrigger id="classification-scheme">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getAllSchemes().map(s => (
+                        <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <SchemeEditorDialog
+                    template={scheme}
+                    onSaved={(saved) => onChange({ ...settings, classificationSchemeId: saved.id })}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">{scheme.description}</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="censoring-substitution">Non-detect substitution</Label>
+                <Select
+                  value={settings.censoring.substitution}
+                  onValueChange={(value) => onChange({
+                    ...settings,
+                    censoring: { ...settings.censoring, substitution: value as SubstitutionPolicy },
+                  })}
+                >
+                  <SelectTrigger id="censoring-substitution">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUBSTITUTION_POLICIES.map(p => (
+                      <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">Value used for below-detection-limit results in indices and health risk</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="censoring-summary">Non-detect summary statistics</Label>
+                <Select
+                  value={summaryMethod.id}
+                  onValueChange={(value) => onChange({
+                    ...settings,
+                    censoring: { ...settings.censoring, summaryMethod: value as SummaryMethod },
+                  })}
+                >
+                  <SelectTrigger id="censoring-summary">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUMMARY_METHODS.map(m => (
+                      <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{summaryMethod.description}</p>
+              </div>
+            </div>
+
+            <div className="mt-6">
+              <h4 className="font-medium mb-1">Health risk exposure parameters</h4>
+              <p className="text-xs text-muted-foreground mb-3">US EPA drinking-water ingestion and dermal pathways</p>
+              <div className="grid md:grid-cols-2 gap-6">
+                {COHORTS.map(cohort => (
+                  <div key={cohort.id} className="space-y-2">
+                    <p className="text-sm font-medium">{cohort.label}</p>
+                    <div className="grid grid-cols-2 gap-3">
+                      {EXPOSURE_FIELDS.map(field => (
+                        <div key={field.key} className="space-y-1">
+                          <Label htmlFor={`${cohort.id}-${field.key}`} className="text-xs text-muted-foreground">
+                            {field.label} ({field.unit})
+                          </Label>
+                          <NumberSetting
+                            id={`${cohort.id}-${field.key}`}
+                            min={0}
+                            positive
+                            step="any"
+                            value={settings.exposure[cohort.id][field.key]}
+                            onCommit={(value) => updateExposure(cohort.id, field.key, value)}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="mt-6">
+              <div className="flex items-center justify-between mb-1">
+                <h4 className="font-medium">Measurement uncertainty</h4>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="uncertainty-enabled" className="text-sm text-muted-foreground">Monte Carlo</Label>
+                  <Switch
+                    id="uncertainty-enabled"
+                    checked={settings.uncertainty.enabled}
+                    onCheckedChange={(enabled) => updateUncertainty({ enabled })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground mb-3">
+                Propagates the upload's uncertainty columns through the indices and health risk; samples without one use the default
+              </p>
+              {settings.uncertainty.enabled && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="uncertainty-iterations" className="text-xs text-muted-foreground">Iterations</Label>
+                    <NumberSetting
+                      id="uncertainty-iterations"
+                      min={100}
+                      max={20000}
+                      integer
+                      step="100"
+                      value={settings.uncertainty.iterations}
+                      onCommit={(iterations) => updateUncertainty({ iterations })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="uncertainty-default" className="text-xs text-muted-foreground">Default uncertainty (%)</Label>
+                    <NumberSetting
+                      id="uncertainty-default"
+                      min={0}
+                      max={100}
+                      step="any"
+                      value={settings.uncertainty.defaultRelativeUncertainty * 100}
+                      onCommit={(value) => updateUncertaintyPercent('defaultRelativeUncertainty', value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="uncertainty-confidence" className="text-xs text-muted-foreground">Confidence level</Label>
+                    <Select
+                      value={String(settings.uncertainty.confidenceLevel)}
+                      onValueChange={(value) => updateUncertainty({ confidenceLevel: Number(value) })}
+                    >
+                      <SelectTrigger id="uncertainty-confidence">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONFIDENCE_LEVELS.map(level => (
+                          <SelectItem key={level} value={String(level)}>{level * 100}%</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="uncertainty-borderline" className="text-xs text-muted-foreground">Borderline below (%)</Label>
+                    <NumberSetting
+                      id="uncertainty-borderline"
+                      min={0}
+                      max={100}
+                      step="any"
+                      value={settings.uncertainty.borderlineThreshold * 100}
+                      onCommit={(value) => updateUncertaintyPercent('borderlineThreshold', value)}
+                    />
+                  </div>
+                </div>
+              )}
+              {settings.uncertainty.enabled && simulationProgress && (
+                <div className="mt-3 space-y-1">
+                  <Progress value={100 * simulationProgress.done / simulationProgress.total} className="h-2" />
+                  <p className="text-xs text-muted-foreground">
+                    Simulating {simulationProgress.done} of {simulationProgress.total} samples; intervals are shown when
+                    all are done
+                  </p>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </section>
+  );
+};
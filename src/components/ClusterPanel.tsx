@@ -0,0 +1,244 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { Network } from "lucide-react";
+import { Dendrogram } from "@/components/Dendrogram";
+import { getMeasuredParameters, getParameter } from "@/utils/parameters";
+import { ClusterCut, ClusterLinkage, ClusterSettings, LINKAGE_METHODS, clusterLabel, getLinkageMethod } from "@/utils/clustering";
+import type { AnalysisSettings } from "@/utils/analysisSettings";
+import type { SampleResult } from "@/types/sample";
+
+interface ClusterPanelProps {
+  results: SampleResult[];
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+}
+
+// Choices of the cluster-count selector
+const CLUSTER_COUNTS = [2, 3, 4, 5, 6, 7, 8];
+
+export const ClusterPanel = ({ results, settings, onChange }: ClusterPanelProps) => {
+  const parameters = getMeasuredParameters(results ?? []);
+  if (parameters.length === 0 || results.length < 3) {
+    return null;
+  }
+
+  const updateClustering = (changes: Partial<ClusterSettings>) =>
+    onChange({ ...settings, clustering: { ...settings.clustering, ...changes } });
+
+  const toggleParameter = (key: string, included: boolean) =>
+    updateClustering({
+      excludedParameters: included
+        ? settings.clustering.excludedParameters.filter(excluded => excluded !== key)
+        : [...settings.clustering.excludedParameters, key],
+    });
+
+  const clustered = results.filter(r => r.cluster);
+  const model = clustered[0]?.cluster.model;
+
+  const profileData = model?.parameters.map(key => ({
+    parameter: getParameter(key)?.symbol ?? key,
+    ...Object.fromEntries(model.profiles.map((profile, id) => [clusterLabel(id), Number(profile.zMeans[key].toFixed(2))])),
+  }));
+
+  return (
+    <section id="clusters" className="py-16 bg-secondary/20">
+      <div className="container mx-auto px-4">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl font-bold mb-4 text-foreground font-scientific">Cluster Analysis</h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Agglomerative hierarchical clustering groups sampling sites with similar chemistry. Clusters can be shown on
+            the map and used to filter the results table.
+          </p>
+        </div>
+
+        <Card className="shadow-soft mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Network className="h-5 w-5" />
+              Clustering Options
+            </CardTitle>
+            <CardDescription>{getLinkageMethod(settings.clustering.linkage).description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-6">
+              <div className="space-y-1">
+                <Label htmlFor="cluster-linkage" className="text-xs text-muted-foreground">Linkage</Label>
+                <Select
+                  value={settings.clustering.linkage}
+                  onValueChange={(linkage) => updateClustering({ linkage: linkage as ClusterLinkage })}
+                >
+                  <SelectTrigger id="cluster-linkage" className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LINKAGE_METHODS.map(method => (
+                      <SelectItem key={method.id} value={method.id}>{method.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="cluster-cut" className="text-xs text-muted-foreground">Cut dendrogram by</Label>
+                <Select
+                  value={settings.clustering.cut}
+                  onValueChange={(cut) => updateClustering({ cut: cut as ClusterCut })}
+                >
+                  <SelectTrigger id="cluster-cut" className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="count">Number of clusters</SelectItem>
+                    <SelectItem value="height">Linkage height</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {settings.clustering.cut === 'count' ? (
+                <div className="space-y-1">
+                  <Label htmlFor="cluster-count" className="text-xs text-muted-foreground">Clusters (k)</Label>
+                  <Select
+                    value={String(settings.clustering.clusters)}
+                    onValueChange={(clusters) => updateClustering({ clusters: Number(clusters) })}
+                  >
+                    <SelectTrigger id="cluster-count" className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CLUSTER_COUNTS.map(count => (
+                        <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <Label htmlFor="cluster-height" className="text-xs text-muted-foreground">Cut height</Label>
+                  <Input
+                    id="cluster-height"
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    className="w-28"
+                    value={settings.clustering.cutHeight}
+                    onChange={(e) => {
+                      const cutHeight = parseFloat(e.target.value);
+                      if (Number.isFinite(cutHeight) && cutHeight >= 0) updateClustering({ cutHeight });
+                    }}
+                  />
+                </div>
+              )}
+              <div className="flex items-center gap-2 h-10">
+                <Switch
+                  id="cluster-log"
+                  checked={settings.clustering.logTransform}
+                  onCheckedChange={(logTransform) => updateClustering({ logTransform })}
+                />
+                <Label htmlFor="cluster-log">Log-transform concentrations</Label>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {parameters.map(parameter => (
+                <div key={parameter.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`cluster-${parameter.key}`}
+                    checked={!settings.clustering.excludedParameters.includes(parameter.key)}
+                    onCheckedChange={(checked) => toggleParameter(parameter.key, checked === true)}
+                  />
+                  <Label htmlFor={`cluster-${parameter.key}`} className="text-sm" title={parameter.name}>{parameter.symbol}</Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Parameters measured in fewer than 80% of samples are left out; samples missing an included parameter are not clustered.
+            </p>
+          </CardContent>
+        </Card>
+
+        {!model ? (
+          <p className="text-sm text-muted-foreground text-center">
+            Clustering needs at least three complete samples and one varying parameter. Include more parameters or upload more samples.
+          </p>
+        ) : (
+          <>
+            <div className="mb-8">
+              <Dendrogram model={model} />
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-8">
+              <Card className="shadow-medium">
+                <CardHeader>
+                  <CardTitle>Cluster Profiles</CardTitle>
+                  <CardDescription>Mean z-score of each parameter per cluster; 0 is the dataset mean</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={320}>
+                    <BarChart data={profileData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="parameter" />
+                      <YAxis />
+                      <Tooltip />
+                      <Legend />
+                      <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                      {model.profiles.map((profile, id) => (
+                        <Bar key={id} dataKey={clusterLabel(id)} fill={profile.color} />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-medium">
+                <CardHeader>
+                  <CardTitle>Cluster Means</CardTitle>
+                  <CardDescription>
+                    Mean concentrations of {clustered.length} clustered samples
+                    {clustered.length < results.length && ` (${results.length - clustered.length} not clustered)`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Parameter</TableHead>
+                          {model.profiles.map((profile, id) => (
+                            <TableHead key={id} className="text-right" style={{ color: profile.color }}>
+                              {clusterLabel(id)} (n = {profile.size})
+                            </TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {model.parameters.map(key => {
+                          const parameter = getParameter(key);
+                          return (
+                            <TableRow key={key}>
+                              <TableCell className="font-medium whitespace-nowrap">
+                                {parameter?.name ?? key}
+                                {parameter?.unit && <span className="text-xs text-muted-foreground ml-1">({parameter.unit})</span>}
+                              </TableCell>
+                              {model.profiles.map((profile, id) => (
+                                <TableCell key={id} className="text-right font-mono">
+                                  {Number(profile.means[key].toPrecision(3))}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ColumnMapping,
+  FIELD_ROLES,
+  HIGH_CONFIDENCE,
+  LOW_CONFIDENCE,
+  MappingTemplate,
+  applyMappingTemplate,
+  createMappingTemplate,
+  deleteMappingTemplate,
+  findMappingTemplate,
+  getMappingErrors,
+  getMappingTarget,
+  loadMappingTemplates,
+  remapColumn,
+  saveMappingTemplate,
+} from "@/utils/columnMapping";
+import { PARAMETERS, getParameter } from "@/utils/parameters";
+import { ConcentrationUnit, getParameterUnits } from "@/utils/units";
+
+interface ColumnMappingWizardProps {
+  rows: Record<string, string>[];
+  mappings: ColumnMapping[];
+  onMappingsChange: (mappings: ColumnMapping[]) => void;
+  onConfirm: () => void;
+}
+
+// Distinct values shown for each column
+const EXAMPLE_VALUES = 3;
+
+const confidenceClass = (confidence: number) =>
+  confidence >= HIGH_CONFIDENCE ? 'text-safe' : confidence >= LOW_CONFIDENCE ? 'text-moderate' : 'text-danger';
+
+/**
+ * Review of the proposed column mapping before import: each column's role, unit and the confidence of the proposal,
+ * with templates saved per lab or data source
+ */
+export const ColumnMappingWizard = ({ rows, mappings, onMappingsChange, onConfirm }: ColumnMappingWizardProps) => {
+  const [templates, setTemplates] = useState<MappingTemplate[]>(loadMappingTemplates);
+  const [templateName, setTemplateName] = useState(
+    () => findMappingTemplate(mappings.map(m => m.header), templates)?.name ?? ''
+  );
+  const { toast } = useToast();
+  const errors = getMappingErrors(mappings);
+  const uncertain = mappings.filter(m => m.confidence < LOW_CONFIDENCE).length;
+
+  const updateColumn = (header: string, update: (mapping: ColumnMapping) => ColumnMapping) =>
+    onMappingsChange(mappings.map(m => m.header === header ? update(m) : m));
+
+  const examples = (header: string) =>
+    [...new Set(rows.map(row => String(row[header] ?? '').trim()).filter(value => value !== ''))].slice(0, EXAMPLE_VALUES);
+
+  const handleApplyTemplate = (name: string) => {
+    const template = templates.find(t => t.name === name);
+    if (!template) return;
+    setTemplateName(name);
+    onMappingsChange(applyMappingTemplate(mappings, template));
+  };
+
+  const handleSaveTemplate = () => {
+    const name = templateName.trim();
+    if (!name) return;
+    saveMappingTemplate(createMappingTemplate(name, mappings));
+    setTemplates(loadMappingTemplates());
+    toast({
+      title: "Mapping template saved",
+      description: `Files with the same columns will be mapped with "${name}"`,
+    });
+  };
+
+  const handleDeleteTemplate = () => {
+    deleteMappingTemplate(templateName.trim());
+    setTemplates(loadMappingTemplates());
+    setTemplateName('');
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-muted/50 rounded-lg space-y-4">
+      <div>
+        <h4 className="font-medium mb-1">Column mapping</h4>
+        <p className="text-xs text-muted-foreground">
+          Proposed from the headers and checked against the values. Change any column that is wrong; confidence below{' '}
+          {Math.round(LOW_CONFIDENCE * 100)}% needs checking.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="mapping-template" className="text-xs text-muted-foreground">Apply template</Label>
+          <Select
+            value={templates.some(t => t.name === templateName) ? templateName : ''}
+            onValueChange={handleApplyTemplate}
+            disabled={templates.length === 0}
+          >
+            <SelectTrigger id="mapping-template" className="w-52">
+              <SelectValue placeholder={templates.length ? 'Choose a template' : 'No saved templates'} />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map(t => (
+                <SelectItem key={t.name} value={t.name}>{t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="mapping-template-name" className="text-xs text-muted-foreground">Lab or source</Label>
+          <Input
+            id="mapping-template-name"
+            className="w-52"
+            placeholder="e.g. State lab, 2024 format"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={handleSaveTemplate} disabled={!templateName.trim()}>
+          <Save className="h-4 w-4 mr-2" />
+          Save as template
+        </Button>
+        {templates.some(t => t.name === templateName.trim()) && (
+          <Button variant="ghost" size="sm" onClick={handleDeleteTemplate}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete template
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Column</TableHead>
+              <TableHead>Example values</TableHead>
+              <TableHead>Maps to</TableHead>
+              <TableHead>Unit</TableHead>
+              <TableHead>Confidence</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {mappings.map(mapping => {
+              const parameter = mapping.parameter ? getParameter(mapping.parameter) : undefined;
+              const units = mapping.role === 'parameter' && parameter ? getParameterUnits(parameter) : [];
+              return (
+                <TableRow key={mapping.header} className={mapping.role === 'ignore' ? 'opacity-60' : ''}>
+                  <TableCell className="font-medium whitespace-nowrap">{mapping.header}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-[14rem] truncate">
+                    {examples(mapping.header).join(', ') || '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={getMappingTarget(mapping)}
+                      onValueChange={(target) => updateColumn(mapping.header, m => remapColumn(m, target))}
+                    >
+                      <SelectTrigger className="h-8 w-48" aria-label={`Field for ${mapping.header}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectGroup>
+                          <SelectLabel>Fields</SelectLabel>
+                          {FIELD_ROLES.map(role => (
+                            <SelectItem key={role.id} value={role.id}>{role.label}</SelectItem>
+                          ))}
+                        </SelectGroup>
+                        <SelectGroup>
+                          <SelectLabel>Parameters</SelectLabel>
+                          {PARAMETERS.map(p => (
+                            <SelectItem key={p.key} value={`parameter:${p.key}`}>{p.name} ({p.symbol})</SelectItem>
+                          ))}
+                        </SelectGroup>
+                        <SelectGroup>
+                          <SelectLabel>Uncertainties</SelectLabel>
+                          {PARAMETERS.map(p => (
+                            <SelectItem key={p.key} value={`uncertainty:${p.key}`}>{p.symbol} uncertainty</SelectItem>
+                          ))}
+                        </SelectGroup>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    {units.length > 0 ? (
+                      <Select
+                        value={mapping.unit}
+                        onValueChange={(unit) => updateColumn(mapping.header, m => ({
+                          ...m, unit: unit as ConcentrationUnit, confidence: 1, reason: 'Set manually',
+                        }))}
+                      >
+                        <SelectTrigger className="h-8 w-28" aria-label={`Unit of ${mapping.header}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {units.map(unit => (
+                            <SelectItem key={unit.id} value={unit.id}>{unit.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : mapping.role === 'uncertainty' ? (
+                      <Select
+                        value={mapping.relative ? 'relative' : 'absolute'}
+                        onValueChange={(value) => updateColumn(mapping.header, m => ({
+                          ...m, relative: value === 'relative', confidence: 1, reason: 'Set manually',
+                        }))}
+                      >
+                        <SelectTrigger className="h-8 w-28" aria-label={`Uncertainty type of ${mapping.header}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="absolute">Same unit</SelectItem>
+                          <SelectItem value="relative">%</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">
+                        {mapping.role === 'parameter' && parameter?.unit ? parameter.unit : '—'}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <p className={`text-sm font-mono ${confidenceClass(mapping.confidence)}`}>
+                      {Math.round(mapping.confidence * 100)}%
+                    </p>
+                    <p className="text-xs text-muted-foreground">{mapping.reason}</p>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {errors.length > 0 && (
+        <Alert className="border-danger bg-danger/10">
+          <AlertTriangle className="h-4 w-4 text-danger" />
+          <AlertDescription className="text-sm space-y-1">
+            {errors.map(error => <p key={error}>{error}</p>)}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap items-center justify-end gap-4">
+        {uncertain > 0 && (
+          <p className="text-xs text-moderate">
+            {uncertain} column{uncertain === 1 ? '' : 's'} with low confidence
+          </p>
+        )}
+        <Button onClick={onConfirm} disabled={errors.length > 0}>
+          Import {rows.length} rows
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,284 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeftRight } from "lucide-react";
+import {
+  CampaignComparison,
+  ComparisonOptions,
+  MIN_PAIRS,
+  PAIRED_TESTS,
+  PAIRING_METHODS,
+  PAIRING_DISTANCE_M,
+  PairedTest,
+  PairingMethod,
+  STATUS_CHANGES,
+  VariableComparison,
+  getPairedTest,
+  getPairingMethod,
+  getStatusChange,
+} from "@/utils/comparison";
+import { formatPValue } from "@/utils/trends";
+
+interface ComparisonPanelProps {
+  comparison: CampaignComparison;
+  options: ComparisonOptions;
+  onOptionsChange: (options: ComparisonOptions) => void;
+  onClear: () => void;
+}
+
+// Differences are highlighted at this level; the p-values themselves are shown unadjusted
+const HIGHLIGHT_ALPHA = 0.05;
+
+const formatNumber = (value: number) =>
+  Number.isFinite(value) ? String(Number(value.toPrecision(4))) : '—';
+
+const formatDelta = (value: number) =>
+  Number.isFinite(value) ? `${value > 0 ? '+' : ''}${formatNumber(value)}` : '—';
+
+const formatStatistic = (variable: VariableComparison) =>
+  Number.isFinite(variable.test.statistic) ? formatNumber(variable.test.statistic) : '—';
+
+export const ComparisonPanel = ({ comparison, options, onOptionsChange, onClear }: ComparisonPanelProps) => {
+  const { pairs, classes, transitions, variables } = comparison;
+  const changeCounts = STATUS_CHANGES.map(change => ({
+    ...change,
+    count: pairs.filter(pair => pair.statusChange === change.id).length,
+  }));
+  const statisticLabel = options.test === 'paired-t' ? 't' : 'W+';
+  const parameterIds = variables.filter(v => v.kind === 'parameter').map(v => v.id);
+  const shownVariables = variables.filter(v => v.test.n > 0);
+
+  return (
+    <section id="comparison" className="py-16 bg-background">
+      <div className="container mx-auto px-4">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl font-bold mb-4 text-foreground font-scientific">Campaign Comparison</h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Samples of the reference campaign are paired with the current ones. Changes are current minus reference,
+            so a positive change is a higher value in the current campaign.
+          </p>
+        </div>
+
+        <Card className="shadow-soft mb-8">
+          <CardHeader className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ArrowLeftRight className="h-5 w-5" />
+                Comparison Options
+              </CardTitle>
+              <CardDescription>
+                {getPairingMethod(options.pairing).description}. {getPairedTest(options.test).description}.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={onClear}>Remove reference campaign</Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-6">
+              <div className="space-y-1">
+                <Label htmlFor="comparison-pairing" className="text-xs text-muted-foreground">Pair samples by</Label>
+                <Select
+                  value={options.pairing}
+                  onValueChange={(pairing) => onOptionsChange({ ...options, pairing: pairing as PairingMethod })}
+                >
+                  <SelectTrigger id="comparison-pairing" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAIRING_METHODS.map(method => (
+                      <SelectItem key={method.id} value={method.id}>{method.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="comparison-test" className="text-xs text-muted-foreground">Paired test</Label>
+                <Select
+                  value={options.test}
+                  onValueChange={(test) => onOptionsChange({ ...options, test: test as PairedTest })}
+                >
+                  <SelectTrigger id="comparison-test" className="w-52">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAIRED_TESTS.map(test => (
+                      <SelectItem key={test.id} value={test.id}>{test.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex gap-2 flex-wrap">
+              <Badge variant="secondary">Pairs: {pairs.length}</Badge>
+              <Badge variant="outline">Unpaired reference: {comparison.unpairedReference.length}</Badge>
+              <Badge variant="outline">Unpaired current: {comparison.unpairedCurrent.length}</Badge>
+              {changeCounts.map(change => (
+                <Badge key={change.id} variant="outline" style={{ color: change.color, borderColor: change.color }}>
+                  {change.label}: {change.count}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Both campaigns are analysed with the current settings. Location pairing matches samples up to
+              {' '}{PAIRING_DISTANCE_M} m apart. Tests need at least {MIN_PAIRS} pairs with both values; the signed-rank
+              p-value is exact for small samples without ties.
+            </p>
+          </CardContent>
+        </Card>
+
+        {pairs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center">
+            No sample of the reference campaign could be paired with the current data. Check the well IDs, or pair by
+            location.
+          </p>
+        ) : (
+          <div className="space-y-8">
+            <Card className="shadow-medium">
+              <CardHeader>
+                <CardTitle>Status Transitions</CardTitle>
+                <CardDescription>Pairs by status in the reference campaign (rows) and the current one (columns)</CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reference \ Current</TableHead>
+                      {classes.map(c => (
+                        <TableHead key={c.id} className="text-right" style={{ color: c.color }}>{c.label}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {classes.map((from, row) => (
+                      <TableRow key={from.id}>
+                        <TableCell className="font-medium" style={{ color: from.color }}>{from.label}</TableCell>
+                        {classes.map((to, column) => {
+                          const count = transitions[row][column];
+                          const change = getStatusChange(column < row ? 'improved' : column > row ? 'deteriorated' : 'unchanged');
+                          return (
+                            <TableCell
+                              key={to.id}
+                              className={`text-right font-mono ${count > 0 ? 'font-semibold' : 'text-muted-foreground'}`}
+                              style={count > 0 ? { color: change.color, backgroundColor: `${change.color}1a` } : undefined}
+                            >
+                              {count}
+                            </TableCell>
+                          );
+                        })}
+                        <TableCell className="text-right font-mono">
+                          {transitions[row].reduce((total, count) => total + count, 0)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-medium">
+              <CardHeader>
+                <CardTitle>Paired Tests</CardTitle>
+                <CardDescription>
+                  {getPairedTest(comparison.options.test).label} per parameter and index; p below {HIGHLIGHT_ALPHA} is highlighted
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Variable</TableHead>
+                      <TableHead className="text-right">Pairs</TableHead>
+                      <TableHead className="text-right">Reference Mean</TableHead>
+                      <TableHead className="text-right">Current Mean</TableHead>
+                      <TableHead className="text-right">Mean Change</TableHead>
+                      <TableHead className="text-right">Median Change</TableHead>
+                      <TableHead className="text-right">{statisticLabel}</TableHead>
+                      <TableHead className="text-right">p</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shownVariables.map(variable => {
+                      const significant = variable.test.pValue < HIGHLIGHT_ALPHA;
+                      const color = significant
+                        ? getStatusChange(variable.test.meanDelta > 0 ? 'deteriorated' : 'improved').color
+                        : undefined;
+                      return (
+                        <TableRow key={variable.id}>
+                          <TableCell className="font-medium whitespace-nowrap">
+                            {variable.label}
+                            {variable.unit && <span className="text-xs text-muted-foreground ml-1">{variable.unit}</span>}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{variable.test.n}</TableCell>
+                          <TableCell className="text-right font-mono">{formatNumber(variable.test.referenceMean)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatNumber(variable.test.currentMean)}</TableCell>
+                          <TableCell className="text-right font-mono" style={{ color }}>{formatDelta(variable.test.meanDelta)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatDelta(variable.test.medianDelta)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatStatistic(variable)}</TableCell>
+                          <TableCell className={`text-right font-mono ${significant ? 'font-semibold' : ''}`} style={{ color }}>
+                            {Number.isFinite(variable.test.pValue) ? formatPValue(variable.test.pValue) : '—'}
+                            {variable.test.exact && <span className="text-xs text-muted-foreground ml-1" title="Exact p-value">*</span>}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Colours assume higher values are worse, which holds for contaminants and pollution indices but not
+                  for every parameter (e.g. pH, dissolved oxygen). * exact signed-rank p-value.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-medium">
+              <CardHeader>
+                <CardTitle>Changes per Well</CardTitle>
+                <CardDescription>Status and measured parameters, current minus reference</CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Pair</TableHead>
+                      <TableHead>Samples</TableHead>
+                      <TableHead>Status</TableHead>
+                      {parameterIds.map(id => (
+                        <TableHead key={id} className="text-right whitespace-nowrap">
+                          Δ {variables.find(v => v.id === id).label}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pairs.map(pair => {
+                      const change = getStatusChange(pair.statusChange);
+                      return (
+                        <TableRow key={pair.key}>
+                          <TableCell className="font-medium whitespace-nowrap">{pair.key}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                            {pair.reference.sampleId} → {pair.current.sampleId}
+                            {options.pairing === 'location' && ` (${Math.round(pair.distance)} m)`}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">
+                            {pair.reference.indices.statusLabel} → {pair.current.indices.statusLabel}
+                            <span className="ml-2 font-semibold" style={{ color: change.color }}>{change.label}</span>
+                          </TableCell>
+                          {parameterIds.map(id => (
+                            <TableCell key={id} className="text-right font-mono">{formatDelta(pair.deltas[id])}</TableCell>
+                          ))}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,211 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Download } from "lucide-react";
+import {
+  CENSORED_PAIR_HANDLING,
+  CORRELATION_METHODS,
+  CensoredPairHandling,
+  CorrelationCell,
+  CorrelationMethod,
+  CorrelationOptions,
+  PairedObservation,
+  calculateCorrelationMatrix,
+  getCorrelationColor,
+  getCorrelationMethod,
+  getPairedObservations,
+  significanceMarker,
+} from "@/utils/correlation";
+import { ParameterDefinition, formatParameterLabel } from "@/utils/parameters";
+import { exportCorrelationCSV } from "@/utils/exportUtils";
+import type { SampleResult } from "@/types/sample";
+
+interface CorrelationHeatmapProps {
+  results: SampleResult[];
+  options: CorrelationOptions;
+  onOptionsChange: (options: CorrelationOptions) => void;
+}
+
+const formatAxisLabel = (parameter: ParameterDefinition, options: CorrelationOptions) =>
+  options.logTransform && parameter.key !== 'ph' ? `log10 ${formatParameterLabel(parameter)}` : formatParameterLabel(parameter);
+
+const PairTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: PairedObservation }[] }) => {
+  if (!active || !payload?.length) return null;
+  const pair = payload[0].payload;
+  return (
+    <div className="bg-background border border-border rounded-md p-2 text-xs shadow-soft">
+      <p className="font-medium">{pair.sampleId}</p>
+      <p>x: {Number(pair.x.toPrecision(4))}</p>
+      <p>y: {Number(pair.y.toPrecision(4))}</p>
+      {pair.censored && <p className="text-muted-foreground">Includes a non-detect</p>}
+    </div>
+  );
+};
+
+const formatCell = (cell: CorrelationCell) =>
+  Number.isNaN(cell.r) ? '—' : `${cell.r.toFixed(2)}${significanceMarker(cell.pValue)}`;
+
+export const CorrelationHeatmap = ({ results, options, onOptionsChange }: CorrelationHeatmapProps) => {
+  const [selected, setSelected] = useState<[number, number] | null>(null);
+  const matrix = useMemo(() => calculateCorrelationMatrix(results, options), [results, options]);
+
+  if (matrix.parameters.length < 2) {
+    return null;
+  }
+
+  const { parameters, cells } = matrix;
+  const selectedPair = selected && selected.every(index => index < parameters.length) && {
+    x: parameters[selected[1]],
+    y: parameters[selected[0]],
+    cell: cells[selected[0]][selected[1]],
+  };
+  const pairs = selectedPair ? getPairedObservations(results, selectedPair.x, selectedPair.y, options) : [];
+
+  return (
+    <Card className="shadow-medium mb-8">
+      <CardHeader className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+        <div>
+          <CardTitle>Correlation Matrix</CardTitle>
+          <CardDescription>
+            {getCorrelationMethod(options.method).description}. Click a cell to see the scatter plot.
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="correlation-method" className="text-xs text-muted-foreground">Method</Label>
+            <Select
+              value={options.method}
+              onValueChange={(method) => onOptionsChange({ ...options, method: method as CorrelationMethod })}
+            >
+              <SelectTrigger id="correlation-method" className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CORRELATION_METHODS.map(method => (
+                  <SelectItem key={method.id} value={method.id}>{method.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="correlation-censored" className="text-xs text-muted-foreground">Non-detects</Label>
+            <Select
+              value={options.censored}
+              onValueChange={(censored) => onOptionsChange({ ...options, censored: censored as CensoredPairHandling })}
+            >
+              <SelectTrigger id="correlation-censored" className="w-60">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CENSORED_PAIR_HANDLING.map(handling => (
+                  <SelectItem key={handling.id} value={handling.id}>{handling.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 h-10">
+            <Switch
+              id="correlation-log"
+              checked={options.logTransform}
+              onCheckedChange={(logTransform) => onOptionsChange({ ...options, logTransform })}
+            />
+            <Label htmlFor="correlation-log">Log-transform</Label>
+          </div>
+          <Button variant="outline" onClick={() => exportCorrelationCSV(matrix)}>
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="text-xs border-separate border-spacing-0.5 mx-auto">
+            <thead>
+              <tr>
+                <th />
+                {parameters.map(parameter => (
+                  <th key={parameter.key} className="font-medium px-1 pb-1" title={parameter.name}>{parameter.symbol}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {parameters.map((row, i) => (
+                <tr key={row.key}>
+                  <th className="font-medium text-right pr-2" title={row.name}>{row.symbol}</th>
+                  {parameters.map((column, j) => {
+                    const cell = cells[i][j];
+                    return (
+                      <td key={column.key} className="p-0">
+                        <button
+                          type="button"
+                          className="w-12 h-9 rounded font-mono hover:ring-2 hover:ring-primary disabled:cursor-default disabled:hover:ring-0"
+                          style={{
+                            backgroundColor: i === j ? 'hsl(var(--muted))' : getCorrelationColor(cell.r),
+                            color: Math.abs(cell.r) > 0.6 && i !== j ? 'white' : undefined,
+                          }}
+                          disabled={i === j || Number.isNaN(cell.r)}
+                          title={i === j || Number.isNaN(cell.r)
+                            ? `${row.symbol} vs ${column.symbol}: n = ${cell.n}`
+                            : `${row.symbol} vs ${column.symbol}: r = ${cell.r.toFixed(3)}, p = ${cell.pValue.toPrecision(2)}, n = ${cell.n}`}
+                          onClick={() => setSelected([i, j])}
+                        >
+                          {i === j ? '' : formatCell(cell)}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground mt-4 text-center">
+          * p &lt; 0.05, ** p &lt; 0.01, *** p &lt; 0.001 (two-sided). Red: positive, blue: negative.
+          Strong positive correlations between metals suggest a common source.
+        </p>
+      </CardContent>
+
+      <Dialog open={Boolean(selectedPair)} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          {selectedPair && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{selectedPair.y.name} vs {selectedPair.x.name}</DialogTitle>
+                <DialogDescription>
+                  {getCorrelationMethod(options.method).label} r = {selectedPair.cell.r.toFixed(3)},
+                  p = {selectedPair.cell.pValue.toPrecision(3)}, n = {selectedPair.cell.n}
+                </DialogDescription>
+              </DialogHeader>
+              <ResponsiveContainer width="100%" height={360}>
+                <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    type="number"
+                    dataKey="x"
+                    domain={['auto', 'auto']}
+                    label={{ value: formatAxisLabel(selectedPair.x, options), position: 'insideBottom', offset: -10 }}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="y"
+                    domain={['auto', 'auto']}
+                    label={{ value: formatAxisLabel(selectedPair.y, options), angle: -90, position: 'insideLeft' }}
+                  />
+                  <Tooltip content={<PairTooltip />} />
+                  <Legend verticalAlign="top" />
+                  <Scatter name="Detected" data={pairs.filter(pair => !pair.censored)} fill="hsl(var(--primary))" />
+                  <Scatter name="Includes a non-detect" data={pairs.filter(pair => pair.censored)} fill="hsl(var(--muted-foreground))" />
+                </ScatterChart>
+              </ResponsiveContainer>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
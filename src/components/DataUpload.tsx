@@ -1,73 +1,225 @@
-import { useState, useCallback } from "react";
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Upload, FileText, CheckCircle, AlertTriangle } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, FileText, CheckCircle, AlertTriangle, Columns3 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-interface SampleData {
-  sampleId: string;
-  latitude: number;
-  longitude: number;
-  lead: number;
-  cadmium: number;
-  arsenic: number;
-  chromium: number;
-  [key: string]: string | number;
-}
+import { PARAMETERS, ParameterDefinition, getParameter } from "@/utils/parameters";
+import type { SampleData } from "@/types/sample";
+import type { MetalConcentrations } from "@/utils/pollutionCalculations";
+import { CensoredValue, parseConcentration } from "@/utils/censoring";
+import { CANONICAL_UNIT, ConcentrationUnit, checkUnitPlausibility, getParameterUnits, splitHeaderUnit, toCanonical } from "@/utils/units";
+import { median } from "@/utils/statistics";
+import { parseUncertainty } from "@/utils/uncertainty";
+import { calculateIonBalance, formatIonBalanceError } from "@/utils/ionBalance";
+import { parseSampleDate } from "@/utils/trends";
+import { CsvFormat, decodeCsvBytes, formatCsvError, getCsvDelimiter, parseCsv } from "@/utils/csv";
+import {
+  SheetImportOptions,
+  WORKBOOK_EXTENSIONS,
+  WorkbookSheet,
+  detectSheetImport,
+  getSheetRows,
+  isUnsupportedWorkbookFile,
+  isWorkbookFile,
+  readWorkbook,
+} from "@/utils/workbook";
+import { WorkbookImportOptions } from "@/components/WorkbookImportOptions";
+import { ColumnMappingWizard } from "@/components/ColumnMappingWizard";
+import {
+  ColumnMapping,
+  ColumnRole,
+  findMappingTemplate,
+  loadMappingTemplates,
+  proposeColumnMappings,
+} from "@/utils/columnMapping";
 
 interface DataUploadProps {
   onDataUploaded: (data: SampleData[]) => void;
+  // Set when the page holds more than one upload, e.g. a reference campaign
+  sectionId?: string;
+  title?: string;
+  description?: string;
+}
+
+interface ParameterColumn {
+  header: string;
+  parameter: ParameterDefinition;
+  unit: ConcentrationUnit;
+  unitFromHeader: boolean;
+}
+
+// Issues that do not block the upload but should be checked before results are published
+interface ValidationWarning {
+  kind: 'unit' | 'ion-balance';
+  message: string;
 }
 
-export const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
+// Sample IDs listed in an ion balance warning before the rest are summarised
+const LISTED_SAMPLES = 5;
+
+// Extensions read as delimited text; the delimiter is detected from the content
+const TEXT_EXTENSIONS = ['.csv', '.tsv', '.txt'];
+
+export const DataUpload = ({
+  onDataUploaded,
+  sectionId = "data-upload-section",
+  title = "Upload Your Data",
+  description = "Upload your groundwater sample data as a CSV file or Excel workbook. Our system will automatically validate and process your data for contamination analysis.",
+}: DataUploadProps) => {
   const [dragActive, setDragActive] = useState(false);
-  const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
+  const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'mapping' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
+  const [unitError, setUnitError] = useState('');
+  const [rows, setRows] = useState<Record<string, string>[]>([]);
+  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+  const [columns, setColumns] = useState<ParameterColumn[]>([]);
+  const [warnings, setWarnings] = useState<ValidationWarning[]>([]);
+  const [groupColumns, setGroupColumns] = useState<string[]>([]);
+  const [format, setFormat] = useState<CsvFormat | null>(null);
+  const [workbook, setWorkbook] = useState<WorkbookSheet[] | null>(null);
+  const [sheetOptions, setSheetOptions] = useState<SheetImportOptions | null>(null);
   const { toast } = useToast();
 
-  const validateData = (data: any[]): { valid: boolean; errors: string[]; samples: SampleData[] } => {
+  const validateData = (
+    data: Record<string, string>[],
+    mappings: ColumnMapping[]
+  ): {
+    valid: boolean;
+    errors: string[];
+    warnings: ValidationWarning[];
+    samples: SampleData[];
+    columns: ParameterColumn[];
+    groupColumns: string[];
+  } => {
     const errors: string[] = [];
+    const warnings: ValidationWarning[] = [];
     const validSamples: SampleData[] = [];
     
     if (!data || data.length === 0) {
       errors.push("File is empty or invalid");
-      return { valid: false, errors, samples: [] };
+      return { valid: false, errors, warnings, samples: [], columns: [], groupColumns: [] };
     }
 
-    const requiredFields = ['sampleId', 'latitude', 'longitude', 'lead', 'cadmium', 'arsenic', 'chromium'];
+    // The confirmed column mapping names the header of each field
+    const keyOf = (role: ColumnRole) => mappings.find(m => m.role === role)?.header;
+    const dateKey = keyOf('date');
+    const wellKey = keyOf('wellId');
+    const idKey = keyOf('sampleId');
+    const latKey = keyOf('latitude');
+    const lonKey = keyOf('longitude');
+    // Uncertainty columns ("Pb SD", "As ± (%)") belong to a parameter column and are not parameters themselves
+    const uncertaintyColumns = mappings
+      .filter(m => m.role === 'uncertainty')
+      .map(m => ({ header: m.header, parameter: getParameter(m.parameter), relative: Boolean(m.relative) }))
+      .filter(column => column.parameter);
+    
+    // Units are chosen in the mapping, proposed from the header ("Pb (µg/L)", "As_ppb") or taken as mg/L.
+    // pH and conductivity are never converted.
+    const parameterColumns: ParameterColumn[] = mappings
+      .filter(m => m.role === 'parameter')
+      .map(m => {
+        const parameter = getParameter(m.parameter);
+        const units = parameter ? getParameterUnits(parameter) : [];
+        return {
+          header: m.header,
+          parameter,
+          unit: units.some(u => u.id === m.unit) ? m.unit : CANONICAL_UNIT,
+          unitFromHeader: Boolean(splitHeaderUnit(m.header).unit),
+        };
+      })
+      .filter(column => column.parameter);
+    // Grouping attributes (district, block, aquifer, well type)
+    const groupColumns = mappings.filter(m => m.role === 'group').map(m => m.header);
+
+    if (!latKey) errors.push("Missing latitude column");
+    if (!lonKey) errors.push("Missing longitude column");
+    if (parameterColumns.length === 0) {
+      errors.push(`No recognised parameter columns. Expected any of: ${PARAMETERS.map(p => p.name).join(', ')}`);
+    }
+    if (errors.length > 0) {
+      return { valid: false, errors, warnings, samples: [], columns: parameterColumns, groupColumns };
+    }
     
     data.forEach((row, index) => {
       const rowErrors: string[] = [];
       
-      // Check required fields
-      requiredFields.forEach(field => {
-        const key = Object.keys(row).find(k => 
-          k.toLowerCase().replace(/[^a-z0-9]/g, '') === field.toLowerCase()
-        );
-        if (!key || row[key] === undefined || row[key] === '') {
-          rowErrors.push(`Missing ${field}`);
+      if (row[latKey] === undefined || row[latKey] === '') rowErrors.push("Missing latitude");
+      if (row[lonKey] === undefined || row[lonKey] === '') rowErrors.push("Missing longitude");
+      
+      const rawDate = dateKey ? String(row[dateKey] ?? '').trim() : '';
+      const date = rawDate ? parseSampleDate(rawDate) : undefined;
+      if (rawDate && !date) rowErrors.push(`Invalid sample date "${rawDate}"`);
+      
+      // Empty cells mean the parameter was not measured for this sample
+      // Non-detects ("<0.001", "BDL", "ND") keep their detection limit as the concentration
+      const concentrations: MetalConcentrations = {};
+      const censored: Record<string, CensoredValue> = {};
+      const sourceUnits: Record<string, ConcentrationUnit> = {};
+      parameterColumns.forEach(({ header, parameter, unit }) => {
+        const raw = String(row[header] ?? '').trim();
+        if (raw === '') return;
+        
+        const parsed = parseConcentration(raw, parameter);
+        if (!parsed) {
+          rowErrors.push(`Invalid ${parameter.name} value "${raw}"`);
+        } else if (parsed.value < 0) {
+          rowErrors.push(`${parameter.name} concentration cannot be negative`);
+        } else if (parsed.censored?.assumedLimit) {
+          // Registry detection limits are already in canonical units
+          concentrations[parameter.key] = parsed.value;
+          censored[parameter.key] = parsed.censored;
+          sourceUnits[parameter.key] = unit;
+        } else {
+          concentrations[parameter.key] = toCanonical(parsed.value, unit, parameter);
+          if (parsed.censored) {
+            censored[parameter.key] = { ...parsed.censored, detectionLimit: concentrations[parameter.key] };
+          }
+          sourceUnits[parameter.key] = unit;
+        }
+      });
+      
+      // Uncertainties are absolute in the concentration column's unit, or relative when given in %
+      const uncertainties: Record<string, number> = {};
+      uncertaintyColumns.forEach(({ header, parameter, relative }) => {
+        const raw = String(row[header] ?? '').trim();
+        if (raw === '' || !Number.isFinite(concentrations[parameter.key]) || censored[parameter.key]) return;
+        
+        const parsed = parseUncertainty(raw, relative);
+        if (!parsed) {
+          rowErrors.push(`Invalid ${parameter.name} uncertainty "${raw}"`);
+        } else {
+          uncertainties[parameter.key] = parsed.relative
+            ? concentrations[parameter.key] * parsed.value / 100
+            : toCanonical(parsed.value, sourceUnits[parameter.key], parameter);
         }
       });
       
+      const groups = Object.fromEntries(groupColumns
+        .map(header => [header, String(row[header] ?? '').trim()])
+        .filter(([, value]) => value !== ''));
+      
       if (rowErrors.length === 0) {
         // Create sample data with normalized field names
         const sample: SampleData = {
-          sampleId: String(row[Object.keys(row).find(k => k.toLowerCase().includes('sample')) || 'sampleId'] || `Sample_${index + 1}`),
-          latitude: parseFloat(row[Object.keys(row).find(k => k.toLowerCase().includes('lat')) || 'latitude'] || 0),
-          longitude: parseFloat(row[Object.keys(row).find(k => k.toLowerCase().includes('lon')) || 'longitude'] || 0),
-          lead: parseFloat(row[Object.keys(row).find(k => k.toLowerCase().includes('lead') || k.toLowerCase().includes('pb')) || 'lead'] || 0),
-          cadmium: parseFloat(row[Object.keys(row).find(k => k.toLowerCase().includes('cadmium') || k.toLowerCase().includes('cd')) || 'cadmium'] || 0),
-          arsenic: parseFloat(row[Object.keys(row).find(k => k.toLowerCase().includes('arsenic') || k.toLowerCase().includes('as')) || 'arsenic'] || 0),
-          chromium: parseFloat(row[Object.keys(row).find(k => k.toLowerCase().includes('chromium') || k.toLowerCase().includes('cr')) || 'chromium'] || 0),
+          sampleId: String((idKey && row[idKey]) || `Sample_${index + 1}`),
+          wellId: wellKey && String(row[wellKey] ?? '').trim() ? String(row[wellKey]).trim() : undefined,
+          date,
+          latitude: parseFloat(row[latKey]),
+          longitude: parseFloat(row[lonKey]),
+          concentrations,
+          censored,
+          sourceUnits,
+          uncertainties,
+          ionBalance: calculateIonBalance(concentrations, censored),
+          groups: groupColumns.length ? groups : undefined,
         };
         
         // Validate numeric ranges
-        if (Math.abs(sample.latitude) > 90) rowErrors.push("Invalid latitude");
-        if (Math.abs(sample.longitude) > 180) rowErrors.push("Invalid longitude");
-        if (sample.lead < 0 || sample.cadmium < 0 || sample.arsenic < 0 || sample.chromium < 0) {
-          rowErrors.push("Heavy metal concentrations cannot be negative");
-        }
+        if (Number.isNaN(sample.latitude) || Math.abs(sample.latitude) > 90) rowErrors.push("Invalid latitude");
+        if (Number.isNaN(sample.longitude) || Math.abs(sample.longitude) > 180) rowErrors.push("Invalid longitude");
         
         if (rowErrors.length === 0) {
           validSamples.push(sample);
@@ -79,60 +231,143 @@ export const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
       }
     });
     
+    // Without a well column, a sample ID repeated on several dates names the well; the date keeps sample IDs unique
+    if (!wellKey) {
+      const idCounts = new Map<string, number>();
+      validSamples.forEach(s => idCounts.set(s.sampleId, (idCounts.get(s.sampleId) ?? 0) + 1));
+      validSamples.forEach(s => {
+        if (idCounts.get(s.sampleId) > 1 && s.date) {
+          s.wellId = s.sampleId;
+          s.sampleId = `${s.sampleId} (${s.date})`;
+        }
+      });
+    }
+    
+    parameterColumns.forEach(({ parameter, unit }) => {
+      const values = validSamples
+        .filter(s => !s.censored[parameter.key] && Number.isFinite(s.concentrations[parameter.key]))
+        .map(s => s.concentrations[parameter.key]);
+      const warning = checkUnitPlausibility(parameter, unit, median(values));
+      if (warning) warnings.push({ kind: 'unit', message: warning });
+    });
+    
+    (['unacceptable', 'marginal'] as const).forEach(status => {
+      const flagged = validSamples.filter(s => s.ionBalance?.status === status);
+      if (!flagged.length) return;
+      const listed = flagged
+        .slice(0, LISTED_SAMPLES)
+        .map(s => `${s.sampleId} (${formatIonBalanceError(s.ionBalance.error)})`)
+        .join(', ');
+      warnings.push({
+        kind: 'ion-balance',
+        message: `${flagged.length} sample${flagged.length > 1 ? 's' : ''} with ion balance error ${status === 'unacceptable' ? 'beyond ±10%' : 'between ±5% and ±10%'}: ` +
+          listed + (flagged.length > LISTED_SAMPLES ? ` and ${flagged.length - LISTED_SAMPLES} more` : ''),
+      });
+    });
+    
     return { 
       valid: errors.length === 0, 
       errors, 
-      samples: validSamples 
+      warnings,
+      samples: validSamples,
+      columns: parameterColumns,
+      groupColumns,
     };
   };
 
-  const parseCSV = (text: string) => {
-    const lines = text.split('\n').filter(line => line.trim());
-    if (lines.length < 2) return [];
+  // Errors in the file's structure, before its values are validated
+  const rejectFile = (errors: string[], description: string) => {
+    setUploadStatus('error');
+    setErrorMessage(errors.slice(0, 5).join('\n'));
+    toast({
+      title: "Could not read file",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  // Propose a column mapping for rows read from a CSV file or a sheet, applying the saved template that fits
+  const processRows = (data: Record<string, string>[]) => {
+    setRows(data);
+    if (data.length === 0) {
+      importRows(data, []);
+      return;
+    }
+    const template = findMappingTemplate(Object.keys(data[0]), loadMappingTemplates());
+    setMappings(proposeColumnMappings(data, template));
+    setUploadStatus('mapping');
+  };
+
+  // Validate the rows under the confirmed mapping and pass the samples on
+  const importRows = (data: Record<string, string>[], confirmed: ColumnMapping[]) => {
+    const validation = validateData(data, confirmed);
     
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-    return lines.slice(1).map(line => {
-      const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-      const row: any = {};
-      headers.forEach((header, index) => {
-        row[header] = values[index] || '';
+    if (validation.valid) {
+      setUploadStatus('success');
+      setColumns(validation.columns);
+      setWarnings(validation.warnings);
+      setGroupColumns(validation.groupColumns);
+      onDataUploaded(validation.samples);
+      const nonDetects = validation.samples.reduce((count, s) => count + Object.keys(s.censored).length, 0);
+      toast({
+        title: "Data uploaded successfully",
+        description: `Processed ${validation.samples.length} samples` +
+          (nonDetects ? ` with ${nonDetects} below-detection-limit values` : ''),
       });
-      return row;
-    });
+    } else {
+      setUploadStatus('error');
+      setErrorMessage(validation.errors.slice(0, 5).join('\n'));
+      toast({
+        title: "Data validation failed",
+        description: "Please check your file format and data",
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleFile = useCallback(async (file: File) => {
+  // Re-read the workbook whenever the sheet, header or last row changes
+  const importSheet = (sheets: WorkbookSheet[], options: SheetImportOptions) => {
+    setSheetOptions(options);
+    const { rows: data, errors } = getSheetRows(sheets.find(s => s.name === options.sheet), options);
+    if (errors.length > 0) {
+      rejectFile(errors, "Check the header row of the selected sheet");
+      return;
+    }
+    processRows(data);
+  };
+
+  const handleFile = async (file: File) => {
     setUploadStatus('uploading');
     setErrorMessage('');
+    setUnitError('');
     
     try {
-      const text = await file.text();
-      let data: any[];
-      
-      if (file.name.toLowerCase().endsWith('.csv')) {
-        data = parseCSV(text);
-      } else {
-        throw new Error('Unsupported file format. Please use CSV files.');
+      if (isWorkbookFile(file.name)) {
+        const sheets = await readWorkbook(await file.arrayBuffer());
+        const sheet = sheets.find(s => s.cells.length > 0);
+        if (!sheet) throw new Error('The workbook has no data.');
+        setFormat(null);
+        setWorkbook(sheets);
+        importSheet(sheets, detectSheetImport(sheet));
+        return;
+      }
+      if (isUnsupportedWorkbookFile(file.name)) {
+        throw new Error('Excel 97–2003 (.xls) and OpenDocument (.ods) workbooks are not supported. Save the file as .xlsx or CSV and upload it again.');
+      }
+      if (!TEXT_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+        throw new Error('Unsupported file format. Please use CSV or Excel (.xlsx) files.');
       }
       
-      const validation = validateData(data);
-      
-      if (validation.valid) {
-        setUploadStatus('success');
-        onDataUploaded(validation.samples);
-        toast({
-          title: "Data uploaded successfully",
-          description: `Processed ${validation.samples.length} samples`,
-        });
-      } else {
-        setUploadStatus('error');
-        setErrorMessage(validation.errors.slice(0, 5).join('\n'));
-        toast({
-          title: "Data validation failed",
-          description: "Please check your file format and data",
-          variant: "destructive",
-        });
+      const { text, encoding } = decodeCsvBytes(await file.arrayBuffer());
+      const parsed = parseCsv(text, { encoding });
+      setWorkbook(null);
+      setSheetOptions(null);
+      if (parsed.errors.length > 0) {
+        rejectFile(parsed.errors.map(formatCsvError), "The file is not valid CSV; check the listed lines");
+        return;
       }
+      setFormat(parsed.format);
+      processRows(parsed.rows);
     } catch (error) {
       setUploadStatus('error');
       setErrorMessage(error instanceof Error ? error.message : 'Unknown error occurred');
@@ -142,30 +377,49 @@ export const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
         variant: "destructive",
       });
     }
-  }, [onDataUploaded, toast]);
+  };
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setDragActive(false);
     
     const file = e.dataTransfer.files[0];
     if (file) handleFile(file);
-  }, [handleFile]);
+  };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) handleFile(file);
   };
 
+  // Re-convert the uploaded rows when the user corrects a column's unit
+  const handleUnitChange = (header: string, unit: ConcentrationUnit) => {
+    const updated = mappings.map(m => m.header === header ? { ...m, unit, confidence: 1, reason: 'Set manually' } : m);
+    const validation = validateData(rows, updated);
+    if (!validation.valid) {
+      // The override is not applied: the selector stays on the unit the uploaded data still uses
+      setUnitError(`Could not read ${header} as ${unit}:\n${validation.errors.slice(0, 5).join('\n')}`);
+      toast({
+        title: "Data validation failed",
+        description: `The unit change for ${header} was not applied`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUnitError('');
+    setMappings(updated);
+    setColumns(validation.columns);
+    setWarnings(validation.warnings);
+    onDataUploaded(validation.samples);
+  };
+
   return (
-    <section id="data-upload-section" className="py-16 bg-secondary/30">
+    <section id={sectionId} className="py-16 bg-secondary/30">
       <div className="container mx-auto px-4">
         <div className="text-center mb-12">
-          <h2 className="text-3xl font-bold mb-4 text-foreground font-scientific">Upload Your Data</h2>
-          <p className="text-muted-foreground max-w-2xl mx-auto">
-            Upload your groundwater sample data in CSV format. Our system will automatically validate 
-            and process your data for contamination analysis.
-          </p>
+          <h2 className="text-3xl font-bold mb-4 text-foreground font-scientific">{title}</h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">{description}</p>
         </div>
         
         <div className="max-w-4xl mx-auto">
@@ -176,7 +430,7 @@ export const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
                 Data Upload
               </CardTitle>
               <CardDescription>
-                Supports CSV files with columns: Sample ID, Latitude, Longitude, Lead, Cadmium, Arsenic, Chromium
+                Supports CSV and Excel files with columns: Sample ID, Latitude, Longitude and any of {PARAMETERS.map(p => p.name).join(', ')}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -208,6 +462,21 @@ export const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
                       <p className="text-lg font-semibold text-safe">Upload Successful!</p>
                       <p className="text-muted-foreground">Your data has been validated and processed.</p>
                     </div>
+                    <Button variant="outline" size="sm" onClick={() => setUploadStatus('mapping')}>
+                      Edit column mapping
+                    </Button>
+                  </div>
+                )}
+
+                {uploadStatus === 'mapping' && (
+                  <div className="space-y-4">
+                    <Columns3 className="h-12 w-12 text-primary mx-auto" />
+                    <div>
+                      <p className="text-lg font-semibold">Check the column mapping</p>
+                      <p className="text-muted-foreground">
+                        Confirm what each of the {mappings.length} columns holds, then import the {rows.length} rows
+                      </p>
+                    </div>
                   </div>
                 )}
                 
@@ -222,6 +491,11 @@ export const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
                         </AlertDescription>
                       </Alert>
                     </div>
+                    {mappings.length > 0 && (
+                      <Button variant="outline" size="sm" onClick={() => setUploadStatus('mapping')}>
+                        Edit column mapping
+                      </Button>
+                    )}
                   </div>
                 )}
                 
@@ -229,17 +503,17 @@ export const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
                   <div className="space-y-4">
                     <Upload className="h-12 w-12 text-muted-foreground mx-auto" />
                     <div>
-                      <p className="text-lg font-semibold mb-2">Drop your CSV file here</p>
+                      <p className="text-lg font-semibold mb-2">Drop your CSV or Excel file here</p>
                       <p className="text-muted-foreground mb-4">or click to browse</p>
                       <input
                         type="file"
-                        accept=".csv"
+                        accept={[...TEXT_EXTENSIONS, ...WORKBOOK_EXTENSIONS].join(',')}
                         onChange={handleFileInput}
                         className="hidden"
-                        id="file-upload"
+                        id={`${sectionId}-file`}
                       />
                       <Button asChild className="bg-primary hover:bg-primary/90">
-                        <label htmlFor="file-upload" className="cursor-pointer">
+                        <label htmlFor={`${sectionId}-file`} className="cursor-pointer">
                           Choose File
                         </label>
                       </Button>
@@ -247,13 +521,117 @@ export const DataUpload = ({ onDataUploaded }: DataUploadProps) => {
                   </div>
                 )}
               </div>
+
+              {workbook && sheetOptions && uploadStatus !== 'uploading' && (
+                <WorkbookImportOptions
+                  sheets={workbook}
+                  options={sheetOptions}
+                  onOptionsChange={(options) => importSheet(workbook, options)}
+                />
+              )}
+
+              {uploadStatus === 'mapping' && (
+                <ColumnMappingWizard
+                  rows={rows}
+                  mappings={mappings}
+                  onMappingsChange={setMappings}
+                  onConfirm={() => importRows(rows, mappings)}
+                />
+              )}
+              
+              {uploadStatus === 'success' && columns.length > 0 && (
+                <div className="mt-6 p-4 bg-muted/50 rounded-lg">
+                  <h4 className="font-medium mb-1">Column units</h4>
+                  <p className="text-xs text-muted-foreground mb-3">
+                    Values are converted to {CANONICAL_UNIT} before calculation; exports keep the reported units
+                  </p>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    {columns.map(column => {
+                      const units = getParameterUnits(column.parameter);
+                      return units.length === 0 ? (
+                        <div key={column.header} className="space-y-1">
+                          <Label className="text-xs">{column.parameter.name}</Label>
+                          <p className="h-8 flex items-center text-sm text-muted-foreground">
+                            {column.parameter.unit || 'No unit'}
+                          </p>
+                        </div>
+                      ) : (
+                        <div key={column.header} className="space-y-1">
+                          <Label htmlFor={`unit-${column.header}`} className="text-xs">
+                            {column.parameter.name}
+                            <span className="text-muted-foreground"> · {column.unitFromHeader ? 'from header' : 'assumed'}</span>
+                          </Label>
+                          <Select
+                            value={column.unit}
+                            onValueChange={(unit) => handleUnitChange(column.header, unit as ConcentrationUnit)}
+                          >
+                            <SelectTrigger id={`unit-${column.header}`} className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {units.map(unit => (
+                                <SelectItem key={unit.id} value={unit.id}>{unit.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {unitError && (
+                    <Alert className="mt-4 border-danger bg-danger/10">
+                      <AlertTriangle className="h-4 w-4 text-danger" />
+                      <AlertDescription className="whitespace-pre-line text-sm">{unitError}</AlertDescription>
+                    </Alert>
+                  )}
+                  {format && (
+                    <p className="text-xs text-muted-foreground mt-3">
+                      Read as {format.encoding}, {getCsvDelimiter(format.delimiter).label.toLowerCase()}-delimited
+                      {format.decimalComma && ', with decimal commas'}
+                    </p>
+                  )}
+                  {groupColumns.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-3">
+                      Other columns kept for grouping: {groupColumns.join(', ')}
+                    </p>
+                  )}
+                  {warnings.some(w => w.kind === 'unit') && (
+                    <Alert className="mt-4 border-moderate bg-moderate/10">
+                      <AlertTriangle className="h-4 w-4 text-moderate" />
+                      <AlertDescription className="text-sm space-y-1">
+                        {warnings.filter(w => w.kind === 'unit').map(w => <p key={w.message}>{w.message}</p>)}
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  {warnings.some(w => w.kind === 'ion-balance') && (
+                    <Alert className="mt-4 border-moderate bg-moderate/10">
+                      <AlertTriangle className="h-4 w-4 text-moderate" />
+                      <AlertDescription className="text-sm space-y-1">
+                        <p className="font-medium">Ion balance</p>
+                        {warnings.filter(w => w.kind === 'ion-balance').map(w => <p key={w.message}>{w.message}</p>)}
+                        <p className="text-xs text-muted-foreground">See the quality assurance summary to review or exclude these samples.</p>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                </div>
+              )}
               
-              {uploadStatus !== 'success' && (
+              {uploadStatus !== 'success' && uploadStatus !== 'mapping' && (
                 <div className="mt-6 p-4 bg-muted/50 rounded-lg">
-                  <h4 className="font-medium mb-2">Required CSV Format:</h4>
+                  <h4 className="font-medium mb-2">Required File Format:</h4>
                   <div className="text-sm text-muted-foreground space-y-1">
-                    <p><strong>Required columns:</strong> Sample ID, Latitude, Longitude, Lead (mg/L), Cadmium (mg/L), Arsenic (mg/L), Chromium (mg/L)</p>
-                    <p><strong>Data validation:</strong> Coordinates must be valid, metal concentrations must be non-negative</p>
+                    <p><strong>Required columns:</strong> Sample ID, Latitude, Longitude and at least one parameter column</p>
+                    <p><strong>Column mapping:</strong> After reading the file, each column's field and unit are proposed with a confidence score for you to confirm or change; save the mapping as a template to reuse it for files from the same lab or source</p>
+                    <p><strong>Parameter columns (name or symbol):</strong> {PARAMETERS.map(p => p.unit ? `${p.name}/${p.symbol} (${p.unit})` : p.name).join(', ')}</p>
+                    <p><strong>Data validation:</strong> Coordinates must be valid, concentrations must be non-negative</p>
+                    <p><strong>File format:</strong> Comma, semicolon, tab or pipe delimited, detected automatically; quote values that contain the delimiter. UTF-8 (with or without BOM) or Windows-1252; decimal commas (0,005) and "." thousands separators (1.250) are accepted in files that are not comma delimited</p>
+                    <p><strong>Excel workbooks:</strong> .xlsx or .xlsm; the header row is found below any title rows, a unit row under it is joined to the headers, and notes below the table are skipped. Change the sheet or rows after upload if the guess is wrong. Legacy .xls (Excel 97–2003) and .ods files are not supported; save them as .xlsx first</p>
+                    <p><strong>Units:</strong> mg/L unless the header says otherwise, e.g. "Pb (µg/L)" or "As_ppb"; µg/L, ppb, ppm, µmol/L and (for major ions) meq/L are converted</p>
+                    <p><strong>Repeat sampling (optional):</strong> Add a Date column (2021-05-14 or 14/05/2021) and a Well ID column to link samples of the same well for trend analysis; without a well column, samples sharing a sample ID or coordinates are linked</p>
+                    <p><strong>Grouping (optional):</strong> Any other column, such as District, Block, Aquifer or Well Type, is kept for comparing groups of samples</p>
+                    <p><strong>Uncertainty (optional):</strong> Add columns such as "Pb SD" (same unit as Pb) or "Pb ± (%)" for Monte Carlo intervals</p>
+                    <p><strong>Ion balance:</strong> With major cations and anions, each sample's charge balance is checked and samples beyond ±5% or ±10% are flagged</p>
+                    <p><strong>Non-detects:</strong> Write "&lt;0.001" with the detection limit, or BDL, ND or &lt;LOD to assume a typical limit</p>
                     <p><strong>Example:</strong> Sample_001, 28.6139, 77.2090, 0.05, 0.01, 0.02, 0.03</p>
                   </div>
                 </div>
@@ -0,0 +1,101 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ClusterModel, getDendrogramSegments, getLinkageMethod } from "@/utils/clustering";
+
+interface DendrogramProps {
+  model: ClusterModel;
+}
+
+// Drawing area and margins for the height axis and leaf labels
+const WIDTH = 800;
+const PLOT_HEIGHT = 260;
+const MARGIN = { top: 12, right: 12, bottom: 64, left: 48 };
+
+// Leaf labels are dropped when they would overlap
+const MAX_LABELLED_LEAVES = 60;
+
+const TICK_COUNT = 5;
+
+export const Dendrogram = ({ model }: DendrogramProps) => {
+  const n = model.sampleIds.length;
+  const maxHeight = model.merges[model.merges.length - 1]?.height || 1;
+  const labelled = n <= MAX_LABELLED_LEAVES;
+  const height = PLOT_HEIGHT + MARGIN.top + (labelled ? MARGIN.bottom : 16);
+
+  const toX = (position: number) => MARGIN.left + (position + 0.5) * (WIDTH - MARGIN.left - MARGIN.right) / n;
+  const toY = (value: number) => MARGIN.top + PLOT_HEIGHT * (1 - value / maxHeight);
+  const ticks = Array.from({ length: TICK_COUNT + 1 }, (_, i) => (maxHeight * i) / TICK_COUNT);
+
+  return (
+    <Card className="shadow-medium">
+      <CardHeader>
+        <CardTitle>Dendrogram</CardTitle>
+        <CardDescription>
+          {getLinkageMethod(model.settings.linkage).label} linkage on Euclidean distances between z-scores;
+          the dashed line marks the cut at height {model.cutHeight.toFixed(2)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="Cluster dendrogram">
+          {ticks.map(tick => (
+            <g key={tick}>
+              <line x1={MARGIN.left - 4} y1={toY(tick)} x2={MARGIN.left} y2={toY(tick)} stroke="hsl(var(--muted-foreground))" />
+              <text x={MARGIN.left - 8} y={toY(tick) + 4} textAnchor="end" fontSize={11} fill="hsl(var(--muted-foreground))">
+                {tick.toFixed(1)}
+              </text>
+            </g>
+          ))}
+          <line
+            x1={MARGIN.left}
+            y1={MARGIN.top}
+            x2={MARGIN.left}
+            y2={MARGIN.top + PLOT_HEIGHT}
+            stroke="hsl(var(--muted-foreground))"
+          />
+          {getDendrogramSegments(model).map((segment, i) => (
+            <line
+              key={i}
+              x1={toX(segment.x1)}
+              y1={toY(segment.y1)}
+              x2={toX(segment.x2)}
+              y2={toY(segment.y2)}
+              stroke={segment.cluster !== undefined ? model.profiles[segment.cluster].color : 'hsl(var(--muted-foreground))'}
+              strokeWidth={1.5}
+            />
+          ))}
+          {model.cutHeight <= maxHeight && (
+            <line
+              x1={MARGIN.left}
+              y1={toY(model.cutHeight)}
+              x2={WIDTH - MARGIN.right}
+              y2={toY(model.cutHeight)}
+              stroke="hsl(var(--danger))"
+              strokeDasharray="6 4"
+            />
+          )}
+          {labelled && model.leafOrder.map((leaf, position) => {
+            const x = toX(position);
+            const y = MARGIN.top + PLOT_HEIGHT + 8;
+            return (
+              <text
+                key={leaf}
+                x={x}
+                y={y}
+                transform={`rotate(-60 ${x} ${y})`}
+                textAnchor="end"
+                fontSize={10}
+                fill={model.profiles[model.leafClusters[leaf]].color}
+              >
+                {model.sampleIds[leaf]}
+              </text>
+            );
+          })}
+        </svg>
+        {!labelled && (
+          <p className="text-xs text-muted-foreground text-center">
+            Sample labels are hidden for more than {MAX_LABELLED_LEAVES} samples; the results table lists each sample's cluster.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
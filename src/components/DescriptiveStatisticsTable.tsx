@@ -0,0 +1,99 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PERCENTILES, StatisticsRow, formatStatistic } from "@/utils/descriptiveStatistics";
+import { getSummaryMethod } from "@/utils/censoring";
+
+interface DescriptiveStatisticsTableProps {
+  rows: StatisticsRow[];
+  standardName: string;
+}
+
+export const DescriptiveStatisticsTable = ({ rows, standardName }: DescriptiveStatisticsTableProps) => {
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const summaryMethods = [...new Set(rows.filter(row => row.stats.censoredCount > 0).map(row => row.stats.summaryMethod))];
+
+  return (
+    <Card className="shadow-medium mb-8">
+      <CardHeader>
+        <CardTitle>Descriptive Statistics</CardTitle>
+        <CardDescription>
+          Per parameter and index. Limits are {standardName} acceptable values for parameters and the boundary of the
+          lowest class for indices; non-detects never count as exceeding.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variable</TableHead>
+                <TableHead className="text-right">n</TableHead>
+                <TableHead className="text-right">&lt;DL</TableHead>
+                <TableHead className="text-right">Min</TableHead>
+                <TableHead className="text-right">P{PERCENTILES[0]}</TableHead>
+                <TableHead className="text-right">P{PERCENTILES[1]}</TableHead>
+                <TableHead className="text-right">Median</TableHead>
+                <TableHead className="text-right">Mean</TableHead>
+                <TableHead className="text-right">Geo. mean</TableHead>
+                <TableHead className="text-right">P{PERCENTILES[2]}</TableHead>
+                <TableHead className="text-right">P{PERCENTILES[3]}</TableHead>
+                <TableHead className="text-right">Max</TableHead>
+                <TableHead className="text-right">SD</TableHead>
+                <TableHead className="text-right">CV (%)</TableHead>
+                <TableHead className="text-right">Skewness</TableHead>
+                <TableHead className="text-right">Kurtosis</TableHead>
+                <TableHead className="text-right">Limit</TableHead>
+                <TableHead className="text-right">Exceeding</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ id, label, unit, kind, limitLabel, stats }) => (
+                <TableRow key={`${kind}-${id}`} className={kind === 'index' ? 'bg-muted/30' : undefined}>
+                  <TableCell className="font-medium whitespace-nowrap">
+                    {label}
+                    {unit && <span className="text-xs text-muted-foreground ml-1">({unit})</span>}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{stats.n}</TableCell>
+                  <TableCell className="text-right font-mono">{stats.censoredCount || '—'}</TableCell>
+                  {stats.n > 0 && stats.censoredCount === stats.n ? (
+                    <TableCell colSpan={13} className="text-center text-sm text-muted-foreground">
+                      All values below the detection limit
+                    </TableCell>
+                  ) : (
+                    <>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.min)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.percentiles[PERCENTILES[0]])}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.percentiles[PERCENTILES[1]])}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.median)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.mean)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.geometricMean)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.percentiles[PERCENTILES[2]])}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.percentiles[PERCENTILES[3]])}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.max)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.sd)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.cv)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.skewness)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatStatistic(stats.kurtosis)}</TableCell>
+                    </>
+                  )}
+                  <TableCell className="text-right text-sm text-muted-foreground whitespace-nowrap">{limitLabel}</TableCell>
+                  <TableCell className={`text-right font-mono whitespace-nowrap ${stats.exceedances > 0 ? 'text-danger font-semibold' : ''}`}>
+                    {stats.exceedances} ({stats.exceedancePercent.toFixed(0)}%)
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        <p className="text-xs text-muted-foreground mt-4">
+          Percentiles by linear interpolation; skewness is the adjusted Fisher–Pearson coefficient and kurtosis is excess
+          kurtosis. — marks statistics that cannot be computed, such as the geometric mean of non-positive values.
+          {summaryMethods.length > 0 && ` With non-detects, means and medians are estimated by ${summaryMethods.map(method => getSummaryMethod(method).label).join(' or ')}; other statistics use the substituted values.`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,93 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DUROV_OUTLINES, DiagramPoint, durovPoint, durovTrianglePoints, getFaciesType, triangleGridLines } from "@/utils/facies";
+import type { SampleResult } from "@/types/sample";
+
+interface DurovDiagramProps {
+  results: SampleResult[];
+}
+
+// Drawing scale (px per percent) and margin for the vertex labels
+const SCALE = 2.2;
+const MARGIN = 32;
+const MIN_X = Math.min(...DUROV_OUTLINES.cations.map(p => p.x));
+const MAX_Y = Math.max(...DUROV_OUTLINES.anions.map(p => p.y));
+
+const toSvg = ({ x, y }: DiagramPoint) => ({
+  x: MARGIN + (x - MIN_X) * SCALE,
+  y: MARGIN + (MAX_Y - y) * SCALE,
+});
+
+const toPath = (points: DiagramPoint[]) =>
+  points.map(toSvg).map(({ x, y }, i) => `${i ? 'L' : 'M'}${x},${y}`).join(' ') + ' Z';
+
+const SQUARE_GRID: [DiagramPoint, DiagramPoint][] = [20, 40, 60, 80].flatMap<[DiagramPoint, DiagramPoint]>(t => [
+  [{ x: t, y: 0 }, { x: t, y: 100 }],
+  [{ x: 0, y: t }, { x: 100, y: t }],
+]);
+
+const LABELS: { text: string; at: DiagramPoint; anchor: 'start' | 'middle' | 'end'; dx: number; dy: number }[] = [
+  { text: 'HCO3', at: DUROV_OUTLINES.anions[0], anchor: 'end', dx: -6, dy: -8 },
+  { text: 'Cl', at: DUROV_OUTLINES.anions[1], anchor: 'start', dx: 4, dy: 4 },
+  { text: 'SO4', at: DUROV_OUTLINES.anions[2], anchor: 'middle', dx: 0, dy: -6 },
+  { text: 'Ca', at: DUROV_OUTLINES.cations[0], anchor: 'middle', dx: 0, dy: 16 },
+  { text: 'Mg', at: DUROV_OUTLINES.cations[2], anchor: 'end', dx: -4, dy: 4 },
+  { text: 'Na + K', at: DUROV_OUTLINES.cations[1], anchor: 'end', dx: -6, dy: 8 },
+];
+
+export const DurovDiagram = ({ results }: DurovDiagramProps) => {
+  const classified = results.filter(r => r.facies);
+  if (classified.length === 0) {
+    return null;
+  }
+
+  const width = (100 - MIN_X) * SCALE + 2 * MARGIN;
+  const height = MAX_Y * SCALE + 2 * MARGIN;
+
+  return (
+    <Card className="shadow-medium">
+      <CardHeader>
+        <CardTitle>Durov Diagram</CardTitle>
+        <CardDescription>
+          Cation and anion triangles in meq/L percent, projected onto the square; dashed lines mark the 50% divides
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Durov diagram">
+          {[...triangleGridLines(DUROV_OUTLINES.cations), ...triangleGridLines(DUROV_OUTLINES.anions), ...SQUARE_GRID].map(([from, to], i) => {
+            const a = toSvg(from);
+            const b = toSvg(to);
+            return <line key={i} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="hsl(var(--border))" strokeDasharray="3 3" />;
+          })}
+          {[[{ x: 50, y: 0 }, { x: 50, y: 100 }], [{ x: 0, y: 50 }, { x: 100, y: 50 }]].map(([from, to], i) => {
+            const a = toSvg(from);
+            const b = toSvg(to);
+            return <line key={i} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="hsl(var(--muted-foreground))" strokeDasharray="6 3" />;
+          })}
+          {Object.entries(DUROV_OUTLINES).map(([field, outline]) => (
+            <path key={field} d={toPath(outline)} fill="none" stroke="hsl(var(--muted-foreground))" strokeWidth={1.5} />
+          ))}
+          {LABELS.map(label => {
+            const { x, y } = toSvg(label.at);
+            return (
+              <text key={label.text} x={x + label.dx} y={y + label.dy} textAnchor={label.anchor} fontSize={12} fill="hsl(var(--muted-foreground))">
+                {label.text}
+              </text>
+            );
+          })}
+          {classified.map(result => {
+            const { color, label } = getFaciesType(result.facies.type);
+            const points = { ...durovTrianglePoints(result.facies), square: durovPoint(result.facies) };
+            return Object.entries(points).map(([field, point]) => {
+              const { x, y } = toSvg(point);
+              return (
+                <circle key={`${result.sampleId}-${field}`} cx={x} cy={y} r={4} fill={color} fillOpacity={0.8} stroke="white">
+                  <title>{`${result.sampleId}: ${result.facies.waterType} (${label})`}</title>
+                </circle>
+              );
+            });
+          })}
+        </svg>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,78 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Droplets } from "lucide-react";
+import { PiperDiagram } from "@/components/PiperDiagram";
+import { DurovDiagram } from "@/components/DurovDiagram";
+import { GibbsDiagram } from "@/components/GibbsDiagram";
+import { FACIES_TYPES } from "@/utils/facies";
+import type { SampleResult } from "@/types/sample";
+
+interface FaciesPanelProps {
+  results: SampleResult[];
+}
+
+export const FaciesPanel = ({ results }: FaciesPanelProps) => {
+  const classified = (results ?? []).filter(r => r.facies);
+  if (classified.length === 0) {
+    return null;
+  }
+
+  const typeCounts = FACIES_TYPES.map(type => ({
+    ...type,
+    count: classified.filter(r => r.facies.type === type.id).length,
+  }));
+  const waterTypes = Object.entries(classified.reduce<Record<string, number>>((counts, r) => {
+    counts[r.facies.waterType] = (counts[r.facies.waterType] ?? 0) + 1;
+    return counts;
+  }, {})).sort(([, a], [, b]) => b - a);
+  const hasGibbs = classified.some(r => r.facies.gibbs);
+
+  return (
+    <section id="facies" className="py-16 bg-background">
+      <div className="container mx-auto px-4">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl font-bold mb-4 text-foreground font-scientific">Hydrochemical Facies</h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Water types of {classified.length} of {results.length} samples from the relative proportions of major
+            ions, to help trace the sources and processes behind the water chemistry.
+          </p>
+        </div>
+
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+          {typeCounts.map(type => (
+            <Card key={type.id} className="shadow-soft">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium" style={{ color: type.color }}>{type.label}</CardTitle>
+                <Droplets className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{type.count}</div>
+                <p className="text-xs text-muted-foreground">{type.description}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="flex gap-2 flex-wrap justify-center mb-8">
+          <span className="text-sm text-muted-foreground">Dominant-ion water types:</span>
+          {waterTypes.map(([waterType, count]) => (
+            <Badge key={waterType} variant="outline">{waterType}: {count}</Badge>
+          ))}
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-8 mb-8">
+          <PiperDiagram results={classified} />
+          <DurovDiagram results={classified} />
+        </div>
+
+        {hasGibbs ? (
+          <GibbsDiagram results={classified} />
+        ) : (
+          <p className="text-sm text-muted-foreground text-center">
+            Measure TDS to place samples on the Gibbs diagram.
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
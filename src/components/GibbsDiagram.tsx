@@ -0,0 +1,113 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceDot } from 'recharts';
+import { FACIES_TYPES, GibbsRatios } from "@/utils/facies";
+import type { SampleResult } from "@/types/sample";
+
+interface GibbsDiagramProps {
+  results: SampleResult[];
+}
+
+// Plotting range of TDS (mg/L)
+const TDS_RANGE: [number, number] = [1, 100000];
+
+// Approximate centres of the Gibbs (1970) fields, where their labels are drawn
+const MECHANISMS = [
+  { label: 'Evaporation dominance', ratio: 0.8, tds: 20000 },
+  { label: 'Rock dominance', ratio: 0.25, tds: 300 },
+  { label: 'Precipitation dominance', ratio: 0.8, tds: 8 },
+];
+
+interface GibbsPoint {
+  sampleId: string;
+  ratio: number;
+  tds: number;
+  waterType: string;
+}
+
+const GibbsTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: GibbsPoint }[] }) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="bg-background border border-border rounded-md p-2 text-xs shadow-soft">
+      <p className="font-medium">{point.sampleId}</p>
+      <p>TDS: {point.tds} mg/L</p>
+      <p>Ratio: {point.ratio.toFixed(3)}</p>
+      <p>Water type: {point.waterType}</p>
+    </div>
+  );
+};
+
+const GibbsChart = ({ results, ratio, label }: { results: SampleResult[]; ratio: keyof Omit<GibbsRatios, 'tds'>; label: string }) => (
+  <ResponsiveContainer width="100%" height={340}>
+    <ScatterChart margin={{ top: 20, right: 20, bottom: 10, left: 10 }}>
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis
+        type="number"
+        dataKey="ratio"
+        name={label}
+        domain={[0, 1]}
+        ticks={[0, 0.2, 0.4, 0.6, 0.8, 1]}
+        label={{ value: label, position: 'insideBottom', offset: -5 }}
+      />
+      <YAxis
+        type="number"
+        dataKey="tds"
+        name="TDS"
+        scale="log"
+        domain={TDS_RANGE}
+        ticks={[1, 10, 100, 1000, 10000, 100000]}
+        allowDataOverflow
+        label={{ value: 'TDS (mg/L)', angle: -90, position: 'insideLeft' }}
+      />
+      {MECHANISMS.map(mechanism => (
+        <ReferenceDot
+          key={mechanism.label}
+          x={mechanism.ratio}
+          y={mechanism.tds}
+          r={0}
+          label={{ value: mechanism.label, fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+        />
+      ))}
+      <Tooltip content={<GibbsTooltip />} />
+      {FACIES_TYPES.map(type => (
+        <Scatter
+          key={type.id}
+          name={type.label}
+          fill={type.color}
+          data={results
+            .filter(r => r.facies.type === type.id)
+            .map<GibbsPoint>(r => ({
+              sampleId: r.sampleId,
+              ratio: r.facies.gibbs[ratio],
+              tds: r.facies.gibbs.tds,
+              waterType: r.facies.waterType,
+            }))}
+        />
+      ))}
+    </ScatterChart>
+  </ResponsiveContainer>
+);
+
+export const GibbsDiagram = ({ results }: GibbsDiagramProps) => {
+  const plotted = results.filter(r => r.facies?.gibbs);
+  if (plotted.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-medium">
+      <CardHeader>
+        <CardTitle>Gibbs Diagram</CardTitle>
+        <CardDescription>
+          Mechanisms controlling groundwater chemistry: TDS against Na / (Na + Ca) and Cl / (Cl + HCO3), in meq/L
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid md:grid-cols-2 gap-4">
+          <GibbsChart results={plotted} ratio="cationRatio" label="Na / (Na + Ca)" />
+          <GibbsChart results={plotted} ratio="anionRatio" label="Cl / (Cl + HCO3)" />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
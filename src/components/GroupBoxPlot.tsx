@@ -0,0 +1,93 @@
+import type { GroupComparison } from "@/utils/groupComparison";
+
+interface GroupBoxPlotProps {
+  comparison: GroupComparison;
+}
+
+// Drawing area and margins for the value axis and group labels
+const WIDTH = 800;
+const PLOT_HEIGHT = 260;
+const MARGIN = { top: 12, right: 12, bottom: 56, left: 64 };
+
+const TICK_COUNT = 5;
+const BOX_COLOR = '#0891b2';
+
+const formatTick = (value: number) => String(Number(value.toPrecision(3)));
+
+export const GroupBoxPlot = ({ comparison }: GroupBoxPlotProps) => {
+  const { groups, variable } = comparison;
+  const values = groups.flatMap(g => [g.boxPlot.lowerWhisker, g.boxPlot.upperWhisker, ...g.boxPlot.outliers]);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  // A constant variable still gets a visible range
+  const padding = (max - min) * 0.05 || Math.abs(max) * 0.1 || 1;
+  const low = min - padding;
+  const high = max + padding;
+  const height = PLOT_HEIGHT + MARGIN.top + MARGIN.bottom;
+  const slot = (WIDTH - MARGIN.left - MARGIN.right) / groups.length;
+  const boxWidth = Math.min(60, slot * 0.5);
+
+  const toX = (index: number) => MARGIN.left + (index + 0.5) * slot;
+  const toY = (value: number) => MARGIN.top + PLOT_HEIGHT * (1 - (value - low) / (high - low));
+  const ticks = Array.from({ length: TICK_COUNT + 1 }, (_, i) => low + ((high - low) * i) / TICK_COUNT);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={`Box plots of ${variable.label} by ${comparison.column}`}>
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={MARGIN.left} y1={toY(tick)} x2={WIDTH - MARGIN.right} y2={toY(tick)} stroke="hsl(var(--border))" strokeDasharray="3 3" />
+          <text x={MARGIN.left - 8} y={toY(tick) + 4} textAnchor="end" fontSize={11} fill="hsl(var(--muted-foreground))">
+            {formatTick(tick)}
+          </text>
+        </g>
+      ))}
+      <line x1={MARGIN.left} y1={MARGIN.top} x2={MARGIN.left} y2={MARGIN.top + PLOT_HEIGHT} stroke="hsl(var(--muted-foreground))" />
+      {variable.unit && (
+        <text
+          x={14}
+          y={MARGIN.top + PLOT_HEIGHT / 2}
+          transform={`rotate(-90 14 ${MARGIN.top + PLOT_HEIGHT / 2})`}
+          textAnchor="middle"
+          fontSize={11}
+          fill="hsl(var(--muted-foreground))"
+        >
+          {variable.unit}
+        </text>
+      )}
+      {groups.map(({ group, stats, boxPlot }, index) => {
+        const x = toX(index);
+        const tested = comparison.tested.includes(group);
+        return (
+          <g key={group} opacity={tested ? 1 : 0.5}>
+            <title>
+              {`${group}: n = ${stats.n}, median ${formatTick(boxPlot.median)}, IQR ${formatTick(boxPlot.q1)}–${formatTick(boxPlot.q3)}`}
+            </title>
+            <line x1={x} y1={toY(boxPlot.lowerWhisker)} x2={x} y2={toY(boxPlot.q1)} stroke={BOX_COLOR} />
+            <line x1={x} y1={toY(boxPlot.q3)} x2={x} y2={toY(boxPlot.upperWhisker)} stroke={BOX_COLOR} />
+            <line x1={x - boxWidth / 4} y1={toY(boxPlot.lowerWhisker)} x2={x + boxWidth / 4} y2={toY(boxPlot.lowerWhisker)} stroke={BOX_COLOR} />
+            <line x1={x - boxWidth / 4} y1={toY(boxPlot.upperWhisker)} x2={x + boxWidth / 4} y2={toY(boxPlot.upperWhisker)} stroke={BOX_COLOR} />
+            <rect
+              x={x - boxWidth / 2}
+              y={toY(boxPlot.q3)}
+              width={boxWidth}
+              height={Math.max(1, toY(boxPlot.q1) - toY(boxPlot.q3))}
+              fill={`${BOX_COLOR}33`}
+              stroke={BOX_COLOR}
+            />
+            <line x1={x - boxWidth / 2} y1={toY(boxPlot.median)} x2={x + boxWidth / 2} y2={toY(boxPlot.median)} stroke={BOX_COLOR} strokeWidth={2.5} />
+            <text x={x} y={toY(stats.mean) + 4} textAnchor="middle" fontSize={12} fill="hsl(var(--foreground))">×</text>
+            {boxPlot.outliers.map((value, i) => (
+              <circle key={i} cx={x} cy={toY(value)} r={3} fill="none" stroke="#dc2626" />
+            ))}
+            <text x={x} y={MARGIN.top + PLOT_HEIGHT + 18} textAnchor="middle" fontSize={11} fill="hsl(var(--foreground))">
+              {group}
+            </text>
+            <text x={x} y={MARGIN.top + PLOT_HEIGHT + 34} textAnchor="middle" fontSize={10} fill="hsl(var(--muted-foreground))">
+              n = {stats.n}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,237 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GroupBoxPlot } from "@/components/GroupBoxPlot";
+import {
+  GroupComparison,
+  GroupComparisonOptions,
+  MIN_GROUP_SIZE,
+  P_VALUE_ADJUSTMENTS,
+  PValueAdjustment,
+  compareAllGroups,
+  getActiveGroupingColumn,
+  getGroupingColumns,
+  getPValueAdjustment,
+} from "@/utils/groupComparison";
+import { significanceMarker } from "@/utils/correlation";
+import { formatPValue } from "@/utils/trends";
+import type { SampleResult } from "@/types/sample";
+
+interface GroupComparisonPanelProps {
+  results: SampleResult[];
+  options: GroupComparisonOptions;
+  onOptionsChange: (options: GroupComparisonOptions) => void;
+}
+
+const formatNumber = (value: number) =>
+  Number.isFinite(value) ? String(Number(value.toPrecision(4))) : '—';
+
+const formatP = (pValue: number) =>
+  Number.isFinite(pValue) ? `${formatPValue(pValue)}${significanceMarker(pValue)}` : '—';
+
+// Variables that differ most between groups first
+const compareByRankTest = (a: GroupComparison, b: GroupComparison) =>
+  (a.kruskalWallis?.pValue ?? 1) - (b.kruskalWallis?.pValue ?? 1);
+
+export const GroupComparisonPanel = ({ results, options, onOptionsChange }: GroupComparisonPanelProps) => {
+  const [selectedVariable, setSelectedVariable] = useState('');
+  const column = getActiveGroupingColumn(results, options);
+  const comparisons = useMemo(
+    () => (column ? compareAllGroups(results, column, options.adjustment).filter(c => c.kruskalWallis) : []),
+    [results, column, options.adjustment]
+  );
+
+  if (!column) {
+    return null;
+  }
+
+  const ranked = [...comparisons].sort(compareByRankTest);
+  const active = comparisons.find(c => c.variable.id === selectedVariable) ?? ranked[0];
+
+  return (
+    <Card className="shadow-medium mb-8">
+      <CardHeader className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+        <div>
+          <CardTitle>Group Comparison</CardTitle>
+          <CardDescription>
+            Whether parameters and indices differ between groups of samples. Click a row to see its box plot and
+            pairwise comparisons.
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="group-column" className="text-xs text-muted-foreground">Group by</Label>
+            <Select value={column} onValueChange={(value) => onOptionsChange({ ...options, column: value })}>
+              <SelectTrigger id="group-column" className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {getGroupingColumns(results).map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="group-adjustment" className="text-xs text-muted-foreground">Post-hoc adjustment</Label>
+            <Select
+              value={options.adjustment}
+              onValueChange={(adjustment) => onOptionsChange({ ...options, adjustment: adjustment as PValueAdjustment })}
+            >
+              <SelectTrigger id="group-adjustment" className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {P_VALUE_ADJUSTMENTS.map(adjustment => (
+                  <SelectItem key={adjustment.id} value={adjustment.id}>{adjustment.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {ranked.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No variable has at least two groups of {MIN_GROUP_SIZE} or more samples by {column}.
+          </p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Variable</TableHead>
+                    <TableHead className="text-right">Groups</TableHead>
+                    <TableHead className="text-right">n</TableHead>
+                    <TableHead className="text-right">ANOVA F</TableHead>
+                    <TableHead className="text-right">p</TableHead>
+                    <TableHead className="text-right">η²</TableHead>
+                    <TableHead className="text-right">Kruskal–Wallis H</TableHead>
+                    <TableHead className="text-right">p</TableHead>
+                    <TableHead className="text-right">ε²</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ranked.map(comparison => (
+                    <TableRow
+                      key={comparison.variable.id}
+                      className={`cursor-pointer hover:bg-muted/50 ${comparison === active ? 'bg-muted/30' : ''}`}
+                      onClick={() => setSelectedVariable(comparison.variable.id)}
+                    >
+                      <TableCell className="font-medium whitespace-nowrap">
+                        {comparison.variable.label}
+                        {comparison.variable.unit && <span className="text-xs text-muted-foreground ml-1">{comparison.variable.unit}</span>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{comparison.tested.length}</TableCell>
+                      <TableCell className="text-right font-mono">{comparison.anova.dfBetween + comparison.anova.dfWithin + 1}</TableCell>
+                      <TableCell className="text-right font-mono">{formatNumber(comparison.anova.f)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatP(comparison.anova.pValue)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatNumber(comparison.anova.etaSquared)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatNumber(comparison.kruskalWallis.h)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatP(comparison.kruskalWallis.pValue)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatNumber(comparison.kruskalWallis.epsilonSquared)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+                <div>
+                  <h4 className="font-semibold">{active.variable.label} by {column}</h4>
+                  <p className="text-sm text-muted-foreground">
+                    ANOVA F({active.anova.dfBetween}, {active.anova.dfWithin}) = {formatNumber(active.anova.f)}, p = {formatP(active.anova.pValue)};
+                    {' '}Kruskal–Wallis H({active.kruskalWallis.df}) = {formatNumber(active.kruskalWallis.h)}, p = {formatP(active.kruskalWallis.pValue)}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="group-variable" className="text-xs text-muted-foreground">Variable</Label>
+                  <Select value={active.variable.id} onValueChange={setSelectedVariable}>
+                    <SelectTrigger id="group-variable" className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {comparisons.map(comparison => (
+                        <SelectItem key={comparison.variable.id} value={comparison.variable.id}>{comparison.variable.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <GroupBoxPlot comparison={active} />
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{column}</TableHead>
+                        <TableHead className="text-right">n</TableHead>
+                        <TableHead className="text-right">Mean</TableHead>
+                        <TableHead className="text-right">SD</TableHead>
+                        <TableHead className="text-right">Median</TableHead>
+                        <TableHead className="text-right">Min</TableHead>
+                        <TableHead className="text-right">Max</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {active.groups.map(({ group, stats }) => (
+                        <TableRow key={group} className={active.tested.includes(group) ? '' : 'opacity-60'}>
+                          <TableCell className="font-medium">{group}</TableCell>
+                          <TableCell className="text-right font-mono">{stats.n}</TableCell>
+                          <TableCell className="text-right font-mono">{formatNumber(stats.mean)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatNumber(stats.sd)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatNumber(stats.median)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatNumber(stats.min)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatNumber(stats.max)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Dunn's Test</TableHead>
+                        <TableHead className="text-right">Mean Rank Diff.</TableHead>
+                        <TableHead className="text-right">z</TableHead>
+                        <TableHead className="text-right">p</TableHead>
+                        <TableHead className="text-right">Adjusted p</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {active.dunn.map(pair => (
+                        <TableRow key={`${pair.groupA}-${pair.groupB}`}>
+                          <TableCell className="whitespace-nowrap">{pair.groupA} vs {pair.groupB}</TableCell>
+                          <TableCell className="text-right font-mono">{formatNumber(pair.meanRankDifference)}</TableCell>
+                          <TableCell className="text-right font-mono">{pair.z.toFixed(2)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatPValue(pair.pValue)}</TableCell>
+                          <TableCell className={`text-right font-mono ${pair.adjustedPValue < 0.05 ? 'font-semibold text-danger' : ''}`}>
+                            {formatP(pair.adjustedPValue)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+        <p className="text-xs text-muted-foreground">
+          * p &lt; 0.05, ** p &lt; 0.01, *** p &lt; 0.001. Tests compare groups with at least {MIN_GROUP_SIZE} values; smaller
+          groups are shown faded. Non-detects enter with their substituted values. ANOVA assumes normal residuals with equal
+          variances; Kruskal–Wallis and Dunn's test use ranks and suit skewed concentrations. Dunn's p-values are adjusted
+          by the {getPValueAdjustment(options.adjustment).label} method. Boxes span the interquartile range,
+          whiskers reach 1.5 IQR, × marks the mean.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
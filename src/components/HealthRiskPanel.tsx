@@ -0,0 +1,157 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { HeartPulse } from "lucide-react";
+import { PARAMETERS } from "@/utils/parameters";
+import { COHORTS, RiskSeverity, classifyCancerRisk, classifyHazardIndex, formatRisk } from "@/utils/healthRisk";
+import type { SampleResult } from "@/types/sample";
+
+interface HealthRiskPanelProps {
+  results: SampleResult[];
+}
+
+const SEVERITY_TEXT: Record<RiskSeverity, string> = {
+  safe: 'text-safe',
+  moderate: 'text-moderate',
+  danger: 'text-danger',
+};
+
+const COHORT_COLORS = {
+  adult: 'hsl(var(--primary))',
+  child: 'hsl(var(--accent))',
+};
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export const HealthRiskPanel = ({ results }: HealthRiskPanelProps) => {
+  if (!results || results.length === 0) {
+    return null;
+  }
+
+  const assessed = PARAMETERS.filter(p => results.some(r => r.healthRisk.adult.metals[p.key]));
+  const carcinogens = assessed.filter(p => p.toxicity?.sfOral);
+
+  const cohortSummaries = COHORTS.map(cohort => {
+    const hazardIndices = results.map(r => r.healthRisk[cohort.id].hazardIndex);
+    const cancerRisks = results.map(r => r.healthRisk[cohort.id].totalCancerRisk);
+    return {
+      ...cohort,
+      meanHI: mean(hazardIndices),
+      maxHI: Math.max(...hazardIndices),
+      hiExceeding: hazardIndices.filter(hi => hi >= 1).length,
+      meanCR: mean(cancerRisks),
+      crUnacceptable: cancerRisks.filter(cr => cr > 1e-4).length,
+    };
+  });
+
+  const hqData = assessed.map(parameter => ({
+    metal: parameter.symbol,
+    ...Object.fromEntries(COHORTS.map(cohort => [
+      cohort.label,
+      Number(mean(results
+        .map(r => r.healthRisk[cohort.id].metals[parameter.key]?.hq)
+        .filter(hq => hq !== undefined)).toFixed(3)),
+    ])),
+  }));
+
+  return (
+    <section id="health-risk" className="py-16 bg-background">
+      <div className="container mx-auto px-4">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl font-bold mb-4 text-foreground font-scientific">Human Health Risk</h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Non-carcinogenic hazard and incremental lifetime cancer risk from drinking-water ingestion and
+            dermal contact, following the US EPA methodology.
+          </p>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6 mb-8">
+          {cohortSummaries.map(summary => (
+            <Card key={summary.id} className="shadow-soft">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{summary.label}</CardTitle>
+                <HeartPulse className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-sm text-muted-foreground">Mean hazard index</span>
+                  <span className={`text-2xl font-bold ${SEVERITY_TEXT[classifyHazardIndex(summary.meanHI).severity]}`}>
+                    {summary.meanHI.toFixed(2)}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Max: {summary.maxHI.toFixed(2)} · {summary.hiExceeding} of {results.length} samples with HI ≥ 1
+                </p>
+                <div className="flex items-baseline justify-between">
+                  <span className="text-sm text-muted-foreground">Mean cancer risk (ILCR)</span>
+                  <span className={`text-lg font-semibold font-mono ${SEVERITY_TEXT[classifyCancerRisk(summary.meanCR).severity]}`}>
+                    {formatRisk(summary.meanCR)}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {summary.crUnacceptable} of {results.length} samples above 1E-4
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-8">
+          <Card className="shadow-medium">
+            <CardHeader>
+              <CardTitle>Mean Hazard Quotient by Metal</CardTitle>
+              <CardDescription>Ingestion + dermal; HQ ≥ 1 indicates potential adverse effects</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={hqData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="metal" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <ReferenceLine y={1} stroke="hsl(var(--danger))" strokeDasharray="4 4" />
+                  {COHORTS.map(cohort => (
+                    <Bar key={cohort.id} dataKey={cohort.label} fill={COHORT_COLORS[cohort.id]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-medium">
+            <CardHeader>
+              <CardTitle>Carcinogenic Risk by Metal</CardTitle>
+              <CardDescription>Mean ILCR; tolerable range 1E-6 to 1E-4; total chromium assessed as Cr(VI)</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {carcinogens.map(parameter => (
+                  <div key={parameter.key} className="flex items-center justify-between">
+                    <span className="font-medium">{parameter.name}</span>
+                    <div className="flex gap-2">
+                      {COHORTS.map(cohort => {
+                        const risk = mean(results
+                          .map(r => r.healthRisk[cohort.id].metals[parameter.key]?.cancerRisk)
+                          .filter(cr => cr !== undefined));
+                        return (
+                          <Badge key={cohort.id} variant="outline" className={`font-mono ${SEVERITY_TEXT[classifyCancerRisk(risk).severity]}`}>
+                            {cohort.label}: {formatRisk(risk)}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+                {carcinogens.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No carcinogenic metals were measured.</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </section>
+  );
+};
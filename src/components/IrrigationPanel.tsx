@@ -0,0 +1,143 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Sprout } from "lucide-react";
+import { UsslDiagram } from "@/components/UsslDiagram";
+import { WilcoxDiagram } from "@/components/WilcoxDiagram";
+import { IRRIGATION_INDICES, IrrigationSeverity } from "@/utils/irrigation";
+import type { SampleResult } from "@/types/sample";
+
+interface IrrigationPanelProps {
+  results: SampleResult[];
+}
+
+const SEVERITY_TEXT: Record<IrrigationSeverity, string> = {
+  safe: 'text-safe',
+  moderate: 'text-moderate',
+  danger: 'text-danger',
+};
+
+const mean = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export const IrrigationPanel = ({ results }: IrrigationPanelProps) => {
+  const assessed = (results ?? []).filter(r => r.irrigation);
+  if (assessed.length === 0) {
+    return null;
+  }
+
+  const indices = IRRIGATION_INDICES.filter(index => assessed.some(r => r.irrigation.indices[index.id]));
+  const indexSummaries = indices.map(index => {
+    const values = assessed.map(r => r.irrigation.indices[index.id]).filter(Boolean);
+    return {
+      ...index,
+      mean: mean(values.map(v => v.value)),
+      assessed: values.length,
+      unsuitable: values.filter(v => v.severity === 'danger').length,
+    };
+  });
+  const hasUssl = assessed.some(r => r.irrigation.ussl);
+  const hasWilcox = assessed.some(r => r.irrigation.wilcox);
+
+  return (
+    <section id="irrigation" className="py-16 bg-background">
+      <div className="container mx-auto px-4">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl font-bold mb-4 text-foreground font-scientific">Irrigation Suitability</h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Sodium and salinity hazard of {assessed.length} of {results.length} samples, from major ions in meq/L
+            and electrical conductivity.
+          </p>
+        </div>
+
+        <div className="grid md:grid-cols-3 lg:grid-cols-6 gap-4 mb-8">
+          {indexSummaries.map(summary => (
+            <Card key={summary.id} className="shadow-soft">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium" title={summary.label}>{summary.shortLabel}</CardTitle>
+                <Sprout className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{summary.mean.toFixed(2)}</div>
+                <p className="text-xs text-muted-foreground">
+                  Mean · {summary.unsuitable} of {summary.assessed} unsuitable
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {(hasUssl || hasWilcox) ? (
+          <div className="grid lg:grid-cols-2 gap-8 mb-8">
+            <UsslDiagram results={assessed} />
+            <WilcoxDiagram results={assessed} />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center mb-8">
+            Measure EC to place samples on the USSL and Wilcox diagrams.
+          </p>
+        )}
+
+        <Card className="shadow-medium">
+          <CardHeader>
+            <CardTitle>Irrigation Classes by Sample</CardTitle>
+            <CardDescription>
+              {indices.map(index => `${index.shortLabel} = ${index.formula}`).join(' · ')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sample ID</TableHead>
+                    {indices.map(index => (
+                      <TableHead key={index.id} className="text-right">{index.shortLabel}</TableHead>
+                    ))}
+                    {hasUssl && <TableHead>USSL</TableHead>}
+                    {hasWilcox && <TableHead>Wilcox</TableHead>}
+                    <TableHead>Overall</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {assessed.map(result => {
+                    const { irrigation } = result;
+                    return (
+                      <TableRow key={result.sampleId}>
+                        <TableCell className="font-medium">{result.sampleId}</TableCell>
+                        {indices.map(index => {
+                          const value = irrigation.indices[index.id];
+                          return (
+                            <TableCell
+                              key={index.id}
+                              className={`text-right font-mono ${value ? SEVERITY_TEXT[value.severity] : 'text-muted-foreground'}`}
+                              title={value?.label}
+                            >
+                              {value ? value.value.toFixed(2) : '—'}
+                            </TableCell>
+                          );
+                        })}
+                        {hasUssl && (
+                          <TableCell className={irrigation.ussl ? SEVERITY_TEXT[irrigation.ussl.severity] : 'text-muted-foreground'}>
+                            {irrigation.ussl?.label ?? '—'}
+                          </TableCell>
+                        )}
+                        {hasWilcox && (
+                          <TableCell className={irrigation.wilcox ? SEVERITY_TEXT[irrigation.wilcox.severity] : 'text-muted-foreground'}>
+                            {irrigation.wilcox?.label ?? '—'}
+                          </TableCell>
+                        )}
+                        <TableCell className={`font-semibold ${SEVERITY_TEXT[irrigation.summary.severity]}`}>
+                          {irrigation.summary.label}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SearchCheck } from "lucide-react";
+import { getParameter } from "@/utils/parameters";
+import {
+  OUTLIER_ACTIONS,
+  OUTLIER_TESTS,
+  OutlierAction,
+  OutlierDecisions,
+  detectOutliers,
+  getOutlierTest,
+  outlierKey,
+  reviewOutliers,
+} from "@/utils/outliers";
+import type { SampleData } from "@/types/sample";
+
+interface OutlierReviewPanelProps {
+  samples: SampleData[];  // As uploaded, before any decision is applied
+  decisions: OutlierDecisions;
+  onChange: (decisions: OutlierDecisions) => void;
+}
+
+const ACTION_TEXT: Record<OutlierAction | 'pending', string> = {
+  pending: 'text-moderate',
+  accept: 'text-safe',
+  correct: 'text-primary',
+  exclude: 'text-muted-foreground',
+};
+
+const formatValue = (value: number) => String(Number(value.toPrecision(4)));
+
+const formatCorrection = (value?: number) => (value === undefined ? '' : String(value));
+
+// A concentration replacing a flagged value; left empty, the correction stays pending
+const validateCorrection = (text: string) => {
+  const parsed = Number(text);
+  if (text.trim() === '' || !Number.isFinite(parsed)) return 'Enter a number';
+  if (parsed < 0) return 'Must be at least 0';
+  return undefined;
+};
+
+interface CorrectedValueInputProps {
+  value?: number;
+  unit?: string;
+  onCommit: (value: number) => void;
+}
+
+/**
+ * Corrected value committed on blur, so the analysis does not re-run on every keystroke. An invalid entry is flagged
+ * while typing and reverted on blur, like the numeric analysis settings.
+ */
+const CorrectedValueInput = ({ value, unit, onCommit }: CorrectedValueInputProps) => {
+  const [text, setText] = useState(formatCorrection(value));
+  useEffect(() => setText(formatCorrection(value)), [value]);
+  const error = text === '' && value === undefined ? undefined : validateCorrection(text);
+
+  return (
+    <div className="space-y-1">
+      <Input
+        type="number"
+        min={0}
+        step="any"
+        className={`w-32 ${error ? 'border-danger' : ''}`}
+        placeholder={unit}
+        value={text}
+        aria-invalid={Boolean(error)}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => {
+          if (error) setText(formatCorrection(value));
+          else if (text !== '' && Number(text) !== value) onCommit(Number(text));
+        }}
+      />
+      {error && (
+        <p className="text-xs text-danger">
+          {error}; {value === undefined ? 'the correction stays pending' : `${formatCorrection(value)} is kept`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export const OutlierReviewPanel = ({ samples, decisions, onChange }: OutlierReviewPanelProps) => {
+  // Screening depends on the uploaded values only, so a decision just re-labels the flagged values
+  const detected = useMemo(() => detectOutliers(samples), [samples]);
+  const outliers = reviewOutliers(detected, decisions);
+  if (outliers.length === 0) {
+    return null;
+  }
+
+  const setDecision = (key: string, action: OutlierAction, correctedValue?: number) =>
+    onChange({ ...decisions, [key]: { action, correctedValue } });
+
+  const sampleCount = new Set(outliers.map(o => o.sampleId)).size;
+  const pending = outliers.filter(o => o.action === 'pending');
+  const acceptPending = () =>
+    onChange({
+      ...decisions,
+      ...Object.fromEntries(pending.map(o => [outlierKey(o.sampleId, o.parameter), { action: 'accept' as const }])),
+    });
+
+  const testCounts = OUTLIER_TESTS.map(test => ({
+    ...test,
+    count: outliers.filter(o => o.tests.includes(test.id)).length,
+  }));
+  const actionCounts = OUTLIER_ACTIONS.map(action => ({
+    ...action,
+    count: outliers.filter(o => o.action === action.id).length,
+  }));
+
+  return (
+    <section id="outlier-review" className="py-8 bg-background">
+      <div className="container mx-auto px-4">
+        <Card className="max-w-5xl mx-auto shadow-soft">
+          <CardHeader className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <SearchCheck className="h-5 w-5" />
+                Outlier Screening
+              </CardTitle>
+              <CardDescription>
+                {outliers.length} suspect value{outliers.length > 1 ? 's' : ''} in {sampleCount} sample{sampleCount > 1 ? 's' : ''}.
+                Accept, correct or exclude each before relying on the results.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={acceptPending} disabled={pending.length === 0}>
+              Accept all pending
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2 flex-wrap">
+              {testCounts.map(test => (
+                <Badge key={test.id} variant="secondary" title={test.description}>
+                  {test.label}: {test.count}
+                </Badge>
+              ))}
+              <Badge variant="outline" className={ACTION_TEXT.pending}>Pending: {pending.length}</Badge>
+              {actionCounts.map(action => (
+                <Badge key={action.id} variant="outline" className={ACTION_TEXT[action.id]}>
+                  {action.outcome}: {action.count}
+                </Badge>
+              ))}
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sample ID</TableHead>
+                    <TableHead>Parameter</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Median</TableHead>
+                    <TableHead>Flagged By</TableHead>
+                    <TableHead>Decision</TableHead>
+                    <TableHead>Corrected Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {outliers.map(outlier => {
+                    const key = outlierKey(outlier.sampleId, outlier.parameter);
+                    const parameter = getParameter(outlier.parameter);
+                    return (
+                      <TableRow key={key} className={outlier.action === 'exclude' ? 'opacity-60' : ''}>
+                        <TableCell className="font-medium">{outlier.sampleId}</TableCell>
+                        <TableCell className="whitespace-nowrap">{parameter?.name ?? outlier.parameter}</TableCell>
+                        <TableCell className={`text-right font-mono whitespace-nowrap ${outlier.direction === 'high' ? 'text-danger' : 'text-moderate'}`}>
+                          {formatValue(outlier.value)}
+                          {parameter?.unit && <span className="text-xs text-muted-foreground ml-1">{parameter.unit}</span>}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-muted-foreground">{formatValue(outlier.median)}</TableCell>
+                        <TableCell>
+                          <div className="flex gap-1 flex-wrap">
+                            {outlier.tests.map(test => (
+                              <Badge key={test} variant="outline" className="text-xs" title={getOutlierTest(test).description}>
+                                {getOutlierTest(test).label}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={outlier.action === 'pending' ? undefined : outlier.action}
+                            onValueChange={(action) => setDecision(key, action as OutlierAction, outlier.correctedValue)}
+                          >
+                            <SelectTrigger className={`w-32 ${ACTION_TEXT[outlier.action]}`}>
+                              <SelectValue placeholder="Pending" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {OUTLIER_ACTIONS.map(action => (
+                                <SelectItem key={action.id} value={action.id}>{action.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          {outlier.action === 'correct' && (
+                            <CorrectedValueInput
+                              value={outlier.correctedValue}
+                              unit={parameter?.unit}
+                              onCommit={(correctedValue) => setDecision(key, 'correct', correctedValue)}
+                            />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Detected values are screened on the log10 scale (pH as reported); non-detects are not screened. A value is
+              listed when any test flags it. Pending and accepted values enter the analysis as reported, corrected values
+              replace them, and excluded values are treated as not measured. Decisions are recorded in the exports.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </section>
+  );
+};
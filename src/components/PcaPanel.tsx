@@ -0,0 +1,361 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  BarChart, Bar, ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine,
+} from 'recharts';
+import { Sigma } from "lucide-react";
+import { getMeasuredParameters, getParameter } from "@/utils/parameters";
+import { PcaSettings, SIGNIFICANT_LOADING, classifyKmo, componentLabel } from "@/utils/pca";
+import type { AnalysisSettings } from "@/utils/analysisSettings";
+import type { SampleResult } from "@/types/sample";
+
+interface PcaPanelProps {
+  results: SampleResult[];
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+}
+
+const SEVERITY_TEXT = {
+  safe: 'text-safe',
+  moderate: 'text-moderate',
+  danger: 'text-danger',
+};
+
+// Options of the component-count selector; 'kaiser' keeps eigenvalues above 1
+const RETENTION_OPTIONS = ['kaiser', '2', '3', '4', '5', '6'];
+
+interface ScorePoint {
+  sampleId: string;
+  x: number;
+  y: number;
+}
+
+const ScoreTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: ScorePoint }[] }) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="bg-background border border-border rounded-md p-2 text-xs shadow-soft">
+      <p className="font-medium">{point.sampleId}</p>
+      <p>{componentLabel(0)}: {point.x.toFixed(2)}</p>
+      <p>{componentLabel(1)}: {point.y.toFixed(2)}</p>
+    </div>
+  );
+};
+
+export const PcaPanel = ({ results, settings, onChange }: PcaPanelProps) => {
+  const parameters = getMeasuredParameters(results ?? []);
+  if (parameters.length < 3) {
+    return null;
+  }
+
+  const updatePca = (changes: Partial<PcaSettings>) =>
+    onChange({ ...settings, pca: { ...settings.pca, ...changes } });
+
+  const toggleParameter = (key: string, included: boolean) =>
+    updatePca({
+      excludedParameters: included
+        ? settings.pca.excludedParameters.filter(excluded => excluded !== key)
+        : [...settings.pca.excludedParameters, key],
+    });
+
+  const scored = results.filter(r => r.pca);
+  const model = scored[0]?.pca.model;
+  const components = Array.from({ length: model?.retained ?? 0 }, (_, i) => i);
+
+  const screeData = model?.eigenvalues.map((eigenvalue, i) => ({
+    component: componentLabel(i),
+    eigenvalue: Number(eigenvalue.toFixed(3)),
+  }));
+
+  // Biplot: loading vectors stretched to the extent of the scores
+  const biplotPoints = scored.map<ScorePoint>(r => ({ sampleId: r.sampleId, x: r.pca.scores[0], y: r.pca.scores[1] }));
+  const extent = Math.max(1, ...biplotPoints.flatMap(point => [Math.abs(point.x), Math.abs(point.y ?? 0)])) * 1.1;
+  const maxLoading = Math.max(...(model?.loadings.map(row => Math.hypot(row[0], row[1] ?? 0)) ?? [1]));
+  const vectorScale = 0.9 * extent / (maxLoading || 1);
+
+  return (
+    <section id="pca" className="py-16 bg-background">
+      <div className="container mx-auto px-4">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl font-bold mb-4 text-foreground font-scientific">Source Apportionment (PCA)</h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Principal component analysis of standardised concentrations with varimax rotation; parameters that load
+            together on a component usually share a source.
+          </p>
+        </div>
+
+        <Card className="shadow-soft mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Sigma className="h-5 w-5" />
+              Analysis Options
+            </CardTitle>
+            <CardDescription>
+              Parameters measured in fewer than 80% of samples are left out; samples missing an included parameter are dropped
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-6">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="pca-log"
+                  checked={settings.pca.logTransform}
+                  onCheckedChange={(logTransform) => updatePca({ logTransform })}
+                />
+                <Label htmlFor="pca-log">Log-transform concentrations</Label>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="pca-retention" className="text-xs text-muted-foreground">Components</Label>
+                <Select
+                  value={settings.pca.retention === 'kaiser' ? 'kaiser' : String(settings.pca.components)}
+                  onValueChange={(value) => updatePca(value === 'kaiser'
+                    ? { retention: 'kaiser' }
+                    : { retention: 'fixed', components: Number(value) })}
+                >
+                  <SelectTrigger id="pca-retention" className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RETENTION_OPTIONS.map(option => (
+                      <SelectItem key={option} value={option}>
+                        {option === 'kaiser' ? 'Eigenvalue > 1 (Kaiser)' : `${option} components`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {parameters.map(parameter => (
+                <div key={parameter.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`pca-${parameter.key}`}
+                    checked={!settings.pca.excludedParameters.includes(parameter.key)}
+                    onCheckedChange={(checked) => toggleParameter(parameter.key, checked === true)}
+                  />
+                  <Label htmlFor={`pca-${parameter.key}`} className="text-sm" title={parameter.name}>{parameter.symbol}</Label>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        {!model ? (
+          <p className="text-sm text-muted-foreground text-center">
+            PCA needs at least three varying parameters and more complete samples than parameters.
+            Include more parameters or upload more samples.
+          </p>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-3 gap-6 mb-8">
+              <Card className="shadow-soft">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Kaiser–Meyer–Olkin</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {model.kmo !== undefined ? (
+                    <>
+                      <div className={`text-2xl font-bold ${SEVERITY_TEXT[classifyKmo(model.kmo).severity]}`}>
+                        {model.kmo.toFixed(3)}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {classifyKmo(model.kmo).label}; at least 0.5 is needed for a meaningful PCA
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Not computable: some parameters are exact combinations of others (e.g. TDS derived from EC). Exclude one of them.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+              <Card className="shadow-soft">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Bartlett's Test of Sphericity</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {model.bartlett ? (
+                    <>
+                      <div className={`text-2xl font-bold ${model.bartlett.pValue < 0.05 ? 'text-safe' : 'text-danger'}`}>
+                        p {model.bartlett.pValue < 0.001 ? '< 0.001' : `= ${model.bartlett.pValue.toFixed(3)}`}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        χ² = {model.bartlett.chiSquare.toFixed(1)}, df = {model.bartlett.degreesOfFreedom};
+                        p &lt; 0.05 means the parameters are correlated enough to factor
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Not computable: the correlation matrix is singular.</p>
+                  )}
+                </CardContent>
+              </Card>
+              <Card className="shadow-soft">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Components Retained</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{model.retained}</div>
+                  <p className="text-xs text-muted-foreground">
+                    {model.rotatedVariance.reduce((a, b) => a + b, 0).toFixed(1)}% of variance from {model.parameters.length} parameters
+                    and {model.sampleCount} of {results.length} samples
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-8 mb-8">
+              <Card className="shadow-medium">
+                <CardHeader>
+                  <CardTitle>Scree Plot</CardTitle>
+                  <CardDescription>Eigenvalues of the correlation matrix; the dashed line marks the Kaiser criterion</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={screeData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="component" />
+                      <YAxis />
+                      <Tooltip />
+                      <ReferenceLine y={1} stroke="hsl(var(--danger))" strokeDasharray="4 4" />
+                      <Bar dataKey="eigenvalue" name="Eigenvalue" fill="hsl(var(--primary))" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+
+              {model.retained >= 2 ? (
+                <Card className="shadow-medium">
+                  <CardHeader>
+                    <CardTitle>Biplot</CardTitle>
+                    <CardDescription>
+                      Sample scores on {componentLabel(0)} and {componentLabel(1)}, with rotated loadings as vectors
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ResponsiveContainer width="100%" height={300}>
+                      <ScatterChart margin={{ top: 10, right: 20, bottom: 10, left: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis type="number" dataKey="x" name={componentLabel(0)} domain={[-extent, extent]} tickFormatter={(v: number) => v.toFixed(1)} />
+                        <YAxis type="number" dataKey="y" name={componentLabel(1)} domain={[-extent, extent]} tickFormatter={(v: number) => v.toFixed(1)} />
+                        <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+                        <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                        {model.parameters.map((key, i) => (
+                          <ReferenceLine
+                            key={key}
+                            segment={[
+                              { x: 0, y: 0 },
+                              { x: model.loadings[i][0] * vectorScale, y: model.loadings[i][1] * vectorScale },
+                            ]}
+                            stroke="hsl(var(--danger))"
+                            label={{ value: getParameter(key)?.symbol, position: 'end', fontSize: 11, fill: 'hsl(var(--danger))' }}
+                          />
+                        ))}
+                        <Tooltip content={<ScoreTooltip />} />
+                        <Scatter data={biplotPoints} fill="hsl(var(--primary))" />
+                      </ScatterChart>
+                    </ResponsiveContainer>
+                  </CardContent>
+                </Card>
+              ) : (
+                <p className="text-sm text-muted-foreground self-center text-center">
+                  Only one component was retained, so there is no biplot. Choose a fixed number of components to draw one.
+                </p>
+              )}
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-8">
+              <Card className="shadow-medium">
+                <CardHeader>
+                  <CardTitle>Rotated Loadings</CardTitle>
+                  <CardDescription>
+                    Varimax with Kaiser normalisation; loadings of |{SIGNIFICANT_LOADING}| or more are highlighted
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Parameter</TableHead>
+                          {components.map(c => <TableHead key={c} className="text-right">{componentLabel(c)}</TableHead>)}
+                          <TableHead className="text-right">Communality</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {model.parameters.map((key, i) => (
+                          <TableRow key={key}>
+                            <TableCell className="font-medium">{getParameter(key)?.name}</TableCell>
+                            {components.map(c => {
+                              const loading = model.loadings[i][c];
+                              return (
+                                <TableCell
+                                  key={c}
+                                  className={`text-right font-mono ${Math.abs(loading) >= SIGNIFICANT_LOADING ? 'font-semibold text-foreground' : 'text-muted-foreground'}`}
+                                >
+                                  {loading.toFixed(3)}
+                                </TableCell>
+                              );
+                            })}
+                            <TableCell className="text-right font-mono">{model.communalities[i].toFixed(3)}</TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow>
+                          <TableCell className="text-muted-foreground">Variance (%)</TableCell>
+                          {components.map(c => (
+                            <TableCell key={c} className="text-right font-mono">{model.rotatedVariance[c].toFixed(1)}</TableCell>
+                          ))}
+                          <TableCell />
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="shadow-medium">
+                <CardHeader>
+                  <CardTitle>Component Scores</CardTitle>
+                  <CardDescription>Regression scores per sample; colour the map by a component to see where each source dominates</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="max-h-96 overflow-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Sample ID</TableHead>
+                          {components.map(c => <TableHead key={c} className="text-right">{componentLabel(c)}</TableHead>)}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {scored.map(result => (
+                          <TableRow key={result.sampleId}>
+                            <TableCell className="font-medium">{result.sampleId}</TableCell>
+                            {components.map(c => (
+                              <TableCell key={c} className="text-right font-mono">{result.pca.scores[c].toFixed(2)}</TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  {scored.length < results.length && (
+                    <div className="mt-2">
+                      <Badge variant="outline" className="text-muted-foreground">
+                        {results.length - scored.length} samples without scores (missing or non-positive values)
+                      </Badge>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
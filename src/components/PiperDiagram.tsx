@@ -0,0 +1,84 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DiagramPoint, PIPER_OUTLINES, PIPER_SIZE, getFaciesType, piperGridLines, piperPoints } from "@/utils/facies";
+import type { SampleResult } from "@/types/sample";
+
+interface PiperDiagramProps {
+  results: SampleResult[];
+}
+
+// Drawing scale (px per triangle side) and margin for the vertex labels
+const SCALE = 220;
+const MARGIN = 32;
+
+const toSvg = ({ x, y }: DiagramPoint) => ({
+  x: MARGIN + x * SCALE,
+  y: MARGIN + (PIPER_SIZE.height - y) * SCALE,
+});
+
+const toPath = (points: DiagramPoint[]) =>
+  points.map(toSvg).map(({ x, y }, i) => `${i ? 'L' : 'M'}${x},${y}`).join(' ') + ' Z';
+
+// Vertex and field labels: text, position and anchor
+const LABELS: { text: string; at: DiagramPoint; anchor: 'start' | 'middle' | 'end'; dy: number }[] = [
+  { text: 'Ca', at: PIPER_OUTLINES.cations[0], anchor: 'middle', dy: 16 },
+  { text: 'Na + K', at: PIPER_OUTLINES.cations[1], anchor: 'middle', dy: 16 },
+  { text: 'Mg', at: PIPER_OUTLINES.cations[2], anchor: 'end', dy: -4 },
+  { text: 'HCO3', at: PIPER_OUTLINES.anions[0], anchor: 'middle', dy: 16 },
+  { text: 'Cl', at: PIPER_OUTLINES.anions[1], anchor: 'middle', dy: 16 },
+  { text: 'SO4', at: PIPER_OUTLINES.anions[2], anchor: 'start', dy: -4 },
+  { text: 'Ca-HCO3', at: PIPER_OUTLINES.diamond[3], anchor: 'end', dy: 4 },
+  { text: 'Na-Cl', at: PIPER_OUTLINES.diamond[1], anchor: 'start', dy: 4 },
+  { text: 'Ca-Mg-Cl-SO4', at: PIPER_OUTLINES.diamond[2], anchor: 'middle', dy: -8 },
+];
+
+export const PiperDiagram = ({ results }: PiperDiagramProps) => {
+  const classified = results.filter(r => r.facies);
+  if (classified.length === 0) {
+    return null;
+  }
+
+  const width = PIPER_SIZE.width * SCALE + 2 * MARGIN;
+  const height = PIPER_SIZE.height * SCALE + 2 * MARGIN;
+
+  return (
+    <Card className="shadow-medium">
+      <CardHeader>
+        <CardTitle>Piper Diagram</CardTitle>
+        <CardDescription>
+          Relative cation and anion proportions in meq/L, projected onto the central diamond; colours show the facies
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Piper trilinear diagram">
+          {piperGridLines().map(([from, to], i) => {
+            const a = toSvg(from);
+            const b = toSvg(to);
+            return <line key={i} x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="hsl(var(--border))" strokeDasharray="3 3" />;
+          })}
+          {Object.entries(PIPER_OUTLINES).map(([field, outline]) => (
+            <path key={field} d={toPath(outline)} fill="none" stroke="hsl(var(--muted-foreground))" strokeWidth={1.5} />
+          ))}
+          {LABELS.map(label => {
+            const { x, y } = toSvg(label.at);
+            return (
+              <text key={label.text} x={x} y={y + label.dy} textAnchor={label.anchor} fontSize={12} fill="hsl(var(--muted-foreground))">
+                {label.text}
+              </text>
+            );
+          })}
+          {classified.map(result => {
+            const { color, label } = getFaciesType(result.facies.type);
+            return Object.entries(piperPoints(result.facies)).map(([field, point]) => {
+              const { x, y } = toSvg(point);
+              return (
+                <circle key={`${result.sampleId}-${field}`} cx={x} cy={y} r={4} fill={color} fillOpacity={0.8} stroke="white">
+                  <title>{`${result.sampleId}: ${result.facies.waterType} (${label})`}</title>
+                </circle>
+              );
+            });
+          })}
+        </svg>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,145 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardCheck } from "lucide-react";
+import {
+  ION_BALANCE_EXCLUSIONS,
+  ION_BALANCE_STATUSES,
+  IonBalanceExclusion,
+  describeMissingIons,
+  formatIonBalanceError,
+  getIonBalanceStatus,
+  isExcludedByIonBalance,
+} from "@/utils/ionBalance";
+import type { AnalysisSettings } from "@/utils/analysisSettings";
+import type { SampleData } from "@/types/sample";
+
+interface QualityControlPanelProps {
+  samples: SampleData[];
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+}
+
+const SEVERITY_TEXT = {
+  safe: 'text-safe',
+  moderate: 'text-moderate',
+  danger: 'text-danger',
+};
+
+export const QualityControlPanel = ({ samples, settings, onChange }: QualityControlPanelProps) => {
+  const checked = samples.filter(s => s.ionBalance);
+  if (checked.length === 0) {
+    return null;
+  }
+
+  const statusCounts = ION_BALANCE_STATUSES.map(status => ({
+    ...status,
+    count: checked.filter(s => s.ionBalance.status === status.id).length,
+  }));
+  const flagged = checked
+    .filter(s => s.ionBalance.status !== 'acceptable')
+    .sort((a, b) => Math.abs(b.ionBalance.error) - Math.abs(a.ionBalance.error));
+  const excludedCount = samples.filter(s => isExcludedByIonBalance(s.ionBalance, settings.ionBalanceExclusion)).length;
+  const incomplete = checked.filter(s => s.ionBalance.missingMajorIons.length > 0).length;
+
+  return (
+    <section id="quality-control" className="py-8 bg-background">
+      <div className="container mx-auto px-4">
+        <Card className="max-w-4xl mx-auto shadow-soft">
+          <CardHeader className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5" />
+                Quality Assurance
+              </CardTitle>
+              <CardDescription>
+                Cation–anion balance of {checked.length} of {samples.length} samples, in meq/L
+              </CardDescription>
+            </div>
+            <div className="space-y-1 md:w-72">
+              <Label htmlFor="ion-balance-exclusion" className="text-xs text-muted-foreground">Samples failing the check</Label>
+              <Select
+                value={settings.ionBalanceExclusion}
+                onValueChange={(ionBalanceExclusion) =>
+                  onChange({ ...settings, ionBalanceExclusion: ionBalanceExclusion as IonBalanceExclusion })}
+              >
+                <SelectTrigger id="ion-balance-exclusion">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ION_BALANCE_EXCLUSIONS.map(exclusion => (
+                    <SelectItem key={exclusion.id} value={exclusion.id}>{exclusion.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2 flex-wrap">
+              {statusCounts.map(status => (
+                <Badge key={status.id} variant="outline" className={SEVERITY_TEXT[status.severity]}>
+                  {status.label}: {status.count}
+                </Badge>
+              ))}
+              {excludedCount > 0 && (
+                <Badge variant="outline" className="text-muted-foreground">
+                  {excludedCount} excluded from analysis
+                </Badge>
+              )}
+            </div>
+
+            {flagged.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sample ID</TableHead>
+                      <TableHead className="text-right">Cations (meq/L)</TableHead>
+                      <TableHead className="text-right">Anions (meq/L)</TableHead>
+                      <TableHead className="text-right">Ion Balance Error</TableHead>
+                      <TableHead>Check</TableHead>
+                      <TableHead>Missing Major Ions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {flagged.map(sample => {
+                      const status = getIonBalanceStatus(sample.ionBalance.status);
+                      const excluded = isExcludedByIonBalance(sample.ionBalance, settings.ionBalanceExclusion);
+                      return (
+                        <TableRow key={sample.sampleId} className={excluded ? 'opacity-60' : ''}>
+                          <TableCell className="font-medium">
+                            {sample.sampleId}
+                            {excluded && <span className="text-xs text-muted-foreground"> (excluded)</span>}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{sample.ionBalance.cations.toFixed(2)}</TableCell>
+                          <TableCell className="text-right font-mono">{sample.ionBalance.anions.toFixed(2)}</TableCell>
+                          <TableCell className={`text-right font-mono font-semibold ${SEVERITY_TEXT[status.severity]}`}>
+                            {formatIonBalanceError(sample.ionBalance.error)}
+                          </TableCell>
+                          <TableCell className={SEVERITY_TEXT[status.severity]}>{status.label}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {describeMissingIons(sample.ionBalance) || '—'}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">All checked samples balance within ±5%.</p>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Ion balance error = (Σcations − Σanions) / (Σcations + Σanions) × 100; non-detects count as zero.
+              {incomplete > 0 && ` ${incomplete} sample${incomplete > 1 ? 's lack' : ' lacks'} one or more major ions, which biases the balance.`}
+              {' '}Samples beyond ±10% usually point to an analytical or transcription error worth raising with the lab.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </section>
+  );
+};
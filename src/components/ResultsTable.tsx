@@ -1,57 +1,90 @@
+import { useState } from "react";
+import type { CSSProperties } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Download, AlertTriangle, CheckCircle, AlertCircle } from "lucide-react";
-import { PollutionIndices } from "@/utils/pollutionCalculations";
-
-interface SampleResult {
-  sampleId: string;
-  latitude: number;
-  longitude: number;
-  lead: number;
-  cadmium: number;
-  arsenic: number;
-  chromium: number;
-  indices: PollutionIndices;
-}
+import { Download, AlertTriangle, CheckCircle, AlertCircle, TrendingUp } from "lucide-react";
+import { getMeasuredParameters, getParameter, formatParameterLabel } from "@/utils/parameters";
+import { getExceedanceLevel, getParameterLimit, getResultsProfile } from "@/utils/standards";
+import { getHpiMethod } from "@/utils/analysisSettings";
+import { IndexSeverity, classifyCF, classifyHEI, classifyNemerow, decomposeIndices } from "@/utils/pollutionCalculations";
+import { COHORTS, classifyCancerRisk, classifyHazardIndex, formatRisk, summarizeHealthRisk } from "@/utils/healthRisk";
+import { ClassificationScheme, ClassifiableIndex, classifyIndexValue, describeFiredRule, getResultsScheme } from "@/utils/classification";
+import { describeCensoring, formatConcentration, getSubstitutionPolicy } from "@/utils/censoring";
+import { ConfidenceInterval, formatInterval } from "@/utils/uncertainty";
+import { WQI_METHODS } from "@/utils/wqi";
+import { getFaciesType } from "@/utils/facies";
+import { clusterLabel } from "@/utils/clustering";
+import { getUpwardTrends } from "@/utils/trends";
+import type { SampleResult } from "@/types/sample";
 
 interface ResultsTableProps {
   results: SampleResult[];
   onExport: () => void;
 }
 
-const getStatusIcon = (status: string) => {
-  switch (status) {
-    case 'safe':
-      return <CheckCircle className="h-4 w-4" />;
-    case 'moderate':
-      return <AlertCircle className="h-4 w-4" />;
-    case 'danger':
-      return <AlertTriangle className="h-4 w-4" />;
-    default:
-      return <AlertCircle className="h-4 w-4" />;
-  }
+const getStatusIcon = (rank: number, classCount: number) => {
+  if (rank === 0) return <CheckCircle className="h-4 w-4" />;
+  if (rank === classCount - 1) return <AlertTriangle className="h-4 w-4" />;
+  return <AlertCircle className="h-4 w-4" />;
 };
 
-const getStatusColor = (status: string) => {
-  switch (status) {
-    case 'safe':
-      return 'safe';
-    case 'moderate':
-      return 'moderate';
+// Colour an index cell by the class its value falls in under the scheme's rule for that index
+const getIndexCellStyle = (
+  scheme: ClassificationScheme,
+  index: ClassifiableIndex,
+  value: number
+): CSSProperties | undefined => {
+  const indexClass = classifyIndexValue(scheme, index, value);
+  if (!indexClass) return undefined;
+  return { color: indexClass.color, fontWeight: indexClass.rank > 0 ? 600 : undefined };
+};
+
+// Monte Carlo confidence interval shown under a point value
+const IntervalLine = ({ interval, format }: { interval?: ConfidenceInterval; format?: (value: number) => string }) =>
+  interval ? (
+    <div className="text-xs font-normal text-muted-foreground whitespace-nowrap">[{formatInterval(interval, format)}]</div>
+  ) : null;
+
+const getSeverityTextClass = (severity: IndexSeverity) => {
+  switch (severity) {
     case 'danger':
-      return 'danger';
+      return 'text-danger font-semibold';
+    case 'moderate':
+      return 'text-moderate font-semibold';
     default:
-      return 'moderate';
+      return 'text-safe';
   }
 };
 
 export const ResultsTable = ({ results, onExport }: ResultsTableProps) => {
+  const [clusterFilter, setClusterFilter] = useState('all');
+
   if (!results || results.length === 0) {
     return null;
   }
 
+  const parameters = getMeasuredParameters(results);
+  const profile = getResultsProfile(results);
+  const hpiMethod = getHpiMethod(results[0].indices.hpiMethod);
+  const scheme = getResultsScheme(results);
+  const schemeIndices = new Set(scheme.rules.map(rule => rule.index));
+  const censoring = results[0].censoring;
+  const hasCensored = results.some(r => Object.keys(r.censored).length > 0);
+  const clusterModel = results.find(r => r.cluster)?.cluster.model;
+  // A filter left over from a run with more clusters shows every sample
+  const activeClusterFilter = clusterModel?.profiles[Number(clusterFilter)] ? clusterFilter : 'all';
+  const visibleResults = activeClusterFilter === 'all'
+    ? results
+    : results.filter(r => r.cluster?.id === Number(activeClusterFilter));
+  const breakdowns = visibleResults.map(r => decomposeIndices(r.concentrations, r.indices));
+  const simulated = results.find(r => r.uncertainty)?.uncertainty;
+  const hasWqi = results.some(r => r.wqi);
+  const hasFacies = results.some(r => r.facies);
+  const hasTrends = results.some(r => r.trend);
+
   return (
     <section className="py-16 bg-background">
       <div className="container mx-auto px-4">
@@ -60,19 +93,48 @@ export const ResultsTable = ({ results, onExport }: ResultsTableProps) => {
             <h2 className="text-3xl font-bold text-foreground font-scientific">Analysis Results</h2>
             <p className="text-muted-foreground mt-2">
               Pollution indices calculated for {results.length} samples
+              {visibleResults.length < results.length && ` (showing ${visibleResults.length})`}
             </p>
           </div>
-          <Button onClick={onExport} className="bg-primary hover:bg-primary/90">
-            <Download className="h-4 w-4 mr-2" />
-            Export Results
-          </Button>
+          <div className="flex items-center gap-4">
+            {clusterModel && (
+              <Select value={activeClusterFilter} onValueChange={setClusterFilter}>
+                <SelectTrigger className="w-44" aria-label="Filter by cluster">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All clusters</SelectItem>
+                  {clusterModel.profiles.map((profile, id) => (
+                    <SelectItem key={id} value={String(id)}>{clusterLabel(id)} ({profile.size})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button onClick={onExport} className="bg-primary hover:bg-primary/90">
+              <Download className="h-4 w-4 mr-2" />
+              Export Results
+            </Button>
+          </div>
         </div>
 
         <Card className="shadow-medium">
           <CardHeader>
             <CardTitle>Contamination Assessment Results</CardTitle>
             <CardDescription>
-              HPI: Heavy Metal Pollution Index | MI: Metal Index | Cd: Contamination Degree
+              HPI: Heavy Metal Pollution Index ({hpiMethod.label}) | MI: Metal Index | Cd: Contamination Degree | HEI: Heavy Metal Evaluation Index | PN: Nemerow Pollution Index | CF: Contamination Factor | HI: Hazard Index | ILCR: Incremental Lifetime Cancer Risk
+              {hasWqi && ' | WQI: Weighted Arithmetic Water Quality Index | EWQI: Entropy-Weighted Water Quality Index'}
+              <span className="block mt-1">Status classes: {scheme.name}</span>
+              {simulated && (
+                <span className="block mt-1">
+                  Bracketed ranges are {simulated.confidenceLevel * 100}% Monte Carlo intervals ({simulated.iterations} draws);
+                  P is the probability of the reported class and highlighted rows are borderline.
+                </span>
+              )}
+              {hasCensored && (
+                <span className="block mt-1">
+                  Values shown as &lt;DL are below the detection limit. {describeCensoring(censoring)}.
+                </span>
+              )}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -83,77 +145,234 @@ export const ResultsTable = ({ results, onExport }: ResultsTableProps) => {
                     <TableHead>Sample ID</TableHead>
                     <TableHead>Location</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead>Primary Concern</TableHead>
+                    <TableHead>Health Risk</TableHead>
                     <TableHead className="text-right">HPI</TableHead>
                     <TableHead className="text-right">MI</TableHead>
                     <TableHead className="text-right">Cd</TableHead>
-                    <TableHead className="text-right">Lead (mg/L)</TableHead>
-                    <TableHead className="text-right">Cadmium (mg/L)</TableHead>
-                    <TableHead className="text-right">Arsenic (mg/L)</TableHead>
-                    <TableHead className="text-right">Chromium (mg/L)</TableHead>
+                    <TableHead className="text-right">HEI</TableHead>
+                    <TableHead className="text-right">PN</TableHead>
+                    {hasWqi && WQI_METHODS.map(method => (
+                      <TableHead key={method.id} className="text-right">{method.shortLabel}</TableHead>
+                    ))}
+                    {hasFacies && <TableHead>Facies</TableHead>}
+                    {clusterModel && <TableHead>Cluster</TableHead>}
+                    {hasTrends && <TableHead>Upward Trends</TableHead>}
+                    {COHORTS.map(cohort => (
+                      <TableHead key={`hi-${cohort.id}`} className="text-right">HI ({cohort.label})</TableHead>
+                    ))}
+                    {COHORTS.map(cohort => (
+                      <TableHead key={`cr-${cohort.id}`} className="text-right">ILCR ({cohort.label})</TableHead>
+                    ))}
+                    {parameters.map(parameter => (
+                      <TableHead key={parameter.key} className="text-right">{formatParameterLabel(parameter)}</TableHead>
+                    ))}
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {results.map((result, index) => (
-                    <TableRow key={index} className={`hover:bg-${getStatusColor(result.indices.status)}/5`}>
-                      <TableCell className="font-medium">{result.sampleId}</TableCell>
+                  {visibleResults.map((result, index) => (
+                    <TableRow
+                      key={index}
+                      className={`hover:bg-muted/50 ${result.uncertainty?.borderline ? 'bg-moderate/10' : ''}`}
+                    >
+                      <TableCell className="font-medium">
+                        {result.sampleId}
+                        {result.date && <div className="text-xs font-normal text-muted-foreground whitespace-nowrap">{result.date}</div>}
+                      </TableCell>
                       <TableCell className="text-sm text-muted-foreground">
                         {result.latitude.toFixed(4)}, {result.longitude.toFixed(4)}
                       </TableCell>
                       <TableCell>
                         <Badge 
                           variant="outline" 
-                          className={`
-                            ${result.indices.status === 'safe' ? 'border-safe text-safe bg-safe/10' : ''}
-                            ${result.indices.status === 'moderate' ? 'border-moderate text-moderate bg-moderate/10' : ''}
-                            ${result.indices.status === 'danger' ? 'border-danger text-danger bg-danger/10' : ''}
-                            flex items-center gap-1 w-fit
-                          `}
+                          className="flex items-center gap-1 w-fit"
+                          style={{
+                            color: result.indices.statusColor,
+                            borderColor: result.indices.statusColor,
+                            backgroundColor: `${result.indices.statusColor}1a`,
+                          }}
                         >
-                          {getStatusIcon(result.indices.status)}
+                          {getStatusIcon(result.indices.statusRank, scheme.classes.length)}
                           {result.indices.statusLabel}
                         </Badge>
+                        {result.uncertainty && (
+                          <div
+                            className={`text-xs mt-1 whitespace-nowrap ${result.uncertainty.borderline ? 'text-moderate font-semibold' : 'text-muted-foreground'}`}
+                            title={scheme.classes
+                              .map(c => `${c.label}: ${(result.uncertainty.classProbabilities[c.id] * 100).toFixed(1)}%`)
+                              .join('\n')}
+                          >
+                            {result.uncertainty.borderline && 'Borderline · '}
+                            P = {(result.uncertainty.classProbabilities[result.indices.status] * 100).toFixed(0)}%
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className="text-sm whitespace-nowrap"
+                        title={breakdowns[index].firedRules.length
+                          ? `Triggered by ${breakdowns[index].firedRules.map(describeFiredRule).join(', ')}`
+                          : 'No classification rule fired'}
+                      >
+                        {breakdowns[index].primaryConcern ? (
+                          <span className={getSeverityTextClass(classifyCF(breakdowns[index].primaryConcern.cf).severity)}>
+                            {getParameter(breakdowns[index].primaryConcern.key)?.symbol} · CF {breakdowns[index].primaryConcern.cf.toFixed(2)}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={`w-fit whitespace-nowrap ${getSeverityTextClass(summarizeHealthRisk(result.healthRisk).severity)}`}
+                        >
+                          {summarizeHealthRisk(result.healthRisk).label}
+                        </Badge>
                       </TableCell>
-                      <TableCell className={`text-right font-mono ${
-                        result.indices.hpi > 100 ? 'text-danger font-semibold' :
-                        result.indices.hpi > 50 ? 'text-moderate font-semibold' :
-                        'text-safe'
-                      }`}>
+                      <TableCell className="text-right font-mono" style={getIndexCellStyle(scheme, 'hpi', result.indices.hpi)}>
                         {result.indices.hpi}
+                        <IntervalLine interval={result.uncertainty?.indices.hpi} />
                       </TableCell>
-                      <TableCell className={`text-right font-mono ${
-                        result.indices.mi > 1.5 ? 'text-danger font-semibold' :
-                        result.indices.mi > 1 ? 'text-moderate font-semibold' :
-                        'text-safe'
-                      }`}>
+                      <TableCell className="text-right font-mono" style={getIndexCellStyle(scheme, 'mi', result.indices.mi)}>
                         {result.indices.mi}
+                        <IntervalLine interval={result.uncertainty?.indices.mi} />
                       </TableCell>
-                      <TableCell className={`text-right font-mono ${
-                        result.indices.cd > 3 ? 'text-danger font-semibold' :
-                        result.indices.cd > 1.5 ? 'text-moderate font-semibold' :
-                        'text-safe'
-                      }`}>
+                      <TableCell className="text-right font-mono" style={getIndexCellStyle(scheme, 'cd', result.indices.cd)}>
                         {result.indices.cd}
+                        <IntervalLine interval={result.uncertainty?.indices.cd} />
                       </TableCell>
-                      <TableCell className={`text-right font-mono text-sm ${
-                        result.lead > 0.01 ? 'text-danger' : 'text-muted-foreground'
-                      }`}>
-                        {result.lead.toFixed(4)}
+                      <TableCell
+                        className={`text-right font-mono ${
+                          schemeIndices.has('hei') ? '' : getSeverityTextClass(classifyHEI(result.indices.hei).severity)
+                        }`}
+                        style={getIndexCellStyle(scheme, 'hei', result.indices.hei)}
+                        title={classifyHEI(result.indices.hei).label}
+                      >
+                        {result.indices.hei}
+                        <IntervalLine interval={result.uncertainty?.indices.hei} />
                       </TableCell>
-                      <TableCell className={`text-right font-mono text-sm ${
-                        result.cadmium > 0.003 ? 'text-danger' : 'text-muted-foreground'
-                      }`}>
-                        {result.cadmium.toFixed(4)}
-                      </TableCell>
-                      <TableCell className={`text-right font-mono text-sm ${
-                        result.arsenic > 0.01 ? 'text-danger' : 'text-muted-foreground'
-                      }`}>
-                        {result.arsenic.toFixed(4)}
-                      </TableCell>
-                      <TableCell className={`text-right font-mono text-sm ${
-                        result.chromium > 0.05 ? 'text-danger' : 'text-muted-foreground'
-                      }`}>
-                        {result.chromium.toFixed(4)}
+                      <TableCell
+                        className={`text-right font-mono ${
+                          schemeIndices.has('nemerow') ? '' : getSeverityTextClass(classifyNemerow(result.indices.nemerow).severity)
+                        }`}
+                        style={getIndexCellStyle(scheme, 'nemerow', result.indices.nemerow)}
+                        title={classifyNemerow(result.indices.nemerow).label}
+                      >
+                        {result.indices.nemerow}
+                        <IntervalLine interval={result.uncertainty?.indices.nemerow} />
                       </TableCell>
+                      {hasWqi && WQI_METHODS.map(method => {
+                        const score = result.wqi?.scores[method.id];
+                        return (
+                          <TableCell
+                            key={method.id}
+                            className="text-right font-mono"
+                            style={score ? { color: score.color, fontWeight: score.rank > 1 ? 600 : undefined } : undefined}
+                            title={score?.label}
+                          >
+                            {score ? (
+                              <>
+                                {score.value}
+                                <div className="text-xs font-normal whitespace-nowrap">{score.label}</div>
+                              </>
+                            ) : (
+                              <span className="text-muted-foreground">—</span>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                      {hasFacies && (
+                        <TableCell title={result.facies && getFaciesType(result.facies.type).description}>
+                          {result.facies ? (
+                            <>
+                              <span style={{ color: getFaciesType(result.facies.type).color }}>
+                                {getFaciesType(result.facies.type).label}
+                              </span>
+                              <div className="text-xs text-muted-foreground whitespace-nowrap">{result.facies.waterType}</div>
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      )}
+                      {clusterModel && (
+                        <TableCell className="whitespace-nowrap">
+                          {result.cluster ? (
+                            <span style={{ color: clusterModel.profiles[result.cluster.id].color }}>{clusterLabel(result.cluster.id)}</span>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      )}
+                      {hasTrends && (
+                        <TableCell
+                          className="whitespace-nowrap"
+                          title={result.trend ? `Well ${result.trend.wellId}` : 'Too few dated samples of this well to test'}
+                        >
+                          {result.trend && getUpwardTrends(result.trend.model, result.trend.wellId).length > 0 ? (
+                            <span className="flex items-center gap-1 text-danger font-semibold">
+                              <TrendingUp className="h-4 w-4" />
+                              {getUpwardTrends(result.trend.model, result.trend.wellId)
+                                .map(t => getParameter(t.parameter)?.symbol ?? t.parameter)
+                                .join(', ')}
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      )}
+                      {COHORTS.map(cohort => {
+                        const { hazardIndex } = result.healthRisk[cohort.id];
+                        return (
+                          <TableCell
+                            key={`hi-${cohort.id}`}
+                            className={`text-right font-mono ${getSeverityTextClass(classifyHazardIndex(hazardIndex).severity)}`}
+                          >
+                            {hazardIndex.toFixed(2)}
+                            <IntervalLine interval={result.uncertainty?.hazardIndex[cohort.id]} />
+                          </TableCell>
+                        );
+                      })}
+                      {COHORTS.map(cohort => {
+                        const { totalCancerRisk } = result.healthRisk[cohort.id];
+                        return (
+                          <TableCell
+                            key={`cr-${cohort.id}`}
+                            className={`text-right font-mono ${getSeverityTextClass(classifyCancerRisk(totalCancerRisk).severity)}`}
+                            title={classifyCancerRisk(totalCancerRisk).label}
+                          >
+                            {formatRisk(totalCancerRisk)}
+                            <IntervalLine interval={result.uncertainty?.cancerRisk[cohort.id]} format={formatRisk} />
+                          </TableCell>
+                        );
+                      })}
+                      {parameters.map(parameter => {
+                        const value = result.concentrations[parameter.key];
+                        const censored = result.censored[parameter.key];
+                        const exceedance = getExceedanceLevel(profile, parameter, value);
+                        const cf = result.indices.contaminationFactors[parameter.key];
+                        return (
+                          <TableCell
+                            key={parameter.key}
+                            className={`text-right font-mono text-sm ${
+                              exceedance === 'above-permissible' ? 'text-danger' :
+                              exceedance === 'above-acceptable' ? 'text-moderate' :
+                              'text-muted-foreground'
+                            } ${censored ? 'italic' : ''}`}
+                            title={censored
+                              ? `Reported "${censored.reported}"${censored.assumedLimit ? ' (typical detection limit assumed)' : ''}; ` +
+                                `${getSubstitutionPolicy(censoring.substitution).label} = ${value.toFixed(4)} used in calculations`
+                              : undefined}
+                          >
+                            {Number.isFinite(value) ? formatConcentration(result, parameter.key) : '—'}
+                            {cf !== undefined && (
+                              <div className={`text-xs ${getSeverityTextClass(classifyCF(cf).severity)}`} title={`Contamination factor: ${classifyCF(cf).label}`}>
+                                CF {cf}
+                              </div>
+                            )}
+                          </TableCell>
+                        );
+                      })}
                     </TableRow>
                   ))}
                 </TableBody>
@@ -161,25 +380,27 @@ export const ResultsTable = ({ results, onExport }: ResultsTableProps) => {
             </div>
             
             <div className="mt-6 p-4 bg-muted/30 rounded-lg">
-              <h4 className="font-semibold mb-3">Reference Standards (WHO Guidelines)</h4>
+              <h4 className="font-semibold mb-3">Reference Standards ({profile.shortName}, {profile.version})</h4>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
-                <div>
-                  <span className="font-medium">Lead:</span>
-                  <span className="ml-1 text-muted-foreground">≤ 0.01 mg/L</span>
-                </div>
-                <div>
-                  <span className="font-medium">Cadmium:</span>
-                  <span className="ml-1 text-muted-foreground">≤ 0.003 mg/L</span>
-                </div>
-                <div>
-                  <span className="font-medium">Arsenic:</span>
-                  <span className="ml-1 text-muted-foreground">≤ 0.01 mg/L</span>
-                </div>
-                <div>
-                  <span className="font-medium">Chromium:</span>
-                  <span className="ml-1 text-muted-foreground">≤ 0.05 mg/L</span>
-                </div>
+                {parameters.map(parameter => {
+                  const limit = getParameterLimit(profile, parameter);
+                  return (
+                    <div key={parameter.key}>
+                      <span className="font-medium">{parameter.name}:</span>
+                      <span className="ml-1 text-muted-foreground">
+                        ≤ {limit.acceptable}
+                        {limit.permissible > limit.acceptable && ` (permissible ${limit.permissible})`} {parameter.unit}
+                        {limit.fallback && ' *'}
+                      </span>
+                    </div>
+                  );
+                })}
               </div>
+              {parameters.some(parameter => getParameterLimit(profile, parameter).fallback) && (
+                <p className="mt-3 text-xs text-muted-foreground">
+                  * Not regulated by {profile.shortName}; WHO guideline value used instead.
+                </p>
+              )}
             </div>
           </CardContent>
         </Card>
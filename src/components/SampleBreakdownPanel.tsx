@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Microscope } from "lucide-react";
+import { getParameter } from "@/utils/parameters";
+import { CONTRIBUTION_COLORS, decomposeIndices } from "@/utils/pollutionCalculations";
+import { describeFiredRule, getResultsScheme } from "@/utils/classification";
+import type { SampleResult } from "@/types/sample";
+
+interface SampleBreakdownPanelProps {
+  results: SampleResult[];
+}
+
+export const SampleBreakdownPanel = ({ results }: SampleBreakdownPanelProps) => {
+  // Most severe samples first, so the default selection is the one most worth explaining
+  const ranked = [...(results ?? [])].sort((a, b) =>
+    b.indices.statusRank - a.indices.statusRank || b.indices.hpi - a.indices.hpi);
+  const [selectedId, setSelectedId] = useState<string>();
+
+  if (ranked.length === 0) {
+    return null;
+  }
+
+  const sample = ranked.find(r => r.sampleId === selectedId) ?? ranked[0];
+  const scheme = getResultsScheme(results);
+  const breakdown = decomposeIndices(sample.concentrations, sample.indices);
+
+  const shareData = [
+    {
+      index: 'HPI',
+      ...Object.fromEntries(breakdown.contributions.map(c => [getParameter(c.key)?.symbol, Number((c.hpiShare * 100).toFixed(1))])),
+    },
+    {
+      index: 'MI / Cd',
+      ...Object.fromEntries(breakdown.contributions.map(c => [getParameter(c.key)?.symbol, Number((c.cdShare * 100).toFixed(1))])),
+    },
+  ];
+
+  return (
+    <section id="sample-breakdown" className="py-16 bg-secondary/20">
+      <div className="container mx-auto px-4">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl font-bold mb-4 text-foreground font-scientific">Why Is This Sample Classified This Way?</h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Each parameter's share of the pollution indices, and the classification rules the sample triggered.
+          </p>
+        </div>
+
+        <Card className="shadow-medium">
+          <CardHeader className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Microscope className="h-5 w-5" />
+                Contribution Breakdown
+              </CardTitle>
+              <CardDescription>Classified with {scheme.name}</CardDescription>
+            </div>
+            <div className="space-y-1 md:w-72">
+              <Label htmlFor="breakdown-sample" className="text-xs text-muted-foreground">Sample</Label>
+              <Select value={sample.sampleId} onValueChange={setSelectedId}>
+                <SelectTrigger id="breakdown-sample">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ranked.map(r => (
+                    <SelectItem key={r.sampleId} value={r.sampleId}>
+                      {r.sampleId} — {r.indices.statusLabel}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="grid lg:grid-cols-2 gap-8">
+              <div>
+                <ResponsiveContainer width="100%" height={220}>
+                  <BarChart data={shareData} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" domain={[0, 100]} unit="%" />
+                    <YAxis type="category" dataKey="index" width={70} />
+                    <Tooltip formatter={(value: number) => `${value}%`} />
+                    <Legend />
+                    {breakdown.contributions.map((c, i) => (
+                      <Bar
+                        key={c.key}
+                        dataKey={getParameter(c.key)?.symbol}
+                        stackId="share"
+                        fill={CONTRIBUTION_COLORS[i % CONTRIBUTION_COLORS.length]}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+
+                <div className="mt-4 p-4 bg-muted/30 rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">Status:</span>
+                    <Badge
+                      variant="outline"
+                      style={{ color: sample.indices.statusColor, borderColor: sample.indices.statusColor }}
+                    >
+                      {sample.indices.statusLabel}
+                    </Badge>
+                  </div>
+                  {breakdown.firedRules.length > 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      Triggered by {breakdown.firedRules.map(describeFiredRule).join(scheme.combine === 'all' ? ' and ' : ', ')}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No classification rule fired; the sample stays in the least severe class.</p>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    Primary concern: {breakdown.primaryConcern
+                      ? `${getParameter(breakdown.primaryConcern.key)?.name} at ${breakdown.primaryConcern.cf.toFixed(2)}× its limit`
+                      : 'no parameter exceeds its limit'}
+                  </p>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Parameter</TableHead>
+                      <TableHead className="text-right">CF</TableHead>
+                      <TableHead className="text-right">HPI term</TableHead>
+                      <TableHead className="text-right">Share of HPI</TableHead>
+                      <TableHead className="text-right">Share of MI / Cd</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {breakdown.contributions.map((c, i) => (
+                      <TableRow key={c.key}>
+                        <TableCell className="font-medium">
+                          <span
+                            className="inline-block h-2 w-2 rounded-full mr-2"
+                            style={{ backgroundColor: CONTRIBUTION_COLORS[i % CONTRIBUTION_COLORS.length] }}
+                          />
+                          {getParameter(c.key)?.name}
+                          {sample.censored[c.key] && <span className="text-xs text-muted-foreground"> (&lt;DL)</span>}
+                        </TableCell>
+                        <TableCell className={`text-right font-mono ${c.cf > 1 ? 'text-danger font-semibold' : ''}`}>
+                          {c.cf.toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{c.hpi.toFixed(2)}</TableCell>
+                        <TableCell className="text-right font-mono">{(c.hpiShare * 100).toFixed(1)}%</TableCell>
+                        <TableCell className="text-right font-mono">{(c.cdShare * 100).toFixed(1)}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="mt-3 text-xs text-muted-foreground">
+                  HPI terms sum to the sample's HPI ({sample.indices.hpi}); MI and Cd are proportional to the contamination factors.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </section>
+  );
+};
@@ -1,8 +1,20 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import { getMeasuredParameters, getParameter } from "@/utils/parameters";
+import { getExceedanceLevel, getResultsProfile } from "@/utils/standards";
+import { formatConcentration } from "@/utils/censoring";
+import { NOT_ASSESSED_COLOR, getMapColorLayers } from "@/utils/mapLayers";
+import { WQI_METHODS } from "@/utils/wqi";
+import { getFaciesType } from "@/utils/facies";
+import { clusterLabel } from "@/utils/clustering";
+import { getUpwardTrends } from "@/utils/trends";
+import { CampaignComparison, getResultPair, getStatusChange } from "@/utils/comparison";
+import type { SampleResult } from "@/types/sample";
 
 // Fix for default markers in Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -12,30 +24,17 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
 });
 
-interface SampleResult {
-  sampleId: string;
-  latitude: number;
-  longitude: number;
-  lead: number;
-  cadmium: number;
-  arsenic: number;
-  chromium: number;
-  indices: {
-    hpi: number;
-    mi: number;
-    cd: number;
-    status: 'safe' | 'moderate' | 'danger';
-    statusLabel: string;
-  };
-}
-
 interface SampleMapProps {
   results: SampleResult[];
+  comparison?: CampaignComparison;  // Adds a layer colouring paired wells by their change since the reference campaign
 }
 
-export const SampleMap = ({ results }: SampleMapProps) => {
+export const SampleMap = ({ results, comparison }: SampleMapProps) => {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
+  const [layerId, setLayerId] = useState('status');
+  const layers = useMemo(() => getMapColorLayers(results ?? [], comparison), [results, comparison]);
+  const layer = layers.find(l => l.id === layerId) ?? layers[0];
 
   useEffect(() => {
     if (!mapRef.current || !results.length) return;
@@ -64,6 +63,9 @@ export const SampleMap = ({ results }: SampleMapProps) => {
       }
     });
 
+    const parameters = getMeasuredParameters(results, ['heavy-metal']);
+    const profile = getResultsProfile(results);
+
     // Add markers for each sample
     const bounds = L.latLngBounds([]);
     
@@ -73,16 +75,6 @@ export const SampleMap = ({ results }: SampleMapProps) => {
       const latLng = L.latLng(sample.latitude, sample.longitude);
       bounds.extend(latLng);
 
-      // Create custom icon based on contamination status
-      const getMarkerColor = (status: string) => {
-        switch (status) {
-          case 'safe': return '#22c55e'; // green
-          case 'moderate': return '#f59e0b'; // yellow
-          case 'danger': return '#ef4444'; // red
-          default: return '#6b7280'; // gray
-        }
-      };
-
       const createCustomIcon = (color: string) => {
         return L.divIcon({
           className: 'custom-div-icon',
@@ -100,35 +92,74 @@ export const SampleMap = ({ results }: SampleMapProps) => {
       };
 
       const marker = L.marker(latLng, {
-        icon: createCustomIcon(getMarkerColor(sample.indices.status))
+        icon: createCustomIcon(layer.getClass(sample)?.color ?? NOT_ASSESSED_COLOR)
       }).addTo(map);
 
+      const pair = comparison && getResultPair(comparison, sample);
+
       // Create popup content
       const popupContent = `
         <div style="font-family: system-ui, -apple-system, sans-serif; min-width: 200px;">
           <h3 style="margin: 0 0 8px 0; font-size: 14px; font-weight: 600;">${sample.sampleId}</h3>
           <div style="margin-bottom: 8px;">
             <span style="display: inline-block; padding: 2px 8px; border-radius: 12px; font-size: 11px; font-weight: 500;
-              background-color: ${getMarkerColor(sample.indices.status)}20; 
-              color: ${getMarkerColor(sample.indices.status)}; 
-              border: 1px solid ${getMarkerColor(sample.indices.status)}40;">
+              background-color: ${sample.indices.statusColor}20; 
+              color: ${sample.indices.statusColor}; 
+              border: 1px solid ${sample.indices.statusColor}40;">
               ${sample.indices.statusLabel}
             </span>
           </div>
           <div style="font-size: 12px; line-height: 1.4; color: #666;">
             <div><strong>Location:</strong> ${sample.latitude.toFixed(4)}, ${sample.longitude.toFixed(4)}</div>
+            ${sample.date ? `<div><strong>Sampled:</strong> ${sample.date}</div>` : ''}
             <div style="margin-top: 4px;"><strong>Pollution Indices:</strong></div>
             <div style="margin-left: 8px;">
               <div>HPI: <span style="font-family: monospace; font-weight: 500;">${sample.indices.hpi}</span></div>
               <div>MI: <span style="font-family: monospace; font-weight: 500;">${sample.indices.mi}</span></div>
               <div>Cd: <span style="font-family: monospace; font-weight: 500;">${sample.indices.cd}</span></div>
             </div>
-            <div style="margin-top: 4px;"><strong>Heavy Metals (mg/L):</strong></div>
+            ${sample.wqi ? `
+            <div style="margin-top: 4px;"><strong>Water Quality:</strong></div>
+            <div style="margin-left: 8px;">
+              ${WQI_METHODS.map(method => {
+                const score = sample.wqi.scores[method.id];
+                return `<div>${method.shortLabel}: <span style="font-family: monospace; font-weight: 500;">${score.value}</span> <span style="color: ${score.color};">${score.label}</span></div>`;
+              }).join('')}
+            </div>
+            ` : ''}
+            ${sample.facies ? `
+            <div style="margin-top: 4px;"><strong>Facies:</strong>
+              <span style="color: ${getFaciesType(sample.facies.type).color};">${getFaciesType(sample.facies.type).label}</span>
+              (${sample.facies.waterType})
+            </div>
+            ` : ''}
+            ${sample.cluster ? `
+            <div style="margin-top: 4px;"><strong>Cluster:</strong>
+              <span style="color: ${sample.cluster.model.profiles[sample.cluster.id].color};">${clusterLabel(sample.cluster.id)}</span>
+            </div>
+            ` : ''}
+            ${sample.trend && getUpwardTrends(sample.trend.model, sample.trend.wellId).length ? `
+            <div style="margin-top: 4px; color: #dc2626;"><strong>Upward trends (well ${sample.trend.wellId}):</strong>
+              ${getUpwardTrends(sample.trend.model, sample.trend.wellId).map(t => getParameter(t.parameter)?.name ?? t.parameter).join(', ')}
+            </div>
+            ` : ''}
+            ${pair ? `
+            <div style="margin-top: 4px;"><strong>Since reference campaign:</strong>
+              ${pair.reference.indices.statusLabel} → ${sample.indices.statusLabel}
+              <span style="color: ${getStatusChange(pair.statusChange).color};">(${getStatusChange(pair.statusChange).label})</span>
+            </div>
+            ` : ''}
+            <div style="margin-top: 4px;"><strong>Heavy Metals (${profile.shortName} limits):</strong></div>
             <div style="margin-left: 8px;">
-              <div>Lead: <span style="font-family: monospace; ${sample.lead > 0.01 ? 'color: #ef4444; font-weight: 600;' : ''}">${sample.lead.toFixed(4)}</span></div>
-              <div>Cadmium: <span style="font-family: monospace; ${sample.cadmium > 0.003 ? 'color: #ef4444; font-weight: 600;' : ''}">${sample.cadmium.toFixed(4)}</span></div>
-              <div>Arsenic: <span style="font-family: monospace; ${sample.arsenic > 0.01 ? 'color: #ef4444; font-weight: 600;' : ''}">${sample.arsenic.toFixed(4)}</span></div>
-              <div>Chromium: <span style="font-family: monospace; ${sample.chromium > 0.05 ? 'color: #ef4444; font-weight: 600;' : ''}">${sample.chromium.toFixed(4)}</span></div>
+              ${parameters
+                .filter(parameter => Number.isFinite(sample.concentrations[parameter.key]))
+                .map(parameter => {
+                  const value = sample.concentrations[parameter.key];
+                  const exceedance = getExceedanceLevel(profile, parameter, value);
+                  const style = exceedance === 'above-permissible' ? 'color: #ef4444; font-weight: 600;' :
+                    exceedance === 'above-acceptable' ? 'color: #f59e0b; font-weight: 600;' : '';
+                  return `<div>${parameter.name}: <span style="font-family: monospace; ${style}">${formatConcentration(sample, parameter.key)}</span> ${parameter.unit}</div>`;
+                }).join('')}
             </div>
           </div>
         </div>
@@ -152,17 +183,17 @@ export const SampleMap = ({ results }: SampleMapProps) => {
         mapInstanceRef.current = null;
       }
     };
-  }, [results]);
+  }, [results, layer, comparison]);
 
   if (!results.length) {
     return null;
   }
 
-  const statusCounts = {
-    safe: results.filter(r => r.indices.status === 'safe').length,
-    moderate: results.filter(r => r.indices.status === 'moderate').length,
-    danger: results.filter(r => r.indices.status === 'danger').length,
-  };
+  const classCounts = layer.legend.map(entry => ({
+    ...entry,
+    count: results.filter(r => layer.getClass(r)?.id === entry.id).length,
+  }));
+  const notAssessed = results.filter(r => !layer.getClass(r)).length;
 
   return (
     <section id="sample-map" className="py-16 bg-background">
@@ -181,23 +212,42 @@ export const SampleMap = ({ results }: SampleMapProps) => {
               <div>
                 <CardTitle>Sample Locations</CardTitle>
                 <CardDescription>
-                  {results.length} samples plotted on map with color-coded contamination status
+                  {results.length} samples plotted on map, color-coded by {layer.label.toLowerCase()}
                 </CardDescription>
               </div>
-              <div className="flex gap-2 flex-wrap">
-                <Badge variant="outline" className="border-safe text-safe bg-safe/10">
-                  <div className="w-2 h-2 bg-safe rounded-full mr-2"></div>
-                  Safe ({statusCounts.safe})
-                </Badge>
-                <Badge variant="outline" className="border-moderate text-moderate bg-moderate/10">
-                  <div className="w-2 h-2 bg-moderate rounded-full mr-2"></div>
-                  Moderate ({statusCounts.moderate})
+              {layers.length > 1 && (
+                <div className="space-y-1 w-60">
+                  <Label htmlFor="map-layer" className="text-xs text-muted-foreground">Colour by</Label>
+                  <Select value={layer.id} onValueChange={setLayerId}>
+                    <SelectTrigger id="map-layer" className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {layers.map(l => (
+                        <SelectItem key={l.id} value={l.id}>{l.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="flex gap-2 flex-wrap">
+              {classCounts.map(entry => (
+                <Badge
+                  key={entry.id}
+                  variant="outline"
+                  style={{ color: entry.color, borderColor: entry.color, backgroundColor: `${entry.color}1a` }}
+                >
+                  <div className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: entry.color }}></div>
+                  {entry.label} ({entry.count})
                 </Badge>
-                <Badge variant="outline" className="border-danger text-danger bg-danger/10">
-                  <div className="w-2 h-2 bg-danger rounded-full mr-2"></div>
-                  High Risk ({statusCounts.danger})
+              ))}
+              {notAssessed > 0 && (
+                <Badge variant="outline" className="text-muted-foreground">
+                  <div className="w-2 h-2 rounded-full mr-2" style={{ backgroundColor: NOT_ASSESSED_COLOR }}></div>
+                  Not assessed ({notAssessed})
                 </Badge>
-              </div>
+              )}
             </div>
           </CardHeader>
           <CardContent>
@@ -209,18 +259,12 @@ export const SampleMap = ({ results }: SampleMapProps) => {
               <div className="absolute bottom-4 right-4 bg-white/95 backdrop-blur-sm p-3 rounded-lg shadow-medium border border-border/50">
                 <div className="text-xs text-muted-foreground space-y-1">
                   <div className="font-medium">Legend:</div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 bg-safe rounded-full border-2 border-white shadow-sm"></div>
-                    <span>Safe levels</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 bg-moderate rounded-full border-2 border-white shadow-sm"></div>
-                    <span>Moderate contamination</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="w-3 h-3 bg-danger rounded-full border-2 border-white shadow-sm"></div>
-                    <span>High contamination</span>
-                  </div>
+                  {layer.legend.map(entry => (
+                    <div key={entry.id} className="flex items-center gap-2">
+                      <div className="w-3 h-3 rounded-full border-2 border-white shadow-sm" style={{ backgroundColor: entry.color }}></div>
+                      <span>{entry.label}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
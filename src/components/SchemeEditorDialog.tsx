@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { PencilRuler } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { BUILT_IN_SCHEMES, ClassificationScheme, parseClassificationScheme, saveCustomScheme } from "@/utils/classification";
+
+interface SchemeEditorDialogProps {
+  template: ClassificationScheme;
+  onSaved: (scheme: ClassificationScheme) => void;
+}
+
+/**
+ * JSON editor for authoring a classification scheme, seeded from the selected one
+ */
+export const SchemeEditorDialog = ({ template, onSaved }: SchemeEditorDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const { toast } = useToast();
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setSource(JSON.stringify({ ...template, id: `${template.id}-custom`, name: `${template.name} (custom)` }, null, 2));
+      setErrors([]);
+    }
+    setOpen(next);
+  };
+
+  const handleSave = () => {
+    let input: unknown;
+    try {
+      input = JSON.parse(source);
+    } catch (error) {
+      setErrors([`Invalid JSON: ${(error as Error).message}`]);
+      return;
+    }
+
+    const { scheme, errors: problems } = parseClassificationScheme(input);
+    if (problems) {
+      setErrors(problems);
+      return;
+    }
+    if (BUILT_IN_SCHEMES.some(s => s.id === scheme.id)) {
+      setErrors([`id: "${scheme.id}" is a built-in scheme; choose a different id`]);
+      return;
+    }
+
+    saveCustomScheme(scheme);
+    onSaved(scheme);
+    setOpen(false);
+    toast({
+      title: "Classification scheme saved",
+      description: `${scheme.name} is now applied to the results`,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <PencilRuler className="h-4 w-4 mr-2" />
+          Author scheme
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Author classification scheme</DialogTitle>
+          <DialogDescription>
+            Classes run from least to most severe. Each band applies when the index is above its minimum;
+            combine with "worst", "any" or "all". Saving under a built-in id is not allowed.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          className="font-mono text-xs min-h-[360px]"
+          spellCheck={false}
+        />
+        {errors.length > 0 && (
+          <ul className="text-sm text-danger list-disc pl-5 space-y-1">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave}>Save and apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,49 +1,57 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
-import { TrendingUp, TrendingDown, AlertTriangle, CheckCircle, Activity } from "lucide-react";
-import { generateSummaryStats } from "@/utils/pollutionCalculations";
-
-interface SampleResult {
-  sampleId: string;
-  latitude: number;
-  longitude: number;
-  lead: number;
-  cadmium: number;
-  arsenic: number;
-  chromium: number;
-  indices: {
-    hpi: number;
-    mi: number;
-    cd: number;
-    status: 'safe' | 'moderate' | 'danger';
-    statusLabel: string;
-  };
-}
+import { TrendingUp, TrendingDown, AlertTriangle, CheckCircle, Activity, Droplets } from "lucide-react";
+import { IndexSeverity, classifyCF, classifyHEI, classifyNemerow, generateSummaryStats } from "@/utils/pollutionCalculations";
+import { getParameter } from "@/utils/parameters";
+import { getResultsProfile } from "@/utils/standards";
+import { classifyIndexValue, getResultsScheme } from "@/utils/classification";
+import { getSummaryMethod } from "@/utils/censoring";
+import { generateDescriptiveStatistics } from "@/utils/descriptiveStatistics";
+import { WQI_CLASSES, WQI_METHODS, classifyWqi } from "@/utils/wqi";
+import { mean } from "@/utils/statistics";
+import { CorrelationHeatmap } from "@/components/CorrelationHeatmap";
+import { DescriptiveStatisticsTable } from "@/components/DescriptiveStatisticsTable";
+import { GroupComparisonPanel } from "@/components/GroupComparisonPanel";
+import type { CorrelationOptions } from "@/utils/correlation";
+import type { GroupComparisonOptions } from "@/utils/groupComparison";
+import type { SampleResult } from "@/types/sample";
 
 interface StatsDashboardProps {
   results: SampleResult[];
+  correlationOptions: CorrelationOptions;
+  onCorrelationOptionsChange: (options: CorrelationOptions) => void;
+  groupOptions: GroupComparisonOptions;
+  onGroupOptionsChange: (options: GroupComparisonOptions) => void;
 }
 
-const COLORS = {
-  safe: 'hsl(var(--safe))',
-  moderate: 'hsl(var(--moderate))', 
-  danger: 'hsl(var(--danger))',
+const SEVERITY_TEXT: Record<IndexSeverity, string> = {
+  safe: 'text-safe',
+  moderate: 'text-moderate',
+  danger: 'text-danger',
 };
 
-export const StatsDashboard = ({ results }: StatsDashboardProps) => {
+export const StatsDashboard = ({
+  results,
+  correlationOptions,
+  onCorrelationOptionsChange,
+  groupOptions,
+  onGroupOptionsChange,
+}: StatsDashboardProps) => {
   if (!results || results.length === 0) {
     return null;
   }
 
-  const stats = generateSummaryStats(results.map(r => r.indices));
+  const scheme = getResultsScheme(results);
+  const stats = generateSummaryStats(results.map(r => r.indices), scheme);
+  const leastSevere = stats.distribution[0];
+  const mostSevere = stats.distribution[stats.distribution.length - 1];
+  const avgHpiClass = classifyIndexValue(scheme, 'hpi', stats.averages.hpi);
   
   // Prepare chart data
-  const pieData = [
-    { name: 'Safe', value: stats.distribution.safe.count, color: COLORS.safe },
-    { name: 'Moderate', value: stats.distribution.moderate.count, color: COLORS.moderate },
-    { name: 'High Risk', value: stats.distribution.danger.count, color: COLORS.danger },
-  ].filter(item => item.value > 0);
+  const pieData = stats.distribution
+    .map(item => ({ name: item.label, value: item.count, color: item.color }))
+    .filter(item => item.value > 0);
 
   const barData = results.slice(0, 10).map(result => ({
     sampleId: result.sampleId.length > 8 ? result.sampleId.substring(0, 8) + '...' : result.sampleId,
@@ -52,32 +60,40 @@ export const StatsDashboard = ({ results }: StatsDashboardProps) => {
     Cd: result.indices.cd,
   }));
 
-  const metalDistributionData = [
-    { 
-      metal: 'Lead', 
-      average: results.reduce((sum, r) => sum + r.lead, 0) / results.length,
-      exceeding: results.filter(r => r.lead > 0.01).length,
-      standard: 0.01
-    },
-    { 
-      metal: 'Cadmium', 
-      average: results.reduce((sum, r) => sum + r.cadmium, 0) / results.length,
-      exceeding: results.filter(r => r.cadmium > 0.003).length,
-      standard: 0.003
-    },
-    { 
-      metal: 'Arsenic', 
-      average: results.reduce((sum, r) => sum + r.arsenic, 0) / results.length,
-      exceeding: results.filter(r => r.arsenic > 0.01).length,
-      standard: 0.01
-    },
-    { 
-      metal: 'Chromium', 
-      average: results.reduce((sum, r) => sum + r.chromium, 0) / results.length,
-      exceeding: results.filter(r => r.chromium > 0.05).length,
-      standard: 0.05
-    },
-  ];
+  const profile = getResultsProfile(results);
+  const statisticsRows = generateDescriptiveStatistics(results);
+  const metalDistributionData = statisticsRows
+    .filter(row => row.category === 'heavy-metal')
+    .map(({ id, label, unit, stats }) => ({
+      metal: label,
+      unit,
+      average: stats.mean,
+      summaryMethod: stats.summaryMethod,
+      censoredCount: stats.censoredCount,
+      measuredCount: stats.n,
+      exceeding: stats.exceedances,
+      standard: stats.limit,
+      averageCF: mean(results.map(r => r.indices.contaminationFactors[id]).filter(cf => cf !== undefined)),
+    }));
+
+  const heiClass = classifyHEI(stats.averages.hei);
+  const nemerowClass = classifyNemerow(stats.averages.nemerow);
+
+  const wqiResults = results.filter(r => r.wqi);
+  const wqiSummaries = WQI_METHODS.map(method => {
+    const values = wqiResults.map(r => r.wqi.scores[method.id].value);
+    const average = mean(values);
+    return { method, average, max: Math.max(...values), averageClass: classifyWqi(method.id, average) };
+  });
+  const wqiDistributionData = WQI_CLASSES.map((wqiClass, rank) => ({
+    label: wqiClass.label,
+    ...Object.fromEntries(WQI_METHODS.map(method => [
+      method.shortLabel,
+      wqiResults.filter(r => r.wqi.scores[method.id].rank === rank).length,
+    ])),
+  }));
+  const entropyWeights = Object.entries(wqiResults[0]?.wqi.entropyWeights ?? {})
+    .sort(([, a], [, b]) => b - a);
 
   return (
     <section id="stats-dashboard" className="py-16 bg-secondary/20">
@@ -104,26 +120,26 @@ export const StatsDashboard = ({ results }: StatsDashboardProps) => {
 
           <Card className="shadow-soft">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Safe Samples</CardTitle>
-              <CheckCircle className="h-4 w-4 text-safe" />
+              <CardTitle className="text-sm font-medium">{leastSevere.label}</CardTitle>
+              <CheckCircle className="h-4 w-4" style={{ color: leastSevere.color }} />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-safe">{stats.distribution.safe.count}</div>
+              <div className="text-2xl font-bold" style={{ color: leastSevere.color }}>{leastSevere.count}</div>
               <p className="text-xs text-muted-foreground">
-                {stats.distribution.safe.percentage}% of total
+                {leastSevere.percentage}% of total
               </p>
             </CardContent>
           </Card>
 
           <Card className="shadow-soft">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">High Risk Samples</CardTitle>
-              <AlertTriangle className="h-4 w-4 text-danger" />
+              <CardTitle className="text-sm font-medium">{mostSevere.label}</CardTitle>
+              <AlertTriangle className="h-4 w-4" style={{ color: mostSevere.color }} />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-danger">{stats.distribution.danger.count}</div>
+              <div className="text-2xl font-bold" style={{ color: mostSevere.color }}>{mostSevere.count}</div>
               <p className="text-xs text-muted-foreground">
-                {stats.distribution.danger.percentage}% of total
+                {mostSevere.percentage}% of total
               </p>
             </CardContent>
           </Card>
@@ -131,16 +147,13 @@ export const StatsDashboard = ({ results }: StatsDashboardProps) => {
           <Card className="shadow-soft">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Average HPI</CardTitle>
-              {stats.averages.hpi > 100 ? 
-                <TrendingUp className="h-4 w-4 text-danger" /> :
-                <TrendingDown className="h-4 w-4 text-safe" />
+              {avgHpiClass && avgHpiClass.rank > 0 ? 
+                <TrendingUp className="h-4 w-4" style={{ color: avgHpiClass.color }} /> :
+                <TrendingDown className="h-4 w-4 text-muted-foreground" />
               }
             </CardHeader>
             <CardContent>
-              <div className={`text-2xl font-bold ${
-                stats.averages.hpi > 100 ? 'text-danger' :
-                stats.averages.hpi > 50 ? 'text-moderate' : 'text-safe'
-              }`}>
+              <div className="text-2xl font-bold" style={{ color: avgHpiClass?.color }}>
                 {stats.averages.hpi}
               </div>
               <p className="text-xs text-muted-foreground">
@@ -150,12 +163,63 @@ export const StatsDashboard = ({ results }: StatsDashboardProps) => {
           </Card>
         </div>
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+          <Card className="shadow-soft">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Average HEI</CardTitle>
+              <Badge variant="outline" className={SEVERITY_TEXT[heiClass.severity]}>{heiClass.label}</Badge>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${SEVERITY_TEXT[heiClass.severity]}`}>
+                {stats.averages.hei}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Heavy Metal Evaluation Index · Max: {stats.maximums.hei}
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-soft">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Average Nemerow Index</CardTitle>
+              <Badge variant="outline" className={SEVERITY_TEXT[nemerowClass.severity]}>{nemerowClass.label}</Badge>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${SEVERITY_TEXT[nemerowClass.severity]}`}>
+                {stats.averages.nemerow}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Nemerow Pollution Index · Max: {stats.maximums.nemerow}
+              </p>
+            </CardContent>
+          </Card>
+
+          {wqiResults.length > 0 && wqiSummaries.map(({ method, average, max, averageClass }) => (
+            <Card key={method.id} className="shadow-soft">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Average {method.shortLabel}</CardTitle>
+                <Badge variant="outline" style={{ color: averageClass.color, borderColor: averageClass.color }}>
+                  {averageClass.label}
+                </Badge>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" style={{ color: averageClass.color }}>
+                  {average.toFixed(2)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {method.label} · Max: {max.toFixed(2)}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
         <div className="grid lg:grid-cols-2 gap-8 mb-8">
           {/* Contamination Distribution */}
           <Card className="shadow-medium">
             <CardHeader>
               <CardTitle>Contamination Distribution</CardTitle>
-              <CardDescription>Sample categorization by pollution level</CardDescription>
+              <CardDescription>Sample categorization by {scheme.name}</CardDescription>
             </CardHeader>
             <CardContent>
               <ResponsiveContainer width="100%" height={300}>
@@ -204,50 +268,119 @@ export const StatsDashboard = ({ results }: StatsDashboardProps) => {
           </Card>
         </div>
 
-        {/* Metal-specific Analysis */}
-        <Card className="shadow-medium">
-          <CardHeader>
-            <CardTitle>Heavy Metal Analysis</CardTitle>
-            <CardDescription>Individual metal contamination statistics</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-              {metalDistributionData.map((metal) => (
-                <div key={metal.metal} className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <h4 className="font-semibold">{metal.metal}</h4>
-                    <Badge 
-                      variant={metal.exceeding > 0 ? "destructive" : "secondary"}
-                      className="text-xs"
-                    >
-                      {metal.exceeding} exceeding
-                    </Badge>
-                  </div>
-                  <div className="space-y-1">
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Average:</span>
-                      <span className="font-mono">{metal.average.toFixed(4)} mg/L</span>
+        {wqiResults.length > 0 && (
+          <Card className="shadow-medium mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Droplets className="h-5 w-5" />
+                Water Quality Index
+              </CardTitle>
+              <CardDescription>
+                {wqiResults.length} of {results.length} samples scored on major ions and physico-chemical parameters against {profile.shortName}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid lg:grid-cols-3 gap-8">
+                <div className="lg:col-span-2">
+                  <ResponsiveContainer width="100%" height={260}>
+                    <BarChart data={wqiDistributionData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="WQI" fill="hsl(var(--primary))" name="Weighted arithmetic WQI" />
+                      <Bar dataKey="EWQI" fill="hsl(var(--accent))" name="Entropy-weighted WQI" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="space-y-2">
+                  <h4 className="font-semibold text-sm">Entropy weights</h4>
+                  {entropyWeights.map(([key, weight]) => (
+                    <div key={key} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">{getParameter(key)?.name}</span>
+                        <span className="font-mono">{weight.toFixed(3)}</span>
+                      </div>
+                      <div className="w-full bg-muted rounded-full h-1.5">
+                        <div className="h-1.5 rounded-full bg-primary" style={{ width: `${weight * 100}%` }}></div>
+                      </div>
                     </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-muted-foreground">Standard:</span>
-                      <span className="font-mono">{metal.standard} mg/L</span>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <DescriptiveStatisticsTable rows={statisticsRows} standardName={profile.shortName} />
+
+        <CorrelationHeatmap results={results} options={correlationOptions} onOptionsChange={onCorrelationOptionsChange} />
+
+        <GroupComparisonPanel results={results} options={groupOptions} onOptionsChange={onGroupOptionsChange} />
+
+        {/* Metal-specific Analysis */}
+        {metalDistributionData.length > 0 && (
+          <Card className="shadow-medium">
+            <CardHeader>
+              <CardTitle>Heavy Metal Analysis</CardTitle>
+              <CardDescription>Individual metal contamination statistics against {profile.shortName} ({profile.version})</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                {metalDistributionData.map((metal) => (
+                  <div key={metal.metal} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-semibold">{metal.metal}</h4>
+                      <Badge 
+                        variant={metal.exceeding > 0 ? "destructive" : "secondary"}
+                        className="text-xs"
+                      >
+                        {metal.exceeding} exceeding
+                      </Badge>
                     </div>
-                    <div className="w-full bg-muted rounded-full h-2">
-                      <div 
-                        className={`h-2 rounded-full ${
-                          metal.average > metal.standard ? 'bg-danger' : 'bg-safe'
-                        }`}
-                        style={{ 
-                          width: `${Math.min((metal.average / (metal.standard * 2)) * 100, 100)}%` 
-                        }}
-                      ></div>
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">
+                          Average{metal.censoredCount > 0 && ` (${getSummaryMethod(metal.summaryMethod).label})`}:
+                        </span>
+                        <span className="font-mono">
+                          {Number.isFinite(metal.average) ? `${metal.average.toFixed(4)} ${metal.unit}` : 'All < DL'}
+                        </span>
+                      </div>
+                      {metal.censoredCount > 0 && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">Below detection:</span>
+                          <span className="font-mono">{metal.censoredCount} of {metal.measuredCount}</span>
+                        </div>
+                      )}
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">{profile.shortName} limit:</span>
+                        <span className="font-mono">{metal.standard} {metal.unit}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Mean CF:</span>
+                        <span className={`font-mono ${SEVERITY_TEXT[classifyCF(metal.averageCF).severity]}`}>
+                          {metal.averageCF.toFixed(2)} ({classifyCF(metal.averageCF).label})
+                        </span>
+                      </div>
+                      <div className="w-full bg-muted rounded-full h-2">
+                        <div 
+                          className={`h-2 rounded-full ${
+                            metal.average > metal.standard ? 'bg-danger' : 'bg-safe'
+                          }`}
+                          style={{ 
+                            width: `${Math.min(((metal.average || 0) / (metal.standard * 2)) * 100, 100)}%` 
+                          }}
+                        ></div>
+                      </div>
                     </div>
                   </div>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </section>
   );
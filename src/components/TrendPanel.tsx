@@ -0,0 +1,349 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { TrendingUp } from "lucide-react";
+import { getParameter } from "@/utils/parameters";
+import {
+  SEASONS,
+  SIGNIFICANCE_LEVELS,
+  TREND_METHODS,
+  TrendMethod,
+  TrendSettings,
+  WellTrend,
+  formatPValue,
+  getSeason,
+  getTrendDirection,
+  getTrendMethod,
+  getUpwardTrends,
+} from "@/utils/trends";
+import type { AnalysisSettings } from "@/utils/analysisSettings";
+import type { SampleResult } from "@/types/sample";
+
+interface TrendPanelProps {
+  results: SampleResult[];
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+}
+
+interface SeriesPoint {
+  sampleId: string;
+  date: string;
+  season: string;
+  time: number;
+  value: number;
+  censored: boolean;
+  sen: number;
+}
+
+const SeriesTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: SeriesPoint }[] }) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="bg-background border border-border rounded-md p-2 text-xs shadow-soft">
+      <p className="font-medium">{point.sampleId}</p>
+      <p>{point.date} · {point.season}</p>
+      <p>{point.censored ? 'Below detection limit' : Number(point.value.toPrecision(4))}</p>
+    </div>
+  );
+};
+
+const formatSlope = (trend: WellTrend) => {
+  const unit = getParameter(trend.parameter)?.unit;
+  return `${Number(trend.test.slope.toPrecision(3))}${unit ? ` ${unit}` : ''}/yr`;
+};
+
+const formatPeriod = (trend: WellTrend) =>
+  `${trend.observations[0].date} – ${trend.observations[trend.observations.length - 1].date}`;
+
+const monthName = (month: number) => new Date(2000, month - 1).toLocaleString('en', { month: 'short' });
+
+// Upward trends first, then downward, then by p-value
+const DIRECTION_ORDER = { increasing: 0, decreasing: 1, none: 2 };
+const compareTrends = (a: WellTrend, b: WellTrend) =>
+  DIRECTION_ORDER[a.test.direction] - DIRECTION_ORDER[b.test.direction] || a.test.pValue - b.test.pValue;
+
+export const TrendPanel = ({ results, settings, onChange }: TrendPanelProps) => {
+  const [selectedWell, setSelectedWell] = useState('');
+  const [selectedParameter, setSelectedParameter] = useState('');
+
+  if (!results?.some(r => r.date)) {
+    return null;
+  }
+
+  const updateTrends = (changes: Partial<TrendSettings>) =>
+    onChange({ ...settings, trends: { ...settings.trends, ...changes } });
+
+  const model = results.find(r => r.trend)?.trend.model;
+  const significant = model?.trends.filter(t => t.test.direction !== 'none').sort(compareTrends) ?? [];
+  const upwardWells = model?.wellIds.filter(wellId => getUpwardTrends(model, wellId).length > 0) ?? [];
+
+  // A selection left over from another upload or run falls back to the most notable well and parameter
+  const activeWell = model?.wellIds.includes(selectedWell) ? selectedWell : significant[0]?.wellId ?? model?.wellIds[0];
+  const wellTrends = model?.trends.filter(t => t.wellId === activeWell).sort(compareTrends) ?? [];
+  const activeTrend = wellTrends.find(t => t.parameter === selectedParameter) ?? wellTrends[0];
+  const activeParameter = activeTrend && getParameter(activeTrend.parameter);
+  const seriesData: SeriesPoint[] = activeTrend?.observations.map(o => ({
+    sampleId: o.sampleId,
+    date: o.date,
+    season: getSeason(o.season).label,
+    time: o.time,
+    value: o.value,
+    censored: o.censored,
+    sen: activeTrend.test.intercept + activeTrend.test.slope * o.time,
+  })) ?? [];
+
+  return (
+    <section id="trends" className="py-16 bg-background">
+      <div className="container mx-auto px-4">
+        <div className="text-center mb-12">
+          <h2 className="text-3xl font-bold mb-4 text-foreground font-scientific">Temporal Trends</h2>
+          <p className="text-muted-foreground max-w-2xl mx-auto">
+            Repeat samples of each well are tested for monotonic trends. Wells with a significant upward trend are
+            flagged in the results table, on the map and in the report.
+          </p>
+        </div>
+
+        <Card className="shadow-soft mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Trend Options
+            </CardTitle>
+            <CardDescription>{getTrendMethod(settings.trends.method).description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-end gap-6">
+              <div className="space-y-1">
+                <Label htmlFor="trend-method" className="text-xs text-muted-foreground">Test</Label>
+                <Select
+                  value={settings.trends.method}
+                  onValueChange={(method) => updateTrends({ method: method as TrendMethod })}
+                >
+                  <SelectTrigger id="trend-method" className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TREND_METHODS.map(method => (
+                      <SelectItem key={method.id} value={method.id}>{method.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="trend-significance" className="text-xs text-muted-foreground">Significance level</Label>
+                <Select
+                  value={String(settings.trends.significance)}
+                  onValueChange={(significance) => updateTrends({ significance: Number(significance) })}
+                >
+                  <SelectTrigger id="trend-significance" className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SIGNIFICANCE_LEVELS.map(level => (
+                      <SelectItem key={level} value={String(level)}>α = {level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Seasons: {SEASONS.map(season => `${season.label} (${monthName(season.months[0])}–${monthName(season.months[season.months.length - 1])})`).join(', ')}.
+              Sen's slope is the median of pairwise slopes, within seasons for the seasonal test. Non-detects are tied
+              with each other and ranked only against values above their detection limit; the slope uses their
+              substituted value.
+            </p>
+          </CardContent>
+        </Card>
+
+        {!model ? (
+          <p className="text-sm text-muted-foreground text-center">
+            Trend tests need at least four dated samples of the same well. Link repeat samples with a Well ID column.
+          </p>
+        ) : (
+          <>
+            <Card className="shadow-medium mb-8">
+              <CardHeader>
+                <CardTitle>Significant Trends</CardTitle>
+                <CardDescription>
+                  {model.wellIds.length} well{model.wellIds.length > 1 ? 's' : ''} tested at α = {model.settings.significance};
+                  {' '}{upwardWells.length} with an upward trend
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {upwardWells.length > 0 && (
+                  <div className="flex gap-2 flex-wrap">
+                    {upwardWells.map(wellId => (
+                      <Badge key={wellId} variant="outline" className="text-danger border-danger">
+                        {wellId}: {getUpwardTrends(model, wellId).map(t => getParameter(t.parameter)?.symbol ?? t.parameter).join(', ')}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {significant.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Well</TableHead>
+                          <TableHead>Parameter</TableHead>
+                          <TableHead>Period</TableHead>
+                          <TableHead className="text-right">n</TableHead>
+                          <TableHead className="text-right">Kendall τ</TableHead>
+                          <TableHead className="text-right">p</TableHead>
+                          <TableHead className="text-right">Sen's Slope</TableHead>
+                          <TableHead>Trend</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {significant.map(trend => {
+                          const direction = getTrendDirection(trend.test.direction);
+                          return (
+                            <TableRow
+                              key={`${trend.wellId}-${trend.parameter}`}
+                              className="cursor-pointer hover:bg-muted/50"
+                              onClick={() => { setSelectedWell(trend.wellId); setSelectedParameter(trend.parameter); }}
+                            >
+                              <TableCell className="font-medium">{trend.wellId}</TableCell>
+                              <TableCell>{getParameter(trend.parameter)?.name ?? trend.parameter}</TableCell>
+                              <TableCell className="text-sm text-muted-foreground whitespace-nowrap">{formatPeriod(trend)}</TableCell>
+                              <TableCell className="text-right font-mono">{trend.test.n}</TableCell>
+                              <TableCell className="text-right font-mono">{trend.test.tau.toFixed(2)}</TableCell>
+                              <TableCell className="text-right font-mono">{formatPValue(trend.test.pValue)}</TableCell>
+                              <TableCell className="text-right font-mono whitespace-nowrap">{formatSlope(trend)}</TableCell>
+                              <TableCell style={{ color: direction.color }} className="font-semibold">{direction.label}</TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No well shows a significant trend in any parameter.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-medium">
+              <CardHeader className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+                <div>
+                  <CardTitle>Time Series</CardTitle>
+                  <CardDescription>Measured values with the Sen's slope line; click a trend above to show it</CardDescription>
+                </div>
+                <div className="flex gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="trend-well" className="text-xs text-muted-foreground">Well</Label>
+                    <Select value={activeWell} onValueChange={setSelectedWell}>
+                      <SelectTrigger id="trend-well" className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {model.wellIds.map(wellId => (
+                          <SelectItem key={wellId} value={wellId}>{wellId}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="trend-parameter" className="text-xs text-muted-foreground">Parameter</Label>
+                    <Select value={activeTrend?.parameter} onValueChange={setSelectedParameter}>
+                      <SelectTrigger id="trend-parameter" className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {wellTrends.map(trend => (
+                          <SelectItem key={trend.parameter} value={trend.parameter}>
+                            {getParameter(trend.parameter)?.name ?? trend.parameter}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {activeTrend && (
+                  <>
+                    <ResponsiveContainer width="100%" height={320}>
+                      <LineChart data={seriesData}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis
+                          dataKey="time"
+                          type="number"
+                          domain={['dataMin', 'dataMax']}
+                          tickFormatter={(time: number) => time.toFixed(1)}
+                        />
+                        <YAxis
+                          label={{ value: activeParameter?.unit ?? '', angle: -90, position: 'insideLeft' }}
+                          tickFormatter={(value: number) => String(Number(value.toPrecision(3)))}
+                        />
+                        <Tooltip content={<SeriesTooltip />} />
+                        <Legend />
+                        <Line
+                          dataKey="value"
+                          name={activeParameter?.name ?? activeTrend.parameter}
+                          stroke="#0891b2"
+                          strokeWidth={2}
+                          isAnimationActive={false}
+                        />
+                        <Line
+                          dataKey="sen"
+                          name={`Sen's slope (${formatSlope(activeTrend)})`}
+                          stroke={getTrendDirection(activeTrend.test.direction).color}
+                          strokeDasharray="6 4"
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Parameter</TableHead>
+                            <TableHead className="text-right">n</TableHead>
+                            <TableHead className="text-right">S</TableHead>
+                            <TableHead className="text-right">Z</TableHead>
+                            <TableHead className="text-right">Kendall τ</TableHead>
+                            <TableHead className="text-right">p</TableHead>
+                            <TableHead className="text-right">Sen's Slope</TableHead>
+                            <TableHead>Trend</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {wellTrends.map(trend => {
+                            const direction = getTrendDirection(trend.test.direction);
+                            return (
+                              <TableRow
+                                key={trend.parameter}
+                                className={`cursor-pointer hover:bg-muted/50 ${trend === activeTrend ? 'bg-muted/30' : ''}`}
+                                onClick={() => setSelectedParameter(trend.parameter)}
+                              >
+                                <TableCell className="font-medium">{getParameter(trend.parameter)?.name ?? trend.parameter}</TableCell>
+                                <TableCell className="text-right font-mono">{trend.test.n}</TableCell>
+                                <TableCell className="text-right font-mono">{trend.test.s}</TableCell>
+                                <TableCell className="text-right font-mono">{trend.test.z.toFixed(2)}</TableCell>
+                                <TableCell className="text-right font-mono">{trend.test.tau.toFixed(2)}</TableCell>
+                                <TableCell className="text-right font-mono">{formatPValue(trend.test.pValue)}</TableCell>
+                                <TableCell className="text-right font-mono whitespace-nowrap">{formatSlope(trend)}</TableCell>
+                                <TableCell style={{ color: direction.color }}>{direction.label}</TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,126 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceArea, ReferenceLine } from 'recharts';
+import { IrrigationSeverity, USSL_SALINITY_LIMITS, USSL_SODIUM_BOUNDARIES, usslSodiumLimit } from "@/utils/irrigation";
+import type { SampleResult } from "@/types/sample";
+
+interface UsslDiagramProps {
+  results: SampleResult[];
+}
+
+// Plotting range of the diagram (EC in µS/cm, SAR)
+const EC_RANGE: [number, number] = [100, 5000];
+const SAR_MAX = 32;
+
+const SEVERITY_COLORS: Record<IrrigationSeverity, string> = {
+  safe: 'hsl(var(--safe))',
+  moderate: 'hsl(var(--moderate))',
+  danger: 'hsl(var(--danger))',
+};
+
+interface UsslPoint {
+  sampleId: string;
+  ec: number;       // Clamped to the plotting range
+  sar: number;
+  reportedEC: number;
+  label: string;
+}
+
+const UsslTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: UsslPoint }[] }) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="bg-background border border-border rounded-md p-2 text-xs shadow-soft">
+      <p className="font-medium">{point.sampleId}</p>
+      <p>EC: {point.reportedEC} µS/cm</p>
+      <p>SAR: {point.sar.toFixed(2)}</p>
+      <p>Class: {point.label}</p>
+    </div>
+  );
+};
+
+export const UsslDiagram = ({ results }: UsslDiagramProps) => {
+  const assessed = results.filter(r => r.irrigation?.ussl);
+  if (assessed.length === 0) {
+    return null;
+  }
+
+  // One series per class present, coloured by the class severity
+  const series = [...new Set(assessed.map(r => r.irrigation.ussl.label))].sort().map(label => {
+    const members = assessed.filter(r => r.irrigation.ussl.label === label);
+    return {
+      label,
+      color: SEVERITY_COLORS[members[0].irrigation.ussl.severity],
+      points: members.map<UsslPoint>(r => ({
+        sampleId: r.sampleId,
+        ec: Math.min(Math.max(r.concentrations.ec, EC_RANGE[0]), EC_RANGE[1]),
+        sar: Math.min(r.irrigation.indices.sar.value, SAR_MAX),
+        reportedEC: r.concentrations.ec,
+        label,
+      })),
+    };
+  });
+  const salinityEdges = [EC_RANGE[0], ...USSL_SALINITY_LIMITS, EC_RANGE[1]];
+
+  return (
+    <Card className="shadow-medium">
+      <CardHeader>
+        <CardTitle>USSL Diagram</CardTitle>
+        <CardDescription>
+          Salinity hazard (C1–C4, EC) against sodium hazard (S1–S4, SAR) after Richards (1954); sloped lines separate the S classes
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={360}>
+          <ScatterChart margin={{ top: 20, right: 20, bottom: 10, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              type="number"
+              dataKey="ec"
+              name="EC"
+              scale="log"
+              domain={EC_RANGE}
+              ticks={salinityEdges}
+              allowDataOverflow
+              label={{ value: 'EC (µS/cm)', position: 'insideBottom', offset: -5 }}
+            />
+            <YAxis
+              type="number"
+              dataKey="sar"
+              name="SAR"
+              domain={[0, SAR_MAX]}
+              allowDataOverflow
+              label={{ value: 'SAR', angle: -90, position: 'insideLeft' }}
+            />
+            {salinityEdges.slice(0, -1).map((edge, i) => (
+              <ReferenceArea
+                key={edge}
+                x1={edge}
+                x2={salinityEdges[i + 1]}
+                y1={0}
+                y2={SAR_MAX}
+                fillOpacity={0}
+                label={{ value: `C${i + 1}`, position: 'insideTop' }}
+              />
+            ))}
+            {USSL_SALINITY_LIMITS.map(limit => (
+              <ReferenceLine key={limit} x={limit} stroke="hsl(var(--muted-foreground))" />
+            ))}
+            {USSL_SODIUM_BOUNDARIES.map((boundary, i) => (
+              <ReferenceLine
+                key={i}
+                segment={EC_RANGE.map(ec => ({ x: ec, y: usslSodiumLimit(boundary, ec) }))}
+                stroke="hsl(var(--muted-foreground))"
+                label={{ value: `S${i + 1} | S${i + 2}`, position: 'insideTopLeft', fontSize: 10 }}
+              />
+            ))}
+            <Tooltip content={<UsslTooltip />} />
+            <Legend />
+            {series.map(s => (
+              <Scatter key={s.label} name={s.label} data={s.points} fill={s.color} />
+            ))}
+          </ScatterChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,104 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { WILCOX_CLASSES } from "@/utils/irrigation";
+import type { SampleResult } from "@/types/sample";
+
+interface WilcoxDiagramProps {
+  results: SampleResult[];
+}
+
+// Plotting range of the diagram (EC in µS/cm)
+const EC_MAX = 4000;
+
+interface WilcoxPoint {
+  sampleId: string;
+  ec: number;       // Clamped to the plotting range
+  percentSodium: number;
+  reportedEC: number;
+  label: string;
+}
+
+const WilcoxTooltip = ({ active, payload }: { active?: boolean; payload?: { payload: WilcoxPoint }[] }) => {
+  if (!active || !payload?.length) return null;
+  const point = payload[0].payload;
+  return (
+    <div className="bg-background border border-border rounded-md p-2 text-xs shadow-soft">
+      <p className="font-medium">{point.sampleId}</p>
+      <p>EC: {point.reportedEC} µS/cm</p>
+      <p>%Na: {point.percentSodium.toFixed(1)}</p>
+      <p>Class: {point.label}</p>
+    </div>
+  );
+};
+
+export const WilcoxDiagram = ({ results }: WilcoxDiagramProps) => {
+  const assessed = results.filter(r => r.irrigation?.wilcox);
+  if (assessed.length === 0) {
+    return null;
+  }
+
+  const series = WILCOX_CLASSES
+    .map((wilcoxClass, rank) => ({
+      ...wilcoxClass,
+      points: assessed
+        .filter(r => r.irrigation.wilcox.rank === rank)
+        .map<WilcoxPoint>(r => ({
+          sampleId: r.sampleId,
+          ec: Math.min(r.concentrations.ec, EC_MAX),
+          percentSodium: r.irrigation.indices.percentSodium.value,
+          reportedEC: r.concentrations.ec,
+          label: wilcoxClass.label,
+        })),
+    }))
+    .filter(s => s.points.length > 0);
+
+  return (
+    <Card className="shadow-medium">
+      <CardHeader>
+        <CardTitle>Wilcox Diagram</CardTitle>
+        <CardDescription>
+          Percent sodium against EC after Wilcox (1955); each sample takes the worse of its EC and %Na classes
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={360}>
+          <ScatterChart margin={{ top: 20, right: 20, bottom: 10, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              type="number"
+              dataKey="ec"
+              name="EC"
+              domain={[0, EC_MAX]}
+              allowDataOverflow
+              label={{ value: 'EC (µS/cm)', position: 'insideBottom', offset: -5 }}
+            />
+            <YAxis
+              type="number"
+              dataKey="percentSodium"
+              name="%Na"
+              domain={[0, 100]}
+              label={{ value: '%Na', angle: -90, position: 'insideLeft' }}
+            />
+            {WILCOX_CLASSES.slice(0, -1).flatMap(wilcoxClass => [
+              <ReferenceLine
+                key={`${wilcoxClass.label}-na`}
+                segment={[{ x: 0, y: wilcoxClass.maxPercentSodium }, { x: wilcoxClass.maxEC, y: wilcoxClass.maxPercentSodium }]}
+                stroke={wilcoxClass.color}
+              />,
+              <ReferenceLine
+                key={`${wilcoxClass.label}-ec`}
+                segment={[{ x: wilcoxClass.maxEC, y: 0 }, { x: wilcoxClass.maxEC, y: wilcoxClass.maxPercentSodium }]}
+                stroke={wilcoxClass.color}
+              />,
+            ])}
+            <Tooltip content={<WilcoxTooltip />} />
+            <Legend />
+            {series.map(s => (
+              <Scatter key={s.label} name={s.label} data={s.points} fill={s.color} />
+            ))}
+          </ScatterChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
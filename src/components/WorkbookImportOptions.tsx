@@ -0,0 +1,123 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SheetImportOptions, WorkbookSheet, columnLetter, detectSheetImport } from "@/utils/workbook";
+
+interface WorkbookImportOptionsProps {
+  sheets: WorkbookSheet[];
+  options: SheetImportOptions;
+  onOptionsChange: (options: SheetImportOptions) => void;
+}
+
+// Extent of the preview: data rows below the header and leading columns
+const PREVIEW_ROWS = 3;
+const PREVIEW_COLUMNS = 8;
+
+export const WorkbookImportOptions = ({ sheets, options, onOptionsChange }: WorkbookImportOptionsProps) => {
+  const sheet = sheets.find(s => s.name === options.sheet) ?? sheets[0];
+  const rowCount = Math.max(1, sheet.cells.length);
+  const firstDataRow = options.headerRow + options.headerRows;
+  const columnCount = Math.min(PREVIEW_COLUMNS, Math.max(0, ...sheet.cells.map(row => row.length)));
+  const previewRows = Array.from({ length: options.headerRows + PREVIEW_ROWS }, (_, i) => options.headerRow + i)
+    .filter(row => row <= Math.min(rowCount, options.lastRow));
+  const skippedRows = sheet.cells.length - options.lastRow;
+
+  const updateRow = (key: 'headerRow' | 'lastRow', value: string) => {
+    const row = parseInt(value, 10);
+    if (Number.isFinite(row) && row >= 1 && row <= rowCount) onOptionsChange({ ...options, [key]: row });
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-muted/50 rounded-lg space-y-4">
+      <div>
+        <h4 className="font-medium mb-1">Workbook</h4>
+        <p className="text-xs text-muted-foreground">
+          Rows {firstDataRow}–{options.lastRow} of sheet "{sheet.name}" are imported
+          {skippedRows > 0 && `; ${skippedRows} row${skippedRows === 1 ? '' : 's'} below are skipped`}
+        </p>
+      </div>
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="workbook-sheet" className="text-xs text-muted-foreground">Sheet</Label>
+          <Select
+            value={sheet.name}
+            onValueChange={(name) => onOptionsChange(detectSheetImport(sheets.find(s => s.name === name)))}
+          >
+            <SelectTrigger id="workbook-sheet" className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sheets.map(s => (
+                <SelectItem key={s.name} value={s.name} disabled={s.cells.length === 0}>{s.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="workbook-header-row" className="text-xs text-muted-foreground">Header row</Label>
+          <Input
+            id="workbook-header-row"
+            type="number"
+            min={1}
+            max={rowCount}
+            className="w-24"
+            value={options.headerRow}
+            onChange={(e) => updateRow('headerRow', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="workbook-header-rows" className="text-xs text-muted-foreground">Header spans</Label>
+          <Select
+            value={String(options.headerRows)}
+            onValueChange={(value) => onOptionsChange({ ...options, headerRows: value === '2' ? 2 : 1 })}
+          >
+            <SelectTrigger id="workbook-header-rows" className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">One row</SelectItem>
+              <SelectItem value="2">Two rows (e.g. units below)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="workbook-last-row" className="text-xs text-muted-foreground">Last data row</Label>
+          <Input
+            id="workbook-last-row"
+            type="number"
+            min={firstDataRow}
+            max={rowCount}
+            className="w-24"
+            value={options.lastRow}
+            onChange={(e) => updateRow('lastRow', e.target.value)}
+          />
+        </div>
+      </div>
+      {columnCount > 0 && previewRows.length > 0 && (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12" />
+                {Array.from({ length: columnCount }, (_, c) => (
+                  <TableHead key={c} className="text-xs">{columnLetter(c)}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {previewRows.map(row => (
+                <TableRow key={row} className={row < firstDataRow ? 'font-semibold bg-muted/50' : ''}>
+                  <TableCell className="text-xs text-muted-foreground font-mono">{row}</TableCell>
+                  {Array.from({ length: columnCount }, (_, c) => (
+                    <TableCell key={c} className="text-xs whitespace-nowrap">{sheet.cells[row - 1]?.[c] ?? ''}</TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import { useEffect, useRef, useState } from "react";
+import type { SampleData } from "@/types/sample";
+import type { UncertaintyJob, UncertaintyOptions, UncertaintyResult, UncertaintyWorkerMessage } from "@/utils/uncertainty";
+
+export interface UncertaintyProgress {
+  done: number;
+  total: number;
+}
+
+export interface UncertaintySimulation {
+  results?: Map<string, UncertaintyResult | undefined>;  // By sample ID, once every sample is simulated
+  progress?: UncertaintyProgress;  // While the worker runs
+  error?: string;
+}
+
+/**
+ * Monte Carlo uncertainty of each sample, simulated in a web worker so the page stays responsive.
+ * Results are kept per sample for the current options: a review decision re-simulates only the samples it changed,
+ * and settings the simulation does not depend on never restart it. Pass null options to switch the simulation off.
+ */
+export const useUncertainty = (samples: SampleData[] | null, options: UncertaintyOptions | null): UncertaintySimulation => {
+  const cache = useRef<{ options: UncertaintyOptions; results: WeakMap<SampleData, UncertaintyResult | undefined> }>();
+  // Tagged with the samples and options it belongs to, so a change is never shown with the previous run's results
+  const [simulation, setSimulation] = useState<UncertaintySimulation & { samples?: SampleData[]; options?: UncertaintyOptions }>({});
+
+  useEffect(() => {
+    if (!samples || !options) return;
+    if (cache.current?.options !== options) cache.current = { options, results: new WeakMap() };
+    const { results } = cache.current;
+    const collect = () => new Map(samples.map(sample => [sample.sampleId, results.get(sample)]));
+
+    const pending = samples.filter(sample => !results.has(sample));
+    if (!pending.length) {
+      setSimulation({ samples, options, results: collect() });
+      return;
+    }
+
+    setSimulation({ samples, options, progress: { done: 0, total: pending.length } });
+    const worker = new Worker(new URL("../utils/uncertainty.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<UncertaintyWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setSimulation({ samples, options, progress: { done: message.done, total: pending.length } });
+        return;
+      }
+      pending.forEach((sample, index) => results.set(sample, message.results[index]));
+      setSimulation({ samples, options, results: collect() });
+      worker.terminate();
+    };
+    worker.onerror = (event) => {
+      setSimulation({ samples, options, error: event.message || 'The simulation stopped unexpectedly' });
+      worker.terminate();
+    };
+    const job: UncertaintyJob = { samples: pending, options };
+    worker.postMessage(job);
+
+    // A newer run replaces this one; results it had not sent yet are simulated again
+    return () => worker.terminate();
+  }, [samples, options]);
+
+  if (!samples || !options || simulation.samples !== samples || simulation.options !== options) return {};
+  const { results, progress, error } = simulation;
+  return { results, progress, error };
+};
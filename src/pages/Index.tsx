@@ -1,102 +1,159 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Header } from "@/components/Header";
 import { Hero } from "@/components/Hero";
 import { DataUpload } from "@/components/DataUpload";
 import { ResultsTable } from "@/components/ResultsTable";
 import { StatsDashboard } from "@/components/StatsDashboard";
 import { SampleMap } from "@/components/SampleMap";
-import { calculatePollutionIndices, MetalConcentrations } from "@/utils/pollutionCalculations";
+import { AnalysisSettingsPanel } from "@/components/AnalysisSettingsPanel";
+import { HealthRiskPanel } from "@/components/HealthRiskPanel";
+import { SampleBreakdownPanel } from "@/components/SampleBreakdownPanel";
+import { QualityControlPanel } from "@/components/QualityControlPanel";
+import { IrrigationPanel } from "@/components/IrrigationPanel";
+import { FaciesPanel } from "@/components/FaciesPanel";
+import { PcaPanel } from "@/components/PcaPanel";
+import { ClusterPanel } from "@/components/ClusterPanel";
+import { OutlierReviewPanel } from "@/components/OutlierReviewPanel";
+import { TrendPanel } from "@/components/TrendPanel";
+import { ComparisonPanel } from "@/components/ComparisonPanel";
+import { isExcludedByIonBalance } from "@/utils/ionBalance";
+import { CorrelationOptions, DEFAULT_CORRELATION_OPTIONS } from "@/utils/correlation";
+import { DEFAULT_GROUP_COMPARISON_OPTIONS, GroupComparisonOptions } from "@/utils/groupComparison";
+import { OutlierDecisions, applyOutlierDecisions } from "@/utils/outliers";
+import { ComparisonOptions, DEFAULT_COMPARISON_OPTIONS, compareCampaigns } from "@/utils/comparison";
+import { analyzeSamples } from "@/utils/analysis";
+import { getStandardProfile } from "@/utils/standards";
+import { getClassificationScheme } from "@/utils/classification";
+import type { UncertaintyOptions } from "@/utils/uncertainty";
 import { exportToCSV, exportToPDF } from "@/utils/exportUtils";
 import { useToast } from "@/hooks/use-toast";
-
-interface SampleData {
-  sampleId: string;
-  latitude: number;
-  longitude: number;
-  lead: number;
-  cadmium: number;
-  arsenic: number;
-  chromium: number;
-  [key: string]: string | number;
-}
-
-interface SampleResult {
-  sampleId: string;
-  latitude: number;
-  longitude: number;
-  lead: number;
-  cadmium: number;
-  arsenic: number;
-  chromium: number;
-  indices: {
-    hpi: number;
-    mi: number;
-    cd: number;
-    status: 'safe' | 'moderate' | 'danger';
-    statusLabel: string;
-  };
-}
+import { useUncertainty } from "@/hooks/use-uncertainty";
+import type { SampleData } from "@/types/sample";
+import { AnalysisSettings, DEFAULT_ANALYSIS_SETTINGS } from "@/utils/analysisSettings";
 
 const Index = () => {
   const [uploadedData, setUploadedData] = useState<SampleData[] | null>(null);
-  const [analysisResults, setAnalysisResults] = useState<SampleResult[] | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [settings, setSettings] = useState<AnalysisSettings>(DEFAULT_ANALYSIS_SETTINGS);
+  // Review decisions on flagged values, keyed by sample and parameter; they belong to the uploaded dataset
+  const [outlierDecisions, setOutlierDecisions] = useState<OutlierDecisions>({});
+  // A second campaign of the same network, compared against the uploaded data
+  const [comparisonData, setComparisonData] = useState<SampleData[] | null>(null);
+  // Display options only; changing them does not re-run the analysis
+  const [correlationOptions, setCorrelationOptions] = useState<CorrelationOptions>(DEFAULT_CORRELATION_OPTIONS);
+  const [groupOptions, setGroupOptions] = useState<GroupComparisonOptions>(DEFAULT_GROUP_COMPARISON_OPTIONS);
+  const [comparisonOptions, setComparisonOptions] = useState<ComparisonOptions>(DEFAULT_COMPARISON_OPTIONS);
   const { toast } = useToast();
 
   const handleDataUploaded = (data: SampleData[]) => {
     setUploadedData(data);
-    setAnalysisResults(null);
+    setOutlierDecisions({});
   };
 
-  const analyzeData = async () => {
-    if (!uploadedData) return;
-    
-    setIsAnalyzing(true);
-    
+  // Uploaded samples with the analyst's corrections and exclusions of flagged values applied
+  const reviewedData = useMemo(
+    () => uploadedData && applyOutlierDecisions(uploadedData, outlierDecisions),
+    [uploadedData, outlierDecisions]
+  );
+
+  // Samples failing the charge balance check are left out when the analyst chose to exclude them; a sample keeps
+  // its identity through review decisions on other samples
+  const includedData = useMemo(
+    () => reviewedData && reviewedData.filter(sample => !isExcludedByIonBalance(sample.ionBalance, settings.ionBalanceExclusion)),
+    [reviewedData, settings.ionBalanceExclusion]
+  );
+
+  // Results always follow the current data, settings and review decisions; the analysis is synchronous, so a
+  // change made while an earlier one is shown can never be dropped
+  const analysis = useMemo(() => {
+    if (!uploadedData) return null;
     try {
-      // Simulate processing time for user feedback
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const results: SampleResult[] = uploadedData.map(sample => {
-        const metalConcentrations: MetalConcentrations = {
-          lead: sample.lead,
-          cadmium: sample.cadmium,
-          arsenic: sample.arsenic,
-          chromium: sample.chromium,
-        };
-        
-        const indices = calculatePollutionIndices(metalConcentrations);
-        
-        return {
-          ...sample,
-          indices,
-        };
-      });
-      
-      setAnalysisResults(results);
-      
+      const results = analyzeSamples(uploadedData, settings, outlierDecisions);
+      return { results, excludedCount: reviewedData.length - includedData.length };
+    } catch (error) {
+      return { error };
+    }
+  }, [uploadedData, reviewedData, includedData, settings, outlierDecisions]);
+
+  // The Monte Carlo simulation runs in a worker and depends only on these settings, so changing any other setting
+  // does not restart it
+  const { standardProfileId, classificationSchemeId, hpiMethod, exposure, uncertainty } = settings;
+  const substitution = settings.censoring.substitution;
+  const uncertaintyOptions = useMemo<UncertaintyOptions | null>(
+    () => uncertainty.enabled
+      ? {
+        profile: getStandardProfile(standardProfileId),
+        scheme: getClassificationScheme(classificationSchemeId),
+        hpiMethod,
+        exposure,
+        substitution,
+        uncertainty,
+      }
+      : null,
+    [standardProfileId, classificationSchemeId, hpiMethod, exposure, substitution, uncertainty]
+  );
+  const simulation = useUncertainty(includedData, uncertaintyOptions);
+
+  // Results carry their intervals once the simulation has finished
+  const analysisResults = useMemo(() => {
+    const results = analysis?.results ?? null;
+    return results && simulation.results
+      ? results.map(result => ({ ...result, uncertainty: simulation.results.get(result.sampleId) }))
+      : results;
+  }, [analysis, simulation.results]);
+
+  // The reference campaign is analysed with the same settings so that indices and classes are comparable
+  const comparisonResults = useMemo(() => {
+    try {
+      return comparisonData && analyzeSamples(comparisonData, settings);
+    } catch {
+      return null;
+    }
+  }, [comparisonData, settings]);
+
+  // Announce each newly uploaded dataset once, not every re-analysis after a settings change or review decision
+  const announcedData = useRef<SampleData[] | null>(null);
+  useEffect(() => {
+    if (!analysis || announcedData.current === uploadedData) return;
+    announcedData.current = uploadedData;
+    if (analysis.results) {
       toast({
         title: "Analysis complete",
-        description: `Processed ${results.length} samples successfully`,
+        description: `Processed ${analysis.results.length} samples successfully` +
+          (analysis.excludedCount ? `; ${analysis.excludedCount} excluded by the ion balance check` : ''),
       });
-      
-    } catch (error) {
+    }
+  }, [analysis, uploadedData, toast]);
+
+  // Failures are reported whenever they happen, since the last results are no longer shown
+  useEffect(() => {
+    if (analysis?.error) {
       toast({
         title: "Analysis failed",
         description: "An error occurred during calculation",
         variant: "destructive",
       });
-    } finally {
-      setIsAnalyzing(false);
     }
-  };
+  }, [analysis, toast]);
 
-  // Auto-analyze when data is uploaded
   useEffect(() => {
-    if (uploadedData && !analysisResults && !isAnalyzing) {
-      analyzeData();
+    if (simulation.error) {
+      toast({
+        title: "Uncertainty simulation failed",
+        description: simulation.error,
+        variant: "destructive",
+      });
     }
-  }, [uploadedData]);
+  }, [simulation.error, toast]);
+
+  const handleComparisonCleared = () => {
+    setComparisonData(null);
+  };
+
+  // Memoised so the map only redraws when the comparison changes
+  const comparison = useMemo(
+    () => (analysisResults && comparisonResults ? compareCampaigns(comparisonResults, analysisResults, comparisonOptions) : undefined),
+    [analysisResults, comparisonResults, comparisonOptions]
+  );
 
   const handleExportCSV = () => {
     if (analysisResults) {
@@ -110,7 +167,7 @@ const Index = () => {
 
   const handleExportPDF = () => {
     if (analysisResults) {
-      exportToPDF(analysisResults);
+      exportToPDF(analysisResults, correlationOptions, groupOptions);
       toast({
         title: "Generating report",
         description: "PDF report is being prepared",
@@ -123,29 +180,49 @@ const Index = () => {
       <Header />
       <Hero />
       <DataUpload onDataUploaded={handleDataUploaded} />
-      
-      {isAnalyzing && (
-        <div className="py-16">
-          <div className="container mx-auto px-4 text-center">
-            <div className="max-w-md mx-auto bg-white rounded-lg shadow-medium p-8">
-              <div className="animate-spin h-12 w-12 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
-              <h3 className="text-lg font-semibold mb-2">Analyzing Data</h3>
-              <p className="text-muted-foreground">
-                Computing pollution indices for {uploadedData?.length} samples...
-              </p>
-            </div>
-          </div>
-        </div>
+      {uploadedData && (
+        <>
+          <QualityControlPanel samples={reviewedData} settings={settings} onChange={setSettings} />
+          <OutlierReviewPanel samples={uploadedData} decisions={outlierDecisions} onChange={setOutlierDecisions} />
+        </>
       )}
+      <AnalysisSettingsPanel settings={settings} onChange={setSettings} simulationProgress={simulation.progress} />
       
       {analysisResults && (
         <>
-          <StatsDashboard results={analysisResults} />
+          <StatsDashboard
+            results={analysisResults}
+            correlationOptions={correlationOptions}
+            onCorrelationOptionsChange={setCorrelationOptions}
+            groupOptions={groupOptions}
+            onGroupOptionsChange={setGroupOptions}
+          />
+          <HealthRiskPanel results={analysisResults} />
+          <IrrigationPanel results={analysisResults} />
+          <FaciesPanel results={analysisResults} />
+          <PcaPanel results={analysisResults} settings={settings} onChange={setSettings} />
+          <ClusterPanel results={analysisResults} settings={settings} onChange={setSettings} />
+          <TrendPanel results={analysisResults} settings={settings} onChange={setSettings} />
+          <DataUpload
+            sectionId="comparison-upload"
+            title="Compare Campaigns"
+            description="Upload a reference campaign of the same network, such as the pre-monsoon survey, to compare it with the current data."
+            onDataUploaded={setComparisonData}
+          />
+          {comparison && (
+            <ComparisonPanel
+              comparison={comparison}
+              options={comparisonOptions}
+              onOptionsChange={setComparisonOptions}
+              onClear={handleComparisonCleared}
+            />
+          )}
           <ResultsTable 
             results={analysisResults} 
             onExport={handleExportCSV}
           />
-          <SampleMap results={analysisResults} />
+          <SampleBreakdownPanel results={analysisResults} />
+          <SampleMap results={analysisResults} comparison={comparison} />
           
           {/* Additional Export Options */}
           <section id="export-options" className="py-16 bg-secondary/20">
@@ -0,0 +1,50 @@
+// Shared sample types used across upload, analysis, visualisation and export
+
+import type { MetalConcentrations, PollutionIndices } from "@/utils/pollutionCalculations";
+import type { HealthRiskAssessment } from "@/utils/healthRisk";
+import type { CensoredValue, CensoringSettings } from "@/utils/censoring";
+import type { ConcentrationUnit } from "@/utils/units";
+import type { UncertaintyResult } from "@/utils/uncertainty";
+import type { WaterQualityIndex } from "@/utils/wqi";
+import type { IonBalance, IonBalanceExclusion } from "@/utils/ionBalance";
+import type { IrrigationAssessment } from "@/utils/irrigation";
+import type { HydrochemicalFacies } from "@/utils/facies";
+import type { PcaSampleScores } from "@/utils/pca";
+import type { SampleCluster } from "@/utils/clustering";
+import type { ReviewedOutlier } from "@/utils/outliers";
+import type { SampleTrends } from "@/utils/trends";
+
+export interface SampleData {
+  sampleId: string;
+  wellId?: string;  // Well or site the sample was taken from, linking repeat samples; see getWellId
+  date?: string;    // Sampling date, ISO yyyy-mm-dd
+  latitude: number;
+  longitude: number;
+  concentrations: MetalConcentrations;  // Keyed by parameter registry key, canonical units
+  censored: Record<string, CensoredValue>;  // Non-detects by parameter key; their concentration is the detection limit
+  sourceUnits: Record<string, ConcentrationUnit>;  // Unit each concentration was reported in before conversion
+  uncertainties: Record<string, number>;  // Standard uncertainty (1 SD) by parameter key, canonical units
+  ionBalance?: IonBalance;  // Charge balance check, when at least one cation and one anion were measured
+  groups?: Record<string, string>;  // Values of the upload's other columns (district, aquifer, well type) by header
+}
+
+// Samples left out of an analysis run by quality checks, and why
+export interface QualityControl {
+  ionBalanceExclusion: IonBalanceExclusion;
+  excludedSampleIds: string[];
+  outliers: ReviewedOutlier[];  // Values flagged by outlier screening and the analyst's decision on each
+}
+
+export interface SampleResult extends SampleData {
+  indices: PollutionIndices;
+  healthRisk: HealthRiskAssessment;
+  censoring: CensoringSettings;  // Non-detect handling the results were computed with; concentrations hold substituted values
+  qualityControl: QualityControl;  // Exclusions applied to the run the result belongs to
+  uncertainty?: UncertaintyResult;  // Monte Carlo intervals, when uncertainty propagation is enabled
+  wqi?: WaterQualityIndex;  // Water quality indices, when major ions or physico-chemical parameters were measured
+  irrigation?: IrrigationAssessment;  // Irrigation suitability, when Ca, Mg and Na were measured
+  facies?: HydrochemicalFacies;  // Piper facies, when all six major ions were measured
+  pca?: PcaSampleScores;  // Principal component scores, when the sample entered the PCA
+  cluster?: SampleCluster;  // Hierarchical cluster membership, when the sample entered the cluster analysis
+  trend?: SampleTrends;  // Trends of the sample's well, when it has enough dated samples
+}
@@ -0,0 +1,73 @@
+// The analysis run: from uploaded samples and the analyst's settings to per-sample results
+
+import { calculatePollutionIndices } from "./pollutionCalculations";
+import { assessHealthRisk } from "./healthRisk";
+import { substituteCensored } from "./censoring";
+import { calculateEntropyWeights, calculateWQI } from "./wqi";
+import { isExcludedByIonBalance } from "./ionBalance";
+import { assessIrrigation } from "./irrigation";
+import { classifyFacies } from "./facies";
+import { runPca } from "./pca";
+import { runClustering } from "./clustering";
+import { getWellId, runTrends } from "./trends";
+import { OutlierDecisions, applyOutlierDecisions, detectOutliers, reviewOutliers } from "./outliers";
+import type { AnalysisSettings } from "./analysisSettings";
+import type { QualityControl, SampleData, SampleResult } from "@/types/sample";
+
+/**
+ * Analyse a dataset with the given settings and outlier review decisions. Samples excluded by the ion balance check
+ * have no result; the exclusions are recorded on every result's quality control. Monte Carlo uncertainty is simulated
+ * separately, in a web worker (see useUncertainty), and attached to the results afterwards.
+ */
+export const analyzeSamples = (
+  uploaded: SampleData[],
+  settings: AnalysisSettings,
+  outlierDecisions: OutlierDecisions = {}
+): SampleResult[] => {
+  const reviewed = applyOutlierDecisions(uploaded, outlierDecisions);
+  // Samples failing the charge balance check are left out when the analyst chose to exclude them
+  const samples = reviewed.filter(sample => !isExcludedByIonBalance(sample.ionBalance, settings.ionBalanceExclusion));
+  const qualityControl: QualityControl = {
+    ionBalanceExclusion: settings.ionBalanceExclusion,
+    excludedSampleIds: reviewed.filter(sample => !samples.includes(sample)).map(sample => sample.sampleId),
+    outliers: reviewOutliers(detectOutliers(uploaded), outlierDecisions),
+  };
+
+  const substituted = samples.map(sample => substituteCensored(sample, settings.censoring.substitution));
+  // Entropy weights describe the whole dataset, so they are computed before scoring each sample
+  const entropyWeights = calculateEntropyWeights(substituted, settings);
+  const pca = runPca(substituted.map(concentrations => ({ concentrations })), settings.pca);
+  const clustering = runClustering(
+    samples.map((sample, index) => ({ sampleId: sample.sampleId, concentrations: substituted[index] })),
+    settings.clustering
+  );
+  // Repeat samples are linked by well; non-detects keep their flags so trend tests can treat them as ties
+  const trends = runTrends(
+    samples.map((sample, index) => ({ ...sample, wellId: getWellId(sample), concentrations: substituted[index] })),
+    settings.trends
+  );
+
+  return samples.map((sample, index) => {
+    const concentrations = substituted[index];
+    const indices = calculatePollutionIndices(concentrations, settings);
+    const healthRisk = assessHealthRisk(concentrations, settings.exposure);
+    const wqi = calculateWQI(concentrations, entropyWeights, settings);
+    const irrigation = assessIrrigation(concentrations);
+    const facies = classifyFacies(concentrations);
+
+    return {
+      ...sample,
+      concentrations,
+      indices,
+      healthRisk,
+      censoring: settings.censoring,
+      qualityControl,
+      wqi,
+      irrigation,
+      facies,
+      pca: pca?.scores[index] && { model: pca.model, scores: pca.scores[index] },
+      cluster: clustering?.clusters[index] !== undefined ? { model: clustering.model, id: clustering.clusters[index] } : undefined,
+      trend: trends?.wellIds.includes(getWellId(sample)) ? { model: trends, wellId: getWellId(sample) } : undefined,
+    };
+  });
+};
@@ -0,0 +1,55 @@
+// User-selected options that control how an analysis run is computed
+
+import { DEFAULT_STANDARD_PROFILE_ID } from "./standards";
+import { Cohort, DEFAULT_EXPOSURE, ExposureParameters } from "./healthRisk";
+import { DEFAULT_SCHEME_ID } from "./classification";
+import { CensoringSettings, DEFAULT_CENSORING } from "./censoring";
+import { DEFAULT_UNCERTAINTY, UncertaintySettings } from "./uncertainty";
+import { DEFAULT_ION_BALANCE_EXCLUSION, IonBalanceExclusion } from "./ionBalance";
+import { DEFAULT_PCA, PcaSettings } from "./pca";
+import { ClusterSettings, DEFAULT_CLUSTERING } from "./clustering";
+import { DEFAULT_TRENDS, TrendSettings } from "./trends";
+
+export type HpiMethod = 'mohan-1996' | 'simplified';
+
+export interface AnalysisSettings {
+  standardProfileId: string;
+  hpiMethod: HpiMethod;
+  exposure: Record<Cohort, ExposureParameters>;
+  classificationSchemeId: string;
+  censoring: CensoringSettings;
+  uncertainty: UncertaintySettings;
+  ionBalanceExclusion: IonBalanceExclusion;
+  pca: PcaSettings;
+  clustering: ClusterSettings;
+  trends: TrendSettings;
+}
+
+export const HPI_METHODS: { id: HpiMethod; label: string; description: string }[] = [
+  {
+    id: 'mohan-1996',
+    label: 'Mohan et al. (1996)',
+    description: 'Unit weights Wi = k/Si, sub-index Qi = |Mi − Ii| / (Si − Ii) × 100 with ideal value Ii and highest permissible value Si',
+  },
+  {
+    id: 'simplified',
+    label: 'Simplified (non-standard)',
+    description: 'Toxicity weights, sub-index counted only above the acceptable limit; not comparable with published HPI values',
+  },
+];
+
+export const getHpiMethod = (id: HpiMethod) =>
+  HPI_METHODS.find(m => m.id === id) ?? HPI_METHODS[0];
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  standardProfileId: DEFAULT_STANDARD_PROFILE_ID,
+  hpiMethod: 'mohan-1996',
+  exposure: DEFAULT_EXPOSURE,
+  classificationSchemeId: DEFAULT_SCHEME_ID,
+  censoring: DEFAULT_CENSORING,
+  uncertainty: DEFAULT_UNCERTAINTY,
+  ionBalanceExclusion: DEFAULT_ION_BALANCE_EXCLUSION,
+  pca: DEFAULT_PCA,
+  clustering: DEFAULT_CLUSTERING,
+  trends: DEFAULT_TRENDS,
+};
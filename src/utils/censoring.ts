@@ -0,0 +1,247 @@
+// Below-detection-limit (left-censored) concentrations: parsing, substitution and summary statistics
+
+import type { ParameterDefinition } from "./parameters";
+import type { MetalConcentrations } from "./pollutionCalculations";
+import { linearRegression, mean, median, normalQuantile } from "./statistics";
+
+export interface CensoredValue {
+  detectionLimit: number;  // In the parameter's canonical unit
+  reported: string;        // Cell text as written by the lab, e.g. "<0.001" or "BDL"
+  assumedLimit: boolean;   // True when the lab gave no limit and the registry default was used
+}
+
+export type SubstitutionPolicy = 'zero' | 'half-dl' | 'dl-sqrt2' | 'dl';
+
+/**
+ * How concentration summaries (means, medians) treat non-detects:
+ * - substitution: summarise the substituted values
+ * - ros: robust regression on order statistics (Helsel, 2012)
+ * - km: Kaplan–Meier estimate on flipped data
+ */
+export type SummaryMethod = 'substitution' | 'ros' | 'km';
+
+export interface CensoringSettings {
+  substitution: SubstitutionPolicy;
+  summaryMethod: SummaryMethod;
+}
+
+export const SUBSTITUTION_POLICIES: { id: SubstitutionPolicy; label: string; factor: number }[] = [
+  { id: 'zero', label: '0', factor: 0 },
+  { id: 'half-dl', label: 'DL/2', factor: 0.5 },
+  { id: 'dl-sqrt2', label: 'DL/√2', factor: Math.SQRT1_2 },
+  { id: 'dl', label: 'DL', factor: 1 },
+];
+
+export const SUMMARY_METHODS: { id: SummaryMethod; label: string; description: string }[] = [
+  { id: 'substitution', label: 'Substituted values', description: 'Means and medians use the substituted values' },
+  { id: 'ros', label: 'ROS', description: 'Regression on order statistics; needs at least 3 detects, otherwise substitution is used' },
+  { id: 'km', label: 'Kaplan–Meier', description: 'Kaplan–Meier estimate with the lowest value treated as detected (Efron correction)' },
+];
+
+export const DEFAULT_CENSORING: CensoringSettings = {
+  substitution: 'half-dl',
+  summaryMethod: 'substitution',
+};
+
+// Non-detect codes used on lab sheets, after lowercasing and removing spaces and dots
+const NON_DETECT_CODES = ['bdl', 'bld', 'nd', 'lod', 'dl', 'mdl', 'loq', 'lor'];
+
+// A plain decimal number; Number() alone would also accept hex ("0x10"), binary ("0b1") and "Infinity"
+const DECIMAL_NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Parse a concentration cell, recognising non-detects such as "<0.001", "< 0.001", "BDL", "ND" or "<LOD".
+ * Returns the numeric value, the censored value with its detection limit, or undefined if the cell is not understood.
+ */
+export const parseConcentration = (
+  raw: string,
+  parameter: ParameterDefinition
+): { value: number; censored?: CensoredValue } | undefined => {
+  const text = raw.trim();
+
+  const bounded = text.match(/^<\s*(\d*\.?\d+(?:e[-+]?\d+)?)$/i);
+  if (bounded) {
+    const detectionLimit = parseFloat(bounded[1]);
+    return { value: detectionLimit, censored: { detectionLimit, reported: text, assumedLimit: false } };
+  }
+
+  const code = text.replace(/^</, '').replace(/[\s.]/g, '').toLowerCase();
+  if (NON_DETECT_CODES.includes(code)) {
+    const detectionLimit = parameter.detectionLimit;
+    return { value: detectionLimit, censored: { detectionLimit, reported: text, assumedLimit: true } };
+  }
+
+  if (!DECIMAL_NUMBER.test(text)) return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? { value } : undefined;
+};
+
+export const getSubstitutionPolicy = (id: SubstitutionPolicy) =>
+  SUBSTITUTION_POLICIES.find(p => p.id === id) ?? SUBSTITUTION_POLICIES[1];
+
+export const getSummaryMethod = (id: SummaryMethod) =>
+  SUMMARY_METHODS.find(m => m.id === id) ?? SUMMARY_METHODS[0];
+
+/**
+ * Concentrations used in calculations, with each non-detect replaced by the policy's fraction of its detection limit
+ */
+export const substituteCensored = (
+  sample: { concentrations: MetalConcentrations; censored: Record<string, CensoredValue> },
+  policy: SubstitutionPolicy
+): MetalConcentrations => {
+  const { factor } = getSubstitutionPolicy(policy);
+  return Object.fromEntries(
+    Object.entries(sample.concentrations).map(([key, value]) => {
+      const censored = sample.censored[key];
+      return [key, censored ? censored.detectionLimit * factor : value];
+    })
+  );
+};
+
+/**
+ * Display text for a concentration: "<DL" for non-detects, otherwise the value
+ */
+export const formatConcentration = (
+  sample: { concentrations: MetalConcentrations; censored: Record<string, CensoredValue> },
+  key: string,
+  digits = 4
+): string => {
+  const censored = sample.censored[key];
+  if (censored) return `<${censored.detectionLimit.toFixed(digits)}`;
+  const value = sample.concentrations[key];
+  return Number.isFinite(value) ? value.toFixed(digits) : '';
+};
+
+export interface CensoredObservation {
+  value: number;       // Measured value, or the detection limit for a non-detect
+  censored: boolean;
+}
+
+export interface CensoredSummary {
+  mean: number;
+  median: number;
+  n: number;
+  censoredCount: number;
+  method: SummaryMethod;  // Method actually used, after any fallback to substitution
+}
+
+/**
+ * Robust ROS with multiple detection limits: Hirsch–Stedinger plotting positions,
+ * log-normal fit to the detects and imputation of the non-detects from the fitted line
+ */
+const imputeROS = (observations: CensoredObservation[]): number[] | undefined => {
+  const detects = observations.filter(o => !o.censored).map(o => o.value).sort((a, b) => a - b);
+  const nonDetects = observations.filter(o => o.censored).map(o => o.value);
+  if (detects.length < 3 || new Set(detects).size < 2 || detects[0] <= 0) return undefined;
+
+  const limits = [...new Set(nonDetects)].sort((a, b) => a - b);
+  if (detects[0] < limits[0]) limits.unshift(0);
+
+  // Probability of exceeding each detection limit, from the highest limit down
+  const exceedance = new Array<number>(limits.length + 1).fill(0);
+  for (let j = limits.length - 1; j >= 0; j--) {
+    const upper = limits[j + 1] ?? Infinity;
+    const above = detects.filter(v => v >= limits[j] && v < upper).length;
+    const below = detects.filter(v => v < limits[j]).length + nonDetects.filter(v => v <= limits[j]).length;
+    exceedance[j] = above + below > 0
+      ? exceedance[j + 1] + (above / (above + below)) * (1 - exceedance[j + 1])
+      : exceedance[j + 1];
+  }
+
+  const detectPositions: number[] = [];
+  const imputed: number[] = [];
+  const positionsByLimit = limits.map((limit, j) => {
+    const upper = limits[j + 1] ?? Infinity;
+    const inInterval = detects.filter(v => v >= limit && v < upper);
+    inInterval.forEach((_, r) => {
+      detectPositions.push((1 - exceedance[j]) + (exceedance[j] - exceedance[j + 1]) * (r + 1) / (inInterval.length + 1));
+    });
+    const censoredHere = nonDetects.filter(v => v === limit).length;
+    return Array.from({ length: censoredHere }, (_, r) => (1 - exceedance[j]) * (r + 1) / (censoredHere + 1));
+  });
+
+  const { slope, intercept } = linearRegression(detectPositions.map(normalQuantile), detects.map(Math.log));
+  positionsByLimit.flat().forEach(p => imputed.push(Math.exp(intercept + slope * normalQuantile(p))));
+
+  return [...detects, ...imputed];
+};
+
+/**
+ * Kaplan–Meier estimate of the distribution of left-censored data; returns the probability mass at each detected value
+ */
+const kaplanMeier = (observations: CensoredObservation[]): { value: number; mass: number }[] | undefined => {
+  const detected = [...new Set(observations.filter(o => !o.censored).map(o => o.value))].sort((a, b) => b - a);
+  if (!detected.length) return undefined;
+
+  const masses: { value: number; mass: number }[] = [];
+  let cdf = 1;
+  detected.forEach(value => {
+    const events = observations.filter(o => !o.censored && o.value === value).length;
+    const atRisk = observations.filter(o => o.value <= value).length;
+    const next = cdf * (1 - events / atRisk);
+    masses.push({ value, mass: cdf - next });
+    cdf = next;
+  });
+
+  // Efron correction: mass left below the lowest detect is placed at the lowest detection limit or detect
+  if (cdf > 0) {
+    const lowest = Math.min(...observations.map(o => o.value));
+    masses.push({ value: lowest, mass: cdf });
+  }
+  return masses;
+};
+
+/**
+ * Mean and median of a parameter's concentrations with non-detects handled by the chosen method.
+ * ROS and Kaplan–Meier fall back to substitution when there are too few detects.
+ */
+export const summarizeCensored = (
+  observations: CensoredObservation[],
+  settings: CensoringSettings
+): CensoredSummary => {
+  const censoredCount = observations.filter(o => o.censored).length;
+  const base = { n: observations.length, censoredCount };
+
+  if (settings.summaryMethod === 'ros' && censoredCount > 0) {
+    const values = imputeROS(observations);
+    if (values) return { ...base, mean: mean(values), median: median(values), method: 'ros' };
+  }
+
+  if (settings.summaryMethod === 'km' && censoredCount > 0) {
+    const masses = kaplanMeier(observations);
+    if (masses) {
+      let cumulative = 0;
+      const medianPoint = [...masses].reverse().find(point => (cumulative += point.mass) >= 0.5);
+      return {
+        ...base,
+        mean: masses.reduce((total, point) => total + point.value * point.mass, 0),
+        median: medianPoint?.value ?? NaN,
+        method: 'km',
+      };
+    }
+  }
+
+  const { factor } = getSubstitutionPolicy(settings.substitution);
+  const values = observations.map(o => o.censored ? o.value * factor : o.value);
+  return { ...base, mean: mean(values), median: median(values), method: 'substitution' };
+};
+
+/**
+ * Observations of one parameter across samples, in the shape summarizeCensored expects
+ */
+export const getCensoredObservations = (
+  samples: { concentrations: MetalConcentrations; censored: Record<string, CensoredValue> }[],
+  key: string
+): CensoredObservation[] =>
+  samples
+    .filter(s => s.censored[key] || Number.isFinite(s.concentrations[key]))
+    .map(s => s.censored[key]
+      ? { value: s.censored[key].detectionLimit, censored: true }
+      : { value: s.concentrations[key], censored: false });
+
+/**
+ * Human-readable description of the non-detect handling, for the report and exports
+ */
+export const describeCensoring = (settings: CensoringSettings): string =>
+  `Non-detects substituted with ${getSubstitutionPolicy(settings.substitution).label} in index and risk calculations; ` +
+  `concentration summaries by ${getSummaryMethod(settings.summaryMethod).label}`;
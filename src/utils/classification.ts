@@ -0,0 +1,283 @@
+// Declarative classification schemes for assigning samples to contamination classes
+
+import { z } from "zod";
+
+export type ClassifiableIndex = 'hpi' | 'mi' | 'cd' | 'hei' | 'nemerow';
+
+export const CLASSIFIABLE_INDICES: { id: ClassifiableIndex; label: string }[] = [
+  { id: 'hpi', label: 'HPI' },
+  { id: 'mi', label: 'MI' },
+  { id: 'cd', label: 'Cd' },
+  { id: 'hei', label: 'HEI' },
+  { id: 'nemerow', label: 'Nemerow PI' },
+];
+
+export interface ClassDefinition {
+  id: string;
+  label: string;
+  color: string;  // Hex colour used in the table, charts, map and report
+}
+
+export interface IndexBand {
+  classId: string;
+  min: number;    // Exclusive lower bound: the band applies when value > min
+}
+
+export interface IndexRule {
+  index: ClassifiableIndex;
+  bands: IndexBand[];
+}
+
+/**
+ * How per-index results combine into one sample class:
+ * - worst: classify each index on its own and keep the most severe class
+ * - any: from the most severe class down, assign the first class any of whose index bands is exceeded
+ * - all: from the most severe class down, assign the first class all of whose index bands are exceeded
+ */
+export type CombinationRule = 'any' | 'all' | 'worst';
+
+export interface ClassificationScheme {
+  id: string;
+  name: string;
+  description: string;
+  classes: ClassDefinition[];  // Ordered from least to most severe; the first class is the default
+  rules: IndexRule[];
+  combine: CombinationRule;
+}
+
+export interface ClassificationResult {
+  classId: string;
+  label: string;
+  color: string;
+  rank: number;  // Position in the scheme's classes, 0 = least severe
+}
+
+export const BUILT_IN_SCHEMES: ClassificationScheme[] = [
+  {
+    id: 'aqualyx-default',
+    name: 'Aqualyx default (HPI / MI / Cd)',
+    description: 'High if HPI > 100, MI > 1.5 or Cd > 3; moderate if HPI > 50, MI > 1 or Cd > 1.5',
+    classes: [
+      { id: 'safe', label: 'Safe Level', color: '#16a34a' },
+      { id: 'moderate', label: 'Moderate Contamination', color: '#ca8a04' },
+      { id: 'danger', label: 'High Contamination', color: '#dc2626' },
+    ],
+    rules: [
+      { index: 'hpi', bands: [{ classId: 'moderate', min: 50 }, { classId: 'danger', min: 100 }] },
+      { index: 'mi', bands: [{ classId: 'moderate', min: 1 }, { classId: 'danger', min: 1.5 }] },
+      { index: 'cd', bands: [{ classId: 'moderate', min: 1.5 }, { classId: 'danger', min: 3 }] },
+    ],
+    combine: 'any',
+  },
+  {
+    id: 'hpi-three-class',
+    name: 'HPI three-class (low / medium / high)',
+    description: 'HPI < 15 low, 15–30 medium, > 30 high (Edet & Offiong, 2002)',
+    classes: [
+      { id: 'low', label: 'Low', color: '#16a34a' },
+      { id: 'medium', label: 'Medium', color: '#ca8a04' },
+      { id: 'high', label: 'High', color: '#dc2626' },
+    ],
+    rules: [
+      { index: 'hpi', bands: [{ classId: 'medium', min: 15 }, { classId: 'high', min: 30 }] },
+    ],
+    combine: 'worst',
+  },
+  {
+    id: 'mi-six-class',
+    name: 'MI classes I–VI',
+    description: 'Metal Index classes from very pure (< 0.3) to seriously affected (> 6) (Lyulko et al., 2001)',
+    classes: [
+      { id: 'mi-1', label: 'Class I — Very pure', color: '#15803d' },
+      { id: 'mi-2', label: 'Class II — Pure', color: '#65a30d' },
+      { id: 'mi-3', label: 'Class III — Slightly affected', color: '#ca8a04' },
+      { id: 'mi-4', label: 'Class IV — Moderately affected', color: '#ea580c' },
+      { id: 'mi-5', label: 'Class V — Strongly affected', color: '#dc2626' },
+      { id: 'mi-6', label: 'Class VI — Seriously affected', color: '#7f1d1d' },
+    ],
+    rules: [
+      {
+        index: 'mi',
+        bands: [
+          { classId: 'mi-2', min: 0.3 },
+          { classId: 'mi-3', min: 1 },
+          { classId: 'mi-4', min: 2 },
+          { classId: 'mi-5', min: 4 },
+          { classId: 'mi-6', min: 6 },
+        ],
+      },
+    ],
+    combine: 'worst',
+  },
+];
+
+export const DEFAULT_SCHEME_ID = 'aqualyx-default';
+
+const CUSTOM_SCHEMES_KEY = 'aqualyx.classificationSchemes';
+
+const schemeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  classes: z.array(z.object({
+    id: z.string().min(1),
+    label: z.string().min(1),
+    color: z.string().regex(/^#[0-9a-f]{6}$/i, 'Colours must be 6-digit hex, e.g. #16a34a'),
+  })).min(2),
+  rules: z.array(z.object({
+    index: z.enum(['hpi', 'mi', 'cd', 'hei', 'nemerow']),
+    bands: z.array(z.object({ classId: z.string(), min: z.number() })).min(1),
+  })).min(1),
+  combine: z.enum(['any', 'all', 'worst']),
+}).superRefine((scheme, ctx) => {
+  const classIds = new Set(scheme.classes.map(c => c.id));
+  if (classIds.size !== scheme.classes.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Class ids must be unique' });
+  }
+  scheme.rules.forEach(rule => rule.bands.forEach(band => {
+    if (!classIds.has(band.classId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Band for ${rule.index} refers to unknown class "${band.classId}"` });
+    }
+  }));
+});
+
+/**
+ * Validate a user-authored scheme; returns the scheme or a list of problems
+ */
+export const parseClassificationScheme = (input: unknown):
+  { scheme: ClassificationScheme; errors?: undefined } | { scheme?: undefined; errors: string[] } => {
+  const parsed = schemeSchema.safeParse(input);
+  if (!parsed.success) {
+    return { errors: parsed.error.issues.map(issue => [issue.path.join('.'), issue.message].filter(Boolean).join(': ')) };
+  }
+  return { scheme: parsed.data as ClassificationScheme };
+};
+
+export const loadCustomSchemes = (): ClassificationScheme[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CUSTOM_SCHEMES_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.map(parseClassificationScheme).filter(r => r.scheme).map(r => r.scheme)
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Persist a user-authored scheme, replacing any custom scheme with the same id
+ */
+export const saveCustomScheme = (scheme: ClassificationScheme): void => {
+  const schemes = loadCustomSchemes().filter(s => s.id !== scheme.id);
+  localStorage.setItem(CUSTOM_SCHEMES_KEY, JSON.stringify([...schemes, scheme]));
+};
+
+export const getAllSchemes = (): ClassificationScheme[] => [
+  ...BUILT_IN_SCHEMES,
+  ...loadCustomSchemes().filter(s => !BUILT_IN_SCHEMES.some(b => b.id === s.id)),
+];
+
+export const getClassificationScheme = (id: string): ClassificationScheme =>
+  getAllSchemes().find(s => s.id === id) ??
+  BUILT_IN_SCHEMES.find(s => s.id === DEFAULT_SCHEME_ID);
+
+const toResult = (scheme: ClassificationScheme, rank: number): ClassificationResult => {
+  const { id, label, color } = scheme.classes[rank];
+  return { classId: id, label, color, rank };
+};
+
+const getRank = (scheme: ClassificationScheme, classId: string): number =>
+  scheme.classes.findIndex(c => c.id === classId);
+
+/**
+ * Class a single index value falls in under one of the scheme's rules, or undefined when the scheme has no rule for it
+ */
+export const classifyIndexValue = (
+  scheme: ClassificationScheme,
+  index: ClassifiableIndex,
+  value: number
+): ClassificationResult | undefined => {
+  const rule = scheme.rules.find(r => r.index === index);
+  if (!rule) return undefined;
+
+  const rank = rule.bands
+    .filter(band => value > band.min)
+    .reduce((max, band) => Math.max(max, getRank(scheme, band.classId)), 0);
+  return toResult(scheme, rank);
+};
+
+/**
+ * Assign a sample to one of the scheme's classes from its index values
+ */
+export const classifySample = (
+  values: Partial<Record<ClassifiableIndex, number>>,
+  scheme: ClassificationScheme
+): ClassificationResult => {
+  const rules = scheme.rules.filter(rule => Number.isFinite(values[rule.index]));
+
+  if (scheme.combine === 'worst') {
+    const rank = rules.reduce((max, rule) =>
+      Math.max(max, classifyIndexValue(scheme, rule.index, values[rule.index]).rank), 0);
+    return toResult(scheme, rank);
+  }
+
+  for (let rank = scheme.classes.length - 1; rank > 0; rank--) {
+    const classId = scheme.classes[rank].id;
+    const conditions = rules.flatMap(rule =>
+      rule.bands
+        .filter(band => band.classId === classId)
+        .map(band => values[rule.index] > band.min)
+    );
+    if (!conditions.length) continue;
+
+    const matched = scheme.combine === 'all' ? conditions.every(Boolean) : conditions.some(Boolean);
+    if (matched) return toResult(scheme, rank);
+  }
+
+  return toResult(scheme, 0);
+};
+
+export interface FiredRule {
+  index: ClassifiableIndex;
+  value: number;
+  classId: string;
+  min: number;   // Band threshold the value exceeded
+}
+
+/**
+ * Rules responsible for a sample's class: the exceeded bands of the assigned class,
+ * or nothing when the sample stayed in the default (least severe) class
+ */
+export const explainClassification = (
+  values: Partial<Record<ClassifiableIndex, number>>,
+  scheme: ClassificationScheme
+): FiredRule[] => {
+  const { classId, rank } = classifySample(values, scheme);
+  if (rank === 0) return [];
+
+  return scheme.rules
+    .filter(rule => Number.isFinite(values[rule.index]))
+    .flatMap(rule => {
+      const value = values[rule.index];
+      if (scheme.combine === 'worst') {
+        // The highest band reached by this index, if it reaches the assigned class
+        const band = rule.bands
+          .filter(b => value > b.min && getRank(scheme, b.classId) === rank)
+          .sort((a, b) => b.min - a.min)[0];
+        return band ? [{ index: rule.index, value, classId, min: band.min }] : [];
+      }
+      return rule.bands
+        .filter(b => b.classId === classId && value > b.min)
+        .map(b => ({ index: rule.index, value, classId, min: b.min }));
+    });
+};
+
+export const describeFiredRule = (rule: FiredRule): string =>
+  `${CLASSIFIABLE_INDICES.find(index => index.id === rule.index)?.label ?? rule.index} ` +
+  `${Number(rule.value.toFixed(2))} > ${rule.min}`;
+
+/**
+ * The scheme a set of analysis results was classified with
+ */
+export const getResultsScheme = (results: { indices: { classificationSchemeId: string } }[]): ClassificationScheme =>
+  getClassificationScheme(results[0]?.indices.classificationSchemeId ?? DEFAULT_SCHEME_ID);
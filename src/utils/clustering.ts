@@ -0,0 +1,252 @@
+// Agglomerative hierarchical clustering of samples on standardised chemistry, for grouping similar wells
+
+import { VariableSelection, standardiseSamples } from "./multivariate";
+import { mean } from "./statistics";
+import type { MetalConcentrations } from "./pollutionCalculations";
+
+export type ClusterLinkage = 'ward' | 'complete' | 'average';
+
+/**
+ * Where the dendrogram is cut:
+ * - count: into a fixed number of clusters
+ * - height: at a linkage distance
+ */
+export type ClusterCut = 'count' | 'height';
+
+export interface ClusterSettings extends VariableSelection {
+  linkage: ClusterLinkage;
+  cut: ClusterCut;
+  clusters: number;   // Used when cutting by count
+  cutHeight: number;  // Used when cutting by height
+}
+
+// One agglomeration step; nodes 0…n−1 are samples and node n + i is the cluster formed by merge i
+export interface DendrogramMerge {
+  left: number;
+  right: number;
+  height: number;
+  size: number;
+}
+
+export interface ClusterProfile {
+  size: number;
+  color: string;
+  means: Record<string, number>;   // Mean concentration per parameter, canonical units
+  zMeans: Record<string, number>;  // Mean z-score per parameter
+}
+
+export interface ClusterModel {
+  parameters: string[];  // Registry keys used for the distances
+  settings: ClusterSettings;
+  sampleIds: string[];   // Clustered samples, indexed like the dendrogram leaves
+  merges: DendrogramMerge[];
+  leafOrder: number[];   // Leaves left to right, so that no dendrogram branches cross
+  leafClusters: number[];  // Cluster index per leaf
+  cutHeight: number;     // Linkage distance the dendrogram was cut at
+  profiles: ClusterProfile[];  // Indexed by cluster, largest first
+}
+
+export interface SampleCluster {
+  model: ClusterModel;  // Shared by every sample of the run
+  id: number;           // Index into model.profiles
+}
+
+export const LINKAGE_METHODS: { id: ClusterLinkage; label: string; description: string }[] = [
+  { id: 'ward', label: 'Ward', description: 'Merges the pair that least increases within-cluster variance; compact, similar-sized groups' },
+  { id: 'complete', label: 'Complete', description: 'Distance between the farthest members; compact groups, sensitive to outliers' },
+  { id: 'average', label: 'Average (UPGMA)', description: 'Mean distance between all members; a compromise between single and complete linkage' },
+];
+
+export const DEFAULT_CLUSTERING: ClusterSettings = {
+  logTransform: true,
+  excludedParameters: [],
+  linkage: 'ward',
+  cut: 'count',
+  clusters: 3,
+  cutHeight: 5,
+};
+
+// Qualitative palette; clusters beyond its length reuse colours
+export const CLUSTER_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d', '#92400e', '#475569'];
+
+export const getLinkageMethod = (id: ClusterLinkage) =>
+  LINKAGE_METHODS.find(m => m.id === id) ?? LINKAGE_METHODS[0];
+
+export const clusterLabel = (id: number): string => `Cluster ${id + 1}`;
+
+/**
+ * Lance–Williams update: distance from cluster k to the union of clusters i and j
+ */
+const updateDistance = (
+  linkage: ClusterLinkage,
+  dki: number,
+  dkj: number,
+  dij: number,
+  ni: number,
+  nj: number,
+  nk: number
+): number => {
+  switch (linkage) {
+    case 'ward':
+      return Math.sqrt(Math.max(((ni + nk) * dki ** 2 + (nj + nk) * dkj ** 2 - nk * dij ** 2) / (ni + nj + nk), 0));
+    case 'complete':
+      return Math.max(dki, dkj);
+    default:
+      return (ni * dki + nj * dkj) / (ni + nj);
+  }
+};
+
+/**
+ * Agglomerative clustering of row vectors with Euclidean distances; returns the n − 1 merges in order
+ */
+export const agglomerate = (rows: number[][], linkage: ClusterLinkage): DendrogramMerge[] => {
+  const n = rows.length;
+  const distances = rows.map(a => rows.map(b => Math.sqrt(a.reduce((total, value, k) => total + (value - b[k]) ** 2, 0))));
+  const active = rows.map((_, i) => i);
+  const nodes = rows.map((_, i) => i);  // Dendrogram node currently held in each slot
+  const sizes = rows.map(() => 1);
+  const merges: DendrogramMerge[] = [];
+
+  while (active.length > 1) {
+    let best = { a: -1, b: -1, distance: Infinity };
+    for (let ai = 0; ai < active.length; ai++) {
+      for (let bi = ai + 1; bi < active.length; bi++) {
+        const [i, j] = [active[ai], active[bi]];
+        if (distances[i][j] < best.distance) best = { a: i, b: j, distance: distances[i][j] };
+      }
+    }
+
+    const { a, b, distance } = best;
+    active.forEach(k => {
+      if (k === a || k === b) return;
+      const updated = updateDistance(linkage, distances[k][a], distances[k][b], distance, sizes[a], sizes[b], sizes[k]);
+      distances[k][a] = updated;
+      distances[a][k] = updated;
+    });
+    merges.push({ left: nodes[a], right: nodes[b], height: distance, size: sizes[a] + sizes[b] });
+    nodes[a] = n + merges.length - 1;
+    sizes[a] += sizes[b];
+    active.splice(active.indexOf(b), 1);
+  }
+
+  return merges;
+};
+
+/**
+ * Leaves of a dendrogram, left to right
+ */
+const getLeafOrder = (merges: DendrogramMerge[], n: number): number[] => {
+  if (n === 0) return [];
+  const order: number[] = [];
+  const stack = [n + merges.length - 1];
+  while (stack.length) {
+    const node = stack.pop();
+    if (node < n) {
+      order.push(node);
+    } else {
+      stack.push(merges[node - n].right, merges[node - n].left);
+    }
+  }
+  return order;
+};
+
+export interface DendrogramSegment {
+  x1: number;  // Leaf positions, 0 … n − 1
+  y1: number;  // Linkage heights
+  x2: number;
+  y2: number;
+  cluster?: number;  // Set when every leaf below the segment belongs to one cluster
+}
+
+/**
+ * Line segments of the dendrogram in leaf-position × height coordinates
+ */
+export const getDendrogramSegments = (model: ClusterModel): DendrogramSegment[] => {
+  const n = model.sampleIds.length;
+  const x = new Array<number>(n + model.merges.length);
+  const y = new Array<number>(n + model.merges.length).fill(0);
+  const cluster = new Array<number | undefined>(n + model.merges.length);
+  model.leafOrder.forEach((leaf, position) => {
+    x[leaf] = position;
+    cluster[leaf] = model.leafClusters[leaf];
+  });
+
+  return model.merges.flatMap((merge, i) => {
+    const node = n + i;
+    x[node] = (x[merge.left] + x[merge.right]) / 2;
+    y[node] = merge.height;
+    cluster[node] = cluster[merge.left] === cluster[merge.right] ? cluster[merge.left] : undefined;
+    return [
+      { x1: x[merge.left], y1: y[merge.left], x2: x[merge.left], y2: merge.height, cluster: cluster[merge.left] },
+      { x1: x[merge.right], y1: y[merge.right], x2: x[merge.right], y2: merge.height, cluster: cluster[merge.right] },
+      { x1: x[merge.left], y1: merge.height, x2: x[merge.right], y2: merge.height, cluster: cluster[node] },
+    ];
+  });
+};
+
+/**
+ * Clusters by applying the first `mergeCount` merges; returns a cluster per leaf, numbered by decreasing size
+ */
+const cutDendrogram = (merges: DendrogramMerge[], n: number, mergeCount: number): number[] => {
+  const parent = Array.from({ length: n + mergeCount }, (_, i) => i);
+  const find = (node: number): number => (parent[node] === node ? node : (parent[node] = find(parent[node])));
+  merges.slice(0, mergeCount).forEach((merge, i) => {
+    parent[find(merge.left)] = n + i;
+    parent[find(merge.right)] = n + i;
+  });
+
+  const roots = Array.from({ length: n }, (_, leaf) => find(leaf));
+  const sizes = roots.reduce((counts, root) => counts.set(root, (counts.get(root) ?? 0) + 1), new Map<number, number>());
+  const ranked = [...sizes.keys()].sort((a, b) => sizes.get(b) - sizes.get(a) || a - b);
+  return roots.map(root => ranked.indexOf(root));
+};
+
+/**
+ * Hierarchical clustering of samples on the z-scores of the selected parameters. Returns the model and each
+ * sample's cluster, in input order (undefined for samples dropped for a missing or non-positive value).
+ * Undefined when fewer than three samples or no parameters remain.
+ */
+export const runClustering = (
+  samples: { sampleId: string; concentrations: MetalConcentrations }[],
+  settings: ClusterSettings
+): { model: ClusterModel; clusters: (number | undefined)[] } | undefined => {
+  const { parameters, z, complete } = standardiseSamples(samples, settings);
+  const n = z.length;
+  if (n < 3 || parameters.length === 0) return undefined;
+
+  const merges = agglomerate(z, settings.linkage);
+  // Merges are applied in order, so a cut keeps every merge below it; ties in height stay together
+  const mergeCount = settings.cut === 'height'
+    ? merges.filter(merge => merge.height <= settings.cutHeight).length
+    : n - Math.min(Math.max(Math.round(settings.clusters), 1), n);
+  const leafClusters = cutDendrogram(merges, n, mergeCount);
+  const clusterCount = Math.max(...leafClusters) + 1;
+  const lastKept = merges[mergeCount - 1]?.height ?? 0;
+  const firstCut = merges[mergeCount]?.height ?? lastKept;
+
+  const clustered = samples.filter((_, i) => complete[i]);
+  const profiles = Array.from({ length: clusterCount }, (_, id): ClusterProfile => {
+    const members = leafClusters.map((cluster, leaf) => (cluster === id ? leaf : -1)).filter(leaf => leaf >= 0);
+    return {
+      size: members.length,
+      color: CLUSTER_COLORS[id % CLUSTER_COLORS.length],
+      means: Object.fromEntries(parameters.map(key => [key, mean(members.map(leaf => clustered[leaf].concentrations[key]))])),
+      zMeans: Object.fromEntries(parameters.map((key, j) => [key, mean(members.map(leaf => z[leaf][j]))])),
+    };
+  });
+
+  let next = 0;
+  return {
+    model: {
+      parameters,
+      settings,
+      sampleIds: clustered.map(s => s.sampleId),
+      merges,
+      leafOrder: getLeafOrder(merges, n),
+      leafClusters,
+      cutHeight: settings.cut === 'height' ? settings.cutHeight : (lastKept + firstCut) / 2,
+      profiles,
+    },
+    clusters: complete.map(isComplete => (isComplete ? leafClusters[next++] : undefined)),
+  };
+};
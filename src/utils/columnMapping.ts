@@ -0,0 +1,345 @@
+// Column mapping for uploads: proposed roles for each column with confidence scores, checks before import and
+// mapping templates saved per lab or data source
+
+import { PARAMETERS, ParameterDefinition, getParameter, matchParameterHeader, normalizeHeader } from "./parameters";
+import { CANONICAL_UNIT, ConcentrationUnit, getParameterUnits, splitHeaderUnit } from "./units";
+import { splitUncertaintyHeader } from "./uncertainty";
+import { parseConcentration } from "./censoring";
+import { parseSampleDate } from "./trends";
+
+/**
+ * What a column holds:
+ * - sampleId, wellId, date, latitude, longitude: the sample's identity, sampling date and location
+ * - parameter: concentrations of a registered parameter
+ * - uncertainty: the measurement uncertainty of a parameter column
+ * - group: an attribute kept for comparing groups of samples (district, aquifer, well type)
+ * - ignore: not imported
+ */
+export type ColumnRole = 'sampleId' | 'wellId' | 'date' | 'latitude' | 'longitude' | 'parameter' | 'uncertainty' | 'group' | 'ignore';
+
+export interface ColumnMapping {
+  header: string;
+  role: ColumnRole;
+  parameter?: string;        // Parameter key of parameter and uncertainty columns
+  unit?: ConcentrationUnit;  // Unit a parameter column is reported in
+  relative?: boolean;        // Uncertainty given in % of the concentration rather than in its unit
+  confidence: number;        // 0–1; 1 when set by the user or a template
+  reason: string;            // Why the role was proposed, shown next to the confidence
+}
+
+// Mapping of one column as stored in a template, without the proposal's confidence
+export type TemplateColumn = Pick<ColumnMapping, 'role' | 'parameter' | 'unit' | 'relative'>;
+
+export interface MappingTemplate {
+  name: string;                            // Lab or data source the layout belongs to
+  columns: Record<string, TemplateColumn>;  // By header
+}
+
+export const FIELD_ROLES: { id: ColumnRole; label: string }[] = [
+  { id: 'sampleId', label: 'Sample ID' },
+  { id: 'wellId', label: 'Well ID' },
+  { id: 'date', label: 'Sample date' },
+  { id: 'latitude', label: 'Latitude' },
+  { id: 'longitude', label: 'Longitude' },
+  { id: 'group', label: 'Grouping attribute' },
+  { id: 'ignore', label: 'Ignore' },
+];
+
+// Confidence at or above which a proposal is shown as certain, and below which it should be checked
+export const HIGH_CONFIDENCE = 0.9;
+export const LOW_CONFIDENCE = 0.6;
+
+// Share of a column's values that must fit a proposed role before the proposal is trusted
+const MIN_VALUE_SHARE = 0.8;
+
+// Rows inspected when checking values against a proposed role
+const SAMPLE_ROWS = 200;
+
+const MAPPING_TEMPLATES_KEY = 'aqualyx.mappingTemplates';
+
+// Whole headers (normalised) naming each field, and single words that name it within a longer header
+const FIELD_NAMES: Record<'sampleId' | 'wellId' | 'date' | 'latitude' | 'longitude', { exact: string[]; words: string[] }> = {
+  sampleId: {
+    exact: ['sampleid', 'sample', 'sampleno', 'samplenumber', 'samplecode', 'samplename', 'sampleref', 'labid', 'labno', 'labcode', 'id'],
+    words: [],
+  },
+  wellId: {
+    exact: ['wellid', 'well', 'wellno', 'wellcode', 'wellname', 'site', 'siteid', 'sitecode', 'sitename', 'station', 'stationid', 'stationcode', 'borehole', 'boreholeid', 'locationid'],
+    words: [],
+  },
+  date: {
+    exact: ['date', 'sampledate', 'samplingdate', 'collectiondate', 'datesampled', 'dateofsampling', 'dateofcollection', 'sampledon'],
+    words: ['date'],
+  },
+  latitude: {
+    exact: ['lat', 'latitude', 'latdd', 'latitudedd', 'latdeg', 'latitudedeg'],
+    words: ['lat', 'latitude'],
+  },
+  longitude: {
+    exact: ['lon', 'long', 'lng', 'longitude', 'londd', 'longdd', 'longitudedd', 'londeg', 'longitudedeg'],
+    words: ['lon', 'long', 'lng', 'longitude'],
+  },
+};
+
+// Words that, after "sample", "well" or "site", make the header an identifier ("Sample No.", "Site code")
+const ID_WORDS = ['id', 'no', 'number', 'code', 'name', 'ref'];
+const ID_SUBJECTS: Record<'sampleId' | 'wellId', string[]> = {
+  sampleId: ['sample', 'lab'],
+  wellId: ['well', 'site', 'station', 'borehole', 'location'],
+};
+
+// Roles a file can hold only once; parameters and uncertainties once per parameter
+const UNIQUE_ROLES: ColumnRole[] = ['sampleId', 'wellId', 'date', 'latitude', 'longitude', 'parameter', 'uncertainty'];
+
+export const getFieldRole = (id: ColumnRole) =>
+  FIELD_ROLES.find(r => r.id === id) ?? FIELD_ROLES[0];
+
+/**
+ * Single value naming a column's role for a dropdown: the role, or "parameter:lead" and "uncertainty:lead"
+ */
+export const getMappingTarget = (mapping: Pick<ColumnMapping, 'role' | 'parameter'>): string =>
+  mapping.parameter && (mapping.role === 'parameter' || mapping.role === 'uncertainty')
+    ? `${mapping.role}:${mapping.parameter}`
+    : mapping.role;
+
+export const getMappingLabel = (mapping: Pick<ColumnMapping, 'role' | 'parameter'>): string => {
+  const parameter = mapping.parameter && getParameter(mapping.parameter);
+  if (mapping.role === 'parameter' && parameter) return parameter.name;
+  if (mapping.role === 'uncertainty' && parameter) return `${parameter.name} uncertainty`;
+  return getFieldRole(mapping.role).label;
+};
+
+// Lowercase words of a header without its unit: "Sample No." → ["sample", "no"]
+const headerWords = (header: string): string[] =>
+  splitHeaderUnit(header).name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+// Share of the non-empty values that pass a test; 1 for an empty column, which gives no evidence either way
+const valueShare = (values: string[], test: (value: string) => boolean): number =>
+  values.length ? values.filter(test).length / values.length : 1;
+
+const isCoordinate = (limit: number) => (value: string) => {
+  const number = Number(value);
+  return value !== '' && Number.isFinite(number) && Math.abs(number) <= limit;
+};
+
+const describeShare = (share: number) => `${Math.round((1 - share) * 100)}% of values`;
+
+/**
+ * Confidence that a header names one of the identity, date or location fields, from its name alone
+ */
+const scoreFieldName = (header: string, role: keyof typeof FIELD_NAMES): { confidence: number; reason: string } | undefined => {
+  const normalized = normalizeHeader(splitHeaderUnit(header).name);
+  const words = headerWords(header);
+  const label = getFieldRole(role).label;
+  if (FIELD_NAMES[role].exact.includes(normalized)) return { confidence: 0.95, reason: `Header matches ${label}` };
+  if (FIELD_NAMES[role].words.some(word => words.includes(word))) {
+    return { confidence: 0.8, reason: `Header contains "${words.find(word => FIELD_NAMES[role].words.includes(word))}"` };
+  }
+  if (role === 'sampleId' || role === 'wellId') {
+    const subject = ID_SUBJECTS[role].find(word => words.includes(word));
+    const suffix = ID_WORDS.find(word => words.includes(word));
+    if (subject && suffix) return { confidence: 0.8, reason: `Header reads as a ${subject} identifier` };
+  }
+  return undefined;
+};
+
+const proposeParameterColumn = (
+  header: string,
+  parameter: ParameterDefinition,
+  headerUnit: ConcentrationUnit | undefined,
+  values: string[]
+): ColumnMapping => {
+  const units = getParameterUnits(parameter);
+  const unit = headerUnit && units.some(u => u.id === headerUnit) ? headerUnit : CANONICAL_UNIT;
+  const unitNote = units.length === 0 ? '' : headerUnit ? `; unit ${unit} from header` : `; unit assumed ${CANONICAL_UNIT}`;
+  const share = valueShare(values, value => Boolean(parseConcentration(value, parameter)));
+  return {
+    header,
+    role: 'parameter',
+    parameter: parameter.key,
+    unit,
+    confidence: share < MIN_VALUE_SHARE ? 0.5 : 0.95,
+    reason: share < MIN_VALUE_SHARE
+      ? `Header names ${parameter.name}, but ${describeShare(share)} are not concentrations`
+      : `Header names ${parameter.name}${unitNote}`,
+  };
+};
+
+/**
+ * Propose a role for one column from its header, checked against its values
+ */
+const proposeColumn = (header: string, values: string[]): ColumnMapping => {
+  // Uncertainty headers ("Pb SD", "As ± (%)") contain a parameter name, so they are recognised first
+  const uncertainty = splitUncertaintyHeader(header);
+  const uncertaintyOf = uncertainty && matchParameterHeader(splitHeaderUnit(uncertainty.name).name);
+  if (uncertaintyOf) {
+    return {
+      header,
+      role: 'uncertainty',
+      parameter: uncertaintyOf.key,
+      relative: uncertainty.relative,
+      confidence: 0.9,
+      reason: `Uncertainty of ${uncertaintyOf.symbol}${uncertainty.relative ? ', in %' : ''}`,
+    };
+  }
+
+  const { name, unit } = splitHeaderUnit(header);
+  const parameter = matchParameterHeader(name);
+  if (parameter) return proposeParameterColumn(header, parameter, unit, values);
+
+  const candidates = (['date', 'latitude', 'longitude', 'sampleId', 'wellId'] as const)
+    .map(role => {
+      const score = scoreFieldName(header, role);
+      if (!score) return undefined;
+      if (role === 'latitude' || role === 'longitude') {
+        const limit = role === 'latitude' ? 90 : 180;
+        const share = valueShare(values, isCoordinate(limit));
+        if (share < MIN_VALUE_SHARE) {
+          return { role, confidence: 0.4, reason: `${describeShare(share)} are not coordinates within ±${limit}°` };
+        }
+      }
+      if (role === 'date') {
+        const share = valueShare(values, value => Boolean(parseSampleDate(value)));
+        if (share < MIN_VALUE_SHARE) return { role, confidence: 0.4, reason: `${describeShare(share)} are not dates` };
+      }
+      return { role, ...score };
+    })
+    .filter(Boolean)
+    .sort((a, b) => b.confidence - a.confidence);
+  if (candidates.length) return { header, ...candidates[0] };
+
+  if (values.length === 0) return { header, role: 'ignore', confidence: 0.9, reason: 'Column is empty' };
+  return { header, role: 'group', confidence: 0.6, reason: 'Not a known field; kept for grouping samples' };
+};
+
+/**
+ * Keep each unique role on its most confident column; the others fall back to grouping attributes
+ */
+const resolveConflicts = (mappings: ColumnMapping[]): ColumnMapping[] => {
+  const owners = new Map<string, ColumnMapping>();
+  [...mappings]
+    .filter(m => UNIQUE_ROLES.includes(m.role))
+    .sort((a, b) => b.confidence - a.confidence)
+    .forEach(m => {
+      if (!owners.has(getMappingTarget(m))) owners.set(getMappingTarget(m), m);
+    });
+
+  return mappings.map(m => {
+    const owner = owners.get(getMappingTarget(m));
+    if (!UNIQUE_ROLES.includes(m.role) || owner === m) return m;
+    return {
+      header: m.header,
+      role: 'group',
+      confidence: 0.5,
+      reason: `${getMappingLabel(m)} is taken by column "${owner.header}"`,
+    };
+  });
+};
+
+/**
+ * Template columns applied over a proposal; columns the template does not know keep their proposed role
+ */
+export const applyMappingTemplate = (mappings: ColumnMapping[], template: MappingTemplate): ColumnMapping[] =>
+  mappings.map(m => {
+    const column = template.columns[m.header];
+    return column ? { header: m.header, ...column, confidence: 1, reason: `From template "${template.name}"` } : m;
+  });
+
+/**
+ * Propose a role for every column of the uploaded rows, applying the template when given
+ */
+export const proposeColumnMappings = (rows: Record<string, string>[], template?: MappingTemplate): ColumnMapping[] => {
+  const headers = rows.length ? Object.keys(rows[0]) : [];
+  const sample = rows.slice(0, SAMPLE_ROWS);
+  const proposed = resolveConflicts(headers.map(header =>
+    proposeColumn(header, sample.map(row => String(row[header] ?? '').trim()).filter(value => value !== ''))));
+  return template ? applyMappingTemplate(proposed, template) : proposed;
+};
+
+/**
+ * A column moved to another role by the user; a parameter column takes the unit in its header when that unit applies
+ */
+export const remapColumn = (mapping: ColumnMapping, target: string): ColumnMapping => {
+  const [role, key] = target.split(':') as [ColumnRole, string | undefined];
+  const parameter = key ? getParameter(key) : undefined;
+  const headerUnit = splitHeaderUnit(mapping.header).unit;
+  const units = parameter ? getParameterUnits(parameter) : [];
+  return {
+    header: mapping.header,
+    role,
+    parameter: parameter?.key,
+    unit: role === 'parameter' ? (units.some(u => u.id === headerUnit) ? headerUnit : CANONICAL_UNIT) : undefined,
+    relative: role === 'uncertainty' ? Boolean(mapping.relative ?? splitUncertaintyHeader(mapping.header)?.relative) : undefined,
+    confidence: 1,
+    reason: 'Set manually',
+  };
+};
+
+/**
+ * Problems that stop the mapped rows being imported
+ */
+export const getMappingErrors = (mappings: ColumnMapping[]): string[] => {
+  const errors: string[] = [];
+  if (!mappings.some(m => m.role === 'latitude')) errors.push('Map a column to Latitude');
+  if (!mappings.some(m => m.role === 'longitude')) errors.push('Map a column to Longitude');
+  if (!mappings.some(m => m.role === 'parameter')) {
+    errors.push(`Map at least one column to a parameter (${PARAMETERS.map(p => p.symbol).join(', ')})`);
+  }
+
+  const byTarget = new Map<string, ColumnMapping[]>();
+  mappings
+    .filter(m => UNIQUE_ROLES.includes(m.role))
+    .forEach(m => byTarget.set(getMappingTarget(m), [...(byTarget.get(getMappingTarget(m)) ?? []), m]));
+  byTarget.forEach(columns => {
+    if (columns.length > 1) {
+      errors.push(`${getMappingLabel(columns[0])} is mapped to more than one column: ${columns.map(c => c.header).join(', ')}`);
+    }
+  });
+
+  mappings
+    .filter(m => m.role === 'uncertainty' && !mappings.some(p => p.role === 'parameter' && p.parameter === m.parameter))
+    .forEach(m => errors.push(`Column "${m.header}" holds ${getMappingLabel(m).toLowerCase()}, but no column holds ${getParameter(m.parameter)?.name}`));
+  return errors;
+};
+
+export const createMappingTemplate = (name: string, mappings: ColumnMapping[]): MappingTemplate => ({
+  name,
+  columns: Object.fromEntries(mappings.map(({ header, role, parameter, unit, relative }) =>
+    [header, { role, parameter, unit, relative }])),
+});
+
+const isTemplate = (value: unknown): value is MappingTemplate =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as MappingTemplate).name === 'string' &&
+  typeof (value as MappingTemplate).columns === 'object' && (value as MappingTemplate).columns !== null;
+
+export const loadMappingTemplates = (): MappingTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(MAPPING_TEMPLATES_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isTemplate) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Persist a template, replacing any template with the same name
+ */
+export const saveMappingTemplate = (template: MappingTemplate): void => {
+  const templates = loadMappingTemplates().filter(t => t.name !== template.name);
+  localStorage.setItem(MAPPING_TEMPLATES_KEY, JSON.stringify([...templates, template]));
+};
+
+export const deleteMappingTemplate = (name: string): void => {
+  localStorage.setItem(MAPPING_TEMPLATES_KEY, JSON.stringify(loadMappingTemplates().filter(t => t.name !== name)));
+};
+
+/**
+ * Saved template that knows the most of a file's headers, provided it knows at least half of them
+ */
+export const findMappingTemplate = (headers: string[], templates: MappingTemplate[]): MappingTemplate | undefined => {
+  const ranked = templates
+    .map(template => ({ template, known: headers.filter(header => template.columns[header]).length }))
+    .sort((a, b) => b.known - a.known);
+  return ranked[0] && ranked[0].known * 2 >= headers.length && ranked[0].known > 0 ? ranked[0].template : undefined;
+};
@@ -0,0 +1,337 @@
+// Comparison of two sampling campaigns of the same network: pairing, per-well deltas, paired tests and status changes
+
+import { getMeasuredParameters } from "./parameters";
+import { CLASSIFIABLE_INDICES, ClassDefinition, getResultsScheme } from "./classification";
+import { WQI_METHODS } from "./wqi";
+import { mean, median, normalPValue, rank, studentTPValue } from "./statistics";
+import type { SampleResult } from "@/types/sample";
+
+/**
+ * How samples of the two campaigns are matched:
+ * - well: same well ID, or same sample ID when the uploads have no well column
+ * - location: nearest sample within PAIRING_DISTANCE_M
+ */
+export type PairingMethod = 'well' | 'location';
+
+export type PairedTest = 'paired-t' | 'wilcoxon';
+
+export type StatusChange = 'improved' | 'unchanged' | 'deteriorated';
+
+export interface ComparisonOptions {
+  pairing: PairingMethod;
+  test: PairedTest;
+}
+
+export interface ComparisonVariable {
+  id: string;
+  label: string;
+  unit: string;
+  kind: 'parameter' | 'index';
+  value: (result: SampleResult) => number | undefined;
+}
+
+export interface SamplePair {
+  key: string;           // Well ID, sample ID or coordinates the pair was matched on
+  reference: SampleResult;
+  current: SampleResult;
+  distance: number;      // Metres between the two samples
+  deltas: Record<string, number>;  // Current minus reference, by variable id; missing when either is unmeasured
+  statusChange: StatusChange;
+}
+
+export interface PairedTestResult {
+  n: number;             // Pairs with both values
+  referenceMean: number;
+  currentMean: number;
+  meanDelta: number;
+  medianDelta: number;
+  statistic: number;     // t for the paired t-test, W+ for the signed-rank test
+  pValue: number;        // Two-sided; NaN with fewer than MIN_PAIRS pairs
+  exact: boolean;        // Signed-rank p-value from the exact null distribution rather than the normal approximation
+}
+
+export interface VariableComparison extends Omit<ComparisonVariable, 'value'> {
+  test: PairedTestResult;
+}
+
+export interface CampaignComparison {
+  options: ComparisonOptions;
+  pairs: SamplePair[];
+  unpairedReference: SampleResult[];
+  unpairedCurrent: SampleResult[];
+  variables: VariableComparison[];
+  classes: ClassDefinition[];  // Status classes, by rank
+  transitions: number[][];     // Pair counts, [reference rank][current rank]
+}
+
+export const PAIRING_METHODS: { id: PairingMethod; label: string; description: string }[] = [
+  { id: 'well', label: 'Well ID', description: 'Samples with the same well ID, or the same sample ID when there is no well column' },
+  { id: 'location', label: 'Location', description: 'Nearest sample within 100 m, each sample used once' },
+];
+
+export const PAIRED_TESTS: { id: PairedTest; label: string; description: string }[] = [
+  { id: 'wilcoxon', label: 'Wilcoxon signed-rank', description: 'Non-parametric; tests whether differences are centred on zero' },
+  { id: 'paired-t', label: 'Paired t-test', description: 'Tests whether the mean difference is zero; assumes roughly normal differences' },
+];
+
+export const STATUS_CHANGES: { id: StatusChange; label: string; color: string }[] = [
+  { id: 'improved', label: 'Improved', color: '#16a34a' },
+  { id: 'unchanged', label: 'Unchanged', color: '#a3a3a3' },
+  { id: 'deteriorated', label: 'Deteriorated', color: '#dc2626' },
+];
+
+export const DEFAULT_COMPARISON_OPTIONS: ComparisonOptions = {
+  pairing: 'well',
+  test: 'wilcoxon',
+};
+
+// Farthest apart two samples may be to count as the same location
+export const PAIRING_DISTANCE_M = 100;
+
+// Fewest pairs a paired test is run on
+export const MIN_PAIRS = 3;
+
+// Largest number of non-zero differences the exact signed-rank distribution is computed for
+const EXACT_WILCOXON_MAX = 25;
+
+export const getPairingMethod = (id: PairingMethod) =>
+  PAIRING_METHODS.find(m => m.id === id) ?? PAIRING_METHODS[0];
+
+export const getPairedTest = (id: PairedTest) =>
+  PAIRED_TESTS.find(t => t.id === id) ?? PAIRED_TESTS[0];
+
+export const getStatusChange = (id: StatusChange) =>
+  STATUS_CHANGES.find(c => c.id === id) ?? STATUS_CHANGES[1];
+
+/**
+ * Great-circle distance in metres (haversine)
+ */
+const distanceMetres = (a: SampleResult, b: SampleResult): number => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Measured parameters, then the pollution indices and, when the results were scored, the WQIs
+ */
+export const getResultVariables = (results: SampleResult[]): ComparisonVariable[] => {
+  const parameters = getMeasuredParameters(results)
+    .map((parameter): ComparisonVariable => ({
+      id: parameter.key,
+      label: parameter.name,
+      unit: parameter.unit,
+      kind: 'parameter',
+      value: result => result.concentrations[parameter.key],
+    }));
+  const indices = CLASSIFIABLE_INDICES.map((index): ComparisonVariable => ({
+    id: index.id,
+    label: index.label,
+    unit: '',
+    kind: 'index',
+    value: result => result.indices[index.id],
+  }));
+  const wqi = results.some(r => r.wqi)
+    ? WQI_METHODS.map((method): ComparisonVariable => ({
+      id: method.id,
+      label: method.shortLabel,
+      unit: '',
+      kind: 'index',
+      value: result => result.wqi?.scores[method.id].value,
+    }))
+    : [];
+  return [...parameters, ...indices, ...wqi];
+};
+
+/**
+ * Variables available in both campaigns
+ */
+export const getComparisonVariables = (reference: SampleResult[], current: SampleResult[]): ComparisonVariable[] => {
+  const referenceIds = new Set(getResultVariables(reference).map(v => v.id));
+  return getResultVariables(current).filter(v => referenceIds.has(v.id));
+};
+
+/**
+ * Matched samples by well or sample ID. When a campaign holds several samples of a well, the latest one is used.
+ */
+const pairByWell = (reference: SampleResult[], current: SampleResult[]): [string, SampleResult, SampleResult][] => {
+  const latestByKey = (results: SampleResult[]) => {
+    const byKey = new Map<string, SampleResult>();
+    results.forEach(result => {
+      const key = result.wellId ?? result.sampleId;
+      const existing = byKey.get(key);
+      if (!existing || (result.date ?? '') >= (existing.date ?? '')) byKey.set(key, result);
+    });
+    return byKey;
+  };
+  const referenceByKey = latestByKey(reference);
+  return [...latestByKey(current).entries()]
+    .filter(([key]) => referenceByKey.has(key))
+    .map(([key, result]) => [key, referenceByKey.get(key), result]);
+};
+
+/**
+ * Matched samples by location: closest pairs first, each sample used once
+ */
+const pairByLocation = (reference: SampleResult[], current: SampleResult[]): [string, SampleResult, SampleResult][] => {
+  const candidates = current.flatMap(c => reference
+    .map(r => ({ reference: r, current: c, distance: distanceMetres(r, c) }))
+    .filter(candidate => candidate.distance <= PAIRING_DISTANCE_M));
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  const used = new Set<SampleResult>();
+  return candidates
+    .filter(candidate => {
+      if (used.has(candidate.reference) || used.has(candidate.current)) return false;
+      used.add(candidate.reference);
+      used.add(candidate.current);
+      return true;
+    })
+    .map(candidate => [
+      `${candidate.current.latitude.toFixed(4)}, ${candidate.current.longitude.toFixed(4)}`,
+      candidate.reference,
+      candidate.current,
+    ]);
+};
+
+/**
+ * Two-sided paired t-test of the differences
+ */
+const pairedTTest = (differences: number[]): Pick<PairedTestResult, 'statistic' | 'pValue' | 'exact'> => {
+  const n = differences.length;
+  const average = mean(differences);
+  const sd = Math.sqrt(differences.reduce((total, d) => total + (d - average) ** 2, 0) / (n - 1));
+  if (sd === 0) return { statistic: average === 0 ? 0 : Math.sign(average) * Infinity, pValue: average === 0 ? 1 : 0, exact: false };
+  const t = average / (sd / Math.sqrt(n));
+  return { statistic: t, pValue: studentTPValue(t, n - 1), exact: false };
+};
+
+/**
+ * Probability of each signed-rank sum W+ under the null hypothesis, for n untied non-zero differences
+ */
+const signedRankDistribution = (n: number): number[] => {
+  const maxSum = n * (n + 1) / 2;
+  let counts = new Array<number>(maxSum + 1).fill(0);
+  counts[0] = 1;
+  for (let k = 1; k <= n; k++) {
+    const next = [...counts];
+    for (let s = k; s <= maxSum; s++) next[s] += counts[s - k];
+    counts = next;
+  }
+  const total = 2 ** n;
+  return counts.map(count => count / total);
+};
+
+/**
+ * Wilcoxon signed-rank test; zero differences are dropped and tied magnitudes get mid-ranks. Exact for small samples
+ * without ties, otherwise the normal approximation with tie and continuity corrections.
+ */
+const wilcoxonSignedRank = (differences: number[]): Pick<PairedTestResult, 'statistic' | 'pValue' | 'exact'> => {
+  const nonZero = differences.filter(d => d !== 0);
+  const n = nonZero.length;
+  if (n === 0) return { statistic: 0, pValue: 1, exact: true };
+
+  const ranks = rank(nonZero.map(Math.abs));
+  const wPlus = ranks.reduce((total, r, i) => total + (nonZero[i] > 0 ? r : 0), 0);
+  const tied = new Set(ranks).size < n;
+
+  if (!tied && n <= EXACT_WILCOXON_MAX) {
+    const distribution = signedRankDistribution(n);
+    const lower = distribution.slice(0, Math.floor(wPlus) + 1).reduce((total, p) => total + p, 0);
+    const upper = distribution.slice(Math.ceil(wPlus)).reduce((total, p) => total + p, 0);
+    return { statistic: wPlus, pValue: Math.min(1, 2 * Math.min(lower, upper)), exact: true };
+  }
+
+  const expected = n * (n + 1) / 4;
+  const tieGroups = new Map<number, number>();
+  ranks.forEach(r => tieGroups.set(r, (tieGroups.get(r) ?? 0) + 1));
+  const tieCorrection = [...tieGroups.values()].reduce((total, t) => total + (t ** 3 - t), 0) / 48;
+  const variance = n * (n + 1) * (2 * n + 1) / 24 - tieCorrection;
+  const deviation = wPlus - expected;
+  const z = variance > 0 ? (deviation - 0.5 * Math.sign(deviation)) / Math.sqrt(variance) : 0;
+  return { statistic: wPlus, pValue: normalPValue(z), exact: false };
+};
+
+/**
+ * Paired comparison of one variable over the matched samples
+ */
+const testVariable = (pairs: SamplePair[], variable: ComparisonVariable, test: PairedTest): PairedTestResult => {
+  const complete = pairs.filter(pair => Number.isFinite(pair.deltas[variable.id]));
+  const differences = complete.map(pair => pair.deltas[variable.id]);
+  const n = complete.length;
+  const outcome = n < MIN_PAIRS
+    ? { statistic: NaN, pValue: NaN, exact: false }
+    : test === 'paired-t' ? pairedTTest(differences) : wilcoxonSignedRank(differences);
+
+  return {
+    n,
+    referenceMean: mean(complete.map(pair => variable.value(pair.reference))),
+    currentMean: mean(complete.map(pair => variable.value(pair.current))),
+    meanDelta: mean(differences),
+    medianDelta: median(differences),
+    ...outcome,
+  };
+};
+
+/**
+ * Compare a reference campaign with the current one. Both should be analysed with the same settings so that indices
+ * and status classes are comparable; deltas are current minus reference.
+ */
+export const compareCampaigns = (
+  reference: SampleResult[],
+  current: SampleResult[],
+  options: ComparisonOptions
+): CampaignComparison => {
+  const variables = getComparisonVariables(reference, current);
+  const classes = getResultsScheme(current).classes;
+
+  const matched = options.pairing === 'location' ? pairByLocation(reference, current) : pairByWell(reference, current);
+  const pairs = matched.map(([key, referenceResult, currentResult]): SamplePair => {
+    const deltas: Record<string, number> = {};
+    variables.forEach(variable => {
+      const before = variable.value(referenceResult);
+      const after = variable.value(currentResult);
+      if (Number.isFinite(before) && Number.isFinite(after)) deltas[variable.id] = after - before;
+    });
+    const rankChange = currentResult.indices.statusRank - referenceResult.indices.statusRank;
+    return {
+      key,
+      reference: referenceResult,
+      current: currentResult,
+      distance: distanceMetres(referenceResult, currentResult),
+      deltas,
+      statusChange: rankChange < 0 ? 'improved' : rankChange > 0 ? 'deteriorated' : 'unchanged',
+    };
+  });
+
+  const transitions = classes.map(() => classes.map(() => 0));
+  pairs.forEach(pair => {
+    const row = transitions[pair.reference.indices.statusRank];
+    if (row && pair.current.indices.statusRank in row) row[pair.current.indices.statusRank]++;
+  });
+
+  return {
+    options,
+    pairs,
+    unpairedReference: reference.filter(r => !pairs.some(pair => pair.reference === r)),
+    unpairedCurrent: current.filter(r => !pairs.some(pair => pair.current === r)),
+    variables: variables.map(variable => ({
+      id: variable.id,
+      label: variable.label,
+      unit: variable.unit,
+      kind: variable.kind,
+      test: testVariable(pairs, variable, options.test),
+    })),
+    classes,
+    transitions,
+  };
+};
+
+/**
+ * The pair a current-campaign result belongs to, if any
+ */
+export const getResultPair = (comparison: CampaignComparison, result: SampleResult): SamplePair | undefined =>
+  comparison.pairs.find(pair => pair.current === result);
@@ -0,0 +1,160 @@
+// Pairwise correlation between measured parameters, to identify co-occurring contaminants
+
+import { ParameterDefinition, getMeasuredParameters } from "./parameters";
+import { mean, rank, studentTPValue } from "./statistics";
+import type { SampleResult } from "@/types/sample";
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+/**
+ * How pairs with a non-detect enter the correlation:
+ * - substituted: use the value from the run's non-detect policy
+ * - exclude: drop the pair (pairwise deletion)
+ */
+export type CensoredPairHandling = 'substituted' | 'exclude';
+
+export interface CorrelationOptions {
+  method: CorrelationMethod;
+  logTransform: boolean;  // log10 of concentrations; pH is already logarithmic and stays untransformed
+  censored: CensoredPairHandling;
+}
+
+export interface CorrelationCell {
+  r: number;       // NaN when fewer than three pairs or a constant variable
+  pValue: number;  // Two-sided, t approximation with n − 2 degrees of freedom
+  n: number;       // Number of pairs used
+}
+
+export interface CorrelationMatrix {
+  parameters: ParameterDefinition[];
+  cells: CorrelationCell[][];  // Symmetric, indexed like parameters
+  options: CorrelationOptions;
+}
+
+export interface PairedObservation {
+  sampleId: string;
+  x: number;
+  y: number;
+  censored: boolean;  // Either value is a non-detect
+}
+
+export const CORRELATION_METHODS: { id: CorrelationMethod; label: string; description: string }[] = [
+  { id: 'pearson', label: 'Pearson', description: 'Linear association; sensitive to outliers and skewed concentrations' },
+  { id: 'spearman', label: 'Spearman', description: 'Rank (monotonic) association; robust to outliers and to log-transformation' },
+];
+
+export const CENSORED_PAIR_HANDLING: { id: CensoredPairHandling; label: string }[] = [
+  { id: 'substituted', label: 'Use substituted values' },
+  { id: 'exclude', label: 'Exclude pairs with non-detects' },
+];
+
+export const DEFAULT_CORRELATION_OPTIONS: CorrelationOptions = {
+  method: 'spearman',
+  logTransform: false,
+  censored: 'substituted',
+};
+
+// Significance levels marked in the heatmap and report
+export const SIGNIFICANCE_LEVELS = [
+  { alpha: 0.001, marker: '***' },
+  { alpha: 0.01, marker: '**' },
+  { alpha: 0.05, marker: '*' },
+];
+
+export const getCorrelationMethod = (id: CorrelationMethod) =>
+  CORRELATION_METHODS.find(m => m.id === id) ?? CORRELATION_METHODS[0];
+
+export const significanceMarker = (pValue: number): string =>
+  SIGNIFICANCE_LEVELS.find(level => pValue < level.alpha)?.marker ?? '';
+
+/**
+ * Diverging heatmap colour: red for positive, blue for negative, opacity by |r|
+ */
+export const getCorrelationColor = (r: number): string => {
+  if (Number.isNaN(r)) return 'transparent';
+  const alpha = Math.abs(r).toFixed(2);
+  return r >= 0 ? `rgba(220, 38, 38, ${alpha})` : `rgba(37, 99, 235, ${alpha})`;
+};
+
+const isLogTransformed = (parameter: ParameterDefinition, options: CorrelationOptions) =>
+  options.logTransform && parameter.key !== 'ph';
+
+/**
+ * Pairs of values for two parameters, transformed as the options require. Values that cannot be
+ * log-transformed (zero or negative) are dropped.
+ */
+export const getPairedObservations = (
+  results: SampleResult[],
+  x: ParameterDefinition,
+  y: ParameterDefinition,
+  options: CorrelationOptions
+): PairedObservation[] => {
+  const transform = (parameter: ParameterDefinition, value: number) =>
+    isLogTransformed(parameter, options) ? (value > 0 ? Math.log10(value) : NaN) : value;
+
+  return results
+    .map(result => ({
+      sampleId: result.sampleId,
+      x: transform(x, result.concentrations[x.key]),
+      y: transform(y, result.concentrations[y.key]),
+      censored: Boolean(result.censored[x.key] || result.censored[y.key]),
+    }))
+    .filter(pair => Number.isFinite(pair.x) && Number.isFinite(pair.y))
+    .filter(pair => options.censored === 'substituted' || !pair.censored);
+};
+
+const pearson = (x: number[], y: number[]): number => {
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  x.forEach((xi, i) => {
+    sxy += (xi - meanX) * (y[i] - meanY);
+    sxx += (xi - meanX) ** 2;
+    syy += (y[i] - meanY) ** 2;
+  });
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : NaN;
+};
+
+/**
+ * Correlation coefficient and p-value of a set of pairs; Spearman's rho is Pearson's r on ranks
+ */
+export const correlate = (pairs: PairedObservation[], method: CorrelationMethod): CorrelationCell => {
+  const n = pairs.length;
+  if (n < 3) return { r: NaN, pValue: NaN, n };
+
+  const x = pairs.map(pair => pair.x);
+  const y = pairs.map(pair => pair.y);
+  const r = method === 'spearman' ? pearson(rank(x), rank(y)) : pearson(x, y);
+  if (Number.isNaN(r)) return { r, pValue: NaN, n };
+
+  const t = Math.abs(r) >= 1 ? Infinity : r * Math.sqrt((n - 2) / (1 - r * r));
+  return { r, pValue: studentTPValue(t, n - 2), n };
+};
+
+/**
+ * Correlation matrix over every parameter measured in at least three samples
+ */
+export const calculateCorrelationMatrix = (results: SampleResult[], options: CorrelationOptions): CorrelationMatrix => {
+  const parameters = getMeasuredParameters(results)
+    .filter(parameter => results.filter(r => Number.isFinite(r.concentrations[parameter.key])).length >= 3);
+
+  const cells = parameters.map(() => new Array<CorrelationCell>(parameters.length));
+  parameters.forEach((x, i) => {
+    parameters.forEach((y, j) => {
+      if (j < i) return;
+      const cell = correlate(getPairedObservations(results, x, y, options), options.method);
+      cells[i][j] = cell;
+      cells[j][i] = cell;
+    });
+  });
+
+  return { parameters, cells, options };
+};
+
+export const describeCorrelationOptions = (options: CorrelationOptions): string => [
+  `${getCorrelationMethod(options.method).label} correlation`,
+  options.logTransform ? 'log10-transformed concentrations (pH untransformed)' : 'untransformed concentrations',
+  CENSORED_PAIR_HANDLING.find(h => h.id === options.censored)?.label.toLowerCase(),
+].join('; ');
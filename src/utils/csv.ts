@@ -0,0 +1,273 @@
+// Delimited text parsing (RFC 4180) with encoding, delimiter and decimal-comma detection
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export interface CsvFormat {
+  encoding: string;       // Label of the text encoding the file was decoded with
+  delimiter: CsvDelimiter;
+  decimalComma: boolean;  // Numbers written as 0,005; converted to 0.005 in the parsed rows
+}
+
+export interface CsvParseError {
+  line: number;    // 1-based physical line of the file
+  column: number;  // 1-based character position within the line
+  message: string;
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: Record<string, string>[];  // Trimmed values by header; missing trailing fields are empty
+  format: CsvFormat;
+  errors: CsvParseError[];
+}
+
+export const CSV_DELIMITERS: { id: CsvDelimiter; label: string }[] = [
+  { id: ',', label: 'Comma' },
+  { id: ';', label: 'Semicolon' },
+  { id: '\t', label: 'Tab' },
+  { id: '|', label: 'Pipe' },
+];
+
+// Records inspected when detecting the delimiter and the decimal separator
+const SNIFF_RECORDS = 20;
+
+// Errors collected before parsing gives up on a malformed file
+const MAX_ERRORS = 20;
+
+// A number with a decimal comma, optionally with "." thousands groups and a censoring prefix: "0,005", "<1.234,5"
+const DECIMAL_COMMA_NUMBER = /^([<>≤≥]?\s*[-+]?)(\d{1,3}(?:\.\d{3})+|\d+),(\d+)$/;
+
+// A whole number with "." thousands groups, read as such when the file uses decimal commas: "1.250", "<12.500"
+const GROUPED_INTEGER = /^[<>≤≥]?\s*[-+]?\d{1,3}(\.\d{3})+$/;
+
+export const getCsvDelimiter = (id: CsvDelimiter) =>
+  CSV_DELIMITERS.find(d => d.id === id) ?? CSV_DELIMITERS[0];
+
+/**
+ * Decode file bytes: a byte order mark decides the encoding, otherwise UTF-8 when the bytes are valid UTF-8 and
+ * Windows-1252 (the usual encoding of older Excel exports) when not. The BOM is not part of the text.
+ */
+export const decodeCsvBytes = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'UTF-16 LE' };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'UTF-16 BE' };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'UTF-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'Windows-1252' };
+  }
+};
+
+interface CsvRecord {
+  fields: string[];
+  line: number;
+  columns: number[];  // Position of each field's first character
+}
+
+/**
+ * Split text into records. Quoted fields may contain delimiters, line breaks and doubled quotes; CR LF, LF and CR
+ * all end a record. Stops after limit records when given.
+ */
+const parseRecords = (
+  text: string,
+  delimiter: CsvDelimiter,
+  limit = Infinity
+): { records: CsvRecord[]; errors: CsvParseError[] } => {
+  const records: CsvRecord[] = [];
+  const errors: CsvParseError[] = [];
+  let fields: string[] = [];
+  let columns: number[] = [];
+  let field = '';
+  let quoted = false;       // Inside a quoted field
+  let afterQuote = false;   // The field's closing quote has been read
+  let line = 1;
+  let column = 1;
+  let recordLine = 1;
+  let fieldColumn = 1;
+  let quoteLine = 1;
+  let quoteColumn = 1;
+
+  const error = (message: string, at = { line, column }) => {
+    if (errors.length < MAX_ERRORS) errors.push({ line: at.line, column: at.column, message });
+  };
+  const endField = () => {
+    fields.push(field);
+    columns.push(fieldColumn);
+    field = '';
+    afterQuote = false;
+  };
+  const endRecord = () => {
+    endField();
+    // Blank lines are skipped
+    if (fields.length > 1 || fields[0].trim() !== '') records.push({ fields, line: recordLine, columns });
+    fields = [];
+    columns = [];
+  };
+
+  for (let i = 0; i < text.length && records.length < limit && errors.length < MAX_ERRORS; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+        column += 2;
+        continue;
+      }
+      if (char === '"') {
+        quoted = false;
+        afterQuote = true;
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        field += '\n';
+        line++;
+        column = 0;
+      } else {
+        field += char;
+      }
+      column++;
+      continue;
+    }
+
+    if (char === delimiter) {
+      endField();
+      column++;
+      fieldColumn = column;
+      continue;
+    }
+    if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      column = 1;
+      recordLine = line;
+      fieldColumn = 1;
+      continue;
+    }
+    if (afterQuote) {
+      if (char.trim() !== '') error(`Unexpected "${char}" after a closing quote; expected a delimiter or the end of the line`);
+    } else if (char === '"') {
+      if (field.trim() === '') {
+        quoted = true;
+        field = '';
+        quoteLine = line;
+        quoteColumn = column;
+      } else {
+        error('Unexpected quote inside an unquoted field; quote the whole field and double the quote');
+      }
+    } else {
+      field += char;
+    }
+    column++;
+  }
+
+  if (quoted) {
+    error('Quoted field is never closed', { line: quoteLine, column: quoteColumn });
+  } else if (records.length < limit && (field !== '' || fields.length > 0)) {
+    endRecord();
+  }
+  return { records, errors };
+};
+
+/**
+ * Delimiter that splits the first records into the same number of fields, preferring more fields.
+ * Falls back to a comma.
+ */
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const candidates = CSV_DELIMITERS.map(({ id }) => {
+    const { records } = parseRecords(text, id, SNIFF_RECORDS);
+    const counts = records.map(r => r.fields.length);
+    const consistent = counts.length > 0 && counts.every(count => count === counts[0]);
+    return { id, fields: counts[0] ?? 0, consistent };
+  });
+  const best = candidates
+    .filter(c => c.fields > 1)
+    .sort((a, b) => Number(b.consistent) - Number(a.consistent) || b.fields - a.fields)[0];
+  return best?.id ?? ',';
+};
+
+/**
+ * Whether numbers use a decimal comma: never with a comma delimiter, otherwise when some values only parse as numbers
+ * with a decimal comma and none are written with a decimal point
+ */
+const detectDecimalComma = (records: CsvRecord[], delimiter: CsvDelimiter): boolean => {
+  if (delimiter === ',') return false;
+  const values = records.slice(1, SNIFF_RECORDS + 1).flatMap(r => r.fields.map(f => f.trim()));
+  return values.some(value => DECIMAL_COMMA_NUMBER.test(value)) &&
+    !values.some(value => /^[<>≤≥]?\s*[-+]?\d+\.\d+$/.test(value) && !/^\d{1,3}\.\d{3}$/.test(value));
+};
+
+/**
+ * Rewrite a decimal-comma number with a decimal point, dropping thousands separators, so "1.234,5" reads 1234.5 and
+ * "1.250" reads 1250; other values are unchanged
+ */
+export const normalizeDecimalComma = (value: string): string => {
+  if (GROUPED_INTEGER.test(value)) return value.replace(/\./g, '');
+  const match = value.match(DECIMAL_COMMA_NUMBER);
+  return match ? `${match[1]}${match[2].replace(/\./g, '')}.${match[3]}` : value;
+};
+
+export const formatCsvError = (error: CsvParseError): string =>
+  `Line ${error.line}, column ${error.column}: ${error.message}`;
+
+/**
+ * Write rows as CSV: every field quoted and inner quotes doubled, so delimiters, quotes and line breaks in free text
+ * (sample IDs, group names) survive a round trip through parseCsv
+ */
+export const formatCsv = (rows: string[][], delimiter: CsvDelimiter = ','): string =>
+  rows
+    .map(row => row.map(field => `"${String(field ?? '').replace(/"/g, '""')}"`).join(delimiter))
+    .join('\n');
+
+/**
+ * Parse delimited text with a header row. The delimiter is detected unless given; rows with more fields than the
+ * header, duplicate or empty headers and malformed quoting are reported with their position.
+ */
+export const parseCsv = (
+  text: string,
+  options: { encoding?: string; delimiter?: CsvDelimiter } = {}
+): ParsedCsv => {
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const delimiter = options.delimiter ?? detectDelimiter(content);
+  const { records, errors } = parseRecords(content, delimiter);
+  const decimalComma = detectDecimalComma(records, delimiter);
+  const format: CsvFormat = { encoding: options.encoding ?? 'UTF-8', delimiter, decimalComma };
+
+  if (records.length === 0) {
+    return { headers: [], rows: [], format, errors };
+  }
+
+  const [header, ...body] = records;
+  const names = header.fields.map(h => h.trim());
+  // Spreadsheet exports often carry empty trailing columns; an unnamed column is only an error when it holds values
+  const hasValues = (index: number) => body.some(record => (record.fields[index] ?? '').trim() !== '');
+  names.forEach((name, index) => {
+    const at = { line: header.line, column: header.columns[index] };
+    if (name === '' && hasValues(index)) {
+      errors.push({ ...at, message: `Column ${index + 1} has values but no header` });
+    } else if (name !== '' && names.indexOf(name) !== index) {
+      errors.push({ ...at, message: `Duplicate column "${name}"` });
+    }
+  });
+  const headers = names.filter(name => name !== '');
+
+  const rows = body.map(record => {
+    const extra = record.fields.slice(names.length);
+    if (extra.some(value => value.trim() !== '') && errors.length < MAX_ERRORS) {
+      errors.push({
+        line: record.line,
+        column: record.columns[names.length],
+        message: `Expected ${names.length} fields but found ${record.fields.length}; ` +
+          `quote values that contain the ${getCsvDelimiter(delimiter).label.toLowerCase()} delimiter`,
+      });
+    }
+    return Object.fromEntries(names
+      .map((name, index) => {
+        const value = (record.fields[index] ?? '').trim();
+        return [name, decimalComma ? normalizeDecimalComma(value) : value];
+      })
+      .filter(([name]) => name !== ''));
+  });
+
+  return { headers, rows, format, errors };
+};
@@ -0,0 +1,180 @@
+// Descriptive statistics per parameter and index, for the dashboard and report summary tables
+
+import { getMeasuredParameters } from "./parameters";
+import { getParameterLimit, getResultsProfile } from "./standards";
+import { CLASSIFIABLE_INDICES, ClassifiableIndex, getResultsScheme } from "./classification";
+import { SummaryMethod, getCensoredObservations, summarizeCensored } from "./censoring";
+import { WQI_METHODS } from "./wqi";
+import { mean, median, quantile } from "./statistics";
+import type { SampleResult } from "@/types/sample";
+
+export const PERCENTILES = [5, 25, 75, 95] as const;
+
+export type Percentile = typeof PERCENTILES[number];
+
+/**
+ * Summary of one variable. Statistics that are undefined for the data (too few values, non-positive values for the
+ * geometric mean, no detected values) are NaN.
+ */
+export interface DescriptiveStatistics {
+  n: number;              // Values available, including non-detects
+  censoredCount: number;  // Non-detects among them
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  geometricMean: number;
+  sd: number;             // Sample standard deviation (n − 1)
+  cv: number;             // Coefficient of variation, percent
+  skewness: number;       // Adjusted Fisher–Pearson G1, needs n ≥ 3
+  kurtosis: number;       // Excess kurtosis G2, needs n ≥ 4
+  percentiles: Record<Percentile, number>;
+  limit?: number;         // Threshold exceedances are counted against
+  exceedances: number;    // Values above the limit; non-detects never exceed
+  exceedancePercent: number;
+  summaryMethod: SummaryMethod;  // How the mean and median treat non-detects
+}
+
+export interface StatisticsRow {
+  id: string;
+  label: string;
+  unit: string;
+  kind: 'parameter' | 'index';
+  category?: string;  // Parameter category from the registry
+  limitLabel?: string;
+  stats: DescriptiveStatistics;
+}
+
+// Thresholds for indices the classification scheme has no rule for: the upper bound of the lowest class
+const INDEX_REFERENCE_LIMITS: Record<ClassifiableIndex, number> = {
+  hpi: 100,     // Critical pollution index (Prasad & Bose, 2001)
+  mi: 1,        // Threshold of warning (Tamasi & Cini, 2004)
+  cd: 1,        // Low contamination (Backman et al., 1998)
+  hei: 10,      // Low (Edet & Offiong, 2002)
+  nemerow: 0.7, // Clean (Nemerow, 1991)
+};
+
+/**
+ * Descriptive statistics of a list of values; safe for an empty list
+ */
+export const describeValues = (values: number[], limit?: number): DescriptiveStatistics => {
+  const finite = values.filter(Number.isFinite);
+  const n = finite.length;
+  const average = mean(finite);
+  const moment = (order: number) => finite.reduce((total, value) => total + (value - average) ** order, 0) / n;
+  const sd = n > 1 ? Math.sqrt(moment(2) * n / (n - 1)) : NaN;
+  const m2 = moment(2);
+  const exceedances = limit === undefined ? 0 : finite.filter(value => value > limit).length;
+
+  return {
+    n,
+    censoredCount: 0,
+    min: n ? Math.min(...finite) : NaN,
+    max: n ? Math.max(...finite) : NaN,
+    mean: average,
+    median: median(finite),
+    geometricMean: n && finite.every(value => value > 0)
+      ? Math.exp(mean(finite.map(Math.log)))
+      : NaN,
+    sd,
+    cv: average !== 0 ? (sd / Math.abs(average)) * 100 : NaN,
+    skewness: n > 2 && m2 > 0
+      ? (Math.sqrt(n * (n - 1)) / (n - 2)) * moment(3) / m2 ** 1.5
+      : NaN,
+    kurtosis: n > 3 && m2 > 0
+      ? ((n - 1) / ((n - 2) * (n - 3))) * ((n + 1) * (moment(4) / m2 ** 2 - 3) + 6)
+      : NaN,
+    percentiles: Object.fromEntries(PERCENTILES.map(p => [p, quantile(finite, p / 100)])) as Record<Percentile, number>,
+    limit,
+    exceedances,
+    exceedancePercent: n ? (exceedances / n) * 100 : 0,
+    summaryMethod: 'substitution',
+  };
+};
+
+/**
+ * Statistics of one parameter across results. Spread and percentiles use the substituted values of the run; the mean
+ * and median follow its non-detect summary method. All-censored parameters only report counts.
+ */
+const describeParameter = (results: SampleResult[], key: string, limit: number): DescriptiveStatistics => {
+  const observations = getCensoredObservations(results, key);
+  const censoredCount = observations.filter(o => o.censored).length;
+  const values = results.filter(r => r.censored[key] || Number.isFinite(r.concentrations[key])).map(r => r.concentrations[key]);
+
+  if (censoredCount === observations.length) {
+    return { ...describeValues([]), n: observations.length, censoredCount, limit };
+  }
+
+  const stats = describeValues(values, limit);
+  const exceedances = observations.filter(o => !o.censored && o.value > limit).length;
+  if (censoredCount === 0) return stats;
+
+  const summary = summarizeCensored(observations, results[0].censoring);
+  return {
+    ...stats,
+    censoredCount,
+    mean: summary.mean,
+    median: summary.median,
+    exceedances,
+    exceedancePercent: (exceedances / observations.length) * 100,
+    summaryMethod: summary.method,
+  };
+};
+
+/**
+ * One row per measured parameter, then per pollution index and, when scored, per water quality index
+ */
+export const generateDescriptiveStatistics = (results: SampleResult[]): StatisticsRow[] => {
+  if (!results.length) return [];
+
+  const profile = getResultsProfile(results);
+  const scheme = getResultsScheme(results);
+
+  const parameterRows = getMeasuredParameters(results).map((parameter): StatisticsRow => {
+    const limit = getParameterLimit(profile, parameter).acceptable;
+    return {
+      id: parameter.key,
+      label: parameter.name,
+      unit: parameter.unit,
+      kind: 'parameter',
+      category: parameter.category,
+      limitLabel: `> ${limit} ${parameter.unit}`.trim(),
+      stats: describeParameter(results, parameter.key, limit),
+    };
+  });
+
+  const indexRows = CLASSIFIABLE_INDICES.map((index): StatisticsRow => {
+    const rule = scheme.rules.find(r => r.index === index.id);
+    const limit = rule ? Math.min(...rule.bands.map(band => band.min)) : INDEX_REFERENCE_LIMITS[index.id];
+    return {
+      id: index.id,
+      label: index.label,
+      unit: '',
+      kind: 'index',
+      limitLabel: `> ${limit}`,
+      stats: describeValues(results.map(r => r.indices[index.id]), limit),
+    };
+  });
+
+  const wqiResults = results.filter(r => r.wqi);
+  const wqiRows = wqiResults.length ? WQI_METHODS.map((method): StatisticsRow => {
+    // Anything worse than Good
+    const limit = method.upperBounds[1];
+    return {
+      id: method.id,
+      label: method.shortLabel,
+      unit: '',
+      kind: 'index',
+      limitLabel: `> ${limit}`,
+      stats: describeValues(wqiResults.map(r => r.wqi.scores[method.id].value), limit),
+    };
+  }) : [];
+
+  return [...parameterRows, ...indexRows, ...wqiRows];
+};
+
+/**
+ * Three significant figures, or a dash when the statistic is undefined
+ */
+export const formatStatistic = (value: number): string =>
+  Number.isFinite(value) ? String(Number(value.toPrecision(3))) : '—';
@@ -1,99 +1,464 @@
 // Export utilities for Aqualyx reports
 
-interface SampleResult {
-  sampleId: string;
-  latitude: number;
-  longitude: number;
-  lead: number;
-  cadmium: number;
-  arsenic: number;
-  chromium: number;
-  indices: {
-    hpi: number;
-    mi: number;
-    cd: number;
-    status: 'safe' | 'moderate' | 'danger';
-    statusLabel: string;
-  };
-}
+import { ParameterDefinition, getMeasuredParameters, getParameter, formatParameterLabel } from "./parameters";
+import { getParameterLimit, getResultsProfile } from "./standards";
+import { getHpiMethod } from "./analysisSettings";
+import { CONTRIBUTION_COLORS, classifyHEI, classifyNemerow, decomposeIndices, generateSummaryStats } from "./pollutionCalculations";
+import { CLASSIFIABLE_INDICES, describeFiredRule, getResultsScheme } from "./classification";
+import { COHORTS, classifyCancerRisk, classifyHazardIndex, formatRisk } from "./healthRisk";
+import { describeCensoring, formatConcentration, getCensoredObservations, getSummaryMethod, summarizeCensored } from "./censoring";
+import { CANONICAL_UNIT, ConcentrationUnit, fromCanonical } from "./units";
+import { ConfidenceInterval, formatInterval } from "./uncertainty";
+import { WQI_CLASSES, WQI_METHODS, classifyWqi } from "./wqi";
+import { ION_BALANCE_EXCLUSIONS, ION_BALANCE_STATUSES, formatIonBalanceError, getIonBalanceStatus } from "./ionBalance";
+import { IRRIGATION_INDICES, IRRIGATION_SUMMARY_LABELS, WILCOX_CLASSES } from "./irrigation";
+import { DiagramPoint, FACIES_TYPES, PIPER_OUTLINES, PIPER_SIZE, getFaciesType, piperGridLines, piperPoints } from "./facies";
+import { SIGNIFICANT_LOADING, classifyKmo, componentLabel } from "./pca";
+import { clusterLabel, getLinkageMethod } from "./clustering";
+import { SEASONS, formatPValue, getTrendDirection, getTrendMethod, getUpwardTrends } from "./trends";
+import { OUTLIER_ACTIONS, OUTLIER_TESTS, describeReviewedOutlier, getOutlierTest } from "./outliers";
+import { PERCENTILES, formatStatistic, generateDescriptiveStatistics } from "./descriptiveStatistics";
+import {
+  DEFAULT_GROUP_COMPARISON_OPTIONS,
+  GroupComparisonOptions,
+  compareAllGroups,
+  getActiveGroupingColumn,
+  getPValueAdjustment,
+} from "./groupComparison";
+import {
+  CorrelationCell,
+  CorrelationMatrix,
+  CorrelationOptions,
+  DEFAULT_CORRELATION_OPTIONS,
+  calculateCorrelationMatrix,
+  describeCorrelationOptions,
+  getCorrelationColor,
+  significanceMarker,
+} from "./correlation";
+import { formatCsv } from "./csv";
+import type { SampleResult } from "@/types/sample";
 
 /**
- * Export results to CSV format
+ * Parameters whose column was reported in a unit other than the canonical one, with that unit
  */
-export const exportToCSV = (results: SampleResult[]): void => {
-  if (!results.length) {
-    alert('No data to export');
-    return;
-  }
+const getConvertedColumns = (results: SampleResult[]): { parameter: ParameterDefinition; unit: ConcentrationUnit }[] =>
+  getMeasuredParameters(results)
+    .map(parameter => ({
+      parameter,
+      unit: results.find(r => r.sourceUnits[parameter.key])?.sourceUnits[parameter.key] ?? CANONICAL_UNIT,
+    }))
+    .filter(column => column.unit !== CANONICAL_UNIT);
+
+// Quote every field and trigger a browser download of the CSV
+const downloadCSV = (rows: string[][], filename: string): void => {
+  const csvContent = formatCsv(rows);
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
+
+// Text from the upload or the analyst (sample IDs, group names, custom class labels) written into the report markup
+const escapeHtml = (text: string | number): string =>
+  String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Interval under a report table value, empty when no simulation was run
+const intervalSuffix = (interval?: ConfidenceInterval, format?: (value: number) => string): string =>
+  interval ? `<br><small>[${formatInterval(interval, format)}]</small>` : '';
+
+/**
+ * Header and rows of the results CSV
+ */
+export const getResultsCsvRows = (results: SampleResult[]): string[][] => {
+  const parameters = getMeasuredParameters(results);
+  const profile = getResultsProfile(results);
+  const scheme = getResultsScheme(results);
+  const convertedColumns = getConvertedColumns(results);
+  const metals = getMeasuredParameters(results, ['heavy-metal']);
+  const simulated = results.some(r => r.uncertainty);
+  const hasWqi = results.some(r => r.wqi);
+  const hasIonBalance = results.some(r => r.ionBalance);
+  const irrigationIndices = IRRIGATION_INDICES.filter(index => results.some(r => r.irrigation?.indices[index.id]));
+  const hasIrrigation = irrigationIndices.length > 0;
+  const hasFacies = results.some(r => r.facies);
+  const pcaModel = results.find(r => r.pca)?.pca.model;
+  const pcaComponents = Array.from({ length: pcaModel?.retained ?? 0 }, (_, i) => componentLabel(i));
+  const hasClusters = results.some(r => r.cluster);
+  const outliers = results[0].qualityControl?.outliers ?? [];
+  const hasWells = results.some(r => r.wellId);
+  const hasDates = results.some(r => r.date);
+  const hasTrends = results.some(r => r.trend);
+  const groupColumns = [...new Set(results.flatMap(r => Object.keys(r.groups ?? {})))];
 
   // Create CSV header
   const headers = [
     'Sample ID',
     'Latitude',
     'Longitude',
-    'Lead (mg/L)',
-    'Cadmium (mg/L)',
-    'Arsenic (mg/L)',
-    'Chromium (mg/L)',
+    ...(hasWells ? ['Well ID'] : []),
+    ...(hasDates ? ['Sample Date'] : []),
+    ...groupColumns,
+    ...parameters.map(formatParameterLabel),
+    ...convertedColumns.map(({ parameter, unit }) => `${parameter.name} (${unit}, as reported)`),
     'HPI',
+    'HPI Method',
     'MI', 
     'Cd',
+    'HEI',
+    'HEI Class',
+    'Nemerow PI',
+    'Nemerow Class',
+    ...(hasWqi ? WQI_METHODS.flatMap(method => [method.shortLabel, `${method.shortLabel} Class`]) : []),
+    ...metals.map(parameter => `CF ${parameter.name}`),
+    ...COHORTS.flatMap(cohort => [`HI ${cohort.label}`, `ILCR ${cohort.label}`]),
     'Contamination Status',
-    'Status Label'
+    'Status Label',
+    'Triggered By',
+    'Primary Concern',
+    'Primary Concern CF',
+    'Classification Scheme',
+    'Standard Profile',
+    'Below Detection Limit',
+    'Non-detect Handling',
+    ...(hasIonBalance ? ['Cations (meq/L)', 'Anions (meq/L)', 'Ion Balance Error (%)', 'Ion Balance Check'] : []),
+    ...(outliers.length ? ['Reviewed Values'] : []),
+    ...(hasIrrigation ? [
+      ...irrigationIndices.flatMap(index => [index.shortLabel, `${index.shortLabel} Class`]),
+      'USSL Class',
+      'Wilcox Class',
+      'Irrigation Suitability',
+    ] : []),
+    ...(hasFacies ? ['Facies', 'Water Type', 'Gibbs Na/(Na+Ca)', 'Gibbs Cl/(Cl+HCO3)'] : []),
+    ...pcaComponents.map(component => `${component} Score`),
+    ...(hasClusters ? ['Cluster'] : []),
+    ...(hasTrends ? ['Upward Trends'] : []),
+    ...(simulated ? [
+      ...CLASSIFIABLE_INDICES.flatMap(index => [`${index.label} Lower`, `${index.label} Upper`]),
+      ...COHORTS.flatMap(cohort => [
+        `HI ${cohort.label} Lower`, `HI ${cohort.label} Upper`,
+        `ILCR ${cohort.label} Lower`, `ILCR ${cohort.label} Upper`,
+      ]),
+      ...scheme.classes.map(schemeClass => `P(${schemeClass.label})`),
+      'Borderline',
+    ] : [])
   ];
+  // Group columns are named in the upload and may repeat a computed column such as "HPI", which would make the
+  // export fail to re-import with a duplicate header
+  const groupStart = 3 + (hasWells ? 1 : 0) + (hasDates ? 1 : 0);
+  groupColumns.forEach((column, index) => {
+    if (headers.filter(header => header === column).length > 1) headers[groupStart + index] = `${column} (group)`;
+  });
 
   // Create CSV rows
-  const rows = results.map(result => [
+  const breakdowns = results.map(result => decomposeIndices(result.concentrations, result.indices));
+  const rows = results.map((result, index) => [
     result.sampleId,
     result.latitude.toFixed(6),
     result.longitude.toFixed(6),
-    result.lead.toFixed(6),
-    result.cadmium.toFixed(6),
-    result.arsenic.toFixed(6),
-    result.chromium.toFixed(6),
+    ...(hasWells ? [result.wellId ?? ''] : []),
+    ...(hasDates ? [result.date ?? ''] : []),
+    ...groupColumns.map(column => result.groups?.[column] ?? ''),
+    ...parameters.map(parameter => formatConcentration(result, parameter.key, 6)),
+    ...convertedColumns.map(({ parameter, unit }) => {
+      const value = result.concentrations[parameter.key];
+      if (result.censored[parameter.key]) return result.censored[parameter.key].reported;
+      return Number.isFinite(value) ? String(Number(fromCanonical(value, unit, parameter).toPrecision(6))) : '';
+    }),
     result.indices.hpi.toString(),
+    getHpiMethod(result.indices.hpiMethod).label,
     result.indices.mi.toString(),
     result.indices.cd.toString(),
+    result.indices.hei.toString(),
+    classifyHEI(result.indices.hei).label,
+    result.indices.nemerow.toString(),
+    classifyNemerow(result.indices.nemerow).label,
+    ...(hasWqi ? WQI_METHODS.flatMap(method => {
+      const score = result.wqi?.scores[method.id];
+      return score ? [score.value.toString(), score.label] : ['', ''];
+    }) : []),
+    ...metals.map(parameter => result.indices.contaminationFactors[parameter.key]?.toString() ?? ''),
+    ...COHORTS.flatMap(cohort => [
+      result.healthRisk[cohort.id].hazardIndex.toFixed(4),
+      formatRisk(result.healthRisk[cohort.id].totalCancerRisk),
+    ]),
     result.indices.status,
-    result.indices.statusLabel
+    result.indices.statusLabel,
+    breakdowns[index].firedRules.map(describeFiredRule).join('; '),
+    breakdowns[index].primaryConcern ? getParameter(breakdowns[index].primaryConcern.key)?.name : '',
+    breakdowns[index].primaryConcern?.cf.toFixed(2) ?? '',
+    scheme.name,
+    `${profile.shortName} ${profile.version}`,
+    parameters
+      .filter(parameter => result.censored[parameter.key])
+      .map(parameter => `${parameter.symbol} (${result.censored[parameter.key].reported})`)
+      .join('; '),
+    describeCensoring(result.censoring),
+    ...(hasIonBalance ? (result.ionBalance ? [
+      result.ionBalance.cations.toFixed(3),
+      result.ionBalance.anions.toFixed(3),
+      result.ionBalance.error.toFixed(2),
+      getIonBalanceStatus(result.ionBalance.status).label,
+    ] : ['', '', '', '']) : []),
+    ...(outliers.length ? [
+      outliers.filter(o => o.sampleId === result.sampleId).map(describeReviewedOutlier).join('; '),
+    ] : []),
+    ...(hasIrrigation ? [
+      ...irrigationIndices.flatMap(index => {
+        const value = result.irrigation?.indices[index.id];
+        return value ? [value.value.toFixed(2), value.label] : ['', ''];
+      }),
+      result.irrigation?.ussl?.label ?? '',
+      result.irrigation?.wilcox?.label ?? '',
+      result.irrigation?.summary.label ?? '',
+    ] : []),
+    ...(hasFacies ? [
+      result.facies ? getFaciesType(result.facies.type).label : '',
+      result.facies?.waterType ?? '',
+      result.facies?.gibbs?.cationRatio.toFixed(3) ?? '',
+      result.facies?.gibbs?.anionRatio.toFixed(3) ?? '',
+    ] : []),
+    ...pcaComponents.map((_, c) => result.pca?.scores[c].toFixed(3) ?? ''),
+    ...(hasClusters ? [result.cluster ? clusterLabel(result.cluster.id) : ''] : []),
+    ...(hasTrends ? [
+      result.trend
+        ? getUpwardTrends(result.trend.model, result.trend.wellId).map(t => getParameter(t.parameter)?.name ?? t.parameter).join('; ')
+        : '',
+    ] : []),
+    ...(simulated ? (result.uncertainty ? [
+      ...CLASSIFIABLE_INDICES.flatMap(index => [
+        result.uncertainty.indices[index.id].lower.toFixed(2),
+        result.uncertainty.indices[index.id].upper.toFixed(2),
+      ]),
+      ...COHORTS.flatMap(cohort => [
+        result.uncertainty.hazardIndex[cohort.id].lower.toFixed(4),
+        result.uncertainty.hazardIndex[cohort.id].upper.toFixed(4),
+        formatRisk(result.uncertainty.cancerRisk[cohort.id].lower),
+        formatRisk(result.uncertainty.cancerRisk[cohort.id].upper),
+      ]),
+      ...scheme.classes.map(schemeClass => result.uncertainty.classProbabilities[schemeClass.id].toFixed(3)),
+      result.uncertainty.borderline ? 'Yes' : 'No',
+    ] : Array(CLASSIFIABLE_INDICES.length * 2 + COHORTS.length * 4 + scheme.classes.length + 1).fill('')) : [])
   ]);
 
-  // Combine headers and rows
-  const csvContent = [headers, ...rows]
-    .map(row => row.map(field => `"${field}"`).join(','))
-    .join('\n');
+  return [headers, ...rows];
+};
 
-  // Create and download file
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
-  
-  link.setAttribute('href', url);
-  link.setAttribute('download', `aqualyx_report_${new Date().toISOString().split('T')[0]}.csv`);
-  link.style.visibility = 'hidden';
-  
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  
-  URL.revokeObjectURL(url);
+/**
+ * Export results to CSV format
+ */
+export const exportToCSV = (results: SampleResult[]): void => {
+  if (!results.length) {
+    alert('No data to export');
+    return;
+  }
+
+  downloadCSV(getResultsCsvRows(results), `aqualyx_report_${new Date().toISOString().split('T')[0]}.csv`);
+};
+
+/**
+ * Export a correlation matrix to CSV: coefficients, then p-values, then pair counts
+ */
+export const exportCorrelationCSV = (matrix: CorrelationMatrix): void => {
+  const { parameters, cells } = matrix;
+  const header = parameters.map(parameter => parameter.symbol);
+  const block = (title: string, format: (cell: CorrelationCell) => string) => [
+    [title, ...header],
+    ...parameters.map((parameter, i) => [parameter.symbol, ...cells[i].map(cell => Number.isNaN(cell.r) ? '' : format(cell))]),
+  ];
+
+  downloadCSV([
+    [describeCorrelationOptions(matrix.options)],
+    [],
+    ...block('r', cell => cell.r.toFixed(4)),
+    [],
+    ...block('p-value', cell => cell.pValue.toPrecision(4)),
+    [],
+    ['n', ...header],
+    ...parameters.map((parameter, i) => [parameter.symbol, ...cells[i].map(cell => String(cell.n))]),
+  ], `aqualyx_correlation_${matrix.options.method}_${new Date().toISOString().split('T')[0]}.csv`);
+};
+
+/**
+ * Piper diagram as inline SVG markup for the report
+ */
+const renderPiperFigure = (results: SampleResult[]): string => {
+  const scale = 220;
+  const margin = 32;
+  const toSvg = ({ x, y }: DiagramPoint) => ({ x: margin + x * scale, y: margin + (PIPER_SIZE.height - y) * scale });
+  const path = (points: DiagramPoint[]) =>
+    points.map(toSvg).map(({ x, y }, i) => `${i ? 'L' : 'M'}${x.toFixed(1)},${y.toFixed(1)}`).join(' ') + ' Z';
+  const label = (text: string, at: DiagramPoint, anchor: string, dy: number) => {
+    const { x, y } = toSvg(at);
+    return `<text x="${x.toFixed(1)}" y="${(y + dy).toFixed(1)}" text-anchor="${anchor}" font-size="12" fill="#666">${text}</text>`;
+  };
+
+  return `
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${PIPER_SIZE.width * scale + 2 * margin} ${PIPER_SIZE.height * scale + 2 * margin}" width="560">
+      ${piperGridLines().map(([from, to]) => {
+        const a = toSvg(from);
+        const b = toSvg(to);
+        return `<line x1="${a.x.toFixed(1)}" y1="${a.y.toFixed(1)}" x2="${b.x.toFixed(1)}" y2="${b.y.toFixed(1)}" stroke="#ddd" stroke-dasharray="3 3" />`;
+      }).join('')}
+      ${Object.values(PIPER_OUTLINES).map(outline => `<path d="${path(outline)}" fill="none" stroke="#666" stroke-width="1.5" />`).join('')}
+      ${label('Ca', PIPER_OUTLINES.cations[0], 'middle', 16)}
+      ${label('Na + K', PIPER_OUTLINES.cations[1], 'middle', 16)}
+      ${label('Mg', PIPER_OUTLINES.cations[2], 'end', -4)}
+      ${label('HCO3', PIPER_OUTLINES.anions[0], 'middle', 16)}
+      ${label('Cl', PIPER_OUTLINES.anions[1], 'middle', 16)}
+      ${label('SO4', PIPER_OUTLINES.anions[2], 'start', -4)}
+      ${results.filter(r => r.facies).map(result => Object.values(piperPoints(result.facies)).map(point => {
+        const { x, y } = toSvg(point);
+        return `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="4" fill="${getFaciesType(result.facies.type).color}" fill-opacity="0.8" stroke="white" />`;
+      }).join('')).join('')}
+    </svg>
+  `;
 };
 
 /**
  * Generate comprehensive PDF report content
  */
-export const generateReportHTML = (results: SampleResult[]): string => {
+export const generateReportHTML = (
+  results: SampleResult[],
+  correlationOptions: CorrelationOptions = DEFAULT_CORRELATION_OPTIONS,
+  groupOptions: GroupComparisonOptions = DEFAULT_GROUP_COMPARISON_OPTIONS
+): string => {
+  const parameters = getMeasuredParameters(results);
+  const profile = getResultsProfile(results);
+  const hpiMethod = getHpiMethod(results[0]?.indices.hpiMethod);
+  const scheme = getResultsScheme(results);
   const totalSamples = results.length;
-  const safeSamples = results.filter(r => r.indices.status === 'safe').length;
-  const moderateSamples = results.filter(r => r.indices.status === 'moderate').length;
-  const dangerSamples = results.filter(r => r.indices.status === 'danger').length;
+  const summaryStats = generateSummaryStats(results.map(r => r.indices), scheme);
+  const classCounts = summaryStats.distribution;
   
-  const avgHPI = (results.reduce((sum, r) => sum + r.indices.hpi, 0) / totalSamples).toFixed(2);
-  const avgMI = (results.reduce((sum, r) => sum + r.indices.mi, 0) / totalSamples).toFixed(2);
-  const avgCd = (results.reduce((sum, r) => sum + r.indices.cd, 0) / totalSamples).toFixed(2);
+  const avgHPI = summaryStats.averages.hpi.toFixed(2);
+  const avgMI = summaryStats.averages.mi.toFixed(2);
+  const avgCd = summaryStats.averages.cd.toFixed(2);
+  const avgHEI = summaryStats.averages.hei.toFixed(2);
+  const avgNemerow = summaryStats.averages.nemerow.toFixed(2);
+  const statisticsRows = generateDescriptiveStatistics(results);
+
+  const riskSummaries = COHORTS.map(cohort => {
+    const hazardIndices = results.map(r => r.healthRisk[cohort.id].hazardIndex);
+    const cancerRisks = results.map(r => r.healthRisk[cohort.id].totalCancerRisk);
+    return {
+      ...cohort,
+      meanHI: hazardIndices.reduce((sum, hi) => sum + hi, 0) / totalSamples,
+      hiExceeding: hazardIndices.filter(hi => hi >= 1).length,
+      meanCR: cancerRisks.reduce((sum, cr) => sum + cr, 0) / totalSamples,
+      crUnacceptable: cancerRisks.filter(cr => cr > 1e-4).length,
+    };
+  });
+
+  const censoring = results[0]?.censoring;
+  const convertedColumns = getConvertedColumns(results);
+  const censoredSummaries = parameters
+    .map(parameter => ({
+      parameter,
+      summary: summarizeCensored(getCensoredObservations(results, parameter.key), censoring),
+    }))
+    .filter(({ summary }) => summary.censoredCount > 0);
+
+  const wqiResults = results.filter(r => r.wqi);
+  const wqiSummaries = WQI_METHODS.map(method => {
+    const average = wqiResults.reduce((sum, r) => sum + r.wqi.scores[method.id].value, 0) / wqiResults.length;
+    return {
+      method,
+      average,
+      averageClass: classifyWqi(method.id, average),
+      counts: WQI_CLASSES.map((_, rank) => wqiResults.filter(r => r.wqi.scores[method.id].rank === rank).length),
+    };
+  });
+  const entropyWeights = Object.entries(wqiResults[0]?.wqi.entropyWeights ?? {}).sort(([, a], [, b]) => b - a);
+
+  const irrigationResults = results.filter(r => r.irrigation);
+  const irrigationSummaries = IRRIGATION_INDICES
+    .map(index => {
+      const values = irrigationResults.map(r => r.irrigation.indices[index.id]).filter(Boolean);
+      return {
+        index,
+        assessed: values.length,
+        mean: values.reduce((sum, v) => sum + v.value, 0) / (values.length || 1),
+        counts: [...new Set(index.bands.map(band => band.label))]
+          .map(label => ({ label, count: values.filter(v => v.label === label).length }))
+          .filter(({ count }) => count > 0),
+      };
+    })
+    .filter(summary => summary.assessed > 0);
+  const usslCounts = Object.entries(irrigationResults
+    .filter(r => r.irrigation.ussl)
+    .reduce<Record<string, number>>((counts, r) => {
+      counts[r.irrigation.ussl.label] = (counts[r.irrigation.ussl.label] ?? 0) + 1;
+      return counts;
+    }, {}))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const wilcoxCounts = WILCOX_CLASSES
+    .map((wilcoxClass, rank) => ({
+      ...wilcoxClass,
+      count: irrigationResults.filter(r => r.irrigation.wilcox?.rank === rank).length,
+    }))
+    .filter(({ count }) => count > 0);
+
+  const faciesResults = results.filter(r => r.facies);
+  const waterTypes = Object.entries(faciesResults.reduce<Record<string, number>>((counts, r) => {
+    counts[r.facies.waterType] = (counts[r.facies.waterType] ?? 0) + 1;
+    return counts;
+  }, {})).sort(([, a], [, b]) => b - a);
+
+  const pcaModel = results.find(r => r.pca)?.pca.model;
+  const pcaComponents = Array.from({ length: pcaModel?.retained ?? 0 }, (_, i) => i);
+  const clusterModel = results.find(r => r.cluster)?.cluster.model;
+  const trendModel = results.find(r => r.trend)?.trend.model;
+  // Upward trends first
+  const significantTrends = (trendModel?.trends.filter(t => t.test.direction !== 'none') ?? [])
+    .sort((a, b) => Number(b.test.direction === 'increasing') - Number(a.test.direction === 'increasing') || a.test.pValue - b.test.pValue);
+  const upwardWells = trendModel?.wellIds.filter(wellId => getUpwardTrends(trendModel, wellId).length > 0) ?? [];
+
+  const balanced = results.filter(r => r.ionBalance);
+  const qualityControl = results[0]?.qualityControl;
+  const ionBalanceFlagged = balanced
+    .filter(r => r.ionBalance.status !== 'acceptable')
+    .sort((a, b) => Math.abs(b.ionBalance.error) - Math.abs(a.ionBalance.error));
+  const outliers = qualityControl?.outliers ?? [];
+
+  const simulated = results.filter(r => r.uncertainty);
+  const borderlineSamples = simulated.filter(r => r.uncertainty.borderline);
+
+  const correlation = calculateCorrelationMatrix(results, correlationOptions);
+  const strongCorrelations = correlation.parameters
+    .flatMap((x, i) => correlation.parameters.slice(0, i).map((y, j) => ({ x, y, cell: correlation.cells[i][j] })))
+    .filter(({ cell }) => Math.abs(cell.r) >= 0.7 && cell.pValue < 0.05)
+    .sort((a, b) => Math.abs(b.cell.r) - Math.abs(a.cell.r));
+
+  const groupColumn = getActiveGroupingColumn(results, groupOptions);
+  const groupComparisons = groupColumn
+    ? compareAllGroups(results, groupColumn, groupOptions.adjustment)
+      .filter(c => c.kruskalWallis)
+      .sort((a, b) => a.kruskalWallis.pValue - b.kruskalWallis.pValue)
+    : [];
+  const groupNames = [...new Set(groupComparisons.flatMap(c => c.groups.map(g => g.group)))]
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const differingGroups = groupComparisons.filter(c => c.kruskalWallis.pValue < 0.05);
+  const dunnFindings = differingGroups
+    .map(c => ({ variable: c.variable, pairs: c.dunn.filter(pair => pair.adjustedPValue < 0.05) }))
+    .filter(finding => finding.pairs.length);
 
   const criticalSamples = results
-    .filter(r => r.indices.status === 'danger')
+    .filter(r => r.indices.statusRank === scheme.classes.length - 1)
     .sort((a, b) => b.indices.hpi - a.indices.hpi)
     .slice(0, 5);
 
@@ -148,9 +513,6 @@ export const generateReportHTML = (results: SampleResult[]): string => {
           font-weight: bold;
           color: #333;
         }
-        .status-safe { color: #16a34a !important; border-color: #16a34a !important; }
-        .status-moderate { color: #ca8a04 !important; border-color: #ca8a04 !important; }
-        .status-danger { color: #dc2626 !important; border-color: #dc2626 !important; }
         .section {
           margin: 40px 0;
         }
@@ -177,6 +539,35 @@ export const generateReportHTML = (results: SampleResult[]): string => {
         .critical-row {
           background-color: #fef2f2;
         }
+        .borderline-row {
+          background-color: #fefce8;
+        }
+        .contribution-bar {
+          display: flex;
+          width: 160px;
+          height: 10px;
+          border-radius: 4px;
+          overflow: hidden;
+          background: #e5e7eb;
+        }
+        .correlation-matrix th, .correlation-matrix td {
+          padding: 4px;
+          text-align: center;
+          font-size: 11px;
+        }
+        .statistics-table th, .statistics-table td {
+          padding: 4px;
+          text-align: right;
+          font-size: 10px;
+        }
+        .statistics-table td:first-child {
+          text-align: left;
+        }
+        .figure {
+          text-align: center;
+          margin: 20px 0;
+          page-break-inside: avoid;
+        }
         .standards {
           background: #f0f9ff;
           padding: 20px;
@@ -217,21 +608,13 @@ export const generateReportHTML = (results: SampleResult[]): string => {
             <h3>Total Samples</h3>
             <div class="value">${totalSamples}</div>
           </div>
-          <div class="summary-card status-safe">
-            <h3>Safe Samples</h3>
-            <div class="value">${safeSamples}</div>
-            <small>${((safeSamples/totalSamples)*100).toFixed(1)}%</small>
-          </div>
-          <div class="summary-card status-moderate">
-            <h3>Moderate Risk</h3>
-            <div class="value">${moderateSamples}</div>
-            <small>${((moderateSamples/totalSamples)*100).toFixed(1)}%</small>
-          </div>
-          <div class="summary-card status-danger">
-            <h3>High Risk</h3>
-            <div class="value">${dangerSamples}</div>
-            <small>${((dangerSamples/totalSamples)*100).toFixed(1)}%</small>
+          ${classCounts.map(schemeClass => `
+          <div class="summary-card" style="color: ${escapeHtml(schemeClass.color)}; border-color: ${escapeHtml(schemeClass.color)};">
+            <h3 style="color: ${escapeHtml(schemeClass.color)};">${escapeHtml(schemeClass.label)}</h3>
+            <div class="value">${schemeClass.count}</div>
+            <small>${schemeClass.percentage.toFixed(1)}%</small>
           </div>
+          `).join('')}
         </div>
 
         <div class="summary-grid">
@@ -247,9 +630,82 @@ export const generateReportHTML = (results: SampleResult[]): string => {
             <h3>Average Cd</h3>
             <div class="value">${avgCd}</div>
           </div>
+          <div class="summary-card">
+            <h3>Average HEI</h3>
+            <div class="value">${avgHEI}</div>
+            <small>${classifyHEI(Number(avgHEI)).label}</small>
+          </div>
+          <div class="summary-card">
+            <h3>Average Nemerow PI</h3>
+            <div class="value">${avgNemerow}</div>
+            <small>${classifyNemerow(Number(avgNemerow)).label}</small>
+          </div>
+          ${wqiResults.length ? wqiSummaries.map(({ method, average, averageClass }) => `
+          <div class="summary-card">
+            <h3>Average ${method.shortLabel}</h3>
+            <div class="value">${average.toFixed(2)}</div>
+            <small style="color: ${averageClass.color};">${averageClass.label}</small>
+          </div>
+          `).join('') : ''}
         </div>
       </div>
 
+      ${statisticsRows.length ? `
+      <div class="section">
+        <h2>Descriptive Statistics</h2>
+        <table class="statistics-table">
+          <thead>
+            <tr>
+              <th>Variable</th>
+              <th>n</th>
+              <th>&lt;DL</th>
+              <th>Min</th>
+              <th>P${PERCENTILES[0]}</th>
+              <th>P${PERCENTILES[1]}</th>
+              <th>Median</th>
+              <th>Mean</th>
+              <th>Geo. mean</th>
+              <th>P${PERCENTILES[2]}</th>
+              <th>P${PERCENTILES[3]}</th>
+              <th>Max</th>
+              <th>SD</th>
+              <th>CV (%)</th>
+              <th>Skew.</th>
+              <th>Kurt.</th>
+              <th>Limit</th>
+              <th>Exceeding</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${statisticsRows.map(({ label, unit, limitLabel, stats }) => `
+              <tr>
+                <td>${label}${unit ? ` (${unit})` : ''}</td>
+                <td>${stats.n}</td>
+                <td>${stats.censoredCount || '—'}</td>
+                ${stats.n > 0 && stats.censoredCount === stats.n
+                  ? '<td colspan="13" style="text-align: center;">All values below the detection limit</td>'
+                  : [
+                    stats.min, stats.percentiles[PERCENTILES[0]], stats.percentiles[PERCENTILES[1]], stats.median, stats.mean,
+                    stats.geometricMean, stats.percentiles[PERCENTILES[2]], stats.percentiles[PERCENTILES[3]], stats.max,
+                    stats.sd, stats.cv, stats.skewness, stats.kurtosis,
+                  ].map(value => `<td>${formatStatistic(value)}</td>`).join('')}
+                <td>${escapeHtml(limitLabel)}</td>
+                <td>${stats.exceedances} (${stats.exceedancePercent.toFixed(0)}%)</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        <p><small>
+          Limits are ${profile.shortName} acceptable values for parameters and the boundary of the lowest class for indices;
+          non-detects never count as exceeding. Percentiles by linear interpolation; skewness is the adjusted
+          Fisher–Pearson coefficient and kurtosis is excess kurtosis; — marks statistics that cannot be computed.
+          ${censoring && statisticsRows.some(row => row.stats.censoredCount > 0)
+            ? `With non-detects, means and medians follow the ${getSummaryMethod(censoring.summaryMethod).label} summary; other statistics use substituted values.`
+            : ''}
+        </small></p>
+      </div>
+      ` : ''}
+
       ${criticalSamples.length > 0 ? `
       <div class="section">
         <h2>Critical Contamination Sites</h2>
@@ -261,48 +717,636 @@ export const generateReportHTML = (results: SampleResult[]): string => {
               <th>Location</th>
               <th>HPI</th>
               <th>Status</th>
+              <th>Triggered By</th>
               <th>Primary Concern</th>
+              <th>HPI Contributions</th>
             </tr>
           </thead>
           <tbody>
-            ${criticalSamples.map(sample => `
+            ${criticalSamples.map(sample => {
+              const breakdown = decomposeIndices(sample.concentrations, sample.indices);
+              const concern = breakdown.primaryConcern;
+              return `
               <tr class="critical-row">
-                <td><strong>${sample.sampleId}</strong></td>
+                <td><strong>${escapeHtml(sample.sampleId)}</strong></td>
                 <td>${sample.latitude.toFixed(4)}, ${sample.longitude.toFixed(4)}</td>
                 <td><strong>${sample.indices.hpi}</strong></td>
-                <td>${sample.indices.statusLabel}</td>
+                <td>${escapeHtml(sample.indices.statusLabel)}</td>
+                <td>${escapeHtml(breakdown.firedRules.map(describeFiredRule).join(', ') || '—')}</td>
+                <td>${concern
+                  ? `${getParameter(concern.key)?.name}: CF ${concern.cf.toFixed(2)}, ${(concern.hpiShare * 100).toFixed(0)}% of HPI`
+                  : '—'}</td>
                 <td>
-                  ${sample.lead > 0.01 ? 'Lead exceeded' : ''}
-                  ${sample.cadmium > 0.003 ? 'Cadmium exceeded' : ''}
-                  ${sample.arsenic > 0.01 ? 'Arsenic exceeded' : ''}
-                  ${sample.chromium > 0.05 ? 'Chromium exceeded' : ''}
+                  <div class="contribution-bar">
+                    ${breakdown.contributions
+                      .filter(c => c.hpiShare >= 0.01)
+                      .map((c, i) => `<span style="width: ${(c.hpiShare * 100).toFixed(1)}%; background: ${CONTRIBUTION_COLORS[i % CONTRIBUTION_COLORS.length]};" title="${getParameter(c.key)?.name} ${(c.hpiShare * 100).toFixed(1)}%"></span>`)
+                      .join('')}
+                  </div>
+                  <small>${breakdown.contributions
+                    .slice(0, 3)
+                    .map(c => `${getParameter(c.key)?.symbol} ${(c.hpiShare * 100).toFixed(0)}%`)
+                    .join(', ')}</small>
                 </td>
               </tr>
+            `;
+            }).join('')}
+          </tbody>
+        </table>
+      </div>
+      ` : ''}
+
+      ${wqiResults.length ? `
+      <div class="section">
+        <h2>Water Quality Index</h2>
+        <p>
+          ${wqiResults.length} of ${totalSamples} samples were scored on major ions and physico-chemical parameters
+          against ${profile.shortName} acceptable limits.
+        </p>
+        <table>
+          <thead>
+            <tr>
+              <th>Index</th>
+              <th>Mean</th>
+              ${WQI_CLASSES.map(wqiClass => `<th style="color: ${wqiClass.color};">${wqiClass.label}</th>`).join('')}
+            </tr>
+          </thead>
+          <tbody>
+            ${wqiSummaries.map(({ method, average, averageClass, counts }) => `
+              <tr>
+                <td>${method.label}</td>
+                <td>${average.toFixed(2)} (${averageClass.label})</td>
+                ${counts.map(count => `<td>${count} (${((count / wqiResults.length) * 100).toFixed(1)}%)</td>`).join('')}
+              </tr>
             `).join('')}
           </tbody>
         </table>
+        <p><small>
+          Entropy weights: ${entropyWeights.map(([key, weight]) => `${getParameter(key)?.symbol} ${weight.toFixed(3)}`).join(', ')}.
+        </small></p>
       </div>
       ` : ''}
 
+      ${irrigationResults.length ? `
+      <div class="section">
+        <h2>Irrigation Suitability</h2>
+        <p>
+          ${irrigationResults.length} of ${totalSamples} samples were assessed from major ions in meq/L.
+          Overall: ${Object.values(IRRIGATION_SUMMARY_LABELS)
+            .map(label => `${label} ${irrigationResults.filter(r => r.irrigation.summary.label === label).length}`)
+            .join(', ')}.
+        </p>
+        <table>
+          <thead>
+            <tr>
+              <th>Index</th>
+              <th>Formula</th>
+              <th>Mean</th>
+              <th>Samples by Class</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${irrigationSummaries.map(({ index, mean, counts }) => `
+              <tr>
+                <td>${index.label} (${index.shortLabel})</td>
+                <td>${index.formula}</td>
+                <td>${mean.toFixed(2)}</td>
+                <td>${counts.map(({ label, count }) => `${label}: ${count}`).join('; ')}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        ${usslCounts.length ? `
+        <p><strong>USSL diagram (Richards, 1954):</strong> ${usslCounts.map(([label, count]) => `${label}: ${count}`).join('; ')}</p>
+        ` : ''}
+        ${wilcoxCounts.length ? `
+        <p><strong>Wilcox diagram (Wilcox, 1955):</strong> ${wilcoxCounts.map(({ label, count }) => `${label}: ${count}`).join('; ')}</p>
+        ` : ''}
+        <p><small>
+          Concentrations in meq/L; potassium counts as zero when not measured. RSC and PI need bicarbonate;
+          the USSL and Wilcox classes need EC (µS/cm). The overall class is the most severe across indices and diagrams.
+        </small></p>
+      </div>
+      ` : ''}
+
+      ${faciesResults.length ? `
+      <div class="section">
+        <h2>Hydrochemical Facies</h2>
+        <p>
+          ${faciesResults.length} of ${totalSamples} samples were classified from the relative proportions of
+          Ca, Mg, Na + K, HCO3, Cl and SO4 in meq/L.
+        </p>
+        <div class="figure">
+          ${renderPiperFigure(faciesResults)}
+          <p><small>Figure: Piper trilinear diagram; points are coloured by facies.</small></p>
+        </div>
+        <table>
+          <thead>
+            <tr>
+              <th>Facies</th>
+              <th>Description</th>
+              <th>Samples</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${FACIES_TYPES.map(type => {
+              const count = faciesResults.filter(r => r.facies.type === type.id).length;
+              return `
+              <tr>
+                <td style="color: ${type.color};">${type.label}</td>
+                <td>${type.description}</td>
+                <td>${count} (${((count / faciesResults.length) * 100).toFixed(1)}%)</td>
+              </tr>
+            `;
+            }).join('')}
+          </tbody>
+        </table>
+        <p><small>
+          Dominant-ion water types: ${waterTypes.map(([waterType, count]) => `${waterType} ${count}`).join(', ')}.
+        </small></p>
+      </div>
+      ` : ''}
+
+      ${pcaModel ? `
+      <div class="section">
+        <h2>Principal Component Analysis</h2>
+        <p>
+          ${pcaModel.parameters.length} parameters in ${pcaModel.sampleCount} of ${totalSamples} samples,
+          ${pcaModel.settings.logTransform ? 'log10-transformed (pH untransformed) and ' : ''}standardised;
+          ${pcaModel.retained} component${pcaModel.retained === 1 ? '' : 's'} retained
+          (${pcaModel.settings.retention === 'kaiser' ? 'eigenvalue &gt; 1' : 'fixed by the analyst'}) and varimax-rotated,
+          explaining ${pcaModel.rotatedVariance.reduce((a, b) => a + b, 0).toFixed(1)}% of the variance.
+        </p>
+        <p>
+          Sampling adequacy: ${pcaModel.kmo !== undefined
+            ? `KMO = ${pcaModel.kmo.toFixed(3)} (${classifyKmo(pcaModel.kmo).label})`
+            : 'KMO not computable (singular correlation matrix)'};
+          ${pcaModel.bartlett
+            ? `Bartlett's test χ² = ${pcaModel.bartlett.chiSquare.toFixed(1)}, df = ${pcaModel.bartlett.degreesOfFreedom},
+              p ${pcaModel.bartlett.pValue < 0.001 ? '&lt; 0.001' : `= ${pcaModel.bartlett.pValue.toFixed(3)}`}`
+            : "Bartlett's test not computable"}.
+        </p>
+        <table>
+          <thead>
+            <tr>
+              <th>Parameter</th>
+              ${pcaComponents.map(c => `<th>${componentLabel(c)}</th>`).join('')}
+              <th>Communality</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${pcaModel.parameters.map((key, i) => `
+              <tr>
+                <td>${getParameter(key)?.name ?? key}</td>
+                ${pcaComponents.map(c => {
+                  const loading = pcaModel.loadings[i][c];
+                  return Math.abs(loading) >= SIGNIFICANT_LOADING ? `<td><strong>${loading.toFixed(3)}</strong></td>` : `<td>${loading.toFixed(3)}</td>`;
+                }).join('')}
+                <td>${pcaModel.communalities[i].toFixed(3)}</td>
+              </tr>
+            `).join('')}
+            <tr>
+              <td>Variance (%)</td>
+              ${pcaComponents.map(c => `<td>${pcaModel.rotatedVariance[c].toFixed(1)}</td>`).join('')}
+              <td></td>
+            </tr>
+          </tbody>
+        </table>
+        <p><small>
+          Rotated loadings; |loading| ≥ ${SIGNIFICANT_LOADING} in bold. Eigenvalues:
+          ${pcaModel.eigenvalues.map(value => value.toFixed(2)).join(', ')}.
+          Component scores per sample are included in the CSV export.
+        </small></p>
+      </div>
+      ` : ''}
+
+      ${clusterModel ? `
+      <div class="section">
+        <h2>Cluster Analysis</h2>
+        <p>
+          ${clusterModel.sampleIds.length} of ${totalSamples} samples were grouped by ${getLinkageMethod(clusterModel.settings.linkage).label}
+          linkage on Euclidean distances between ${clusterModel.settings.logTransform ? 'log10-transformed (pH untransformed) and ' : ''}standardised
+          values of ${clusterModel.parameters.map(key => getParameter(key)?.symbol ?? key).join(', ')}.
+          Cutting the dendrogram at linkage height ${clusterModel.cutHeight.toFixed(2)}
+          gives ${clusterModel.profiles.length} cluster${clusterModel.profiles.length === 1 ? '' : 's'}.
+        </p>
+        <table>
+          <thead>
+            <tr>
+              <th>Parameter</th>
+              ${clusterModel.profiles.map((profile, id) => `<th style="color: ${profile.color};">${clusterLabel(id)} (n = ${profile.size})</th>`).join('')}
+            </tr>
+          </thead>
+          <tbody>
+            ${clusterModel.parameters.map(key => `
+              <tr>
+                <td>${getParameter(key) ? formatParameterLabel(getParameter(key)) : key}</td>
+                ${clusterModel.profiles.map(profile => `<td>${Number(profile.means[key].toPrecision(3))} (z = ${profile.zMeans[key].toFixed(2)})</td>`).join('')}
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        <p><small>
+          Cluster mean concentrations, with the mean z-score in brackets. Members:
+          ${clusterModel.profiles.map((_, id) => `${clusterLabel(id)}: ${escapeHtml(clusterModel.sampleIds.filter((__, leaf) => clusterModel.leafClusters[leaf] === id).join(', '))}`).join('; ')}.
+        </small></p>
+      </div>
+      ` : ''}
+
+      ${trendModel ? `
+      <div class="section">
+        <h2>Temporal Trends</h2>
+        <p>
+          ${trendModel.wellIds.length} well${trendModel.wellIds.length === 1 ? '' : 's'} with repeat samples were tested with the
+          ${getTrendMethod(trendModel.settings.method).label} test at α = ${trendModel.settings.significance}${trendModel.settings.method === 'seasonal-kendall'
+            ? ` (seasons: ${SEASONS.map(season => season.label).join(', ')})`
+            : ''};
+          trend magnitudes are Sen's slopes.
+          ${upwardWells.length
+            ? `<strong>${upwardWells.length} well${upwardWells.length === 1 ? ' shows' : 's show'} a significant upward trend:</strong>
+              ${upwardWells.map(wellId => `${escapeHtml(wellId)} (${getUpwardTrends(trendModel, wellId).map(t => getParameter(t.parameter)?.symbol ?? t.parameter).join(', ')})`).join('; ')}.`
+            : 'No well shows a significant upward trend.'}
+        </p>
+        ${significantTrends.length ? `
+        <table>
+          <thead>
+            <tr>
+              <th>Well</th>
+              <th>Parameter</th>
+              <th>Period</th>
+              <th>n</th>
+              <th>Kendall τ</th>
+              <th>p</th>
+              <th>Sen's Slope (per year)</th>
+              <th>Trend</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${significantTrends.map(trend => {
+              const parameter = getParameter(trend.parameter);
+              const direction = getTrendDirection(trend.test.direction);
+              return `
+              <tr${trend.test.direction === 'increasing' ? ' class="critical-row"' : ''}>
+                <td>${escapeHtml(trend.wellId)}</td>
+                <td>${parameter?.name ?? trend.parameter}</td>
+                <td>${escapeHtml(trend.observations[0].date)} – ${escapeHtml(trend.observations[trend.observations.length - 1].date)}</td>
+                <td>${trend.test.n}</td>
+                <td>${trend.test.tau.toFixed(2)}</td>
+                <td>${formatPValue(trend.test.pValue)}</td>
+                <td>${Number(trend.test.slope.toPrecision(3))} ${parameter?.unit ?? ''}</td>
+                <td style="color: ${direction.color};">${direction.label}</td>
+              </tr>
+            `;
+            }).join('')}
+          </tbody>
+        </table>
+        ` : ''}
+      </div>
+      ` : ''}
+
+      ${correlation.parameters.length >= 2 ? `
+      <div class="section">
+        <h2>Correlation Analysis</h2>
+        <p>${describeCorrelationOptions(correlationOptions)}; two-sided p-values from the t approximation.</p>
+        <table class="correlation-matrix">
+          <thead>
+            <tr>
+              <th></th>
+              ${correlation.parameters.map(parameter => `<th>${parameter.symbol}</th>`).join('')}
+            </tr>
+          </thead>
+          <tbody>
+            ${correlation.parameters.map((row, i) => `
+              <tr>
+                <th>${row.symbol}</th>
+                ${correlation.cells[i].map((cell, j) => i === j || Number.isNaN(cell.r)
+                  ? '<td>—</td>'
+                  : `<td style="background-color: ${getCorrelationColor(cell.r)};${Math.abs(cell.r) > 0.6 ? ' color: white;' : ''}">${cell.r.toFixed(2)}${significanceMarker(cell.pValue)}</td>`
+                ).join('')}
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        <p><small>
+          * p &lt; 0.05, ** p &lt; 0.01, *** p &lt; 0.001.
+          ${strongCorrelations.length
+            ? `Strong significant correlations (|r| ≥ 0.7): ${strongCorrelations.map(({ x, y, cell }) => `${y.symbol}–${x.symbol} ${cell.r.toFixed(2)}`).join(', ')}.`
+            : 'No parameter pairs correlate strongly (|r| ≥ 0.7, p &lt; 0.05).'}
+        </small></p>
+      </div>
+      ` : ''}
+
+      ${groupComparisons.length ? `
+      <div class="section">
+        <h2>Group Comparison by ${escapeHtml(groupColumn)}</h2>
+        <p>
+          Parameters and indices were compared between ${groupNames.length} groups (${escapeHtml(groupNames.join(', '))}) with one-way
+          ANOVA and the Kruskal–Wallis test. ${differingGroups.length
+            ? `<strong>${differingGroups.length} variable${differingGroups.length === 1 ? ' differs' : 's differ'} significantly (Kruskal–Wallis p &lt; 0.05):</strong>
+              ${differingGroups.map(c => c.variable.label).join(', ')}.`
+            : 'No variable differs significantly between groups (Kruskal–Wallis p &lt; 0.05).'}
+        </p>
+        <table>
+          <thead>
+            <tr>
+              <th>Variable</th>
+              ${groupNames.map(name => `<th>${escapeHtml(name)}<br><small>median (n)</small></th>`).join('')}
+              <th>ANOVA F</th>
+              <th>p</th>
+              <th>Kruskal–Wallis H</th>
+              <th>p</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${groupComparisons.map(comparison => `
+              <tr>
+                <td>${comparison.variable.label}${comparison.variable.unit ? ` (${comparison.variable.unit})` : ''}</td>
+                ${groupNames.map(name => {
+                  const group = comparison.groups.find(g => g.group === name);
+                  return `<td>${group ? `${formatStatistic(group.stats.median)} (${group.stats.n})` : '—'}</td>`;
+                }).join('')}
+                <td>${formatStatistic(comparison.anova.f)}</td>
+                <td>${formatPValue(comparison.anova.pValue)}${significanceMarker(comparison.anova.pValue)}</td>
+                <td>${formatStatistic(comparison.kruskalWallis.h)}</td>
+                <td>${formatPValue(comparison.kruskalWallis.pValue)}${significanceMarker(comparison.kruskalWallis.pValue)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        <p><small>
+          * p &lt; 0.05, ** p &lt; 0.01, *** p &lt; 0.001. Non-detects enter with their substituted values.
+          ${dunnFindings.length
+            ? `Pairs differing by Dunn's test (${getPValueAdjustment(groupOptions.adjustment).label}-adjusted p &lt; 0.05):
+              ${dunnFindings.map(({ variable, pairs }) => `${variable.label}: ${pairs.map(pair => `${escapeHtml(pair.groupA)} vs ${escapeHtml(pair.groupB)}`).join(', ')}`).join('; ')}.`
+            : ''}
+        </small></p>
+      </div>
+      ` : ''}
+
+      <div class="section">
+        <h2>Human Health Risk Assessment</h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Cohort</th>
+              <th>Mean HI</th>
+              <th>Samples with HI ≥ 1</th>
+              <th>Mean ILCR</th>
+              <th>Samples with ILCR &gt; 1E-4</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${riskSummaries.map(summary => `
+              <tr>
+                <td>${summary.label}</td>
+                <td>${summary.meanHI.toFixed(2)} (${classifyHazardIndex(summary.meanHI).label})</td>
+                <td>${summary.hiExceeding} of ${totalSamples}</td>
+                <td>${formatRisk(summary.meanCR)} (${classifyCancerRisk(summary.meanCR).label})</td>
+                <td>${summary.crUnacceptable} of ${totalSamples}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        <p><small>
+          US EPA methodology: CDI = C × IR × EF × ED / (BW × AT) for ingestion and the dermally absorbed dose for bathing;
+          HQ = CDI / RfD, HI = ΣHQ; ILCR = CDI × SF for As, Cr(VI), Cd and Pb. Total chromium is assessed as Cr(VI).
+          Exposure parameters:
+          ${COHORTS.map(cohort => {
+            const exposure = results[0].healthRisk[cohort.id].exposure;
+            return `${cohort.label} BW ${exposure.bodyWeight} kg, IR ${exposure.ingestionRate} L/day, ` +
+              `EF ${exposure.exposureFrequency} days/yr, ED ${exposure.exposureDuration} yr, ` +
+              `SA ${exposure.skinSurfaceArea} cm², ET ${exposure.exposureTime} h/day`;
+          }).join('; ')}.
+        </small></p>
+      </div>
+
       <div class="section">
         <h2>Methodology</h2>
-        <p>This assessment uses three standard pollution indices:</p>
+        <p>This assessment uses the following pollution indices:</p>
         <ul>
-          <li><strong>Heavy Metal Pollution Index (HPI):</strong> Comprehensive index considering all metals with toxicity weighting</li>
+          <li><strong>Heavy Metal Pollution Index (HPI), ${hpiMethod.label}:</strong> ${hpiMethod.description}</li>
           <li><strong>Metal Index (MI):</strong> Simple ratio of concentration to standard limits</li>
           <li><strong>Contamination Degree (Cd):</strong> Sum of all metal concentration ratios</li>
+          <li><strong>Heavy Metal Evaluation Index (HEI):</strong> Sum of concentrations over maximum admissible (permissible) limits; Low &lt; 10, Medium 10–20, High &gt; 20 (Edet &amp; Offiong, 2002)</li>
+          <li><strong>Nemerow Pollution Index (PN):</strong> √((CF<sub>mean</sub>² + CF<sub>max</sub>²) / 2); Clean ≤ 0.7, Warning 0.7–1, Slight 1–2, Moderate 2–3, Heavy &gt; 3</li>
+          <li><strong>Contamination Factor (CF):</strong> Concentration over acceptable limit per metal; Low &lt; 1, Moderate 1–3, Considerable 3–6, Very high ≥ 6 (Hakanson, 1980)</li>
+          ${wqiResults.length ? WQI_METHODS.map(method => `
+          <li><strong>${method.label} (${method.shortLabel}):</strong> ${method.description}</li>
+          `).join('') : ''}
         </ul>
         
         <div class="standards">
-          <h3>WHO/EPA Standards Used (mg/L):</h3>
-          <ul>
-            <li>Lead: ≤ 0.01</li>
-            <li>Cadmium: ≤ 0.003</li>
-            <li>Arsenic: ≤ 0.01</li>
-            <li>Chromium: ≤ 0.05</li>
-          </ul>
+          <h3>Classification Scheme: ${escapeHtml(scheme.name)}</h3>
+          <p>${escapeHtml(scheme.description)}</p>
+          <p>Combination rule: ${
+            scheme.combine === 'worst' ? 'most severe class across indices' :
+            scheme.combine === 'all' ? 'a class applies when all of its index bands are exceeded' :
+            'a class applies when any of its index bands is exceeded'
+          }</p>
+          <table>
+            <thead>
+              <tr>
+                <th>Index</th>
+                ${scheme.classes.slice(1).map(schemeClass => `<th style="color: ${escapeHtml(schemeClass.color)};">${escapeHtml(schemeClass.label)}</th>`).join('')}
+              </tr>
+            </thead>
+            <tbody>
+              ${scheme.rules.map(rule => `
+                <tr>
+                  <td>${CLASSIFIABLE_INDICES.find(index => index.id === rule.index)?.label ?? rule.index}</td>
+                  ${scheme.classes.slice(1).map(schemeClass => {
+                    const band = rule.bands.find(b => b.classId === schemeClass.id);
+                    return `<td>${band ? `&gt; ${band.min}` : '—'}</td>`;
+                  }).join('')}
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
         </div>
+
+        <div class="standards">
+          <h3>Standard Used: ${profile.name}</h3>
+          <p>${profile.version} — ${profile.authority}</p>
+          ${convertedColumns.length ? `
+          <p><small>Reported units converted to ${CANONICAL_UNIT} before calculation: ${
+            convertedColumns.map(({ parameter, unit }) => `${parameter.name} (${unit})`).join(', ')
+          }. The CSV export keeps the values as reported.</small></p>
+          ` : ''}
+          <table>
+            <thead>
+              <tr>
+                <th>Parameter</th>
+                <th>Acceptable Limit</th>
+                <th>Permissible Limit</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${parameters.map(parameter => {
+                const limit = getParameterLimit(profile, parameter);
+                return `
+                <tr>
+                  <td>${parameter.name} (${parameter.unit})</td>
+                  <td>${limit.acceptable}${limit.fallback ? ' *' : ''}</td>
+                  <td>${limit.permissible > limit.acceptable ? limit.permissible : 'No relaxation'}</td>
+                </tr>
+              `;
+              }).join('')}
+            </tbody>
+          </table>
+          ${parameters.some(parameter => getParameterLimit(profile, parameter).fallback)
+            ? `<p><small>* Not regulated by ${profile.shortName}; WHO guideline value used instead.</small></p>`
+            : ''}
+        </div>
+
+        <div class="standards">
+          <h3>Below-Detection-Limit Values</h3>
+          <p>${describeCensoring(censoring)}. Non-detects are marked "&lt;DL" in the exported data.</p>
+          ${censoredSummaries.length ? `
+          <table>
+            <thead>
+              <tr>
+                <th>Parameter</th>
+                <th>Non-detects</th>
+                <th>Mean</th>
+                <th>Median</th>
+                <th>Summary Method</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${censoredSummaries.map(({ parameter, summary }) => `
+                <tr>
+                  <td>${parameter.name} (${parameter.unit})</td>
+                  <td>${summary.censoredCount} of ${summary.n}</td>
+                  <td>${summary.mean.toFixed(4)}</td>
+                  <td>${summary.median.toFixed(4)}</td>
+                  <td>${getSummaryMethod(summary.method).label}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+          ` : '<p>No non-detects were reported in this dataset.</p>'}
+        </div>
+      </div>
+
+      ${balanced.length > 0 || qualityControl?.excludedSampleIds.length ? `
+      <div class="section">
+        <h2>Quality Assurance: Ion Balance</h2>
+        <p>
+          Ion balance error = (Σcations − Σanions) / (Σcations + Σanions) × 100 in meq/L, with non-detects counted as zero.
+          ${ION_BALANCE_STATUSES.map(status => `${status.label}: ${balanced.filter(r => r.ionBalance.status === status.id).length}`).join('; ')}
+          (of ${balanced.length} checked samples).
+        </p>
+        <p>
+          ${ION_BALANCE_EXCLUSIONS.find(e => e.id === qualityControl?.ionBalanceExclusion)?.label ?? ION_BALANCE_EXCLUSIONS[0].label}.
+          ${qualityControl?.excludedSampleIds.length
+            ? `Excluded from this report: ${escapeHtml(qualityControl.excludedSampleIds.join(', '))}.`
+            : 'No samples were excluded.'}
+        </p>
+        ${ionBalanceFlagged.length ? `
+        <table>
+          <thead>
+            <tr>
+              <th>Sample ID</th>
+              <th>Cations (meq/L)</th>
+              <th>Anions (meq/L)</th>
+              <th>Ion Balance Error</th>
+              <th>Check</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${ionBalanceFlagged.map(result => `
+              <tr${result.ionBalance.status === 'unacceptable' ? ' class="critical-row"' : ' class="borderline-row"'}>
+                <td>${escapeHtml(result.sampleId)}</td>
+                <td>${result.ionBalance.cations.toFixed(2)}</td>
+                <td>${result.ionBalance.anions.toFixed(2)}</td>
+                <td>${formatIonBalanceError(result.ionBalance.error)}</td>
+                <td>${getIonBalanceStatus(result.ionBalance.status).label}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        ` : ''}
       </div>
+      ` : ''}
+
+      ${outliers.length > 0 ? `
+      <div class="section">
+        <h2>Quality Assurance: Outlier Screening</h2>
+        <p>
+          Detected values of each parameter were screened on the log10 scale (pH as reported); non-detects were not screened.
+          ${outliers.length} value${outliers.length > 1 ? 's were' : ' was'} flagged:
+          ${[...OUTLIER_ACTIONS.map(action => ({ label: action.outcome, count: outliers.filter(o => o.action === action.id).length })),
+            { label: 'Not reviewed', count: outliers.filter(o => o.action === 'pending').length }]
+            .filter(entry => entry.count > 0)
+            .map(entry => `${entry.label}: ${entry.count}`)
+            .join('; ')}.
+          Values not reviewed entered the analysis as reported.
+        </p>
+        <table>
+          <thead>
+            <tr>
+              <th>Sample ID</th>
+              <th>Value</th>
+              <th>Median</th>
+              <th>Flagged By</th>
+              <th>Decision</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${outliers.map(outlier => `
+              <tr${outlier.action === 'pending' ? ' class="borderline-row"' : ''}>
+                <td>${escapeHtml(outlier.sampleId)}</td>
+                <td>${getParameter(outlier.parameter)?.name ?? outlier.parameter}: ${Number(outlier.value.toPrecision(4))}</td>
+                <td>${Number(outlier.median.toPrecision(4))}</td>
+                <td>${outlier.tests.map(test => getOutlierTest(test).label).join(', ')}</td>
+                <td>${escapeHtml(describeReviewedOutlier(outlier))}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        <p>
+          <small>${OUTLIER_TESTS.map(test => `${test.label}: ${test.description}.`).join(' ')}</small>
+        </p>
+      </div>
+      ` : ''}
+
+      ${simulated.length > 0 ? `
+      <div class="section">
+        <h2>Uncertainty Analysis</h2>
+        <p>
+          Measurement uncertainty was propagated by Monte Carlo simulation (${simulated[0].uncertainty.iterations} draws per sample).
+          Measured concentrations were drawn from normal distributions truncated at zero, using the uploaded uncertainties or
+          a default of ${(simulated[0].uncertainty.defaultRelativeUncertainty * 100).toFixed(0)}% of the value where none was given;
+          non-detects were drawn uniformly between zero and the detection limit.
+          Ranges are ${simulated[0].uncertainty.confidenceLevel * 100}% intervals. ${borderlineSamples.length} of ${simulated.length} samples
+          are borderline (probability of the reported class below ${(simulated[0].uncertainty.borderlineThreshold * 100).toFixed(0)}%).
+        </p>
+        <table>
+          <thead>
+            <tr>
+              <th>Sample ID</th>
+              <th>Status</th>
+              ${scheme.classes.map(schemeClass => `<th style="color: ${escapeHtml(schemeClass.color)};">P(${escapeHtml(schemeClass.label)})</th>`).join('')}
+              <th>HPI</th>
+              ${COHORTS.map(cohort => `<th>HI ${cohort.label}</th>`).join('')}
+            </tr>
+          </thead>
+          <tbody>
+            ${[...simulated]
+              .sort((a, b) => a.uncertainty.classProbabilities[a.indices.status] - b.uncertainty.classProbabilities[b.indices.status])
+              .map(result => `
+              <tr${result.uncertainty.borderline ? ' class="borderline-row"' : ''}>
+                <td>${escapeHtml(result.sampleId)}${result.uncertainty.borderline ? ' <small>(borderline)</small>' : ''}</td>
+                <td style="color: ${escapeHtml(result.indices.statusColor)};">${escapeHtml(result.indices.statusLabel)}</td>
+                ${scheme.classes.map(schemeClass => `<td>${(result.uncertainty.classProbabilities[schemeClass.id] * 100).toFixed(1)}%</td>`).join('')}
+                <td>${result.indices.hpi}${intervalSuffix(result.uncertainty.indices.hpi)}</td>
+                ${COHORTS.map(cohort => `<td>${result.healthRisk[cohort.id].hazardIndex.toFixed(2)}${intervalSuffix(result.uncertainty.hazardIndex[cohort.id])}</td>`).join('')}
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+      ` : ''}
 
       <div class="section">
         <h2>Complete Results Summary</h2>
@@ -313,26 +1357,41 @@ export const generateReportHTML = (results: SampleResult[]): string => {
               <th>HPI</th>
               <th>MI</th>
               <th>Cd</th>
+              <th>HEI</th>
+              <th>PN</th>
+              ${wqiResults.length ? WQI_METHODS.map(method => `<th>${method.shortLabel}</th>`).join('') : ''}
+              <th>Highest CF</th>
               <th>Status</th>
             </tr>
           </thead>
           <tbody>
-            ${results.map(result => `
+            ${results.map(result => {
+              const [topKey, topCF] = Object.entries(result.indices.contaminationFactors)
+                .sort(([, a], [, b]) => b - a)[0] ?? [];
+              return `
               <tr>
-                <td>${result.sampleId}</td>
-                <td>${result.indices.hpi}</td>
-                <td>${result.indices.mi}</td>
-                <td>${result.indices.cd}</td>
-                <td>${result.indices.statusLabel}</td>
+                <td>${escapeHtml(result.sampleId)}</td>
+                <td>${result.indices.hpi}${intervalSuffix(result.uncertainty?.indices.hpi)}</td>
+                <td>${result.indices.mi}${intervalSuffix(result.uncertainty?.indices.mi)}</td>
+                <td>${result.indices.cd}${intervalSuffix(result.uncertainty?.indices.cd)}</td>
+                <td>${result.indices.hei}${intervalSuffix(result.uncertainty?.indices.hei)}</td>
+                <td>${result.indices.nemerow}${intervalSuffix(result.uncertainty?.indices.nemerow)}</td>
+                ${wqiResults.length ? WQI_METHODS.map(method => {
+                  const score = result.wqi?.scores[method.id];
+                  return `<td${score ? ` style="color: ${score.color};"` : ''}>${score ? `${score.value}<br><small>${score.label}</small>` : '—'}</td>`;
+                }).join('') : ''}
+                <td>${topKey ? `${getParameter(topKey)?.symbol} ${topCF}` : '—'}</td>
+                <td style="color: ${escapeHtml(result.indices.statusColor)};">${escapeHtml(result.indices.statusLabel)}</td>
               </tr>
-            `).join('')}
+            `;
+            }).join('')}
           </tbody>
         </table>
       </div>
 
       <div class="disclaimer">
         <h4>Disclaimer</h4>
-        <p>This report is generated by Aqualyx automated assessment system. Results are based on WHO/EPA guidelines and standard pollution index calculations. For critical contamination sites, please consult with environmental professionals and conduct additional verification testing.</p>
+        <p>This report is generated by Aqualyx automated assessment system. Results are based on ${profile.name} (${profile.version}) and standard pollution index calculations. For critical contamination sites, please consult with environmental professionals and conduct additional verification testing.</p>
       </div>
 
       <div class="footer">
@@ -347,13 +1406,17 @@ export const generateReportHTML = (results: SampleResult[]): string => {
 /**
  * Export detailed PDF report
  */
-export const exportToPDF = (results: SampleResult[]): void => {
+export const exportToPDF = (
+  results: SampleResult[],
+  correlationOptions: CorrelationOptions = DEFAULT_CORRELATION_OPTIONS,
+  groupOptions: GroupComparisonOptions = DEFAULT_GROUP_COMPARISON_OPTIONS
+): void => {
   if (!results.length) {
     alert('No data to export');
     return;
   }
 
-  const htmlContent = generateReportHTML(results);
+  const htmlContent = generateReportHTML(results, correlationOptions, groupOptions);
   
   // Create new window for printing
   const printWindow = window.open('', '_blank');
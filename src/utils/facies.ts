@@ -0,0 +1,216 @@
+// Hydrochemical facies: Piper, Durov and Gibbs diagram coordinates and facies classification
+
+import { getParameter } from "./parameters";
+import { MAJOR_IONS, toMilliequivalents } from "./ionBalance";
+import type { MetalConcentrations } from "./pollutionCalculations";
+
+/**
+ * Quadrants of the Piper diamond:
+ * - ca-hco3: Ca + Mg and HCO3 dominant (temporary hardness)
+ * - ca-mg-cl: Ca + Mg and Cl + SO4 dominant (permanent hardness)
+ * - na-cl: Na + K and Cl + SO4 dominant (saline)
+ * - na-hco3: Na + K and HCO3 dominant (alkali carbonate)
+ */
+export type FaciesType = 'ca-hco3' | 'ca-mg-cl' | 'na-cl' | 'na-hco3';
+
+// Percent of total cations or anions, in meq/L
+export interface CationShares {
+  calcium: number;
+  magnesium: number;
+  sodiumPotassium: number;
+}
+
+export interface AnionShares {
+  bicarbonate: number;
+  chloride: number;
+  sulfate: number;
+}
+
+export interface GibbsRatios {
+  tds: number;           // mg/L
+  cationRatio: number;   // Na / (Na + Ca), meq/L
+  anionRatio: number;    // Cl / (Cl + HCO3), meq/L
+}
+
+export interface HydrochemicalFacies {
+  cations: CationShares;
+  anions: AnionShares;
+  type: FaciesType;
+  waterType: string;     // Dominant cation and anion, e.g. Ca-HCO3
+  gibbs?: GibbsRatios;   // Needs measured TDS
+}
+
+export const FACIES_TYPES: { id: FaciesType; label: string; description: string; color: string }[] = [
+  { id: 'ca-hco3', label: 'Ca-HCO3', description: 'Calcium bicarbonate; temporary hardness, typical of recharge water', color: '#2563eb' },
+  { id: 'ca-mg-cl', label: 'Ca-Mg-Cl-SO4', description: 'Mixed calcium–magnesium chloride–sulphate; permanent hardness', color: '#7c3aed' },
+  { id: 'na-cl', label: 'Na-Cl', description: 'Sodium chloride; saline water, evaporites, seawater or wastewater', color: '#dc2626' },
+  { id: 'na-hco3', label: 'Na-HCO3', description: 'Sodium bicarbonate; ion exchange along deeper flow paths', color: '#0d9488' },
+];
+
+export const getFaciesType = (id: FaciesType) =>
+  FACIES_TYPES.find(type => type.id === id) ?? FACIES_TYPES[0];
+
+// Ion labels used for the dominant-ion water type
+const CATION_SYMBOLS: Record<keyof CationShares, string> = { calcium: 'Ca', magnesium: 'Mg', sodiumPotassium: 'Na' };
+const ANION_SYMBOLS: Record<keyof AnionShares, string> = { bicarbonate: 'HCO3', chloride: 'Cl', sulfate: 'SO4' };
+
+const dominant = <T extends string>(shares: Record<T, number>, symbols: Record<T, string>): string => {
+  const [key] = (Object.entries(shares) as [T, number][]).sort(([, a], [, b]) => b - a)[0];
+  return symbols[key];
+};
+
+/**
+ * Facies from the relative proportions of major ions in meq/L; K counts as zero when not measured.
+ * Undefined unless Ca, Mg, Na, Cl, SO4 and HCO3 were all measured.
+ */
+export const classifyFacies = (concentrations: MetalConcentrations): HydrochemicalFacies | undefined => {
+  if (!MAJOR_IONS.every(key => Number.isFinite(concentrations[key]))) return undefined;
+  const meq = (key: string): number =>
+    Number.isFinite(concentrations[key]) ? toMilliequivalents(concentrations[key], getParameter(key)) : 0;
+
+  const ca = meq('calcium');
+  const mg = meq('magnesium');
+  const naK = meq('sodium') + meq('potassium');
+  const hco3 = meq('bicarbonate');
+  const cl = meq('chloride');
+  const so4 = meq('sulfate');
+  const cationSum = ca + mg + naK;
+  const anionSum = hco3 + cl + so4;
+  if (cationSum === 0 || anionSum === 0) return undefined;
+
+  const cations = { calcium: 100 * ca / cationSum, magnesium: 100 * mg / cationSum, sodiumPotassium: 100 * naK / cationSum };
+  const anions = { bicarbonate: 100 * hco3 / anionSum, chloride: 100 * cl / anionSum, sulfate: 100 * so4 / anionSum };
+
+  const alkali = cations.sodiumPotassium >= 50;
+  const strongAcid = anions.chloride + anions.sulfate >= 50;
+  const type: FaciesType = alkali
+    ? (strongAcid ? 'na-cl' : 'na-hco3')
+    : (strongAcid ? 'ca-mg-cl' : 'ca-hco3');
+
+  const na = meq('sodium');
+  const tds = concentrations.tds;
+  const gibbs = Number.isFinite(tds) && tds > 0 && na + ca > 0 && cl + hco3 > 0
+    ? { tds, cationRatio: na / (na + ca), anionRatio: cl / (cl + hco3) }
+    : undefined;
+
+  return {
+    cations,
+    anions,
+    type,
+    waterType: `${dominant(cations, CATION_SYMBOLS)}-${dominant(anions, ANION_SYMBOLS)}`,
+    gibbs,
+  };
+};
+
+// Diagram geometry in units of the triangle side; y points up
+export interface DiagramPoint {
+  x: number;
+  y: number;
+}
+
+const TRIANGLE_HEIGHT = Math.sqrt(3) / 2;
+// Gap between the Piper triangles, as a fraction of the side
+const PIPER_GAP = 0.1;
+const DIAMOND_BOTTOM: DiagramPoint = { x: 1 + PIPER_GAP / 2, y: PIPER_GAP * TRIANGLE_HEIGHT };
+
+/**
+ * Outlines of the Piper cation triangle, anion triangle and central diamond
+ */
+export const PIPER_OUTLINES: Record<'cations' | 'anions' | 'diamond', DiagramPoint[]> = {
+  cations: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0.5, y: TRIANGLE_HEIGHT }],
+  anions: [{ x: 1 + PIPER_GAP, y: 0 }, { x: 2 + PIPER_GAP, y: 0 }, { x: 1.5 + PIPER_GAP, y: TRIANGLE_HEIGHT }],
+  diamond: [
+    DIAMOND_BOTTOM,
+    { x: DIAMOND_BOTTOM.x + 0.5, y: DIAMOND_BOTTOM.y + TRIANGLE_HEIGHT },
+    { x: DIAMOND_BOTTOM.x, y: DIAMOND_BOTTOM.y + 2 * TRIANGLE_HEIGHT },
+    { x: DIAMOND_BOTTOM.x - 0.5, y: DIAMOND_BOTTOM.y + TRIANGLE_HEIGHT },
+  ],
+};
+
+export const PIPER_SIZE = { width: 2 + PIPER_GAP, height: DIAMOND_BOTTOM.y + 2 * TRIANGLE_HEIGHT };
+
+// Point in the Piper diamond from the Na + K and Cl + SO4 fractions (0–1)
+const diamondPoint = (alkali: number, strongAcid: number): DiagramPoint => ({
+  x: DIAMOND_BOTTOM.x - 0.5 * (1 - alkali) + 0.5 * strongAcid,
+  y: DIAMOND_BOTTOM.y + TRIANGLE_HEIGHT * (1 - alkali + strongAcid),
+});
+
+const interpolate = (from: DiagramPoint, to: DiagramPoint, t: number): DiagramPoint => ({
+  x: from.x + t * (to.x - from.x),
+  y: from.y + t * (to.y - from.y),
+});
+
+const GRID_STEPS = [0.2, 0.4, 0.6, 0.8];
+
+/**
+ * Grid lines of a ternary triangle at 20% intervals, parallel to each side
+ */
+export const triangleGridLines = (vertices: DiagramPoint[]): [DiagramPoint, DiagramPoint][] =>
+  vertices.flatMap((vertex, i) => {
+    const [a, b] = vertices.filter((_, j) => j !== i);
+    return GRID_STEPS.map<[DiagramPoint, DiagramPoint]>(t => [interpolate(a, vertex, t), interpolate(b, vertex, t)]);
+  });
+
+/**
+ * Grid lines of the three Piper fields at 20% intervals
+ */
+export const piperGridLines = (): [DiagramPoint, DiagramPoint][] => [
+  ...triangleGridLines(PIPER_OUTLINES.cations),
+  ...triangleGridLines(PIPER_OUTLINES.anions),
+  ...GRID_STEPS.flatMap<[DiagramPoint, DiagramPoint]>(t => [
+    [diamondPoint(t, 0), diamondPoint(t, 1)],
+    [diamondPoint(0, t), diamondPoint(1, t)],
+  ]),
+];
+
+/**
+ * Positions of a sample in the three Piper fields. Cation triangle: Ca bottom-left, Na + K bottom-right, Mg apex;
+ * anion triangle: HCO3 bottom-left, Cl bottom-right, SO4 apex; diamond: Ca-HCO3 left, Na-Cl right.
+ */
+export const piperPoints = (facies: HydrochemicalFacies): Record<'cations' | 'anions' | 'diamond', DiagramPoint> => {
+  const { cations, anions } = facies;
+  const alkali = cations.sodiumPotassium / 100;
+  const strongAcid = (anions.chloride + anions.sulfate) / 100;
+  return {
+    cations: {
+      x: (cations.sodiumPotassium + cations.magnesium / 2) / 100,
+      y: cations.magnesium / 100 * TRIANGLE_HEIGHT,
+    },
+    anions: {
+      x: 1 + PIPER_GAP + (anions.chloride + anions.sulfate / 2) / 100,
+      y: anions.sulfate / 100 * TRIANGLE_HEIGHT,
+    },
+    diamond: diamondPoint(alkali, strongAcid),
+  };
+};
+
+/**
+ * Position of a sample in the Durov square (0–100 on both axes). The anion triangle sits above the square with
+ * HCO3, Cl and SO4 at its left, right and apex; the cation triangle sits to its left with Ca, Na + K and Mg at its
+ * bottom, top and apex. Each triangle point projects onto the square perpendicular to the shared side.
+ */
+export const durovPoint = (facies: HydrochemicalFacies): DiagramPoint => ({
+  x: facies.anions.chloride + facies.anions.sulfate / 2,
+  y: facies.cations.sodiumPotassium + facies.cations.magnesium / 2,
+});
+
+/**
+ * Position of a point inside the Durov triangles, in the square's 0–100 coordinates
+ */
+export const durovTrianglePoints = (facies: HydrochemicalFacies): Record<'cations' | 'anions', DiagramPoint> => {
+  const { x, y } = durovPoint(facies);
+  return {
+    anions: { x, y: 100 + facies.anions.sulfate * TRIANGLE_HEIGHT },
+    cations: { x: -facies.cations.magnesium * TRIANGLE_HEIGHT, y },
+  };
+};
+
+/**
+ * Outlines of the Durov cation triangle, anion triangle and square, in the square's 0–100 coordinates.
+ * Vertex order matches the projection: anions HCO3, Cl, SO4; cations Ca, Na + K, Mg.
+ */
+export const DUROV_OUTLINES: Record<'cations' | 'anions' | 'square', DiagramPoint[]> = {
+  cations: [{ x: 0, y: 0 }, { x: 0, y: 100 }, { x: -100 * TRIANGLE_HEIGHT, y: 50 }],
+  anions: [{ x: 0, y: 100 }, { x: 100, y: 100 }, { x: 50, y: 100 + 100 * TRIANGLE_HEIGHT }],
+  square: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }],
+};
@@ -0,0 +1,263 @@
+// Differences between groups of samples (district, aquifer, well type): per-group summaries, one-way ANOVA,
+// Kruskal–Wallis and Dunn's post-hoc test
+
+import { ComparisonVariable, getResultVariables } from "./comparison";
+import { DescriptiveStatistics, describeValues } from "./descriptiveStatistics";
+import { chiSquarePValue, fisherFPValue, normalPValue, quantile, rank, sum } from "./statistics";
+import type { SampleResult } from "@/types/sample";
+
+/**
+ * How Dunn's pairwise p-values are adjusted for multiple comparisons:
+ * - bonferroni: each p multiplied by the number of pairs
+ * - holm: step-down Bonferroni, less conservative with the same family-wise error control
+ */
+export type PValueAdjustment = 'bonferroni' | 'holm';
+
+export interface GroupComparisonOptions {
+  column?: string;  // Grouping column; the first available one when unset or not in the data
+  adjustment: PValueAdjustment;
+}
+
+export interface BoxPlotStatistics {
+  q1: number;
+  median: number;
+  q3: number;
+  lowerWhisker: number;  // Lowest value within 1.5 IQR below Q1
+  upperWhisker: number;  // Highest value within 1.5 IQR above Q3
+  outliers: number[];    // Values beyond the whiskers
+}
+
+export interface GroupSummary {
+  group: string;
+  stats: DescriptiveStatistics;
+  boxPlot: BoxPlotStatistics;
+}
+
+export interface AnovaResult {
+  f: number;
+  dfBetween: number;
+  dfWithin: number;
+  pValue: number;
+  etaSquared: number;  // Share of the total sum of squares between groups
+}
+
+export interface KruskalWallisResult {
+  h: number;           // Tie-corrected
+  df: number;
+  pValue: number;      // Chi-square approximation
+  epsilonSquared: number;  // Rank effect size, H / (N − 1)
+}
+
+export interface DunnComparison {
+  groupA: string;
+  groupB: string;
+  meanRankDifference: number;  // Mean rank of A minus mean rank of B
+  z: number;
+  pValue: number;              // Unadjusted, two-sided
+  adjustedPValue: number;
+}
+
+export interface GroupComparison {
+  column: string;
+  variable: Omit<ComparisonVariable, 'value'>;
+  groups: GroupSummary[];   // Every group with a value, in natural order
+  tested: string[];         // Groups with at least MIN_GROUP_SIZE values, which the tests compare
+  anova?: AnovaResult;      // Undefined with fewer than two tested groups
+  kruskalWallis?: KruskalWallisResult;
+  dunn: DunnComparison[];
+}
+
+export const P_VALUE_ADJUSTMENTS: { id: PValueAdjustment; label: string; description: string }[] = [
+  { id: 'holm', label: 'Holm', description: 'Step-down Bonferroni (Holm, 1979)' },
+  { id: 'bonferroni', label: 'Bonferroni', description: 'p multiplied by the number of pairs' },
+];
+
+export const DEFAULT_GROUP_COMPARISON_OPTIONS: GroupComparisonOptions = {
+  column: undefined,
+  adjustment: 'holm',
+};
+
+// Fewest values a group needs to enter the tests
+export const MIN_GROUP_SIZE = 2;
+
+// Most distinct values a column may hold to be offered for grouping; more suggests an ID or a measurement
+export const MAX_GROUPS = 12;
+
+export const getPValueAdjustment = (id: PValueAdjustment) =>
+  P_VALUE_ADJUSTMENTS.find(a => a.id === id) ?? P_VALUE_ADJUSTMENTS[0];
+
+const compareGroupNames = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * Columns the samples can be grouped by: between two and MAX_GROUPS distinct values, at least two of them shared by
+ * MIN_GROUP_SIZE samples
+ */
+export const getGroupingColumns = (results: SampleResult[]): string[] => {
+  const columns = [...new Set(results.flatMap(r => Object.keys(r.groups ?? {})))];
+  return columns.filter(column => {
+    const counts = new Map<string, number>();
+    results.forEach(r => {
+      const group = r.groups?.[column];
+      if (group) counts.set(group, (counts.get(group) ?? 0) + 1);
+    });
+    return counts.size >= 2 && counts.size <= MAX_GROUPS &&
+      [...counts.values()].filter(count => count >= MIN_GROUP_SIZE).length >= 2;
+  });
+};
+
+/**
+ * The grouping column the options select, falling back to the first available one
+ */
+export const getActiveGroupingColumn = (results: SampleResult[], options: GroupComparisonOptions): string | undefined => {
+  const columns = getGroupingColumns(results);
+  return columns.includes(options.column) ? options.column : columns[0];
+};
+
+/**
+ * Tukey box plot of a list of values
+ */
+export const getBoxPlot = (values: number[]): BoxPlotStatistics => {
+  const q1 = quantile(values, 0.25);
+  const q3 = quantile(values, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  const inside = values.filter(value => value >= q1 - fence && value <= q3 + fence);
+  return {
+    q1,
+    median: quantile(values, 0.5),
+    q3,
+    lowerWhisker: Math.min(...inside),
+    upperWhisker: Math.max(...inside),
+    outliers: values.filter(value => !inside.includes(value)),
+  };
+};
+
+/**
+ * Adjust p-values for multiple comparisons, keeping their order
+ */
+export const adjustPValues = (pValues: number[], adjustment: PValueAdjustment): number[] => {
+  const m = pValues.length;
+  if (adjustment === 'bonferroni') return pValues.map(p => Math.min(1, p * m));
+
+  const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+  let running = 0;
+  order.forEach(({ p, index }, step) => {
+    running = Math.max(running, Math.min(1, (m - step) * p));
+    adjusted[index] = running;
+  });
+  return adjusted;
+};
+
+/**
+ * One-way ANOVA of the group values
+ */
+const oneWayAnova = (groups: number[][]): AnovaResult => {
+  const all = groups.flat();
+  const grandMean = sum(all) / all.length;
+  const groupMeans = groups.map(values => sum(values) / values.length);
+  const ssBetween = sum(groups.map((values, i) => values.length * (groupMeans[i] - grandMean) ** 2));
+  const ssWithin = sum(groups.map((values, i) => sum(values.map(value => (value - groupMeans[i]) ** 2))));
+  const dfBetween = groups.length - 1;
+  const dfWithin = all.length - groups.length;
+  const f = ssWithin > 0 ? (ssBetween / dfBetween) / (ssWithin / dfWithin) : ssBetween > 0 ? Infinity : NaN;
+  return {
+    f,
+    dfBetween,
+    dfWithin,
+    pValue: fisherFPValue(f, dfBetween, dfWithin),
+    etaSquared: ssBetween + ssWithin > 0 ? ssBetween / (ssBetween + ssWithin) : NaN,
+  };
+};
+
+/**
+ * Kruskal–Wallis test and Dunn's pairwise comparisons, both from the ranks of the pooled values with mid-ranks for ties
+ */
+const rankTests = (
+  names: string[],
+  groups: number[][],
+  adjustment: PValueAdjustment
+): { kruskalWallis: KruskalWallisResult; dunn: DunnComparison[] } => {
+  const all = groups.flat();
+  const n = all.length;
+  const ranks = rank(all);
+  let offset = 0;
+  const meanRanks = groups.map(values => {
+    const groupRanks = ranks.slice(offset, offset + values.length);
+    offset += values.length;
+    return sum(groupRanks) / values.length;
+  });
+
+  const tieGroups = new Map<number, number>();
+  ranks.forEach(r => tieGroups.set(r, (tieGroups.get(r) ?? 0) + 1));
+  const tieSum = sum([...tieGroups.values()].map(t => t ** 3 - t));
+
+  const uncorrected = 12 / (n * (n + 1)) * sum(groups.map((values, i) => values.length * meanRanks[i] ** 2)) - 3 * (n + 1);
+  const tieFactor = 1 - tieSum / (n ** 3 - n);
+  const h = tieFactor > 0 ? uncorrected / tieFactor : NaN;
+  const df = groups.length - 1;
+
+  // Dunn (1964) with the tie correction of the rank variance
+  const rankVariance = n * (n + 1) / 12 - tieSum / (12 * (n - 1));
+  const pairs = groups.flatMap((_, i) => groups.slice(i + 1).map((__, k) => [i, i + 1 + k]));
+  const unadjusted = pairs.map(([i, j]) => {
+    const difference = meanRanks[i] - meanRanks[j];
+    const se = Math.sqrt(rankVariance * (1 / groups[i].length + 1 / groups[j].length));
+    const z = se > 0 ? difference / se : 0;
+    return { groupA: names[i], groupB: names[j], meanRankDifference: difference, z, pValue: normalPValue(z) };
+  });
+  const adjusted = adjustPValues(unadjusted.map(c => c.pValue), adjustment);
+
+  return {
+    kruskalWallis: {
+      h,
+      df,
+      pValue: Number.isFinite(h) ? chiSquarePValue(h, df) : NaN,
+      epsilonSquared: h / (n - 1),
+    },
+    dunn: unadjusted.map((comparison, index) => ({ ...comparison, adjustedPValue: adjusted[index] })),
+  };
+};
+
+/**
+ * Compare one variable between the groups of a column. Non-detects enter with the run's substituted values.
+ */
+export const compareGroups = (
+  results: SampleResult[],
+  column: string,
+  variable: ComparisonVariable,
+  adjustment: PValueAdjustment
+): GroupComparison => {
+  const byGroup = new Map<string, number[]>();
+  results.forEach(result => {
+    const group = result.groups?.[column];
+    const value = variable.value(result);
+    if (group && Number.isFinite(value)) byGroup.set(group, [...(byGroup.get(group) ?? []), value]);
+  });
+  const names = [...byGroup.keys()].sort(compareGroupNames);
+  const tested = names.filter(name => byGroup.get(name).length >= MIN_GROUP_SIZE);
+  const testedValues = tested.map(name => byGroup.get(name));
+
+  return {
+    column,
+    variable: { id: variable.id, label: variable.label, unit: variable.unit, kind: variable.kind },
+    groups: names.map(name => ({
+      group: name,
+      stats: describeValues(byGroup.get(name)),
+      boxPlot: getBoxPlot(byGroup.get(name)),
+    })),
+    tested,
+    ...(tested.length >= 2
+      ? { anova: oneWayAnova(testedValues), ...rankTests(tested, testedValues, adjustment) }
+      : { dunn: [] }),
+  };
+};
+
+/**
+ * Compare every parameter and index between the groups of a column
+ */
+export const compareAllGroups = (
+  results: SampleResult[],
+  column: string,
+  adjustment: PValueAdjustment
+): GroupComparison[] =>
+  getResultVariables(results).map(variable => compareGroups(results, column, variable, adjustment));
@@ -0,0 +1,172 @@
+// Human health risk assessment for drinking-water exposure (US EPA RAGS Part A/E)
+
+import { PARAMETERS, ParameterDefinition } from "./parameters";
+import type { MetalConcentrations } from "./pollutionCalculations";
+
+export type Cohort = 'adult' | 'child';
+
+export interface ExposureParameters {
+  bodyWeight: number;          // BW (kg)
+  ingestionRate: number;       // IR (L/day)
+  exposureFrequency: number;   // EF (days/year)
+  exposureDuration: number;    // ED (years)
+  skinSurfaceArea: number;     // SA (cm²)
+  exposureTime: number;        // ET, bathing/showering time (h/day)
+}
+
+export interface MetalRisk {
+  cdiIngestion: number;   // Chronic daily intake by ingestion (mg/kg/day)
+  cdiDermal: number;      // Dermally absorbed dose (mg/kg/day)
+  hqIngestion: number;
+  hqDermal: number;
+  hq: number;             // Total hazard quotient
+  cancerRisk?: number;    // Incremental lifetime cancer risk, carcinogens only
+}
+
+export interface CohortRisk {
+  exposure: ExposureParameters;       // Parameters the risk was computed with
+  metals: Record<string, MetalRisk>;  // Keyed by parameter registry key
+  hazardIndex: number;
+  totalCancerRisk: number;
+}
+
+export type HealthRiskAssessment = Record<Cohort, CohortRisk>;
+
+export type RiskSeverity = 'safe' | 'moderate' | 'danger';
+
+export const COHORTS: { id: Cohort; label: string }[] = [
+  { id: 'adult', label: 'Adults' },
+  { id: 'child', label: 'Children' },
+];
+
+// US EPA (2011) Exposure Factors Handbook / RAGS Part E residential defaults
+export const DEFAULT_EXPOSURE: Record<Cohort, ExposureParameters> = {
+  adult: {
+    bodyWeight: 70,
+    ingestionRate: 2.5,
+    exposureFrequency: 350,
+    exposureDuration: 30,
+    skinSurfaceArea: 19652,
+    exposureTime: 0.71,
+  },
+  child: {
+    bodyWeight: 15,
+    ingestionRate: 0.78,
+    exposureFrequency: 350,
+    exposureDuration: 6,
+    skinSurfaceArea: 6365,
+    exposureTime: 0.54,
+  },
+};
+
+const LIFETIME_DAYS = 70 * 365;  // Averaging time for carcinogens
+const LITRES_PER_CM3 = 0.001;    // Unit conversion for the dermal dose
+
+/**
+ * Registered parameters with toxicity values that are present in a sample
+ */
+export const getToxicParameters = (metals: MetalConcentrations): ParameterDefinition[] =>
+  PARAMETERS.filter(p => p.toxicity && Number.isFinite(metals[p.key]));
+
+/**
+ * Assess one exposure cohort
+ * CDIing = C × IR × EF × ED / (BW × AT)
+ * DAD = C × SA × Kp × ET × EF × ED × CF / (BW × AT)
+ * HQ = CDIing / RfD + DAD / (RfD × ABSgi), HI = Σ HQ
+ * ILCR = (CDIing + DAD / ABSgi) × SF, with AT = 70 years
+ * The toxic parameters can be passed in when the same sample is assessed repeatedly, as in Monte Carlo draws.
+ */
+export const assessCohortRisk = (
+  metals: MetalConcentrations,
+  exposure: ExposureParameters,
+  parameters: ParameterDefinition[] = getToxicParameters(metals)
+): CohortRisk => {
+  const { bodyWeight, ingestionRate, exposureFrequency, exposureDuration, skinSurfaceArea, exposureTime } = exposure;
+  const exposureDays = exposureFrequency * exposureDuration;
+  const nonCancerAveragingDays = exposureDuration * 365;
+
+  const risks: Record<string, MetalRisk> = {};
+  let hazardIndex = 0;
+  let totalCancerRisk = 0;
+
+  parameters.forEach(parameter => {
+    const { rfdOral, kp, absGi, sfOral } = parameter.toxicity;
+    const concentration = metals[parameter.key];
+
+    // Intakes averaged over the exposure period (non-carcinogenic)
+    const ingestionIntake = concentration * ingestionRate * exposureDays / bodyWeight;
+    const dermalIntake = concentration * skinSurfaceArea * kp * exposureTime * exposureDays * LITRES_PER_CM3 / bodyWeight;
+    const cdiIngestion = ingestionIntake / nonCancerAveragingDays;
+    const cdiDermal = dermalIntake / nonCancerAveragingDays;
+
+    const hqIngestion = cdiIngestion / rfdOral;
+    const hqDermal = cdiDermal / (rfdOral * absGi);
+    const risk: MetalRisk = {
+      cdiIngestion,
+      cdiDermal,
+      hqIngestion,
+      hqDermal,
+      hq: hqIngestion + hqDermal,
+    };
+    hazardIndex += risk.hq;
+
+    // Intakes averaged over a lifetime (carcinogenic)
+    if (sfOral) {
+      risk.cancerRisk = (ingestionIntake + dermalIntake / absGi) / LIFETIME_DAYS * sfOral;
+      totalCancerRisk += risk.cancerRisk;
+    }
+
+    risks[parameter.key] = risk;
+  });
+
+  return { exposure, metals: risks, hazardIndex, totalCancerRisk };
+};
+
+/**
+ * Assess non-carcinogenic and carcinogenic risk for every cohort
+ */
+export const assessHealthRisk = (
+  metals: MetalConcentrations,
+  exposure: Record<Cohort, ExposureParameters>,
+  parameters: ParameterDefinition[] = getToxicParameters(metals)
+): HealthRiskAssessment => ({
+  adult: assessCohortRisk(metals, exposure.adult, parameters),
+  child: assessCohortRisk(metals, exposure.child, parameters),
+});
+
+/**
+ * Non-carcinogenic risk class: HI < 1 acceptable
+ */
+export const classifyHazardIndex = (hazardIndex: number): { label: string; severity: RiskSeverity } =>
+  hazardIndex >= 1
+    ? { label: 'Potential non-carcinogenic risk', severity: 'danger' }
+    : { label: 'Acceptable', severity: 'safe' };
+
+/**
+ * Carcinogenic risk class: ≤ 1E-6 negligible, up to 1E-4 tolerable, above 1E-4 unacceptable
+ */
+export const classifyCancerRisk = (cancerRisk: number): { label: string; severity: RiskSeverity } => {
+  if (cancerRisk > 1e-4) return { label: 'Unacceptable', severity: 'danger' };
+  if (cancerRisk > 1e-6) return { label: 'Tolerable', severity: 'moderate' };
+  return { label: 'Negligible', severity: 'safe' };
+};
+
+export const formatRisk = (value: number): string =>
+  value === 0 ? '0' : value.toExponential(2);
+
+/**
+ * Worst-case risk across cohorts, for a single per-sample badge
+ */
+export const summarizeHealthRisk = (assessment: HealthRiskAssessment): { label: string; severity: RiskSeverity } => {
+  const maxHazardIndex = Math.max(...COHORTS.map(c => assessment[c.id].hazardIndex));
+  const maxCancerRisk = Math.max(...COHORTS.map(c => assessment[c.id].totalCancerRisk));
+  const cancerClass = classifyCancerRisk(maxCancerRisk);
+
+  if (classifyHazardIndex(maxHazardIndex).severity === 'danger') {
+    return { label: cancerClass.severity === 'danger' ? 'HI ≥ 1 and cancer risk' : 'HI ≥ 1', severity: 'danger' };
+  }
+  if (cancerClass.severity !== 'safe') {
+    return { label: `${cancerClass.label} cancer risk`, severity: cancerClass.severity };
+  }
+  return { label: 'Low risk', severity: 'safe' };
+};
@@ -0,0 +1,92 @@
+// Cation–anion charge balance check for samples with major ions
+
+import { PARAMETERS, ParameterDefinition, getParameter } from "./parameters";
+import type { CensoredValue } from "./censoring";
+import type { MetalConcentrations } from "./pollutionCalculations";
+
+export type IonBalanceStatus = 'acceptable' | 'marginal' | 'unacceptable';
+
+/**
+ * Which samples to leave out of the analysis:
+ * - none: keep every sample and only flag them
+ * - unacceptable: exclude samples beyond ±10%
+ * - marginal: exclude samples beyond ±5%
+ */
+export type IonBalanceExclusion = 'none' | 'unacceptable' | 'marginal';
+
+export interface IonBalance {
+  cations: number;        // Sum of cations (meq/L)
+  anions: number;         // Sum of anions (meq/L)
+  error: number;          // Ion balance error (%), positive when cations are in excess
+  status: IonBalanceStatus;
+  missingMajorIons: string[];  // Registry keys of major ions that were not measured
+}
+
+export const ION_BALANCE_STATUSES: { id: IonBalanceStatus; label: string; severity: 'safe' | 'moderate' | 'danger'; limit: number }[] = [
+  { id: 'acceptable', label: 'Within ±5%', severity: 'safe', limit: 5 },
+  { id: 'marginal', label: '±5–10%', severity: 'moderate', limit: 10 },
+  { id: 'unacceptable', label: 'Beyond ±10%', severity: 'danger', limit: Infinity },
+];
+
+export const ION_BALANCE_EXCLUSIONS: { id: IonBalanceExclusion; label: string }[] = [
+  { id: 'none', label: 'Keep all samples (flag only)' },
+  { id: 'unacceptable', label: 'Exclude samples beyond ±10%' },
+  { id: 'marginal', label: 'Exclude samples beyond ±5%' },
+];
+
+export const DEFAULT_ION_BALANCE_EXCLUSION: IonBalanceExclusion = 'none';
+
+// Ions without which the balance is usually meaningless
+export const MAJOR_IONS = ['calcium', 'magnesium', 'sodium', 'chloride', 'sulfate', 'bicarbonate'];
+
+export const getIonBalanceStatus = (id: IonBalanceStatus) =>
+  ION_BALANCE_STATUSES.find(s => s.id === id) ?? ION_BALANCE_STATUSES[0];
+
+/**
+ * Convert a concentration in mg/L to milliequivalents per litre
+ */
+export const toMilliequivalents = (value: number, parameter: ParameterDefinition): number =>
+  parameter.charge && parameter.molarMass ? value * Math.abs(parameter.charge) / parameter.molarMass : 0;
+
+/**
+ * Ion balance error IBE = (Σcations − Σanions) / (Σcations + Σanions) × 100, in meq/L.
+ * Non-detects count as zero. Undefined unless at least one cation and one anion were measured.
+ */
+export const calculateIonBalance = (
+  concentrations: MetalConcentrations,
+  censored: Record<string, CensoredValue> = {}
+): IonBalance | undefined => {
+  const ions = PARAMETERS.filter(p => p.charge && Number.isFinite(concentrations[p.key]));
+  const sumOf = (sign: number) => ions
+    .filter(p => Math.sign(p.charge) === sign && !censored[p.key])
+    .reduce((sum, p) => sum + toMilliequivalents(concentrations[p.key], p), 0);
+
+  if (!ions.some(p => p.charge > 0) || !ions.some(p => p.charge < 0)) return undefined;
+
+  const cations = sumOf(1);
+  const anions = sumOf(-1);
+  const error = cations + anions > 0 ? 100 * (cations - anions) / (cations + anions) : 0;
+  const status = ION_BALANCE_STATUSES.find(s => Math.abs(error) <= s.limit).id;
+
+  return {
+    cations,
+    anions,
+    error,
+    status,
+    missingMajorIons: MAJOR_IONS.filter(key => !ions.some(p => p.key === key)),
+  };
+};
+
+/**
+ * Whether a sample is left out of the analysis under the chosen exclusion
+ */
+export const isExcludedByIonBalance = (balance: IonBalance | undefined, exclusion: IonBalanceExclusion): boolean => {
+  if (!balance || exclusion === 'none') return false;
+  return exclusion === 'marginal' ? balance.status !== 'acceptable' : balance.status === 'unacceptable';
+};
+
+export const formatIonBalanceError = (error: number): string =>
+  `${error > 0 ? '+' : ''}${error.toFixed(1)}%`;
+
+export const describeMissingIons = (balance: IonBalance): string =>
+  balance.missingMajorIons.map(key => getParameter(key)?.symbol).join(', ');
@@ -0,0 +1,208 @@
+// Irrigation water suitability: sodicity and salinity indices, USSL and Wilcox classes
+
+import { getParameter } from "./parameters";
+import { toMilliequivalents } from "./ionBalance";
+import type { MetalConcentrations } from "./pollutionCalculations";
+
+export type IrrigationIndex = 'sar' | 'percentSodium' | 'rsc' | 'kellyRatio' | 'permeabilityIndex' | 'magnesiumHazard';
+
+export type IrrigationSeverity = 'safe' | 'moderate' | 'danger';
+
+export interface IrrigationClass {
+  label: string;
+  severity: IrrigationSeverity;
+}
+
+export interface IrrigationValue extends IrrigationClass {
+  value: number;
+}
+
+export interface UsslClass extends IrrigationClass {
+  salinity: number;  // 1–4 (C1–C4)
+  sodium: number;    // 1–4 (S1–S4)
+}
+
+export interface WilcoxClass extends IrrigationClass {
+  rank: number;      // Index into WILCOX_CLASSES
+}
+
+export interface IrrigationAssessment {
+  indices: Partial<Record<IrrigationIndex, IrrigationValue>>;  // Only indices whose ions were measured
+  ussl?: UsslClass;        // Needs EC and SAR
+  wilcox?: WilcoxClass;    // Needs EC and %Na
+  summary: IrrigationClass;  // Worst class across indices and diagrams
+}
+
+// Upper bound (inclusive) of each class, least to most severe
+interface IrrigationBand extends IrrigationClass {
+  max: number;
+}
+
+export const IRRIGATION_INDICES: { id: IrrigationIndex; label: string; shortLabel: string; formula: string; bands: IrrigationBand[] }[] = [
+  {
+    id: 'sar',
+    label: 'Sodium adsorption ratio',
+    shortLabel: 'SAR',
+    formula: 'Na / √((Ca + Mg) / 2)',
+    bands: [
+      { max: 10, label: 'Excellent', severity: 'safe' },
+      { max: 18, label: 'Good', severity: 'safe' },
+      { max: 26, label: 'Doubtful', severity: 'moderate' },
+      { max: Infinity, label: 'Unsuitable', severity: 'danger' },
+    ],
+  },
+  {
+    id: 'percentSodium',
+    label: 'Percent sodium',
+    shortLabel: '%Na',
+    formula: '(Na + K) / (Ca + Mg + Na + K) × 100',
+    bands: [
+      { max: 20, label: 'Excellent', severity: 'safe' },
+      { max: 40, label: 'Good', severity: 'safe' },
+      { max: 60, label: 'Permissible', severity: 'moderate' },
+      { max: 80, label: 'Doubtful', severity: 'moderate' },
+      { max: Infinity, label: 'Unsuitable', severity: 'danger' },
+    ],
+  },
+  {
+    id: 'rsc',
+    label: 'Residual sodium carbonate',
+    shortLabel: 'RSC',
+    formula: 'HCO3 − (Ca + Mg), meq/L',
+    bands: [
+      { max: 1.25, label: 'Safe', severity: 'safe' },
+      { max: 2.5, label: 'Marginal', severity: 'moderate' },
+      { max: Infinity, label: 'Unsuitable', severity: 'danger' },
+    ],
+  },
+  {
+    id: 'kellyRatio',
+    label: "Kelly's ratio",
+    shortLabel: 'KR',
+    formula: 'Na / (Ca + Mg)',
+    bands: [
+      { max: 1, label: 'Suitable', severity: 'safe' },
+      { max: Infinity, label: 'Unsuitable', severity: 'danger' },
+    ],
+  },
+  {
+    id: 'permeabilityIndex',
+    label: 'Permeability index',
+    shortLabel: 'PI',
+    formula: '(Na + √HCO3) / (Ca + Mg + Na) × 100',
+    // Doneen (1964): higher is better
+    bands: [
+      { max: 25, label: 'Class III — Unsuitable', severity: 'danger' },
+      { max: 75, label: 'Class II — Good', severity: 'safe' },
+      { max: Infinity, label: 'Class I — Excellent', severity: 'safe' },
+    ],
+  },
+  {
+    id: 'magnesiumHazard',
+    label: 'Magnesium hazard',
+    shortLabel: 'MH',
+    formula: 'Mg / (Ca + Mg) × 100',
+    bands: [
+      { max: 50, label: 'Suitable', severity: 'safe' },
+      { max: Infinity, label: 'Unsuitable', severity: 'danger' },
+    ],
+  },
+];
+
+// USSL (Richards, 1954) salinity classes C1–C4 by EC (µS/cm at 25 °C)
+export const USSL_SALINITY_LIMITS = [250, 750, 2250];
+
+/**
+ * Sodium hazard boundaries of the USSL diagram, SAR = a − b·log10(EC), between S1/S2, S2/S3 and S3/S4
+ */
+export const USSL_SODIUM_BOUNDARIES = [
+  { a: 18.87, b: 4.44 },
+  { a: 31.31, b: 6.66 },
+  { a: 43.75, b: 8.87 },
+];
+
+export const usslSodiumLimit = (boundary: { a: number; b: number }, ec: number): number =>
+  boundary.a - boundary.b * Math.log10(ec);
+
+const USSL_SEVERITY: IrrigationSeverity[] = ['safe', 'safe', 'moderate', 'danger'];
+
+// Wilcox (1955) classes by EC and percent sodium; a sample takes the worse of its two classes
+export const WILCOX_CLASSES: { label: string; maxEC: number; maxPercentSodium: number; color: string; severity: IrrigationSeverity }[] = [
+  { label: 'Excellent to good', maxEC: 250, maxPercentSodium: 20, color: '#15803d', severity: 'safe' },
+  { label: 'Good to permissible', maxEC: 750, maxPercentSodium: 40, color: '#65a30d', severity: 'safe' },
+  { label: 'Permissible to doubtful', maxEC: 2000, maxPercentSodium: 60, color: '#ca8a04', severity: 'moderate' },
+  { label: 'Doubtful to unsuitable', maxEC: 3000, maxPercentSodium: 80, color: '#ea580c', severity: 'moderate' },
+  { label: 'Unsuitable', maxEC: Infinity, maxPercentSodium: Infinity, color: '#dc2626', severity: 'danger' },
+];
+
+const SEVERITY_RANK: Record<IrrigationSeverity, number> = { safe: 0, moderate: 1, danger: 2 };
+
+export const getIrrigationIndex = (id: IrrigationIndex) =>
+  IRRIGATION_INDICES.find(index => index.id === id);
+
+const classify = (id: IrrigationIndex, value: number): IrrigationValue => {
+  const { bands } = getIrrigationIndex(id);
+  const { label, severity } = bands.find(band => value <= band.max) ?? bands[bands.length - 1];
+  return { value, label, severity };
+};
+
+export const classifyUssl = (ec: number, sar: number): UsslClass => {
+  const salinity = USSL_SALINITY_LIMITS.filter(limit => ec > limit).length + 1;
+  // The boundary lines are drawn from EC 100 µS/cm; lower conductivities use the EC 100 limits
+  const sodium = USSL_SODIUM_BOUNDARIES.filter(boundary => sar > usslSodiumLimit(boundary, Math.max(ec, 100))).length + 1;
+  const severity = SEVERITY_RANK[USSL_SEVERITY[salinity - 1]] >= SEVERITY_RANK[USSL_SEVERITY[sodium - 1]]
+    ? USSL_SEVERITY[salinity - 1]
+    : USSL_SEVERITY[sodium - 1];
+  return { label: `C${salinity}-S${sodium}`, salinity, sodium, severity };
+};
+
+export const classifyWilcox = (ec: number, percentSodium: number): WilcoxClass => {
+  const byEC = WILCOX_CLASSES.findIndex(c => ec <= c.maxEC);
+  const bySodium = WILCOX_CLASSES.findIndex(c => percentSodium <= c.maxPercentSodium);
+  const rank = Math.max(byEC, bySodium);
+  const { label, severity } = WILCOX_CLASSES[rank];
+  return { label, severity, rank };
+};
+
+export const IRRIGATION_SUMMARY_LABELS: Record<IrrigationSeverity, string> = {
+  safe: 'Suitable',
+  moderate: 'Use with care',
+  danger: 'Unsuitable',
+};
+
+/**
+ * Assess irrigation suitability from major ions (converted to meq/L) and EC.
+ * Needs Ca, Mg and Na; K counts as zero when not measured. Undefined without the three cations.
+ */
+export const assessIrrigation = (concentrations: MetalConcentrations): IrrigationAssessment | undefined => {
+  const meq = (key: string): number | undefined =>
+    Number.isFinite(concentrations[key]) ? toMilliequivalents(concentrations[key], getParameter(key)) : undefined;
+
+  const ca = meq('calcium');
+  const mg = meq('magnesium');
+  const na = meq('sodium');
+  const k = meq('potassium') ?? 0;
+  const hco3 = meq('bicarbonate');
+  const ec = concentrations.ec;
+  if (ca === undefined || mg === undefined || na === undefined || ca + mg + na === 0) return undefined;
+
+  const indices: Partial<Record<IrrigationIndex, IrrigationValue>> = {
+    sar: classify('sar', ca + mg > 0 ? na / Math.sqrt((ca + mg) / 2) : 0),
+    percentSodium: classify('percentSodium', 100 * (na + k) / (ca + mg + na + k)),
+    kellyRatio: classify('kellyRatio', ca + mg > 0 ? na / (ca + mg) : 0),
+    magnesiumHazard: classify('magnesiumHazard', ca + mg > 0 ? 100 * mg / (ca + mg) : 0),
+  };
+  if (hco3 !== undefined) {
+    indices.rsc = classify('rsc', hco3 - (ca + mg));
+    indices.permeabilityIndex = classify('permeabilityIndex', 100 * (na + Math.sqrt(hco3)) / (ca + mg + na));
+  }
+
+  const ussl = Number.isFinite(ec) ? classifyUssl(ec, indices.sar.value) : undefined;
+  const wilcox = Number.isFinite(ec) ? classifyWilcox(ec, indices.percentSodium.value) : undefined;
+
+  const worst = [...Object.values(indices), ussl, wilcox]
+    .filter(Boolean)
+    .reduce<IrrigationSeverity>((max, c) => SEVERITY_RANK[c.severity] > SEVERITY_RANK[max] ? c.severity : max, 'safe');
+
+  return { indices, ussl, wilcox, summary: { label: IRRIGATION_SUMMARY_LABELS[worst], severity: worst } };
+};
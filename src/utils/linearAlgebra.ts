@@ -0,0 +1,94 @@
+// Small dense-matrix helpers for the multivariate analyses; matrices are arrays of rows
+
+export type Matrix = number[][];
+
+export const transpose = (a: Matrix): Matrix =>
+  a[0] ? a[0].map((_, j) => a.map(row => row[j])) : [];
+
+export const multiply = (a: Matrix, b: Matrix): Matrix =>
+  a.map(row => b[0].map((_, j) => row.reduce((total, value, k) => total + value * b[k][j], 0)));
+
+export const identity = (size: number): Matrix =>
+  Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)));
+
+/**
+ * Eigenvalues and eigenvectors of a symmetric matrix (cyclic Jacobi rotations), sorted by descending eigenvalue.
+ * Eigenvectors are the columns of `vectors`.
+ */
+export const symmetricEigen = (a: Matrix): { values: number[]; vectors: Matrix } => {
+  const size = a.length;
+  const m = a.map(row => [...row]);
+  const v = identity(size);
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) offDiagonal += m[p][q] ** 2;
+    }
+    if (offDiagonal < 1e-20) break;
+
+    for (let p = 0; p < size; p++) {
+      for (let q = p + 1; q < size; q++) {
+        if (Math.abs(m[p][q]) < 1e-300) continue;
+        const theta = (m[q][q] - m[p][p]) / (2 * m[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < size; k++) {
+          const mkp = m[k][p];
+          const mkq = m[k][q];
+          m[k][p] = c * mkp - s * mkq;
+          m[k][q] = s * mkp + c * mkq;
+        }
+        for (let k = 0; k < size; k++) {
+          const mpk = m[p][k];
+          const mqk = m[q][k];
+          m[p][k] = c * mpk - s * mqk;
+          m[q][k] = s * mpk + c * mqk;
+        }
+        for (let k = 0; k < size; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = m.map((row, i) => i).sort((i, j) => m[j][j] - m[i][i]);
+  return {
+    values: order.map(i => m[i][i]),
+    vectors: v.map(row => order.map(i => row[i])),
+  };
+};
+
+/**
+ * Inverse and log-determinant by Gauss–Jordan elimination with partial pivoting; undefined when singular
+ */
+export const invert = (a: Matrix): { inverse: Matrix; logDeterminant: number } | undefined => {
+  const size = a.length;
+  const m = a.map((row, i) => [...row, ...identity(size)[i]]);
+  let logDeterminant = 0;
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-10) return undefined;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    const divisor = m[col][col];
+    logDeterminant += Math.log(Math.abs(divisor));
+    for (let k = 0; k < 2 * size; k++) m[col][k] /= divisor;
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue;
+      const factor = m[row][col];
+      if (factor === 0) continue;
+      for (let k = 0; k < 2 * size; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  return { inverse: m.map(row => row.slice(size)), logDeterminant };
+};
@@ -0,0 +1,117 @@
+// Colouring layers for the sample map: each assigns a result to a legend class
+
+import { getResultsScheme } from "./classification";
+import { WQI_CLASSES, WQI_METHODS } from "./wqi";
+import { FACIES_TYPES, getFaciesType } from "./facies";
+import { componentLabel } from "./pca";
+import { clusterLabel } from "./clustering";
+import { TREND_DIRECTIONS, getTrendDirection, getWellDirection } from "./trends";
+import { CampaignComparison, STATUS_CHANGES, getResultPair, getStatusChange } from "./comparison";
+import type { SampleResult } from "@/types/sample";
+
+export interface MapLegendEntry {
+  id: string;
+  label: string;
+  color: string;
+}
+
+export interface MapColorLayer {
+  id: string;
+  label: string;
+  legend: MapLegendEntry[];
+  getClass: (result: SampleResult) => MapLegendEntry | undefined;  // Undefined when the sample was not assessed
+}
+
+// Marker colour for samples a layer does not cover
+export const NOT_ASSESSED_COLOR = '#9ca3af';
+
+// Diverging classes for standardised component scores (mean 0, SD 1)
+const SCORE_CLASSES: (MapLegendEntry & { max: number })[] = [
+  { id: 'very-low', label: '< −1.5', color: '#2563eb', max: -1.5 },
+  { id: 'low', label: '−1.5 to −0.5', color: '#93c5fd', max: -0.5 },
+  { id: 'average', label: '−0.5 to 0.5', color: '#e5e7eb', max: 0.5 },
+  { id: 'high', label: '0.5 to 1.5', color: '#fca5a5', max: 1.5 },
+  { id: 'very-high', label: '> 1.5', color: '#dc2626', max: Infinity },
+];
+
+/**
+ * Layers available for a set of results; contamination status is always first. With a campaign comparison, a layer
+ * shows how each paired sample's status changed.
+ */
+export const getMapColorLayers = (results: SampleResult[], comparison?: CampaignComparison): MapColorLayer[] => {
+  const scheme = getResultsScheme(results);
+  const layers: MapColorLayer[] = [
+    {
+      id: 'status',
+      label: 'Contamination status',
+      legend: scheme.classes,
+      getClass: result => scheme.classes.find(c => c.id === result.indices.status),
+    },
+  ];
+
+  if (results.some(r => r.wqi)) {
+    WQI_METHODS.forEach(method => layers.push({
+      id: `wqi-${method.id}`,
+      label: method.label,
+      legend: WQI_CLASSES,
+      getClass: result => result.wqi && WQI_CLASSES[result.wqi.scores[method.id].rank],
+    }));
+  }
+
+  if (results.some(r => r.facies)) {
+    layers.push({
+      id: 'facies',
+      label: 'Hydrochemical facies',
+      legend: FACIES_TYPES,
+      getClass: result => result.facies && getFaciesType(result.facies.type),
+    });
+  }
+
+  const pcaModel = results.find(r => r.pca)?.pca.model;
+  if (pcaModel) {
+    Array.from({ length: pcaModel.retained }, (_, component) => layers.push({
+      id: `pca-${component}`,
+      label: `${componentLabel(component)} score (${pcaModel.rotatedVariance[component].toFixed(1)}% of variance)`,
+      legend: SCORE_CLASSES,
+      getClass: result => result.pca && SCORE_CLASSES.find(c => result.pca.scores[component] <= c.max),
+    }));
+  }
+
+  const clusterModel = results.find(r => r.cluster)?.cluster.model;
+  if (clusterModel) {
+    const legend = clusterModel.profiles.map((profile, id) => ({
+      id: `cluster-${id}`,
+      label: `${clusterLabel(id)} (n = ${profile.size})`,
+      color: profile.color,
+    }));
+    layers.push({
+      id: 'cluster',
+      label: 'Hierarchical cluster',
+      legend,
+      getClass: result => result.cluster && legend[result.cluster.id],
+    });
+  }
+
+  if (results.some(r => r.trend)) {
+    layers.push({
+      id: 'trend',
+      label: 'Temporal trend of the well',
+      legend: TREND_DIRECTIONS,
+      getClass: result => result.trend && getTrendDirection(getWellDirection(result.trend.model, result.trend.wellId)),
+    });
+  }
+
+  if (comparison?.pairs.length) {
+    layers.push({
+      id: 'change',
+      label: 'Change since reference campaign',
+      legend: STATUS_CHANGES,
+      getClass: result => {
+        const pair = getResultPair(comparison, result);
+        return pair && getStatusChange(pair.statusChange);
+      },
+    });
+  }
+
+  return layers;
+};
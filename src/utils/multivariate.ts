@@ -0,0 +1,59 @@
+// Data preparation shared by the multivariate analyses (PCA, cluster analysis)
+
+import { getMeasuredParameters } from "./parameters";
+import { mean } from "./statistics";
+import type { Matrix } from "./linearAlgebra";
+import type { MetalConcentrations } from "./pollutionCalculations";
+
+export interface VariableSelection {
+  logTransform: boolean;         // log10 before standardising; pH is already logarithmic and stays untransformed
+  excludedParameters: string[];  // Registry keys left out of the analysis
+}
+
+export interface StandardisedData {
+  parameters: string[];   // Registry keys, in column order
+  z: Matrix;              // Complete cases × parameters, each column with mean 0 and SD 1
+  complete: boolean[];    // Per input sample, whether it is a row of z
+}
+
+// Share of samples a parameter must be measured in to enter an analysis; samples missing any of them are dropped
+export const MIN_COVERAGE = 0.8;
+
+/**
+ * Z-scores of the complete cases over the selected parameters. Parameters below the coverage threshold or constant
+ * across the complete cases are left out; values that cannot be log-transformed count as missing.
+ */
+export const standardiseSamples = (
+  samples: { concentrations: MetalConcentrations }[],
+  selection: VariableSelection
+): StandardisedData => {
+  const transform = (key: string, value: number) =>
+    selection.logTransform && key !== 'ph' ? (value > 0 ? Math.log10(value) : NaN) : value;
+
+  const candidates = getMeasuredParameters(samples)
+    .filter(parameter => !selection.excludedParameters.includes(parameter.key))
+    .filter(parameter =>
+      samples.filter(s => Number.isFinite(s.concentrations[parameter.key])).length >= MIN_COVERAGE * samples.length)
+    .map(parameter => parameter.key);
+
+  const rows = samples.map(s => candidates.map(key => transform(key, s.concentrations[key])));
+  const complete = rows.map(row => row.every(Number.isFinite));
+  const data = rows.filter((_, i) => complete[i]);
+  const n = data.length;
+
+  // Constant parameters carry no information
+  const columns = candidates
+    .map((key, j) => {
+      const values = data.map(row => row[j]);
+      const average = mean(values);
+      const sd = Math.sqrt(values.reduce((total, value) => total + (value - average) ** 2, 0) / (n - 1));
+      return { key, j, average, sd };
+    })
+    .filter(column => column.sd > 0);
+
+  return {
+    parameters: columns.map(column => column.key),
+    z: data.map(row => columns.map(column => (row[column.j] - column.average) / column.sd)),
+    complete,
+  };
+};
@@ -0,0 +1,212 @@
+// Screening of uploaded concentrations for statistical outliers and suspect values, with analyst review decisions
+
+import { getMeasuredParameters, getParameter } from "./parameters";
+import { mean, median, quantile, studentTQuantile } from "./statistics";
+import { calculateIonBalance } from "./ionBalance";
+import type { SampleData } from "@/types/sample";
+
+export type OutlierTest = 'iqr' | 'mad' | 'grubbs' | 'dixon';
+
+/**
+ * What the analyst decided for a flagged value:
+ * - accept: keep the value as reported
+ * - correct: replace it, e.g. after checking the lab sheet for a unit or decimal slip
+ * - exclude: leave the value out of the analysis; the rest of the sample is kept
+ */
+export type OutlierAction = 'accept' | 'correct' | 'exclude';
+
+export interface OutlierFlag {
+  sampleId: string;
+  parameter: string;      // Registry key
+  value: number;          // As uploaded, canonical units
+  median: number;         // Of the parameter's detected values, for comparison
+  direction: 'high' | 'low';
+  tests: OutlierTest[];   // Tests that flagged the value
+}
+
+export interface OutlierDecision {
+  action: OutlierAction;
+  correctedValue?: number;  // Canonical units; a correction without a value keeps the reported one
+}
+
+// Decisions keyed by outlierKey
+export type OutlierDecisions = Record<string, OutlierDecision>;
+
+// A flag and what was done with it, as recorded on the results of a run
+export interface ReviewedOutlier extends OutlierFlag {
+  action: OutlierAction | 'pending';
+  correctedValue?: number;
+}
+
+export const OUTLIER_TESTS: { id: OutlierTest; label: string; description: string }[] = [
+  { id: 'iqr', label: 'IQR', description: 'Outside the Tukey fences Q1 − 1.5·IQR and Q3 + 1.5·IQR' },
+  { id: 'mad', label: 'MAD', description: 'Modified z-score 0.6745·(x − median) / MAD beyond ±3.5 (Iglewicz & Hoaglin, 1993)' },
+  { id: 'grubbs', label: 'Grubbs', description: 'Iterative two-sided Grubbs test at α = 0.05; assumes normality of the log values' },
+  { id: 'dixon', label: 'Dixon Q', description: "Dixon's Q (r10) at 95% confidence on the lowest and highest value; 3 to 10 values only" },
+];
+
+export const OUTLIER_ACTIONS: { id: OutlierAction; label: string; outcome: string }[] = [
+  { id: 'accept', label: 'Accept', outcome: 'Accepted' },
+  { id: 'correct', label: 'Correct', outcome: 'Corrected' },
+  { id: 'exclude', label: 'Exclude', outcome: 'Excluded' },
+];
+
+// Fewest detected values a parameter needs to be screened
+const MIN_VALUES = 3;
+
+const GRUBBS_ALPHA = 0.05;
+
+// Critical Q (r10) at 95% confidence by sample size (Rorabacher, 1991)
+const DIXON_CRITICAL: Record<number, number> = {
+  3: 0.970, 4: 0.829, 5: 0.710, 6: 0.625, 7: 0.568, 8: 0.526, 9: 0.493, 10: 0.466,
+};
+
+export const outlierKey = (sampleId: string, parameter: string): string => `${sampleId}|${parameter}`;
+
+export const getOutlierTest = (id: OutlierTest) =>
+  OUTLIER_TESTS.find(t => t.id === id) ?? OUTLIER_TESTS[0];
+
+export const getOutlierAction = (id: OutlierAction) =>
+  OUTLIER_ACTIONS.find(a => a.id === id) ?? OUTLIER_ACTIONS[0];
+
+// Each test returns the indices of the values it flags
+
+const iqrOutliers = (values: number[]): number[] => {
+  const q1 = quantile(values, 0.25);
+  const q3 = quantile(values, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  return values.flatMap((value, i) => (value < q1 - fence || value > q3 + fence ? [i] : []));
+};
+
+const madOutliers = (values: number[]): number[] => {
+  const center = median(values);
+  const mad = median(values.map(value => Math.abs(value - center)));
+  if (mad === 0) return [];
+  return values.flatMap((value, i) => (Math.abs(0.6745 * (value - center) / mad) > 3.5 ? [i] : []));
+};
+
+const grubbsOutliers = (values: number[]): number[] => {
+  const remaining = values.map((value, index) => ({ value, index }));
+  const flagged: number[] = [];
+  while (remaining.length >= MIN_VALUES) {
+    const n = remaining.length;
+    const average = mean(remaining.map(r => r.value));
+    const sd = Math.sqrt(remaining.reduce((total, r) => total + (r.value - average) ** 2, 0) / (n - 1));
+    if (sd === 0) break;
+    const farthest = remaining.reduce((max, r) => (Math.abs(r.value - average) > Math.abs(max.value - average) ? r : max));
+    const g = Math.abs(farthest.value - average) / sd;
+    const t = studentTQuantile(GRUBBS_ALPHA / n, n - 2);
+    const critical = ((n - 1) / Math.sqrt(n)) * Math.sqrt(t * t / (n - 2 + t * t));
+    if (g <= critical) break;
+    flagged.push(farthest.index);
+    remaining.splice(remaining.indexOf(farthest), 1);
+  }
+  return flagged;
+};
+
+const dixonOutliers = (values: number[]): number[] => {
+  const critical = DIXON_CRITICAL[values.length];
+  if (!critical) return [];
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const sorted = order.map(i => values[i]);
+  const range = sorted[sorted.length - 1] - sorted[0];
+  if (range === 0) return [];
+  const low = (sorted[1] - sorted[0]) / range;
+  const high = (sorted[sorted.length - 1] - sorted[sorted.length - 2]) / range;
+  return [
+    ...(low > critical ? [order[0]] : []),
+    ...(high > critical ? [order[order.length - 1]] : []),
+  ];
+};
+
+const TESTS: Record<OutlierTest, (values: number[]) => number[]> = {
+  iqr: iqrOutliers,
+  mad: madOutliers,
+  grubbs: grubbsOutliers,
+  dixon: dixonOutliers,
+};
+
+/**
+ * Screen every measured parameter's detected values on the log10 scale (pH as reported); non-detects and
+ * non-positive values are not screened
+ */
+export const detectOutliers = (samples: SampleData[]): OutlierFlag[] =>
+  getMeasuredParameters(samples).flatMap(parameter => {
+    const screened = samples.filter(s =>
+      !s.censored[parameter.key] &&
+      Number.isFinite(s.concentrations[parameter.key]) &&
+      (parameter.key === 'ph' || s.concentrations[parameter.key] > 0));
+    if (screened.length < MIN_VALUES) return [];
+
+    const raw = screened.map(s => s.concentrations[parameter.key]);
+    const values = parameter.key === 'ph' ? raw : raw.map(Math.log10);
+    const center = median(raw);
+    const testsByIndex = new Map<number, OutlierTest[]>();
+    (Object.keys(TESTS) as OutlierTest[]).forEach(test => {
+      TESTS[test](values).forEach(i => testsByIndex.set(i, [...(testsByIndex.get(i) ?? []), test]));
+    });
+
+    return [...testsByIndex.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([i, tests]): OutlierFlag => ({
+        sampleId: screened[i].sampleId,
+        parameter: parameter.key,
+        value: raw[i],
+        median: center,
+        direction: raw[i] >= center ? 'high' : 'low',
+        tests,
+      }));
+  });
+
+/**
+ * The flags with the analyst's decisions; flags without a decision are pending and keep their value
+ */
+export const reviewOutliers = (flags: OutlierFlag[], decisions: OutlierDecisions): ReviewedOutlier[] =>
+  flags.map(flag => {
+    const decision = decisions[outlierKey(flag.sampleId, flag.parameter)];
+    return decision ? { ...flag, action: decision.action, correctedValue: decision.correctedValue } : { ...flag, action: 'pending' };
+  });
+
+/**
+ * Samples with corrections and exclusions applied. Corrected values replace the uploaded ones; excluded values are
+ * removed, so the parameter counts as not measured in that sample. The ion balance of changed samples is recomputed.
+ */
+export const applyOutlierDecisions = (samples: SampleData[], decisions: OutlierDecisions): SampleData[] =>
+  samples.map(sample => {
+    const changes = Object.keys(sample.concentrations).filter(key => {
+      const decision = decisions[outlierKey(sample.sampleId, key)];
+      return decision?.action === 'exclude' ||
+        (decision?.action === 'correct' && Number.isFinite(decision.correctedValue));
+    });
+    if (!changes.length) return sample;
+
+    const concentrations = { ...sample.concentrations };
+    changes.forEach(key => {
+      const decision = decisions[outlierKey(sample.sampleId, key)];
+      if (decision.action === 'exclude') delete concentrations[key];
+      else concentrations[key] = decision.correctedValue;
+    });
+    return { ...sample, concentrations, ionBalance: calculateIonBalance(concentrations, sample.censored) };
+  });
+
+/**
+ * One-line description of a reviewed value, for tables and exports
+ */
+export const describeReviewedOutlier = (outlier: ReviewedOutlier): string => {
+  const parameter = getParameter(outlier.parameter);
+  const name = parameter?.name ?? outlier.parameter;
+  const unit = parameter?.unit ? ` ${parameter.unit}` : '';
+  const value = `${Number(outlier.value.toPrecision(4))}${unit}`;
+  switch (outlier.action) {
+    case 'correct':
+      return Number.isFinite(outlier.correctedValue)
+        ? `${name} corrected from ${value} to ${Number(outlier.correctedValue.toPrecision(4))}${unit}`
+        : `${name} ${value} (correction pending)`;
+    case 'exclude':
+      return `${name} ${value} excluded`;
+    case 'accept':
+      return `${name} ${value} accepted`;
+    default:
+      return `${name} ${value} not reviewed`;
+  }
+};
@@ -0,0 +1,105 @@
+// Central registry of water-quality parameters understood by Aqualyx
+
+export type ParameterCategory = 'heavy-metal' | 'major-ion' | 'physico-chemical';
+
+// US EPA toxicity values for human health risk assessment (see healthRisk.ts)
+export interface ToxicityValues {
+  rfdOral: number;      // Oral reference dose (mg/kg/day)
+  kp: number;           // Dermal permeability coefficient in water (cm/h)
+  absGi: number;        // Gastrointestinal absorption factor (dimensionless)
+  sfOral?: number;      // Oral cancer slope factor ((mg/kg/day)⁻¹), carcinogens only
+}
+
+export interface ParameterDefinition {
+  key: string;          // Canonical field name used throughout the app
+  symbol: string;       // Chemical symbol, e.g. "Pb"
+  name: string;         // Display name, e.g. "Lead"
+  molarMass?: number;   // g/mol, for converting molar concentrations; absent for bulk properties such as TDS
+  charge?: number;      // Ionic charge of major ions, for milliequivalents and the ion balance
+  unit: string;         // Canonical unit every value is stored in; empty for dimensionless pH
+  standard: number;     // Default drinking-water limit in `unit` (WHO guideline)
+  weight: number;       // Relative toxicity weight used by the simplified HPI variant (heavy metals only)
+  detectionLimit: number;  // Typical reporting limit in `unit`, assumed when a non-detect is reported without one
+  aliases: string[];    // Extra header spellings recognised on upload
+  category: ParameterCategory;
+  toxicity?: ToxicityValues;
+}
+
+/**
+ * Every parameter the upload, indices, table, map, charts and exports know about.
+ * Adding an entry here is all that is needed for a new parameter to flow through the app.
+ *
+ * Toxicity values follow US EPA IRIS/RAIS; chromium is assessed as Cr(VI) and the
+ * Cd, Cr(VI) and Pb slope factors are the California OEHHA values.
+ *
+ * Major ions and physico-chemical parameters feed the water quality indices (see wqi.ts). Where WHO sets no
+ * health-based guideline (EC, hardness, Ca, Mg, K, HCO3) the default is the value commonly adopted in WQI studies.
+ * Total hardness is expressed as CaCO3.
+ */
+export const PARAMETERS: ParameterDefinition[] = [
+  { key: 'lead', symbol: 'Pb', name: 'Lead', molarMass: 207.2, unit: 'mg/L', standard: 0.01, weight: 0.9, detectionLimit: 0.001, aliases: [], category: 'heavy-metal', toxicity: { rfdOral: 0.0014, kp: 0.0001, absGi: 1, sfOral: 0.0085 } },
+  { key: 'cadmium', symbol: 'Cd', name: 'Cadmium', molarMass: 112.41, unit: 'mg/L', standard: 0.003, weight: 1.0, detectionLimit: 0.0005, aliases: [], category: 'heavy-metal', toxicity: { rfdOral: 0.0005, kp: 0.001, absGi: 0.025, sfOral: 0.38 } },
+  { key: 'arsenic', symbol: 'As', name: 'Arsenic', molarMass: 74.922, unit: 'mg/L', standard: 0.01, weight: 1.0, detectionLimit: 0.001, aliases: [], category: 'heavy-metal', toxicity: { rfdOral: 0.0003, kp: 0.001, absGi: 1, sfOral: 1.5 } },
+  { key: 'chromium', symbol: 'Cr', name: 'Chromium', molarMass: 51.996, unit: 'mg/L', standard: 0.05, weight: 0.8, detectionLimit: 0.001, aliases: ['totalchromium', 'crtotal'], category: 'heavy-metal', toxicity: { rfdOral: 0.003, kp: 0.002, absGi: 0.025, sfOral: 0.5 } },
+  { key: 'iron', symbol: 'Fe', name: 'Iron', molarMass: 55.845, unit: 'mg/L', standard: 0.3, weight: 0.3, detectionLimit: 0.01, aliases: ['totaliron', 'fetotal'], category: 'heavy-metal', toxicity: { rfdOral: 0.7, kp: 0.001, absGi: 1 } },
+  { key: 'manganese', symbol: 'Mn', name: 'Manganese', molarMass: 54.938, unit: 'mg/L', standard: 0.4, weight: 0.4, detectionLimit: 0.001, aliases: [], category: 'heavy-metal', toxicity: { rfdOral: 0.024, kp: 0.001, absGi: 0.04 } },
+  { key: 'zinc', symbol: 'Zn', name: 'Zinc', molarMass: 65.38, unit: 'mg/L', standard: 3, weight: 0.2, detectionLimit: 0.005, aliases: [], category: 'heavy-metal', toxicity: { rfdOral: 0.3, kp: 0.0006, absGi: 1 } },
+  { key: 'copper', symbol: 'Cu', name: 'Copper', molarMass: 63.546, unit: 'mg/L', standard: 2, weight: 0.4, detectionLimit: 0.001, aliases: [], category: 'heavy-metal', toxicity: { rfdOral: 0.04, kp: 0.001, absGi: 1 } },
+  { key: 'nickel', symbol: 'Ni', name: 'Nickel', molarMass: 58.693, unit: 'mg/L', standard: 0.07, weight: 0.7, detectionLimit: 0.001, aliases: [], category: 'heavy-metal', toxicity: { rfdOral: 0.02, kp: 0.0002, absGi: 0.04 } },
+  { key: 'mercury', symbol: 'Hg', name: 'Mercury', molarMass: 200.59, unit: 'mg/L', standard: 0.006, weight: 1.0, detectionLimit: 0.0001, aliases: [], category: 'heavy-metal', toxicity: { rfdOral: 0.0003, kp: 0.001, absGi: 0.07 } },
+  { key: 'selenium', symbol: 'Se', name: 'Selenium', molarMass: 78.971, unit: 'mg/L', standard: 0.04, weight: 0.6, detectionLimit: 0.001, aliases: [], category: 'heavy-metal', toxicity: { rfdOral: 0.005, kp: 0.001, absGi: 1 } },
+  { key: 'uranium', symbol: 'U', name: 'Uranium', molarMass: 238.03, unit: 'mg/L', standard: 0.03, weight: 0.8, detectionLimit: 0.0001, aliases: [], category: 'heavy-metal', toxicity: { rfdOral: 0.0002, kp: 0.001, absGi: 1 } },
+  { key: 'ph', symbol: 'pH', name: 'pH', unit: '', standard: 8.5, weight: 0, detectionLimit: 0, aliases: [], category: 'physico-chemical' },
+  { key: 'ec', symbol: 'EC', name: 'Electrical Conductivity', unit: 'µS/cm', standard: 1500, weight: 0, detectionLimit: 1, aliases: ['conductivity', 'specificconductance', 'spc'], category: 'physico-chemical' },
+  { key: 'tds', symbol: 'TDS', name: 'Total Dissolved Solids', unit: 'mg/L', standard: 1000, weight: 0, detectionLimit: 1, aliases: ['dissolvedsolids'], category: 'physico-chemical' },
+  { key: 'hardness', symbol: 'TH', name: 'Total Hardness', molarMass: 100.09, unit: 'mg/L', standard: 500, weight: 0, detectionLimit: 1, aliases: ['hardness', 'thascaco3', 'hardnessascaco3', 'totalhardnessascaco3'], category: 'physico-chemical' },
+  { key: 'calcium', symbol: 'Ca', name: 'Calcium', molarMass: 40.078, charge: 2, unit: 'mg/L', standard: 75, weight: 0, detectionLimit: 0.1, aliases: [], category: 'major-ion' },
+  { key: 'magnesium', symbol: 'Mg', name: 'Magnesium', molarMass: 24.305, charge: 2, unit: 'mg/L', standard: 50, weight: 0, detectionLimit: 0.1, aliases: [], category: 'major-ion' },
+  { key: 'sodium', symbol: 'Na', name: 'Sodium', molarMass: 22.99, charge: 1, unit: 'mg/L', standard: 200, weight: 0, detectionLimit: 0.1, aliases: [], category: 'major-ion' },
+  { key: 'potassium', symbol: 'K', name: 'Potassium', molarMass: 39.098, charge: 1, unit: 'mg/L', standard: 12, weight: 0, detectionLimit: 0.1, aliases: [], category: 'major-ion' },
+  { key: 'chloride', symbol: 'Cl', name: 'Chloride', molarMass: 35.45, charge: -1, unit: 'mg/L', standard: 250, weight: 0, detectionLimit: 0.5, aliases: [], category: 'major-ion' },
+  { key: 'sulfate', symbol: 'SO4', name: 'Sulfate', molarMass: 96.06, charge: -2, unit: 'mg/L', standard: 250, weight: 0, detectionLimit: 0.5, aliases: ['sulphate'], category: 'major-ion' },
+  { key: 'nitrate', symbol: 'NO3', name: 'Nitrate', molarMass: 62.004, charge: -1, unit: 'mg/L', standard: 50, weight: 0, detectionLimit: 0.1, aliases: [], category: 'major-ion' },
+  { key: 'fluoride', symbol: 'F', name: 'Fluoride', molarMass: 18.998, charge: -1, unit: 'mg/L', standard: 1.5, weight: 0, detectionLimit: 0.02, aliases: [], category: 'major-ion' },
+  { key: 'bicarbonate', symbol: 'HCO3', name: 'Bicarbonate', molarMass: 61.017, charge: -1, unit: 'mg/L', standard: 500, weight: 0, detectionLimit: 1, aliases: [], category: 'major-ion' },
+];
+
+export const getParameter = (key: string): ParameterDefinition | undefined =>
+  PARAMETERS.find(p => p.key === key);
+
+/**
+ * Normalise a column header for matching: drop bracketed units, lowercase, strip punctuation
+ */
+export const normalizeHeader = (header: string): string =>
+  header
+    .replace(/\(.*?\)|\[.*?\]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+/**
+ * Find the registered parameter a column header refers to (exact match on name, symbol or alias)
+ */
+export const matchParameterHeader = (header: string): ParameterDefinition | undefined => {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return undefined;
+
+  return PARAMETERS.find(p =>
+    [p.key, p.name, p.symbol, ...p.aliases].some(name => normalizeHeader(name) === normalized)
+  );
+};
+
+/**
+ * Registered parameters that have at least one value in the given samples, in registry order,
+ * optionally limited to the given categories
+ */
+export const getMeasuredParameters = (
+  samples: { concentrations: Record<string, number> }[],
+  categories?: ParameterCategory[]
+): ParameterDefinition[] =>
+  PARAMETERS.filter(p =>
+    (!categories || categories.includes(p.category)) &&
+    samples.some(s => Number.isFinite(s.concentrations[p.key]))
+  );
+
+export const formatParameterLabel = (parameter: ParameterDefinition): string =>
+  parameter.unit ? `${parameter.name} (${parameter.unit})` : parameter.name;
@@ -0,0 +1,190 @@
+// Principal component analysis with varimax rotation, for apportioning contamination sources
+
+import { Matrix, invert, multiply, symmetricEigen, transpose } from "./linearAlgebra";
+import { VariableSelection, standardiseSamples } from "./multivariate";
+import { chiSquarePValue } from "./statistics";
+import type { MetalConcentrations } from "./pollutionCalculations";
+
+/**
+ * How many components to keep:
+ * - kaiser: components with an eigenvalue above 1
+ * - fixed: the number in PcaSettings.components
+ */
+export type PcaRetention = 'kaiser' | 'fixed';
+
+export interface PcaSettings extends VariableSelection {
+  retention: PcaRetention;
+  components: number;  // Used when retention is fixed
+}
+
+export interface BartlettTest {
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+}
+
+export interface PcaModel {
+  parameters: string[];          // Registry keys, in loading row order
+  sampleCount: number;           // Complete cases used
+  settings: PcaSettings;
+  eigenvalues: number[];         // Of the correlation matrix, descending
+  explainedVariance: number[];   // Percent of total variance per unrotated component
+  retained: number;
+  loadings: Matrix;              // Varimax-rotated loadings, parameters × retained components
+  rotatedVariance: number[];     // Percent of total variance per rotated component
+  communalities: number[];       // Per parameter
+  kmo?: number;                  // Undefined when the correlation matrix is singular
+  kmoPerParameter?: number[];
+  bartlett?: BartlettTest;       // Undefined when the correlation matrix is singular
+}
+
+export interface PcaSampleScores {
+  model: PcaModel;   // Shared by every sample of the run
+  scores: number[];  // Rotated component scores (regression method), one per retained component
+}
+
+export const DEFAULT_PCA: PcaSettings = {
+  logTransform: true,
+  retention: 'kaiser',
+  components: 2,
+  excludedParameters: [],
+};
+
+// Kaiser (1974) labels for the Kaiser–Meyer–Olkin measure of sampling adequacy
+export const KMO_CLASSES: { min: number; label: string; severity: 'safe' | 'moderate' | 'danger' }[] = [
+  { min: 0.9, label: 'Marvellous', severity: 'safe' },
+  { min: 0.8, label: 'Meritorious', severity: 'safe' },
+  { min: 0.7, label: 'Middling', severity: 'safe' },
+  { min: 0.6, label: 'Mediocre', severity: 'moderate' },
+  { min: 0.5, label: 'Miserable', severity: 'moderate' },
+  { min: -Infinity, label: 'Unacceptable', severity: 'danger' },
+];
+
+export const classifyKmo = (kmo: number) =>
+  KMO_CLASSES.find(c => kmo >= c.min) ?? KMO_CLASSES[KMO_CLASSES.length - 1];
+
+export const componentLabel = (index: number): string => `PC${index + 1}`;
+
+// Loadings at or above this magnitude are treated as significant when interpreting a component
+export const SIGNIFICANT_LOADING = 0.5;
+
+/**
+ * Varimax rotation with Kaiser normalisation (pairwise rotations until convergence)
+ */
+const varimax = (loadings: Matrix): Matrix => {
+  const p = loadings.length;
+  const k = loadings[0].length;
+  if (k < 2) return loadings;
+
+  const norms = loadings.map(row => Math.sqrt(row.reduce((total, value) => total + value * value, 0)) || 1);
+  const a = loadings.map((row, i) => row.map(value => value / norms[i]));
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let maxAngle = 0;
+    for (let j = 0; j < k - 1; j++) {
+      for (let l = j + 1; l < k; l++) {
+        let sumU = 0;
+        let sumV = 0;
+        let sumC = 0;
+        let sumD = 0;
+        for (let i = 0; i < p; i++) {
+          const u = a[i][j] ** 2 - a[i][l] ** 2;
+          const v = 2 * a[i][j] * a[i][l];
+          sumU += u;
+          sumV += v;
+          sumC += u * u - v * v;
+          sumD += 2 * u * v;
+        }
+        const angle = Math.atan2(sumD - 2 * sumU * sumV / p, sumC - (sumU * sumU - sumV * sumV) / p) / 4;
+        maxAngle = Math.max(maxAngle, Math.abs(angle));
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        for (let i = 0; i < p; i++) {
+          const x = a[i][j];
+          const y = a[i][l];
+          a[i][j] = x * cos + y * sin;
+          a[i][l] = -x * sin + y * cos;
+        }
+      }
+    }
+    if (maxAngle < 1e-8) break;
+  }
+
+  return a.map((row, i) => row.map(value => value * norms[i]));
+};
+
+/**
+ * Standardised PCA on the correlation matrix. Returns the model and each sample's scores, in input order
+ * (undefined for samples dropped for a missing or non-positive value). Undefined when fewer than three parameters
+ * or no more samples than parameters remain.
+ */
+export const runPca = (
+  samples: { concentrations: MetalConcentrations }[],
+  settings: PcaSettings
+): { model: PcaModel; scores: (number[] | undefined)[] } | undefined => {
+  const { parameters, z, complete } = standardiseSamples(samples, settings);
+  const n = z.length;
+  const p = parameters.length;
+  if (p < 3 || n <= p) return undefined;
+
+  const correlation = multiply(transpose(z), z).map(row => row.map(value => value / (n - 1)));
+
+  const { values, vectors } = symmetricEigen(correlation);
+  const eigenvalues = values.map(value => Math.max(value, 0));
+  const retained = settings.retention === 'fixed'
+    ? Math.min(Math.max(Math.round(settings.components), 1), p)
+    : Math.max(eigenvalues.filter(value => value > 1).length, 1);
+
+  const unrotated = vectors.map(row => row.slice(0, retained).map((value, c) => value * Math.sqrt(eigenvalues[c])));
+  const rotated = varimax(unrotated);
+
+  // Order rotated components by explained variance and orient each so its loadings sum positive
+  const sumsOfSquares = rotated[0].map((_, c) => rotated.reduce((total, row) => total + row[c] ** 2, 0));
+  const order = sumsOfSquares.map((_, c) => c).sort((a, b) => sumsOfSquares[b] - sumsOfSquares[a]);
+  const signs = order.map(c => Math.sign(rotated.reduce((total, row) => total + row[c], 0)) || 1);
+  const loadings = rotated.map(row => order.map((c, i) => row[c] * signs[i]));
+
+  // Regression scores: F = Z · A · (AᵀA)⁻¹
+  const gram = invert(multiply(transpose(loadings), loadings));
+  const weights = gram ? multiply(loadings, gram.inverse) : loadings;
+  const allScores = multiply(z, weights);
+  let next = 0;
+  const scores = complete.map(isComplete => (isComplete ? allScores[next++] : undefined));
+
+  // Sampling adequacy from the inverse correlation matrix (anti-image)
+  const inverse = invert(correlation);
+  let kmo: number | undefined;
+  let kmoPerParameter: number[] | undefined;
+  let bartlett: BartlettTest | undefined;
+  if (inverse) {
+    const partial = inverse.inverse.map((row, i) =>
+      row.map((value, j) => -value / Math.sqrt(inverse.inverse[i][i] * inverse.inverse[j][j])));
+    const offDiagonalSquares = (m: Matrix, i: number) => m[i].reduce((total, value, j) => total + (i === j ? 0 : value * value), 0);
+    const r2 = correlation.map((_, i) => offDiagonalSquares(correlation, i));
+    const q2 = partial.map((_, i) => offDiagonalSquares(partial, i));
+    kmoPerParameter = r2.map((value, i) => value / (value + q2[i]));
+    kmo = r2.reduce((a, b) => a + b, 0) / (r2.reduce((a, b) => a + b, 0) + q2.reduce((a, b) => a + b, 0));
+
+    const chiSquare = -(n - 1 - (2 * p + 5) / 6) * inverse.logDeterminant;
+    const degreesOfFreedom = p * (p - 1) / 2;
+    bartlett = { chiSquare, degreesOfFreedom, pValue: chiSquarePValue(chiSquare, degreesOfFreedom) };
+  }
+
+  return {
+    model: {
+      parameters,
+      sampleCount: n,
+      settings,
+      eigenvalues,
+      explainedVariance: eigenvalues.map(value => 100 * value / p),
+      retained,
+      loadings,
+      rotatedVariance: order.map(c => 100 * sumsOfSquares[c] / p),
+      communalities: loadings.map(row => row.reduce((total, value) => total + value * value, 0)),
+      kmo,
+      kmoPerParameter,
+      bartlett,
+    },
+    scores,
+  };
+};
@@ -1,63 +1,179 @@
 // Pollution Index Calculations for Groundwater Assessment
 
+import { PARAMETERS, ParameterDefinition } from "./parameters";
+import { StandardProfile, getParameterLimit, getStandardProfile } from "./standards";
+import {
+  CLASSIFIABLE_INDICES,
+  ClassificationScheme,
+  ClassifiableIndex,
+  FiredRule,
+  classifySample,
+  explainClassification,
+  getClassificationScheme,
+} from "./classification";
+import { mean } from "./statistics";
+import type { AnalysisSettings, HpiMethod } from "./analysisSettings";
+
 export interface PollutionIndices {
   hpi: number;  // Heavy Metal Pollution Index
+  hpiMethod: HpiMethod;
   mi: number;   // Metal Index
   cd: number;   // Contamination Degree
-  status: 'safe' | 'moderate' | 'danger';
+  hei: number;  // Heavy Metal Evaluation Index
+  nemerow: number;  // Nemerow Pollution Index
+  contaminationFactors: Record<string, number>;  // CF per parameter registry key
+  status: string;       // Class id from the classification scheme
   statusLabel: string;
+  statusColor: string;
+  statusRank: number;   // 0 = least severe class of the scheme
+  standardProfileId: string;  // Standard profile the indices were computed against
+  classificationSchemeId: string;  // Classification scheme the status was assigned with
+}
+
+// Concentrations keyed by parameter registry key (see parameters.ts), in canonical units
+export type MetalConcentrations = Record<string, number>;
+
+export type IndexSeverity = 'safe' | 'moderate' | 'danger';
+
+export interface IndexClass {
+  label: string;
+  severity: IndexSeverity;
 }
 
-export interface MetalConcentrations {
-  lead: number;
-  cadmium: number;
-  arsenic: number;
-  chromium: number;
+// Class bands: each applies to values up to (and including) `max`
+interface IndexBand extends IndexClass {
+  max: number;
 }
 
-// WHO/EPA standard limits for drinking water (mg/L)
-const STANDARDS = {
-  lead: 0.01,       // WHO guideline
-  cadmium: 0.003,   // WHO guideline
-  arsenic: 0.01,    // WHO guideline
-  chromium: 0.05,   // WHO guideline
+// Edet & Offiong (2002)
+const HEI_BANDS: IndexBand[] = [
+  { max: 10, label: 'Low', severity: 'safe' },
+  { max: 20, label: 'Medium', severity: 'moderate' },
+  { max: Infinity, label: 'High', severity: 'danger' },
+];
+
+// Nemerow (1991) five-grade scheme
+const NEMEROW_BANDS: IndexBand[] = [
+  { max: 0.7, label: 'Clean', severity: 'safe' },
+  { max: 1, label: 'Warning limit', severity: 'moderate' },
+  { max: 2, label: 'Slight pollution', severity: 'moderate' },
+  { max: 3, label: 'Moderate pollution', severity: 'danger' },
+  { max: Infinity, label: 'Heavy pollution', severity: 'danger' },
+];
+
+// Hakanson (1980)
+const CF_BANDS: IndexBand[] = [
+  { max: 1, label: 'Low', severity: 'safe' },
+  { max: 3, label: 'Moderate', severity: 'moderate' },
+  { max: 6, label: 'Considerable', severity: 'danger' },
+  { max: Infinity, label: 'Very high', severity: 'danger' },
+];
+
+const classify = (value: number, bands: IndexBand[]): IndexClass => {
+  const { label, severity } = bands.find(band => value <= band.max) ?? bands[bands.length - 1];
+  return { label, severity };
 };
 
-// Metal weights for HPI calculation (based on toxicity)
-const WEIGHTS = {
-  lead: 0.9,
-  cadmium: 1.0,     // Highest weight due to high toxicity
-  arsenic: 1.0,     // Highest weight due to carcinogenic properties
-  chromium: 0.8,
+export const classifyHEI = (hei: number): IndexClass => classify(hei, HEI_BANDS);
+export const classifyNemerow = (nemerow: number): IndexClass => classify(nemerow, NEMEROW_BANDS);
+export const classifyCF = (cf: number): IndexClass => classify(cf, CF_BANDS);
+
+/**
+ * Registered heavy-metal parameters present in a sample, in registry order
+ */
+const getAssessedParameters = (metals: MetalConcentrations): ParameterDefinition[] =>
+  PARAMETERS.filter(p => p.category === 'heavy-metal' && Number.isFinite(metals[p.key]));
+
+// Limits of one assessed parameter under a standard profile
+export interface AssessedLimit {
+  parameter: ParameterDefinition;
+  acceptable: number;
+  permissible: number;
+  ideal: number;
+}
+
+/**
+ * Limits of the heavy metals present in a sample, in registry order. Resolved once per sample, so repeated evaluations
+ * such as Monte Carlo draws do not search the registry and profile again.
+ */
+export const getAssessedLimits = (metals: MetalConcentrations, profile: StandardProfile): AssessedLimit[] =>
+  getAssessedParameters(metals).map(parameter => {
+    const { acceptable, permissible, ideal } = getParameterLimit(profile, parameter);
+    return { parameter, acceptable, permissible, ideal };
+  });
+
+// One parameter's weight and sub-index in the HPI sum
+interface HpiTerm {
+  parameter: ParameterDefinition;
+  weight: number;
+  subIndex: number;
+}
+
+const getMohanTerms = (metals: MetalConcentrations, limits: AssessedLimit[]): HpiTerm[] =>
+  limits.map(({ parameter, permissible, ideal }) => ({
+    parameter,
+    weight: 1 / permissible,
+    subIndex: 100 * Math.abs(metals[parameter.key] - ideal) / (permissible - ideal),
+  }));
+
+const getSimplifiedTerms = (metals: MetalConcentrations, limits: AssessedLimit[]): HpiTerm[] =>
+  limits.map(({ parameter, acceptable: standard }) => {
+    const concentration = metals[parameter.key];
+    return {
+      parameter,
+      weight: parameter.weight,
+      // Using standard as both Si (standard) and Li (maximum permissible limit); below standard contributes 0
+      subIndex: concentration > standard ? 100 * (concentration - standard) / standard : 0,
+    };
+  });
+
+const getHpiTerms = (metals: MetalConcentrations, limits: AssessedLimit[], method: HpiMethod): HpiTerm[] =>
+  method === 'simplified' ? getSimplifiedTerms(metals, limits) : getMohanTerms(metals, limits);
+
+const combineHpiTerms = (terms: HpiTerm[]): number => {
+  const totalWeight = terms.reduce((sum, term) => sum + term.weight, 0);
+  return totalWeight > 0
+    ? terms.reduce((sum, term) => sum + term.weight * term.subIndex, 0) / totalWeight
+    : 0;
 };
 
 /**
- * Calculate Heavy Metal Pollution Index (HPI)
+ * Calculate Heavy Metal Pollution Index (HPI) after Mohan et al. (1996)
  * Formula: HPI = Σ(Wi * Qi) / Σ(Wi)
- * Where Qi = 100 * (Ci - Si) / (Li - Si)
+ * Where Qi = 100 * |Mi - Ii| / (Si - Ii) and Wi = k / Si (k = 1, cancels in the ratio)
+ * Mi = concentration, Ii = ideal value, Si = highest permissible value
  */
-export const calculateHPI = (metals: MetalConcentrations): number => {
-  const metalKeys = Object.keys(metals) as (keyof MetalConcentrations)[];
-  
-  let weightedSum = 0;
-  let totalWeight = 0;
-  
-  metalKeys.forEach(metal => {
-    const concentration = metals[metal];
-    const standard = STANDARDS[metal];
-    const weight = WEIGHTS[metal];
-    
-    // Sub-index calculation (Qi)
-    // Using standard as both Si (standard) and Li (maximum permissible limit)
-    const subIndex = concentration > standard 
-      ? 100 * (concentration - standard) / standard
-      : 0; // If below standard, contribution is 0
-    
-    weightedSum += weight * subIndex;
-    totalWeight += weight;
-  });
-  
-  return totalWeight > 0 ? weightedSum / totalWeight : 0;
+export const calculateHPI = (metals: MetalConcentrations, profile: StandardProfile): number =>
+  combineHpiTerms(getMohanTerms(metals, getAssessedLimits(metals, profile)));
+
+/**
+ * Calculate the simplified, toxicity-weighted HPI variant (not the published formulation)
+ * Formula: HPI = Σ(Wi * Qi) / Σ(Wi)
+ * Where Qi = 100 * (Ci - Si) / Si above the acceptable limit Si, otherwise 0
+ */
+export const calculateSimplifiedHPI = (metals: MetalConcentrations, profile: StandardProfile): number =>
+  combineHpiTerms(getSimplifiedTerms(metals, getAssessedLimits(metals, profile)));
+
+// Contamination factors Ci / Si, in the order of the limits
+const getFactors = (metals: MetalConcentrations, limits: AssessedLimit[]): number[] =>
+  limits.map(({ parameter, acceptable }) => metals[parameter.key] / acceptable);
+
+const sumFactors = (factors: number[]): number =>
+  factors.reduce((acc, cf) => acc + cf, 0);
+
+const metalIndex = (factors: number[]): number =>
+  factors.length ? sumFactors(factors) / factors.length : 0;
+
+const heiOf = (metals: MetalConcentrations, limits: AssessedLimit[]): number =>
+  limits.reduce((acc, { parameter, permissible }) => acc + metals[parameter.key] / permissible, 0);
+
+const nemerowIndex = (factors: number[]): number => {
+  if (!factors.length) return 0;
+
+  const mean = factors.reduce((sum, cf) => sum + cf, 0) / factors.length;
+  const max = Math.max(...factors);
+
+  return Math.sqrt((mean ** 2 + max ** 2) / 2);
 };
 
 /**
@@ -65,126 +181,195 @@ export const calculateHPI = (metals: MetalConcentrations): number => {
  * Formula: MI = Σ(Ci / Si) / n
  * Where Ci = concentration, Si = standard, n = number of metals
  */
-export const calculateMI = (metals: MetalConcentrations): number => {
-  const metalKeys = Object.keys(metals) as (keyof MetalConcentrations)[];
-  
-  const sum = metalKeys.reduce((acc, metal) => {
-    return acc + (metals[metal] / STANDARDS[metal]);
-  }, 0);
-  
-  return sum / metalKeys.length;
-};
+export const calculateMI = (metals: MetalConcentrations, profile: StandardProfile): number =>
+  metalIndex(getFactors(metals, getAssessedLimits(metals, profile)));
 
 /**
  * Calculate Contamination Degree (Cd)
  * Formula: Cd = Σ(Ci / Si)
  * Where Ci = concentration, Si = standard
  */
-export const calculateCd = (metals: MetalConcentrations): number => {
-  const metalKeys = Object.keys(metals) as (keyof MetalConcentrations)[];
-  
-  return metalKeys.reduce((acc, metal) => {
-    return acc + (metals[metal] / STANDARDS[metal]);
-  }, 0);
+export const calculateCd = (metals: MetalConcentrations, profile: StandardProfile): number =>
+  sumFactors(getFactors(metals, getAssessedLimits(metals, profile)));
+
+/**
+ * Calculate the Contamination Factor (CF) of each metal
+ * Formula: CFi = Ci / Si
+ * Where Ci = concentration, Si = acceptable limit
+ */
+export const calculateContaminationFactors = (
+  metals: MetalConcentrations,
+  profile: StandardProfile
+): Record<string, number> => {
+  const limits = getAssessedLimits(metals, profile);
+  const factors = getFactors(metals, limits);
+  return Object.fromEntries(limits.map(({ parameter }, i) => [parameter.key, factors[i]]));
 };
 
 /**
- * Determine pollution status based on indices
+ * Calculate Heavy Metal Evaluation Index (HEI)
+ * Formula: HEI = Σ(Hc / Hmac)
+ * Where Hc = concentration, Hmac = maximum admissible (permissible) concentration
  */
-export const getPollutionStatus = (hpi: number, mi: number, cd: number): {
-  status: 'safe' | 'moderate' | 'danger';
-  statusLabel: string;
-} => {
-  // Classification based on scientific literature
-  if (hpi > 100 || mi > 1.5 || cd > 3) {
-    return { status: 'danger', statusLabel: 'High Contamination' };
-  } else if (hpi > 50 || mi > 1 || cd > 1.5) {
-    return { status: 'moderate', statusLabel: 'Moderate Contamination' };
-  } else {
-    return { status: 'safe', statusLabel: 'Safe Level' };
-  }
+export const calculateHEI = (metals: MetalConcentrations, profile: StandardProfile): number =>
+  heiOf(metals, getAssessedLimits(metals, profile));
+
+/**
+ * Calculate Nemerow Pollution Index (PN)
+ * Formula: PN = √((CFmean² + CFmax²) / 2)
+ * Where CF = contamination factors of the individual metals
+ */
+export const calculateNemerow = (metals: MetalConcentrations, profile: StandardProfile): number =>
+  nemerowIndex(getFactors(metals, getAssessedLimits(metals, profile)));
+
+/**
+ * Calculate the five classifiable indices from limits resolved beforehand with getAssessedLimits
+ */
+export const calculateIndexValues = (
+  metals: MetalConcentrations,
+  limits: AssessedLimit[],
+  method: HpiMethod
+): Record<ClassifiableIndex, number> => {
+  const factors = getFactors(metals, limits);
+  return {
+    hpi: combineHpiTerms(getHpiTerms(metals, limits, method)),
+    mi: metalIndex(factors),
+    cd: sumFactors(factors),
+    hei: heiOf(metals, limits),
+    nemerow: nemerowIndex(factors),
+  };
+};
+
+/**
+ * Determine pollution status from the index values using a classification scheme
+ */
+export const getPollutionStatus = (
+  values: Record<ClassifiableIndex, number>,
+  scheme: ClassificationScheme
+): Pick<PollutionIndices, 'status' | 'statusLabel' | 'statusColor' | 'statusRank'> => {
+  const { classId, label, color, rank } = classifySample(values, scheme);
+  return { status: classId, statusLabel: label, statusColor: color, statusRank: rank };
 };
 
 /**
  * Calculate all pollution indices for a sample
  */
-export const calculatePollutionIndices = (metals: MetalConcentrations): PollutionIndices => {
-  const hpi = calculateHPI(metals);
-  const mi = calculateMI(metals);
-  const cd = calculateCd(metals);
+export const calculatePollutionIndices = (
+  metals: MetalConcentrations,
+  settings: AnalysisSettings
+): PollutionIndices => {
+  const profile = getStandardProfile(settings.standardProfileId);
+  const hpi = settings.hpiMethod === 'simplified'
+    ? calculateSimplifiedHPI(metals, profile)
+    : calculateHPI(metals, profile);
+  const mi = calculateMI(metals, profile);
+  const cd = calculateCd(metals, profile);
+  const hei = calculateHEI(metals, profile);
+  const nemerow = calculateNemerow(metals, profile);
+  const contaminationFactors = calculateContaminationFactors(metals, profile);
   
-  const { status, statusLabel } = getPollutionStatus(hpi, mi, cd);
+  const scheme = getClassificationScheme(settings.classificationSchemeId);
+  const classification = getPollutionStatus({ hpi, mi, cd, hei, nemerow }, scheme);
   
   return {
     hpi: Number(hpi.toFixed(2)),
+    hpiMethod: settings.hpiMethod,
     mi: Number(mi.toFixed(2)),
     cd: Number(cd.toFixed(2)),
-    status,
-    statusLabel,
+    hei: Number(hei.toFixed(2)),
+    nemerow: Number(nemerow.toFixed(2)),
+    contaminationFactors: Object.fromEntries(
+      Object.entries(contaminationFactors).map(([key, cf]) => [key, Number(cf.toFixed(2))])
+    ),
+    ...classification,
+    standardProfileId: profile.id,
+    classificationSchemeId: scheme.id,
   };
 };
 
+// Chart colours for per-parameter contributions, assigned by contribution rank
+export const CONTRIBUTION_COLORS = [
+  '#dc2626', '#ea580c', '#ca8a04', '#65a30d', '#0891b2', '#2563eb',
+  '#7c3aed', '#c026d3', '#db2777', '#57534e', '#0d9488', '#4f46e5',
+];
+
+export interface ParameterContribution {
+  key: string;
+  cf: number;       // Contamination factor Ci / Si
+  hpi: number;      // Wi·Qi / ΣWi; the terms sum to the sample's HPI
+  mi: number;       // CFi / n; the terms sum to MI
+  cd: number;       // CFi; the terms sum to Cd
+  hpiShare: number; // Fraction of HPI, 0–1
+  cdShare: number;  // Fraction of MI and Cd, 0–1 (both are proportional to the CF)
+}
+
+export interface SampleBreakdown {
+  contributions: ParameterContribution[];  // Largest HPI contribution first
+  primaryConcern?: ParameterContribution;  // Largest contamination factor, if any parameter exceeds its limit
+  firedRules: FiredRule[];                 // Classification rules that put the sample in its class
+}
+
 /**
- * Get the most critical metal in a sample
+ * Decompose a sample's HPI, MI and Cd into per-parameter contributions and explain its class.
+ * Uses the profile, HPI method and classification scheme recorded on the indices.
  */
-export const getMostCriticalMetal = (metals: MetalConcentrations): {
-  metal: string;
-  ratio: number;
-  exceedsStandard: boolean;
-} => {
-  const metalKeys = Object.keys(metals) as (keyof MetalConcentrations)[];
-  
-  let maxRatio = 0;
-  let criticalMetal = 'lead';
-  
-  metalKeys.forEach(metal => {
-    const ratio = metals[metal] / STANDARDS[metal];
-    if (ratio > maxRatio) {
-      maxRatio = ratio;
-      criticalMetal = metal;
-    }
-  });
-  
+export const decomposeIndices = (metals: MetalConcentrations, indices: PollutionIndices): SampleBreakdown => {
+  const profile = getStandardProfile(indices.standardProfileId);
+  const terms = getHpiTerms(metals, getAssessedLimits(metals, profile), indices.hpiMethod);
+  const totalWeight = terms.reduce((sum, term) => sum + term.weight, 0);
+  const factors = calculateContaminationFactors(metals, profile);
+  const totalCF = Object.values(factors).reduce((sum, cf) => sum + cf, 0);
+  const hpi = combineHpiTerms(terms);
+
+  const contributions = terms
+    .map(({ parameter, weight, subIndex }) => {
+      const cf = factors[parameter.key];
+      const hpiTerm = totalWeight > 0 ? weight * subIndex / totalWeight : 0;
+      return {
+        key: parameter.key,
+        cf,
+        hpi: hpiTerm,
+        mi: cf / terms.length,
+        cd: cf,
+        hpiShare: hpi > 0 ? hpiTerm / hpi : 0,
+        cdShare: totalCF > 0 ? cf / totalCF : 0,
+      };
+    })
+    .sort((a, b) => b.hpi - a.hpi || b.cf - a.cf);
+
+  const worst = contributions.reduce<ParameterContribution | undefined>(
+    (max, c) => (!max || c.cf > max.cf ? c : max), undefined);
+
   return {
-    metal: criticalMetal.charAt(0).toUpperCase() + criticalMetal.slice(1),
-    ratio: Number(maxRatio.toFixed(2)),
-    exceedsStandard: maxRatio > 1,
+    contributions,
+    primaryConcern: worst && worst.cf > 1 ? worst : undefined,
+    firedRules: explainClassification(indices, getClassificationScheme(indices.classificationSchemeId)),
   };
 };
 
 /**
- * Generate pollution summary statistics for a dataset
+ * Generate pollution summary statistics for a dataset; an empty dataset gives zero counts, percentages and values
  */
-export const generateSummaryStats = (results: PollutionIndices[]) => {
+export const generateSummaryStats = (results: PollutionIndices[], scheme: ClassificationScheme) => {
   const total = results.length;
-  const safe = results.filter(r => r.status === 'safe').length;
-  const moderate = results.filter(r => r.status === 'moderate').length;
-  const danger = results.filter(r => r.status === 'danger').length;
+  const round = (value: number) => (Number.isFinite(value) ? Number(value.toFixed(2)) : 0);
   
-  const avgHPI = results.reduce((sum, r) => sum + r.hpi, 0) / total;
-  const avgMI = results.reduce((sum, r) => sum + r.mi, 0) / total;
-  const avgCd = results.reduce((sum, r) => sum + r.cd, 0) / total;
-  
-  const maxHPI = Math.max(...results.map(r => r.hpi));
-  const maxMI = Math.max(...results.map(r => r.mi));
-  const maxCd = Math.max(...results.map(r => r.cd));
+  const distribution = scheme.classes.map(schemeClass => {
+    const count = results.filter(r => r.status === schemeClass.id).length;
+    return {
+      ...schemeClass,
+      count,
+      percentage: total ? Number(((count / total) * 100).toFixed(1)) : 0,
+    };
+  });
+
+  const indices = CLASSIFIABLE_INDICES.map(index => index.id);
+  const values = (index: ClassifiableIndex) => results.map(r => r[index]);
   
   return {
     total,
-    distribution: {
-      safe: { count: safe, percentage: Number(((safe / total) * 100).toFixed(1)) },
-      moderate: { count: moderate, percentage: Number(((moderate / total) * 100).toFixed(1)) },
-      danger: { count: danger, percentage: Number(((danger / total) * 100).toFixed(1)) },
-    },
-    averages: {
-      hpi: Number(avgHPI.toFixed(2)),
-      mi: Number(avgMI.toFixed(2)),
-      cd: Number(avgCd.toFixed(2)),
-    },
-    maximums: {
-      hpi: Number(maxHPI.toFixed(2)),
-      mi: Number(maxMI.toFixed(2)),
-      cd: Number(maxCd.toFixed(2)),
-    },
+    distribution,
+    averages: Object.fromEntries(indices.map(index => [index, round(mean(values(index)))])) as Record<ClassifiableIndex, number>,
+    maximums: Object.fromEntries(indices.map(index => [index, round(total ? Math.max(...values(index)) : NaN)])) as Record<ClassifiableIndex, number>,
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,160 @@
+// Regulatory drinking-water standard profiles
+
+import { PARAMETERS, ParameterDefinition } from "./parameters";
+
+export interface ParameterLimit {
+  acceptable: number;     // Desirable / guideline value
+  permissible?: number;   // Relaxed limit in the absence of an alternate source (BIS only)
+  ideal?: number;         // Ideal value Ii for HPI; defaults to the acceptable limit when relaxed, otherwise 0
+}
+
+export interface StandardProfile {
+  id: string;
+  name: string;
+  shortName: string;
+  version: string;
+  authority: string;
+  limits: Record<string, ParameterLimit>;  // Keyed by parameter registry key, canonical units
+}
+
+export interface ResolvedLimit extends Required<ParameterLimit> {
+  fallback: boolean;  // True when the profile has no value and the registry default is used
+}
+
+export type ExceedanceLevel = 'within' | 'above-acceptable' | 'above-permissible';
+
+export const STANDARD_PROFILES: StandardProfile[] = [
+  {
+    id: 'who-gdwq-4',
+    name: 'WHO Guidelines for Drinking-water Quality',
+    shortName: 'WHO',
+    version: '4th edition incorporating the 1st addendum (2017)',
+    authority: 'World Health Organization',
+    // The registry defaults are the WHO guideline values
+    limits: Object.fromEntries(PARAMETERS.map(p => [p.key, { acceptable: p.standard }])),
+  },
+  {
+    id: 'bis-10500-2012',
+    name: 'BIS IS 10500 Drinking Water — Specification',
+    shortName: 'BIS',
+    version: 'IS 10500:2012 (Second Revision)',
+    authority: 'Bureau of Indian Standards',
+    limits: {
+      lead: { acceptable: 0.01, permissible: 0.01 },
+      cadmium: { acceptable: 0.003, permissible: 0.003 },
+      arsenic: { acceptable: 0.01, permissible: 0.05 },
+      chromium: { acceptable: 0.05, permissible: 0.05 },
+      iron: { acceptable: 0.3, permissible: 0.3 },
+      manganese: { acceptable: 0.1, permissible: 0.3 },
+      zinc: { acceptable: 5, permissible: 15 },
+      copper: { acceptable: 0.05, permissible: 1.5 },
+      nickel: { acceptable: 0.02, permissible: 0.02 },
+      mercury: { acceptable: 0.001, permissible: 0.001 },
+      selenium: { acceptable: 0.01, permissible: 0.01 },
+      uranium: { acceptable: 0.03, permissible: 0.03 },
+      ph: { acceptable: 8.5, permissible: 8.5 },
+      tds: { acceptable: 500, permissible: 2000 },
+      hardness: { acceptable: 200, permissible: 600 },
+      calcium: { acceptable: 75, permissible: 200 },
+      magnesium: { acceptable: 30, permissible: 100 },
+      chloride: { acceptable: 250, permissible: 1000 },
+      sulfate: { acceptable: 200, permissible: 400 },
+      nitrate: { acceptable: 45, permissible: 45 },
+      fluoride: { acceptable: 1, permissible: 1.5 },
+    },
+  },
+  {
+    id: 'us-epa-mcl',
+    name: 'US EPA National Drinking Water Regulations',
+    shortName: 'US EPA',
+    version: 'MCL / action level / secondary MCL (40 CFR 141, 143)',
+    authority: 'United States Environmental Protection Agency',
+    limits: {
+      lead: { acceptable: 0.015 },      // Action level
+      cadmium: { acceptable: 0.005 },
+      arsenic: { acceptable: 0.01 },
+      chromium: { acceptable: 0.1 },
+      iron: { acceptable: 0.3 },        // Secondary MCL
+      manganese: { acceptable: 0.05 },  // Secondary MCL
+      zinc: { acceptable: 5 },          // Secondary MCL
+      copper: { acceptable: 1.3 },      // Action level
+      mercury: { acceptable: 0.002 },
+      selenium: { acceptable: 0.05 },
+      uranium: { acceptable: 0.03 },
+      ph: { acceptable: 8.5 },          // Secondary MCL
+      tds: { acceptable: 500 },         // Secondary MCL
+      chloride: { acceptable: 250 },    // Secondary MCL
+      sulfate: { acceptable: 250 },     // Secondary MCL
+      nitrate: { acceptable: 44.3 },    // 10 mg/L as N
+      fluoride: { acceptable: 4 },
+    },
+  },
+  {
+    id: 'eu-2020-2184',
+    name: 'EU Drinking Water Directive',
+    shortName: 'EU',
+    version: 'Directive (EU) 2020/2184',
+    authority: 'European Parliament and Council',
+    limits: {
+      lead: { acceptable: 0.01 },
+      cadmium: { acceptable: 0.005 },
+      arsenic: { acceptable: 0.01 },
+      chromium: { acceptable: 0.05 },
+      iron: { acceptable: 0.2 },        // Indicator parameter
+      manganese: { acceptable: 0.05 },  // Indicator parameter
+      copper: { acceptable: 2 },
+      nickel: { acceptable: 0.02 },
+      mercury: { acceptable: 0.001 },
+      selenium: { acceptable: 0.02 },
+      uranium: { acceptable: 0.03 },
+      ph: { acceptable: 9.5 },          // Indicator parameter
+      ec: { acceptable: 2500 },         // Indicator parameter
+      sodium: { acceptable: 200 },      // Indicator parameter
+      chloride: { acceptable: 250 },    // Indicator parameter
+      sulfate: { acceptable: 250 },     // Indicator parameter
+      nitrate: { acceptable: 50 },
+      fluoride: { acceptable: 1.5 },
+    },
+  },
+];
+
+export const DEFAULT_STANDARD_PROFILE_ID = 'who-gdwq-4';
+
+export const getStandardProfile = (id: string): StandardProfile =>
+  STANDARD_PROFILES.find(p => p.id === id) ??
+  STANDARD_PROFILES.find(p => p.id === DEFAULT_STANDARD_PROFILE_ID);
+
+/**
+ * Profile limits for a parameter, falling back to the registry default when the profile does not regulate it
+ */
+export const getParameterLimit = (profile: StandardProfile, parameter: ParameterDefinition): ResolvedLimit => {
+  const limit = profile.limits[parameter.key];
+  if (!limit) {
+    return { acceptable: parameter.standard, permissible: parameter.standard, ideal: 0, fallback: true };
+  }
+
+  const permissible = Math.max(limit.permissible ?? limit.acceptable, limit.acceptable);
+  return {
+    acceptable: limit.acceptable,
+    permissible,
+    ideal: limit.ideal ?? (permissible > limit.acceptable ? limit.acceptable : 0),
+    fallback: false,
+  };
+};
+
+export const getExceedanceLevel = (
+  profile: StandardProfile,
+  parameter: ParameterDefinition,
+  value: number
+): ExceedanceLevel => {
+  const limit = getParameterLimit(profile, parameter);
+  if (value > limit.permissible) return 'above-permissible';
+  if (value > limit.acceptable) return 'above-acceptable';
+  return 'within';
+};
+
+/**
+ * The profile a set of analysis results was computed against
+ */
+export const getResultsProfile = (results: { indices: { standardProfileId: string } }[]): StandardProfile =>
+  getStandardProfile(results[0]?.indices.standardProfileId ?? DEFAULT_STANDARD_PROFILE_ID);
@@ -0,0 +1,213 @@
+// Shared numerical helpers for summary statistics
+
+export const sum = (values: number[]): number =>
+  values.reduce((total, value) => total + value, 0);
+
+/**
+ * Arithmetic mean, NaN for an empty list
+ */
+export const mean = (values: number[]): number =>
+  values.length ? sum(values) / values.length : NaN;
+
+/**
+ * Quantile by linear interpolation between order statistics (Hyndman & Fan type 7), NaN for an empty list
+ */
+export const quantile = (values: number[], p: number): number => {
+  if (!values.length) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const median = (values: number[]): number => quantile(values, 0.5);
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9)
+ */
+export const normalQuantile = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.383577518672690e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+/**
+ * Ordinary least-squares fit of y = intercept + slope · x
+ */
+export const linearRegression = (x: number[], y: number[]): { slope: number; intercept: number } => {
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  x.forEach((xi, i) => {
+    sxy += (xi - meanX) * (y[i] - meanY);
+    sxx += (xi - meanX) ** 2;
+  });
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  return { slope, intercept: meanY - slope * meanX };
+};
+
+/**
+ * Ranks starting at 1, with tied values given the mean of their ranks
+ */
+export const rank = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const tiedRank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = tiedRank;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+/**
+ * Natural log of the gamma function (Lanczos approximation, g = 7)
+ */
+export const logGamma = (x: number): number => {
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let series = c[0];
+  for (let i = 1; i < c.length; i++) series += c[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(series);
+};
+
+// Continued fraction for the incomplete beta function (modified Lentz's method)
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let fraction = d;
+  for (let m = 1; m <= 300; m++) {
+    const even = m * (b - m) * x / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 / (Math.abs(1 + even * d) < tiny ? tiny : 1 + even * d);
+    c = Math.abs(1 + even / c) < tiny ? tiny : 1 + even / c;
+    fraction *= d * c;
+    const odd = -(a + m) * (a + b + m) * x / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 / (Math.abs(1 + odd * d) < tiny ? tiny : 1 + odd * d);
+    c = Math.abs(1 + odd / c) < tiny ? tiny : 1 + odd / c;
+    const delta = d * c;
+    fraction *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return fraction;
+};
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+export const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+};
+
+/**
+ * Two-sided p-value of Student's t statistic with the given degrees of freedom
+ */
+export const studentTPValue = (t: number, degreesOfFreedom: number): number => {
+  if (!Number.isFinite(t)) return Number.isNaN(t) ? NaN : 0;
+  return incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+};
+
+/**
+ * Upper-tail p-value of an F statistic with the given numerator and denominator degrees of freedom
+ */
+export const fisherFPValue = (f: number, numeratorDf: number, denominatorDf: number): number => {
+  if (!Number.isFinite(f)) return Number.isNaN(f) ? NaN : 0;
+  return incompleteBeta(denominatorDf / (denominatorDf + numeratorDf * f), denominatorDf / 2, numeratorDf / 2);
+};
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x) (series below a + 1, continued fraction above)
+ */
+export const incompleteGammaUpper = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  const front = Math.exp(-x + a * Math.log(x) - logGamma(a));
+  if (x < a + 1) {
+    let term = 1 / a;
+    let series = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      series += term;
+      if (Math.abs(term) < Math.abs(series) * 1e-14) break;
+    }
+    return 1 - front * series;
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let fraction = d;
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    d = 1 / (Math.abs(d) < tiny ? tiny : d);
+    c = b + an / c;
+    c = Math.abs(c) < tiny ? tiny : c;
+    const delta = d * c;
+    fraction *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return front * fraction;
+};
+
+/**
+ * Upper-tail p-value of a chi-square statistic
+ */
+export const chiSquarePValue = (chiSquare: number, degreesOfFreedom: number): number =>
+  incompleteGammaUpper(degreesOfFreedom / 2, chiSquare / 2);
+
+/**
+ * Two-sided p-value of a standard normal statistic
+ */
+export const normalPValue = (z: number): number =>
+  Number.isFinite(z) ? chiSquarePValue(z * z, 1) : Number.isNaN(z) ? NaN : 0;
+
+/**
+ * Positive t such that the two-sided p-value with the given degrees of freedom equals p (bisection)
+ */
+export const studentTQuantile = (p: number, degreesOfFreedom: number): number => {
+  let low = 0;
+  let high = 1;
+  while (studentTPValue(high, degreesOfFreedom) > p && high < 1e12) high *= 2;
+  for (let i = 0; i < 200 && high - low > 1e-12 * high; i++) {
+    const middle = (low + high) / 2;
+    if (studentTPValue(middle, degreesOfFreedom) > p) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+};
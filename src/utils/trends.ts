@@ -0,0 +1,301 @@
+// Temporal trends of repeat samples per well: Mann–Kendall and seasonal Kendall tests with Sen's slope
+
+import { getMeasuredParameters } from "./parameters";
+import { median, normalPValue } from "./statistics";
+import type { CensoredValue } from "./censoring";
+import type { MetalConcentrations } from "./pollutionCalculations";
+
+/**
+ * How trends are tested:
+ * - mann-kendall: all samples of a well in one series
+ * - seasonal-kendall: samples compared only within the same season, so seasonal swings are not read as trends
+ */
+export type TrendMethod = 'mann-kendall' | 'seasonal-kendall';
+
+export type TrendDirection = 'increasing' | 'decreasing' | 'none';
+
+export type Season = 'pre-monsoon' | 'monsoon' | 'post-monsoon';
+
+export interface TrendSettings {
+  method: TrendMethod;
+  significance: number;  // Two-sided α a trend is reported at
+}
+
+export interface TrendObservation {
+  sampleId: string;
+  date: string;      // ISO yyyy-mm-dd
+  time: number;      // Decimal year
+  season: Season;
+  value: number;     // Canonical units; non-detects hold their substituted value
+  censored: boolean;
+}
+
+export interface TrendTest {
+  n: number;
+  s: number;          // Kendall S, summed over seasons for the seasonal test
+  variance: number;   // Var(S) with the tie correction
+  z: number;
+  pValue: number;
+  tau: number;        // Kendall's τ, S over the number of compared pairs
+  slope: number;      // Sen's slope, units per year
+  intercept: number;  // Of the Sen line through the median, at time 0
+  direction: TrendDirection;  // Of significant trends only
+}
+
+export interface WellTrend {
+  wellId: string;
+  parameter: string;  // Registry key
+  observations: TrendObservation[];  // In time order
+  test: TrendTest;
+}
+
+export interface TrendModel {
+  settings: TrendSettings;
+  wellIds: string[];   // Wells with enough dated samples to be tested
+  trends: WellTrend[];
+}
+
+export interface SampleTrends {
+  model: TrendModel;  // Shared by every sample of the run
+  wellId: string;
+}
+
+// What trend analysis needs of a sample
+export interface TrendSample {
+  sampleId: string;
+  wellId: string;
+  date?: string;
+  concentrations: MetalConcentrations;
+  censored: Record<string, CensoredValue>;
+}
+
+export const TREND_METHODS: { id: TrendMethod; label: string; description: string }[] = [
+  {
+    id: 'seasonal-kendall',
+    label: 'Seasonal Kendall',
+    description: 'Mann–Kendall within each season, summed (Hirsch et al., 1982); robust to pre-/post-monsoon differences',
+  },
+  {
+    id: 'mann-kendall',
+    label: 'Mann–Kendall',
+    description: 'Non-parametric test for a monotonic trend over the whole series (Mann, 1945; Kendall, 1975)',
+  },
+];
+
+export const SIGNIFICANCE_LEVELS = [0.01, 0.05, 0.1];
+
+// Indian monsoon seasons by calendar month (1–12)
+export const SEASONS: { id: Season; label: string; months: number[] }[] = [
+  { id: 'pre-monsoon', label: 'Pre-monsoon', months: [1, 2, 3, 4, 5] },
+  { id: 'monsoon', label: 'Monsoon', months: [6, 7, 8, 9] },
+  { id: 'post-monsoon', label: 'Post-monsoon', months: [10, 11, 12] },
+];
+
+export const TREND_DIRECTIONS: { id: TrendDirection; label: string; color: string }[] = [
+  { id: 'increasing', label: 'Upward trend', color: '#dc2626' },
+  { id: 'decreasing', label: 'Downward trend', color: '#2563eb' },
+  { id: 'none', label: 'No significant trend', color: '#16a34a' },
+];
+
+export const DEFAULT_TRENDS: TrendSettings = {
+  method: 'seasonal-kendall',
+  significance: 0.05,
+};
+
+// Fewest dated samples of a well for a trend to be tested
+export const MIN_TREND_SAMPLES = 4;
+
+export const getTrendMethod = (id: TrendMethod) =>
+  TREND_METHODS.find(m => m.id === id) ?? TREND_METHODS[0];
+
+export const getSeason = (id: Season) =>
+  SEASONS.find(s => s.id === id) ?? SEASONS[0];
+
+export const getTrendDirection = (id: TrendDirection) =>
+  TREND_DIRECTIONS.find(d => d.id === id) ?? TREND_DIRECTIONS[2];
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+/**
+ * Parse a sampling date to ISO yyyy-mm-dd. Accepts year-first dates (2021-05-14, 2021/05/14, optionally with a
+ * time) and day-first dates (14/05/2021, 14-05-2021, 14.05.2021); undefined when unparseable.
+ */
+export const parseSampleDate = (raw: string): string | undefined => {
+  const text = raw.trim();
+  const yearFirst = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  const dayFirst = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?:\s.*)?$/);
+  const [year, month, day] = yearFirst
+    ? [Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3])]
+    : dayFirst
+      ? [Number(dayFirst[3]), Number(dayFirst[2]), Number(dayFirst[1])]
+      : [NaN, NaN, NaN];
+  if (!isValidDate(year, month, day)) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Decimal year of an ISO date, e.g. 2021-07-02 → 2021.5
+ */
+export const toDecimalYear = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  return year + (Date.UTC(year, month - 1, day) - start) / (end - start);
+};
+
+export const getDateSeason = (date: string): Season => {
+  const month = Number(date.split('-')[1]);
+  return (SEASONS.find(s => s.months.includes(month)) ?? SEASONS[0]).id;
+};
+
+/**
+ * Well a sample was taken from: its well ID, or its coordinates when the upload had no well column
+ */
+export const getWellId = (sample: { wellId?: string; latitude: number; longitude: number }): string =>
+  sample.wellId ?? `${sample.latitude.toFixed(4)}, ${sample.longitude.toFixed(4)}`;
+
+/**
+ * Sign of the change from an earlier to a later observation. Two non-detects are tied, and a non-detect against a
+ * detected value at or below its detection limit cannot be ordered, so those pairs count as ties.
+ */
+const compareObservations = (earlier: TrendObservation, later: TrendObservation, limits: Map<string, number>): number => {
+  if (earlier.censored && later.censored) return 0;
+  if (earlier.censored) return later.value > limits.get(earlier.sampleId) ? 1 : 0;
+  if (later.censored) return earlier.value > limits.get(later.sampleId) ? -1 : 0;
+  return Math.sign(later.value - earlier.value);
+};
+
+interface KendallSum {
+  s: number;
+  variance: number;
+  pairs: number;
+  slopes: number[];
+}
+
+/**
+ * Kendall S of one time-ordered series, with the tie-corrected variance and the pairwise slopes for Sen's estimator.
+ * Samples taken on the same date are not compared.
+ */
+const kendallSum = (observations: TrendObservation[], limits: Map<string, number>): KendallSum => {
+  const n = observations.length;
+  let s = 0;
+  let pairs = 0;
+  const slopes: number[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const dt = observations[j].time - observations[i].time;
+      if (dt <= 0) continue;
+      s += compareObservations(observations[i], observations[j], limits);
+      pairs++;
+      slopes.push((observations[j].value - observations[i].value) / dt);
+    }
+  }
+
+  // Non-detects form one tie group; detected values tie when equal
+  const tieGroups = new Map<string, number>();
+  observations.forEach(o => {
+    const key = o.censored ? 'censored' : String(o.value);
+    tieGroups.set(key, (tieGroups.get(key) ?? 0) + 1);
+  });
+  const tieCorrection = [...tieGroups.values()].reduce((total, t) => total + t * (t - 1) * (2 * t + 5), 0);
+  const variance = (n * (n - 1) * (2 * n + 5) - tieCorrection) / 18;
+
+  return { s, variance, pairs, slopes };
+};
+
+/**
+ * Mann–Kendall test of a series, or the seasonal Kendall test when seasonal; undefined when too few observations
+ * could be compared
+ */
+export const testTrend = (
+  observations: TrendObservation[],
+  limits: Map<string, number>,
+  settings: TrendSettings
+): TrendTest | undefined => {
+  const ordered = [...observations].sort((a, b) => a.time - b.time);
+  const groups = settings.method === 'seasonal-kendall'
+    ? SEASONS.map(season => ordered.filter(o => o.season === season.id))
+    : [ordered];
+  const sums = groups.filter(group => group.length > 1).map(group => kendallSum(group, limits));
+
+  const n = ordered.length;
+  const pairs = sums.reduce((total, sum) => total + sum.pairs, 0);
+  if (n < MIN_TREND_SAMPLES || pairs === 0) return undefined;
+
+  const s = sums.reduce((total, sum) => total + sum.s, 0);
+  const variance = sums.reduce((total, sum) => total + sum.variance, 0);
+  // Continuity correction
+  const z = variance > 0 ? (s > 0 ? (s - 1) : s < 0 ? (s + 1) : 0) / Math.sqrt(variance) : 0;
+  const pValue = normalPValue(z);
+  const slope = median(sums.flatMap(sum => sum.slopes));
+  const intercept = median(ordered.map(o => o.value - slope * o.time));
+  const significant = pValue <= settings.significance && s !== 0;
+
+  return {
+    n,
+    s,
+    variance,
+    z,
+    pValue,
+    tau: s / pairs,
+    slope,
+    intercept,
+    direction: significant ? (s > 0 ? 'increasing' : 'decreasing') : 'none',
+  };
+};
+
+/**
+ * Test every measured parameter of every well with enough dated samples; undefined when no well qualifies
+ */
+export const runTrends = (samples: TrendSample[], settings: TrendSettings): TrendModel | undefined => {
+  const dated = samples.filter(s => s.date);
+  const wells = new Map<string, TrendSample[]>();
+  dated.forEach(sample => wells.set(sample.wellId, [...(wells.get(sample.wellId) ?? []), sample]));
+  const wellIds = [...wells.keys()].filter(wellId => wells.get(wellId).length >= MIN_TREND_SAMPLES);
+  if (wellIds.length === 0) return undefined;
+
+  const parameters = getMeasuredParameters(dated);
+  const trends = wellIds.flatMap(wellId => parameters.flatMap((parameter): WellTrend[] => {
+    const measured = wells.get(wellId).filter(s => Number.isFinite(s.concentrations[parameter.key]));
+    const observations = measured
+      .map((sample): TrendObservation => ({
+        sampleId: sample.sampleId,
+        date: sample.date,
+        time: toDecimalYear(sample.date),
+        season: getDateSeason(sample.date),
+        value: sample.concentrations[parameter.key],
+        censored: Boolean(sample.censored[parameter.key]),
+      }))
+      .sort((a, b) => a.time - b.time);
+    const limits = new Map(measured
+      .filter(s => s.censored[parameter.key])
+      .map(s => [s.sampleId, s.censored[parameter.key].detectionLimit]));
+    const test = testTrend(observations, limits, settings);
+    return test ? [{ wellId, parameter: parameter.key, observations, test }] : [];
+  }));
+
+  return { settings, wellIds, trends };
+};
+
+/**
+ * Significant upward trends of a well
+ */
+export const getUpwardTrends = (model: TrendModel, wellId: string): WellTrend[] =>
+  model.trends.filter(t => t.wellId === wellId && t.test.direction === 'increasing');
+
+/**
+ * Overall direction of a well for maps: upward when any parameter trends up, else downward when any trends down
+ */
+export const getWellDirection = (model: TrendModel, wellId: string): TrendDirection | undefined => {
+  const trends = model.trends.filter(t => t.wellId === wellId);
+  if (trends.length === 0) return undefined;
+  if (trends.some(t => t.test.direction === 'increasing')) return 'increasing';
+  if (trends.some(t => t.test.direction === 'decreasing')) return 'decreasing';
+  return 'none';
+};
+
+export const formatPValue = (pValue: number): string =>
+  pValue < 0.001 ? '< 0.001' : pValue.toFixed(3);
@@ -0,0 +1,202 @@
+// Monte Carlo propagation of measurement uncertainty through the pollution indices and health risk
+
+import { StandardProfile } from "./standards";
+import { ClassifiableIndex, ClassificationScheme, classifySample } from "./classification";
+import { MetalConcentrations, calculateIndexValues, getAssessedLimits } from "./pollutionCalculations";
+import { COHORTS, Cohort, ExposureParameters, assessHealthRisk, getToxicParameters } from "./healthRisk";
+import { CensoredValue, SubstitutionPolicy, substituteCensored } from "./censoring";
+import { mean, quantile } from "./statistics";
+import type { HpiMethod } from "./analysisSettings";
+
+export interface UncertaintySettings {
+  enabled: boolean;
+  iterations: number;
+  confidenceLevel: number;             // Two-sided, e.g. 0.95
+  defaultRelativeUncertainty: number;  // Fraction of the value, used where the upload gives no uncertainty; 0 = none
+  borderlineThreshold: number;         // Borderline when the reported class has a lower probability than this
+}
+
+export const DEFAULT_UNCERTAINTY: UncertaintySettings = {
+  enabled: false,
+  iterations: 1000,
+  confidenceLevel: 0.95,
+  defaultRelativeUncertainty: 0.1,
+  borderlineThreshold: 0.8,
+};
+
+export const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+
+export interface ConfidenceInterval {
+  mean: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Everything a simulation depends on besides the sample. The profile and scheme are resolved beforehand, on the main
+ * thread where custom schemes are stored, so that simulations can run in a web worker.
+ */
+export interface UncertaintyOptions {
+  profile: StandardProfile;
+  scheme: ClassificationScheme;
+  hpiMethod: HpiMethod;
+  exposure: Record<Cohort, ExposureParameters>;
+  substitution: SubstitutionPolicy;
+  uncertainty: UncertaintySettings;
+}
+
+// The parts of an uploaded sample a simulation reads; concentrations are as reported, before non-detect substitution
+export interface UncertaintySample {
+  sampleId: string;
+  concentrations: MetalConcentrations;
+  censored: Record<string, CensoredValue>;
+  uncertainties: Record<string, number>;
+}
+
+// Samples sent to the uncertainty worker, and its replies: progress while simulating, then one result per sample
+export interface UncertaintyJob {
+  samples: UncertaintySample[];
+  options: UncertaintyOptions;
+}
+
+export type UncertaintyWorkerMessage =
+  | { type: 'progress'; done: number }
+  | { type: 'done'; results: (UncertaintyResult | undefined)[] };
+
+export interface UncertaintyResult {
+  iterations: number;
+  confidenceLevel: number;
+  defaultRelativeUncertainty: number;
+  borderlineThreshold: number;
+  indices: Record<ClassifiableIndex, ConfidenceInterval>;
+  hazardIndex: Record<Cohort, ConfidenceInterval>;
+  cancerRisk: Record<Cohort, ConfidenceInterval>;
+  classProbabilities: Record<string, number>;  // By class id of the classification scheme
+  borderline: boolean;
+}
+
+/**
+ * Recognise an uncertainty column such as "Pb SD", "As_unc", "Lead ± (%)", "Cd RSD" or "u(Pb)".
+ * Returns the parameter part of the header and whether the values are relative (%).
+ */
+export const splitUncertaintyHeader = (header: string): { name: string; relative: boolean } | undefined => {
+  const text = header.trim();
+  const relative = /%|rsd|percent|pct/i.test(text);
+
+  const wrapped = text.match(/^u\s*\((.+)\)\s*(\(%\)|%)?$/i);
+  if (wrapped) return { name: wrapped[1].trim(), relative };
+
+  const suffixed = text.match(/^(.+?)(?:\s*(?:±|\+\/-)|[\s_-]+(?:unc|uncertainty|sd|stdev|std|err|error|rsd))[\s_-]*(?:\(%\)|\[%\]|%|pct|percent)?$/i);
+  return suffixed ? { name: suffixed[1].trim(), relative } : undefined;
+};
+
+/**
+ * Parse an uncertainty cell; a trailing % makes the value relative regardless of the header
+ */
+export const parseUncertainty = (raw: string, relative: boolean): { value: number; relative: boolean } | undefined => {
+  const text = raw.trim().replace(/^±\s*/, '');
+  const percent = text.endsWith('%');
+  const value = Number(percent ? text.slice(0, -1) : text);
+  if (text === '' || !Number.isFinite(value) || value < 0) return undefined;
+  return { value, relative: relative || percent };
+};
+
+// Small seeded generator (mulberry32) so a sample's intervals are stable between re-renders
+const createRandom = (seedText: string): (() => number) => {
+  let seed = 0;
+  for (let i = 0; i < seedText.length; i++) seed = Math.imul(31, seed) + seedText.charCodeAt(i) | 0;
+  return () => {
+    seed = seed + 0x6D2B79F5 | 0;
+    let t = Math.imul(seed ^ seed >>> 15, 1 | seed);
+    t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal deviate by the Box–Muller transform
+const normalDeviate = (random: () => number): number =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+const toInterval = (values: number[], confidenceLevel: number): ConfidenceInterval => {
+  const tail = (1 - confidenceLevel) / 2;
+  return { mean: mean(values), lower: quantile(values, tail), upper: quantile(values, 1 - tail) };
+};
+
+/**
+ * Propagate concentration uncertainty by Monte Carlo simulation.
+ * Measured values are drawn from normal distributions truncated at zero; non-detects are drawn
+ * uniformly between zero and the detection limit. Returns undefined when nothing is uncertain.
+ */
+export const simulateUncertainty = (
+  sample: UncertaintySample,
+  options: UncertaintyOptions
+): UncertaintyResult | undefined => {
+  const { iterations, confidenceLevel, defaultRelativeUncertainty, borderlineThreshold } = options.uncertainty;
+  const concentrations = substituteCensored(sample, options.substitution);
+  const keys = Object.keys(concentrations);
+  const spread = Object.fromEntries(keys.map(key => [
+    key,
+    sample.uncertainties[key] ?? concentrations[key] * defaultRelativeUncertainty,
+  ]));
+  if (!keys.some(key => sample.censored[key] || spread[key] > 0)) return undefined;
+
+  // Every draw has the same parameters, so limits and toxicity values are looked up once rather than per draw
+  const { scheme } = options;
+  const limits = getAssessedLimits(concentrations, options.profile);
+  const toxic = getToxicParameters(concentrations);
+  const reportedStatus = classifySample(calculateIndexValues(concentrations, limits, options.hpiMethod), scheme).classId;
+  const random = createRandom(sample.sampleId);
+
+  const draws: Record<ClassifiableIndex, number[]> = { hpi: [], mi: [], cd: [], hei: [], nemerow: [] };
+  const hazardDraws: Record<Cohort, number[]> = { adult: [], child: [] };
+  const cancerDraws: Record<Cohort, number[]> = { adult: [], child: [] };
+  const classCounts: Record<string, number> = Object.fromEntries(scheme.classes.map(c => [c.id, 0]));
+
+  for (let i = 0; i < iterations; i++) {
+    const metals: MetalConcentrations = Object.fromEntries(keys.map(key => {
+      const censored = sample.censored[key];
+      if (censored) return [key, random() * censored.detectionLimit];
+      return [key, Math.max(0, concentrations[key] + spread[key] * normalDeviate(random))];
+    }));
+
+    const values = calculateIndexValues(metals, limits, options.hpiMethod);
+    (Object.keys(values) as ClassifiableIndex[]).forEach(index => draws[index].push(values[index]));
+    classCounts[classifySample(values, scheme).classId]++;
+
+    const risk = assessHealthRisk(metals, options.exposure, toxic);
+    COHORTS.forEach(cohort => {
+      hazardDraws[cohort.id].push(risk[cohort.id].hazardIndex);
+      cancerDraws[cohort.id].push(risk[cohort.id].totalCancerRisk);
+    });
+  }
+
+  const classProbabilities = Object.fromEntries(
+    Object.entries(classCounts).map(([classId, count]) => [classId, count / iterations])
+  );
+
+  return {
+    iterations,
+    confidenceLevel,
+    defaultRelativeUncertainty,
+    borderlineThreshold,
+    indices: Object.fromEntries(
+      (Object.keys(draws) as ClassifiableIndex[]).map(index => [index, toInterval(draws[index], confidenceLevel)])
+    ) as Record<ClassifiableIndex, ConfidenceInterval>,
+    hazardIndex: {
+      adult: toInterval(hazardDraws.adult, confidenceLevel),
+      child: toInterval(hazardDraws.child, confidenceLevel),
+    },
+    cancerRisk: {
+      adult: toInterval(cancerDraws.adult, confidenceLevel),
+      child: toInterval(cancerDraws.child, confidenceLevel),
+    },
+    classProbabilities,
+    borderline: (classProbabilities[reportedStatus] ?? 0) < borderlineThreshold,
+  };
+};
+
+/**
+ * Format an interval as "lower–upper" for tables and exports
+ */
+export const formatInterval = (interval: ConfidenceInterval, format: (value: number) => string = v => v.toFixed(2)): string =>
+  `${format(interval.lower)}–${format(interval.upper)}`;
@@ -0,0 +1,24 @@
+// Web worker running Monte Carlo uncertainty simulations off the main thread; see useUncertainty
+
+import { UncertaintyJob, UncertaintyResult, UncertaintyWorkerMessage, simulateUncertainty } from "./uncertainty";
+
+// Minimum time between progress messages
+const PROGRESS_INTERVAL_MS = 100;
+
+const reply = (message: UncertaintyWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<UncertaintyJob>) => {
+  const { samples, options } = event.data;
+  const results: (UncertaintyResult | undefined)[] = [];
+  let reportedAt = Date.now();
+
+  samples.forEach(sample => {
+    results.push(simulateUncertainty(sample, options));
+    if (Date.now() - reportedAt >= PROGRESS_INTERVAL_MS) {
+      reportedAt = Date.now();
+      reply({ type: 'progress', done: results.length });
+    }
+  });
+
+  reply({ type: 'done', results });
+};
@@ -0,0 +1,101 @@
+// Concentration units: detection from column headers and conversion to canonical units
+
+import type { ParameterDefinition } from "./parameters";
+
+export type ConcentrationUnit = 'mg/L' | 'ppm' | 'µg/L' | 'ppb' | 'µmol/L' | 'meq/L';
+
+export interface UnitDefinition {
+  id: ConcentrationUnit;
+  label: string;
+  aliases: string[];  // Spellings recognised in headers, after normaliseUnit
+}
+
+// Dilute aqueous solutions: 1 ppm ≈ 1 mg/L and 1 ppb ≈ 1 µg/L
+export const UNITS: UnitDefinition[] = [
+  { id: 'mg/L', label: 'mg/L', aliases: ['mg/l', 'mgl', 'mgl-1', 'mg/dm3'] },
+  { id: 'ppm', label: 'ppm', aliases: ['ppm'] },
+  { id: 'µg/L', label: 'µg/L', aliases: ['ug/l', 'ugl', 'ugl-1', 'ug/dm3'] },
+  { id: 'ppb', label: 'ppb', aliases: ['ppb'] },
+  { id: 'µmol/L', label: 'µmol/L', aliases: ['umol/l', 'umoll', 'umol'] },
+  { id: 'meq/L', label: 'meq/L', aliases: ['meq/l', 'meql', 'meq'] },
+];
+
+// Canonical unit of every registered concentration (see parameters.ts)
+export const CANONICAL_UNIT: ConcentrationUnit = 'mg/L';
+
+// Lowercase and spell micro as "u" (both the micro sign and the Greek letter mu are used)
+const normaliseUnit = (text: string): string =>
+  text.trim().toLowerCase().replace(/[µμ]/g, 'u').replace(/\s+/g, '');
+
+const findUnit = (text: string): ConcentrationUnit | undefined =>
+  UNITS.find(unit => unit.aliases.includes(normaliseUnit(text)))?.id;
+
+/**
+ * Split a header such as "Pb (µg/L)", "Lead [ppb]", "As_ppb" or "Fe mg/L" into the parameter name and its unit
+ */
+export const splitHeaderUnit = (header: string): { name: string; unit?: ConcentrationUnit } => {
+  const bracketed = header.match(/^(.*?)[([]\s*([^)\]]+?)\s*[)\]]\s*$/);
+  if (bracketed) {
+    const unit = findUnit(bracketed[2]);
+    if (unit) return { name: bracketed[1].trim(), unit };
+  }
+
+  const suffixed = header.match(/^(.*?)[\s_-]+([^\s_-]+)$/);
+  if (suffixed) {
+    const unit = findUnit(suffixed[2]);
+    if (unit) return { name: suffixed[1].trim(), unit };
+  }
+
+  return { name: header.trim() };
+};
+
+/**
+ * Units a parameter can be reported in: none for pH and conductivity, which are not concentrations,
+ * no molar unit for bulk properties without a molar mass such as TDS, and meq/L for major ions only
+ */
+export const getParameterUnits = (parameter: ParameterDefinition): UnitDefinition[] =>
+  parameter.unit !== CANONICAL_UNIT ? [] : UNITS.filter(unit =>
+    (unit.id !== 'µmol/L' || parameter.molarMass) && (unit.id !== 'meq/L' || parameter.charge));
+
+/**
+ * Factor that converts a value in `unit` to mg/L for the given parameter
+ */
+const toCanonicalFactor = (unit: ConcentrationUnit, parameter: ParameterDefinition): number => {
+  if (!getParameterUnits(parameter).some(u => u.id === unit)) return 1;
+  switch (unit) {
+    case 'µg/L':
+    case 'ppb':
+      return 0.001;
+    case 'µmol/L':
+      return parameter.molarMass / 1000;
+    case 'meq/L':
+      return parameter.molarMass / Math.abs(parameter.charge);
+    default:
+      return 1;
+  }
+};
+
+export const toCanonical = (value: number, unit: ConcentrationUnit, parameter: ParameterDefinition): number =>
+  value * toCanonicalFactor(unit, parameter);
+
+export const fromCanonical = (value: number, unit: ConcentrationUnit, parameter: ParameterDefinition): number =>
+  value / toCanonicalFactor(unit, parameter);
+
+// How far a column median may sit from the guideline value before the unit is questioned
+const UNIT_MISTAKE_RATIO = 300;
+
+/**
+ * Warn when a column's median suggests µg/L values were declared or assumed as mg/L
+ */
+export const checkUnitPlausibility = (
+  parameter: ParameterDefinition,
+  unit: ConcentrationUnit,
+  canonicalMedian: number
+): string | undefined => {
+  if (!Number.isFinite(canonicalMedian) || toCanonicalFactor(unit, parameter) !== 1) return undefined;
+
+  const ratio = canonicalMedian / parameter.standard;
+  return ratio >= UNIT_MISTAKE_RATIO
+    ? `${parameter.name} median is ${Math.round(ratio).toLocaleString()}× the guideline value; the column may be in µg/L rather than ${unit}`
+    : undefined;
+};
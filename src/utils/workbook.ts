@@ -0,0 +1,174 @@
+// Spreadsheet import: workbook sheets as text grids, header and data row detection, and rows for upload validation
+
+import type { CellValue } from "exceljs";
+import { splitHeaderUnit } from "./units";
+
+export interface WorkbookSheet {
+  name: string;
+  cells: string[][];  // Cell text by row and column from A1; merged ranges repeat their value in every cell
+}
+
+export interface SheetImportOptions {
+  sheet: string;
+  headerRow: number;      // 1-based row holding the column headers
+  headerRows: 1 | 2;      // Two when units or parameter names sit in a second header row
+  lastRow: number;        // 1-based last data row; footer notes below it are skipped
+}
+
+export interface SheetRows {
+  headers: string[];
+  rows: Record<string, string>[];
+  errors: string[];
+}
+
+// Office Open XML workbooks, read with exceljs
+export const WORKBOOK_EXTENSIONS = ['.xlsx', '.xlsm'];
+
+// Not supported: exceljs does not read the binary Excel 97–2003 format, and no maintained parser for it is published
+// on npm, so these are rejected with a request to save the file as .xlsx or CSV
+export const UNSUPPORTED_WORKBOOK_EXTENSIONS = ['.xls', '.ods'];
+
+// Rows searched for the header row
+const HEADER_SEARCH_ROWS = 30;
+
+export const isWorkbookFile = (fileName: string): boolean =>
+  WORKBOOK_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+export const isUnsupportedWorkbookFile = (fileName: string): boolean =>
+  UNSUPPORTED_WORKBOOK_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+/**
+ * Text of a cell value: formulas give their cached result, rich text and hyperlinks their text, and dates an ISO date
+ */
+const cellText = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (typeof value === 'string') return value.trim();
+  if ('result' in value) return cellText(value.result as CellValue);
+  if ('richText' in value) return value.richText.map(part => part.text).join('').trim();
+  if ('text' in value) return cellText(value.text as CellValue);
+  if ('error' in value) return value.error;
+  return '';
+};
+
+/**
+ * Read every sheet of a workbook. Numbers keep their stored value rather than their displayed, locale-formatted
+ * text, date cells become ISO dates and merged ranges repeat their value in every cell. The spreadsheet library is
+ * loaded on first use.
+ */
+export const readWorkbook = async (buffer: ArrayBuffer): Promise<WorkbookSheet[]> => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  return workbook.worksheets.map(sheet => ({
+    name: sheet.name,
+    cells: Array.from({ length: sheet.rowCount }, (_, r) =>
+      Array.from({ length: sheet.columnCount }, (__, c) => cellText(sheet.getCell(r + 1, c + 1).value))),
+  }));
+};
+
+/**
+ * Spreadsheet-style column letter of a 0-based index: 0 → A, 26 → AA
+ */
+export const columnLetter = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : columnLetter(Math.floor(index / 26) - 1) + columnLetter(index % 26);
+
+const filledCount = (row: string[] = []) => row.filter(value => value !== '').length;
+
+// Distinct values rather than filled cells, so a note merged across the width of the table counts once
+const distinctCount = (row: string[] = []) => new Set(row.filter(value => value !== '')).size;
+
+// Fewest distinct values of a data row: a sample ID and its coordinates
+const MIN_DATA_VALUES = 3;
+
+const isNumeric = (value: string) => value !== '' && Number.isFinite(Number(value));
+
+/**
+ * Header row: among the first rows, the one with the most text cells, preferring a row that names the coordinates.
+ * Title rows above it hold a single (often merged) cell and lose out.
+ */
+export const detectHeaderRow = (cells: string[][]): number => {
+  const candidates = cells.slice(0, HEADER_SEARCH_ROWS).map((row, index) => {
+    const distinct = new Set(row.filter(value => value !== '' && !isNumeric(value)));
+    return {
+      row: index + 1,
+      score: distinct.size + (row.some(value => /lat/i.test(value)) && row.some(value => /lon/i.test(value)) ? 100 : 0),
+    };
+  });
+  return candidates.sort((a, b) => b.score - a.score || a.row - b.row)[0]?.row ?? 1;
+};
+
+/**
+ * Last data row: footer notes ("Analysed by…", "BDL: below detection limit") hold only one or two distinct values,
+ * so trailing rows with fewer than MIN_DATA_VALUES are skipped
+ */
+export const detectLastDataRow = (cells: string[][], headerRow: number, headerRows: 1 | 2 = 1): number => {
+  for (let row = cells.length; row >= headerRow + headerRows; row--) {
+    if (distinctCount(cells[row - 1]) >= MIN_DATA_VALUES) return row;
+  }
+  return headerRow + headerRows - 1;
+};
+
+/**
+ * Whether the row below the header continues it: units ("mg/L", "µg/L") under the names, or parameter names under a
+ * group label merged across their columns
+ */
+export const hasSecondHeaderRow = (cells: string[][], headerRow: number): boolean => {
+  const labels = (cells[headerRow - 1] ?? []).filter(value => value !== '');
+  const next = cells[headerRow] ?? [];
+  if (next.some(value => value !== '' && Boolean(splitHeaderUnit(`x (${value})`).unit))) return true;
+  return new Set(labels).size < labels.length && filledCount(next) > 0 && !next.some(isNumeric);
+};
+
+export const detectSheetImport = (sheet: WorkbookSheet): SheetImportOptions => {
+  const headerRow = detectHeaderRow(sheet.cells);
+  const headerRows = hasSecondHeaderRow(sheet.cells, headerRow) ? 2 : 1;
+  return { sheet: sheet.name, headerRow, headerRows, lastRow: detectLastDataRow(sheet.cells, headerRow, headerRows) };
+};
+
+/**
+ * Header of a column spread over two rows. A unit below a name becomes "Name (unit)"; a group label merged across
+ * several columns above the names ("Heavy metals") is dropped in favour of the name below it; other pairs are joined.
+ */
+const combineHeader = (upper: string[], lower: string[], c: number): string => {
+  const [top, bottom] = [upper[c] ?? '', lower[c] ?? ''];
+  if (!bottom || bottom === top) return top;
+  if (!top) return bottom;
+  if (splitHeaderUnit(`x (${bottom})`).unit) return `${top} (${bottom})`;
+  const spansColumns = upper[c - 1] === top || upper[c + 1] === top;
+  return spansColumns ? bottom : `${top} ${bottom}`;
+};
+
+/**
+ * Rows of a sheet keyed by header, for the same validation as CSV uploads. Blank rows are skipped; empty and
+ * duplicate headers are reported by cell.
+ */
+export const getSheetRows = (sheet: WorkbookSheet, options: SheetImportOptions): SheetRows => {
+  const errors: string[] = [];
+  const upper = sheet.cells[options.headerRow - 1] ?? [];
+  const lower = options.headerRows === 2 ? sheet.cells[options.headerRow] ?? [] : [];
+  const width = Math.max(upper.length, lower.length);
+  const names = Array.from({ length: width }, (_, c) => combineHeader(upper, lower, c));
+
+  const body = sheet.cells
+    .slice(options.headerRow - 1 + options.headerRows, options.lastRow)
+    .filter(row => filledCount(row) > 0);
+
+  names.forEach((name, c) => {
+    const cell = `${columnLetter(c)}${options.headerRow}`;
+    if (name === '' && body.some(row => (row[c] ?? '') !== '')) {
+      errors.push(`Cell ${cell}: column has values but no header`);
+    } else if (name !== '' && names.indexOf(name) !== c) {
+      errors.push(`Cell ${cell}: duplicate column "${name}"`);
+    }
+  });
+
+  const headers = names.filter(name => name !== '');
+  const rows = body.map(row => Object.fromEntries(names
+    .map((name, c) => [name, row[c] ?? ''])
+    .filter(([name]) => name !== '')));
+
+  return { headers, rows, errors };
+};
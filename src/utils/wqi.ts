@@ -0,0 +1,164 @@
+// Water Quality Index (WQI) for major ions and physico-chemical parameters
+
+import { PARAMETERS, ParameterDefinition } from "./parameters";
+import { StandardProfile, getParameterLimit, getStandardProfile } from "./standards";
+import type { ClassDefinition, ClassificationResult } from "./classification";
+import type { MetalConcentrations } from "./pollutionCalculations";
+import type { AnalysisSettings } from "./analysisSettings";
+
+export type WqiMethod = 'weighted-arithmetic' | 'entropy';
+
+export interface WqiScore extends ClassificationResult {
+  value: number;
+}
+
+export interface WaterQualityIndex {
+  scores: Record<WqiMethod, WqiScore>;
+  parameters: string[];                    // Registry keys of the parameters the sample was scored on
+  entropyWeights: Record<string, number>;  // Dataset-wide entropy weights, summing to 1
+  standardProfileId: string;               // Standard profile the sub-indices were computed against
+}
+
+// Shared five-class scale, least to most severe
+export const WQI_CLASSES: ClassDefinition[] = [
+  { id: 'excellent', label: 'Excellent', color: '#15803d' },
+  { id: 'good', label: 'Good', color: '#65a30d' },
+  { id: 'poor', label: 'Poor', color: '#ca8a04' },
+  { id: 'very-poor', label: 'Very poor', color: '#ea580c' },
+  { id: 'unsuitable', label: 'Unsuitable', color: '#dc2626' },
+];
+
+export interface WqiMethodDefinition {
+  id: WqiMethod;
+  label: string;
+  shortLabel: string;
+  description: string;
+  upperBounds: number[];  // Inclusive upper bound of each class in WQI_CLASSES except the last
+}
+
+export const WQI_METHODS: WqiMethodDefinition[] = [
+  {
+    id: 'weighted-arithmetic',
+    label: 'Weighted arithmetic WQI',
+    shortLabel: 'WQI',
+    description: 'WQI = ΣWi·Qi / ΣWi with unit weights Wi = K/Si and sub-index Qi = 100·|Vi − V0| / (Si − V0); ' +
+      'excellent ≤ 25, good ≤ 50, poor ≤ 75, very poor ≤ 100, unsuitable > 100 (Brown et al., 1972)',
+    upperBounds: [25, 50, 75, 100],
+  },
+  {
+    id: 'entropy',
+    label: 'Entropy-weighted WQI',
+    shortLabel: 'EWQI',
+    description: 'EWQI = Σwj·qj with weights from the information entropy of each parameter across the dataset; ' +
+      'excellent < 50, good < 100, poor < 150, very poor < 200, unsuitable ≥ 200 (Amiri et al., 2014)',
+    upperBounds: [50, 100, 150, 200],
+  },
+];
+
+// Ideal value V0 where it is not zero: pure water is neutral
+const IDEAL_VALUES: Record<string, number> = { ph: 7 };
+
+export const getWqiMethod = (id: WqiMethod) =>
+  WQI_METHODS.find(m => m.id === id) ?? WQI_METHODS[0];
+
+/**
+ * Registered major-ion and physico-chemical parameters present in a sample, in registry order
+ */
+const getWqiParameters = (concentrations: MetalConcentrations): ParameterDefinition[] =>
+  PARAMETERS.filter(p => p.category !== 'heavy-metal' && Number.isFinite(concentrations[p.key]));
+
+/**
+ * Quality rating of one parameter: 100 at the acceptable limit, 0 at the ideal value
+ */
+const getSubIndex = (parameter: ParameterDefinition, value: number, profile: StandardProfile): number => {
+  const ideal = IDEAL_VALUES[parameter.key] ?? 0;
+  return 100 * Math.abs(value - ideal) / (getParameterLimit(profile, parameter).acceptable - ideal);
+};
+
+export const classifyWqi = (method: WqiMethod, value: number): ClassificationResult => {
+  const { upperBounds } = getWqiMethod(method);
+  const exclusive = method === 'entropy';
+  const bound = upperBounds.findIndex(max => (exclusive ? value < max : value <= max));
+  const rank = bound === -1 ? WQI_CLASSES.length - 1 : bound;
+  const { id, label, color } = WQI_CLASSES[rank];
+  return { classId: id, label, color, rank };
+};
+
+/**
+ * Entropy weight of each parameter across the dataset (Amiri et al., 2014): sub-indices are min–max
+ * normalised, parameters that vary more between samples carry more information and get more weight.
+ * Falls back to equal weights when the dataset is too small or uniform to tell parameters apart.
+ */
+export const calculateEntropyWeights = (
+  samples: MetalConcentrations[],
+  settings: Pick<AnalysisSettings, 'standardProfileId'>
+): Record<string, number> => {
+  const profile = getStandardProfile(settings.standardProfileId);
+  const parameters = PARAMETERS.filter(p =>
+    p.category !== 'heavy-metal' && samples.some(s => Number.isFinite(s[p.key])));
+
+  const divergence = parameters.map(parameter => {
+    const ratings = samples
+      .filter(s => Number.isFinite(s[parameter.key]))
+      .map(s => getSubIndex(parameter, s[parameter.key], profile));
+    const min = Math.min(...ratings);
+    const max = Math.max(...ratings);
+    if (ratings.length < 2 || max === min) return 0;
+
+    const normalised = ratings.map(q => (q - min) / (max - min));
+    const total = normalised.reduce((sum, y) => sum + y, 0);
+    const entropy = -normalised.reduce((sum, y) => {
+      const p = y / total;
+      return p > 0 ? sum + p * Math.log(p) : sum;
+    }, 0) / Math.log(ratings.length);
+    return 1 - entropy;
+  });
+
+  const totalDivergence = divergence.reduce((sum, d) => sum + d, 0);
+  return Object.fromEntries(parameters.map((parameter, i) => [
+    parameter.key,
+    totalDivergence > 0 ? divergence[i] / totalDivergence : 1 / parameters.length,
+  ]));
+};
+
+const toScore = (method: WqiMethod, value: number): WqiScore => ({
+  value: Number(value.toFixed(2)),
+  ...classifyWqi(method, value),
+});
+
+/**
+ * Calculate both water quality indices for a sample; undefined when no WQI parameter was measured.
+ * Entropy weights are renormalised over the parameters the sample has.
+ */
+export const calculateWQI = (
+  concentrations: MetalConcentrations,
+  entropyWeights: Record<string, number>,
+  settings: Pick<AnalysisSettings, 'standardProfileId'>
+): WaterQualityIndex | undefined => {
+  const parameters = getWqiParameters(concentrations);
+  if (!parameters.length) return undefined;
+
+  const profile = getStandardProfile(settings.standardProfileId);
+  const ratings = parameters.map(parameter => getSubIndex(parameter, concentrations[parameter.key], profile));
+
+  // Unit weights Wi = K / Si; K cancels in the ratio
+  const unitWeights = parameters.map(parameter => 1 / getParameterLimit(profile, parameter).acceptable);
+  const totalUnitWeight = unitWeights.reduce((sum, w) => sum + w, 0);
+  const weighted = unitWeights.reduce((sum, w, i) => sum + w * ratings[i], 0) / totalUnitWeight;
+
+  const weights = parameters.map(parameter => entropyWeights[parameter.key] ?? 0);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const entropy = totalWeight > 0
+    ? weights.reduce((sum, w, i) => sum + w * ratings[i], 0) / totalWeight
+    : ratings.reduce((sum, q) => sum + q, 0) / ratings.length;
+
+  return {
+    scores: {
+      'weighted-arithmetic': toScore('weighted-arithmetic', weighted),
+      entropy: toScore('entropy', entropy),
+    },
+    parameters: parameters.map(p => p.key),
+    entropyWeights,
+    standardProfileId: profile.id,
+  };
+};